@@ -8,7 +8,7 @@
  */
 
 import { loadConfig } from './config/loader.js';
-import { createServer, startServer } from './mcp/server.js';
+import { createServer, runStartupPhase, startServer } from './mcp/server.js';
 import type { ServerConfig } from './config/schema.js';
 import { INVALID_ARGUMENTS_ERROR, NULL_OR_UNDEFINED_ARGUMENTS_ERROR } from './constants.js';
 import fs from 'fs/promises';
@@ -24,6 +24,8 @@ export interface CliArgs {
   username?: string;
   privateKeyPath?: string;
   passphrase?: string;
+  passphraseEnv?: string;
+  passphraseFile?: string;
   shell?: 'bash' | 'sh' | 'powershell' | 'cmd';
   help?: boolean;
   version?: boolean;
@@ -67,7 +69,10 @@ export function parseCliArgs(args: string[]): CliArgs {
     }
 
     // Check if this is a recognized argument that requires a value
-    const knownArgs = ['--config', '-c', '--host', '--port', '--username', '--key', '--passphrase', '--shell'];
+    const knownArgs = [
+      '--config', '-c', '--host', '--port', '--username', '--key',
+      '--passphrase', '--passphrase-env', '--passphrase-file', '--shell',
+    ];
     if (!knownArgs.includes(arg)) {
       throw new Error(`${INVALID_ARGUMENTS_ERROR}: unknown argument: ${arg}`);
     }
@@ -115,6 +120,18 @@ export function parseCliArgs(args: string[]): CliArgs {
     } else if (arg === '--passphrase') {
       result.passphrase = value;
       i += 2;
+    } else if (arg === '--passphrase-env') {
+      if (!value || value.trim() === '') {
+        throw new Error(`${INVALID_ARGUMENTS_ERROR}: passphrase environment variable cannot be empty`);
+      }
+      result.passphraseEnv = value;
+      i += 2;
+    } else if (arg === '--passphrase-file') {
+      if (!value || value.trim() === '') {
+        throw new Error(`${INVALID_ARGUMENTS_ERROR}: passphrase file path cannot be empty`);
+      }
+      result.passphraseFile = value;
+      i += 2;
     } else if (arg === '--shell') {
       if (!['bash', 'sh', 'powershell', 'cmd'].includes(value)) {
         throw new Error(`${INVALID_ARGUMENTS_ERROR}: shell must be one of: bash, sh, powershell, cmd`);
@@ -169,6 +186,12 @@ export function mergeConfigWithArgs(config: ServerConfig, args: CliArgs): Server
   if (args.passphrase !== undefined) {
     merged.target = { ...merged.target, passphrase: args.passphrase };
   }
+  if (args.passphraseEnv !== undefined) {
+    merged.target = { ...merged.target, passphrase: { env: args.passphraseEnv } };
+  }
+  if (args.passphraseFile !== undefined) {
+    merged.target = { ...merged.target, passphrase: { file: args.passphraseFile } };
+  }
   if (args.shell !== undefined) {
     merged.target = { ...merged.target, shell: args.shell };
   }
@@ -192,6 +215,8 @@ Options:
   --username <username>     Override SSH username
   --key <path>              Override SSH private key path
   --passphrase <phrase>     Override SSH key passphrase
+  --passphrase-env <var>    Read SSH key passphrase from an environment variable
+  --passphrase-file <path>  Read SSH key passphrase from a file (must be chmod 600)
   --shell <type>            Override shell type (bash|sh|powershell|cmd)
   -h, --help                Show this help message
   -v, --version             Show version number
@@ -297,6 +322,7 @@ export async function startCli(argv: string[]): Promise<void> {
     const mergedConfig = mergeConfigWithArgs(config, args);
 
     const server = createServer(mergedConfig);
+    await runStartupPhase(server, mergedConfig.startup);
     await startServer(server, { registerSignalHandlers: true });
 
     console.error(`SSH Control MCP server started for ${mergedConfig.target.host}`);
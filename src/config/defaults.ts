@@ -1,10 +1,14 @@
-import { TIMEOUTS, BUFFER_LIMITS, SSH_CONFIG } from '../ssh/constants.js';
+import { TIMEOUTS, BUFFER_LIMITS, SSH_CONFIG, RECONNECT } from '../ssh/constants.js';
 import type {
   TimeoutsConfig,
   BuffersConfig,
   SecurityConfig,
   AuditConfig,
   LoggingConfig,
+  ReconnectConfig,
+  CircuitBreakerConfig,
+  ChannelsConfig,
+  StartupConfig,
   ServerConfig,
   SSHTargetConfig,
 } from './schema.js';
@@ -18,6 +22,7 @@ export const DEFAULT_TIMEOUTS: Required<TimeoutsConfig> = {
   session: TIMEOUTS.DEFAULT_SESSION,
   connection: TIMEOUTS.CONNECTION,
   keepAlive: TIMEOUTS.KEEP_ALIVE_INTERVAL,
+  idleConnection: TIMEOUTS.IDLE_CONNECTION,
 };
 
 /**
@@ -39,6 +44,7 @@ export const DEFAULT_SECURITY: Required<SecurityConfig> = {
   maxSessions: 10,
   sessionTimeout: TIMEOUTS.DEFAULT_SESSION,
   maxConnectionsPerHost: SSH_CONFIG.MAX_CONNECTIONS_PER_HOST,
+  maxConnections: SSH_CONFIG.MAX_CONNECTIONS,
 };
 
 /**
@@ -65,6 +71,43 @@ export const DEFAULT_LOGGING: Required<LoggingConfig> = {
   audit: DEFAULT_AUDIT,
 };
 
+/**
+ * Default reconnect settings
+ * Three attempts with exponential backoff from one second
+ */
+export const DEFAULT_RECONNECT: Required<ReconnectConfig> = {
+  maxAttempts: RECONNECT.MAX_ATTEMPTS,
+  initialDelay: RECONNECT.INITIAL_DELAY,
+  maxDelay: RECONNECT.MAX_DELAY,
+};
+
+/**
+ * Default circuit breaker settings
+ * Fail fast for a minute after five consecutive failures
+ */
+export const DEFAULT_CIRCUIT_BREAKER: Required<CircuitBreakerConfig> = {
+  failureThreshold: RECONNECT.FAILURE_THRESHOLD,
+  resetTimeout: RECONNECT.RESET_TIMEOUT,
+};
+
+/**
+ * Default channel scheduling settings
+ * Matches the OpenSSH MaxSessions default and queues instead of opening more connections
+ */
+export const DEFAULT_CHANNELS: Required<ChannelsConfig> = {
+  maxPerConnection: SSH_CONFIG.MAX_CHANNELS_PER_CONNECTION,
+  spillover: false,
+};
+
+/**
+ * Default startup settings
+ * The target is connected to on first use, so the server starts without it
+ */
+export const DEFAULT_STARTUP: Required<StartupConfig> = {
+  prewarm: false,
+  failFast: false,
+};
+
 /**
  * Create a complete default configuration with specified target
  *
@@ -96,6 +139,10 @@ export function createDefaultConfig(
     buffers: DEFAULT_BUFFERS,
     security: DEFAULT_SECURITY,
     logging: DEFAULT_LOGGING,
+    reconnect: DEFAULT_RECONNECT,
+    circuitBreaker: DEFAULT_CIRCUIT_BREAKER,
+    channels: DEFAULT_CHANNELS,
+    startup: DEFAULT_STARTUP,
   };
 }
 
@@ -128,6 +175,7 @@ export function mergeWithDefaults(config: ServerConfig): ServerConfig {
           session: config.timeouts.session ?? DEFAULT_TIMEOUTS.session,
           connection: config.timeouts.connection ?? DEFAULT_TIMEOUTS.connection,
           keepAlive: config.timeouts.keepAlive ?? DEFAULT_TIMEOUTS.keepAlive,
+          idleConnection: config.timeouts.idleConnection ?? DEFAULT_TIMEOUTS.idleConnection,
         }
       : DEFAULT_TIMEOUTS,
     buffers: config.buffers
@@ -143,6 +191,7 @@ export function mergeWithDefaults(config: ServerConfig): ServerConfig {
           maxSessions: config.security.maxSessions ?? DEFAULT_SECURITY.maxSessions,
           sessionTimeout: config.security.sessionTimeout ?? DEFAULT_SECURITY.sessionTimeout,
           maxConnectionsPerHost: config.security.maxConnectionsPerHost ?? DEFAULT_SECURITY.maxConnectionsPerHost,
+          maxConnections: config.security.maxConnections ?? DEFAULT_SECURITY.maxConnections,
         }
       : DEFAULT_SECURITY,
     logging: config.logging
@@ -162,5 +211,40 @@ export function mergeWithDefaults(config: ServerConfig): ServerConfig {
             : DEFAULT_AUDIT,
         }
       : DEFAULT_LOGGING,
+    reconnect: config.reconnect
+      ? {
+          maxAttempts: config.reconnect.maxAttempts ?? DEFAULT_RECONNECT.maxAttempts,
+          initialDelay: config.reconnect.initialDelay ?? DEFAULT_RECONNECT.initialDelay,
+          maxDelay: config.reconnect.maxDelay ?? DEFAULT_RECONNECT.maxDelay,
+        }
+      : DEFAULT_RECONNECT,
+    circuitBreaker: config.circuitBreaker
+      ? {
+          failureThreshold: config.circuitBreaker.failureThreshold ?? DEFAULT_CIRCUIT_BREAKER.failureThreshold,
+          resetTimeout: config.circuitBreaker.resetTimeout ?? DEFAULT_CIRCUIT_BREAKER.resetTimeout,
+        }
+      : DEFAULT_CIRCUIT_BREAKER,
+    channels: config.channels
+      ? {
+          maxPerConnection: config.channels.maxPerConnection ?? DEFAULT_CHANNELS.maxPerConnection,
+          spillover: config.channels.spillover ?? DEFAULT_CHANNELS.spillover,
+        }
+      : DEFAULT_CHANNELS,
+    startup: config.startup
+      ? {
+          prewarm: config.startup.prewarm ?? DEFAULT_STARTUP.prewarm,
+          failFast: config.startup.failFast ?? DEFAULT_STARTUP.failFast,
+        }
+      : DEFAULT_STARTUP,
+    ...(config.sshConfig
+      ? {
+          sshConfig: {
+            enabled: config.sshConfig.enabled ?? true,
+            path: config.sshConfig.path ?? SSH_CONFIG.DEFAULT_SSH_CONFIG_PATH,
+          },
+        }
+      : {}),
+    ...(config.profiles ? { profiles: config.profiles } : {}),
+    ...(config.hostKeyVerification ? { hostKeyVerification: config.hostKeyVerification } : {}),
   };
 }
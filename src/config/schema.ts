@@ -14,18 +14,165 @@ function isValidRegex(pattern: string): boolean {
   }
 }
 
+/**
+ * Secret reference schema
+ * Points at a secret held outside the configuration file:
+ * env reads an environment variable, file reads a 0600 file
+ */
+export const SecretReferenceSchema = z.union([
+  z.object({ env: z.string().min(1, 'Environment variable name cannot be empty') }).strict(),
+  z.object({ file: z.string().min(1, 'Secret file path cannot be empty') }).strict(),
+]);
+
+/**
+ * Host key verification schema
+ * strict: host must already be present in known_hosts
+ * accept-new: unknown hosts are added to known_hosts, changed keys are rejected
+ * fingerprint: host key must match one of the pinned fingerprints
+ * off: any host key is accepted
+ */
+export const HostKeyVerificationConfigSchema = z.object({
+  mode: z.enum(['strict', 'accept-new', 'fingerprint', 'off']),
+  knownHostsPath: z.string().min(1, 'Known hosts path cannot be empty').optional(),
+  fingerprints: z.array(z.string().min(1, 'Fingerprint cannot be empty')).optional(),
+}).refine(
+  (data) => data.mode !== 'fingerprint' || (data.fingerprints !== undefined && data.fingerprints.length > 0),
+  {
+    message: 'fingerprints are required when mode is fingerprint',
+    path: ['fingerprints'],
+  }
+);
+
+/**
+ * Proxy configuration schema
+ * socks5 and http (CONNECT) open the connection through a proxy server,
+ * command runs an OpenSSH style ProxyCommand and talks SSH over its stdio.
+ * password: only accepted as a secret reference so it never appears in the config file
+ */
+export const ProxyConfigSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('socks5'),
+    host: z.string().min(1, 'Proxy host cannot be empty'),
+    port: z.number().int().min(1).max(65535).default(1080),
+    username: z.string().min(1, 'Proxy username cannot be empty').optional(),
+    password: SecretReferenceSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('http'),
+    host: z.string().min(1, 'Proxy host cannot be empty'),
+    port: z.number().int().min(1).max(65535).default(3128),
+    username: z.string().min(1, 'Proxy username cannot be empty').optional(),
+    password: SecretReferenceSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('command'),
+    command: z.string().min(1, 'Proxy command cannot be empty'),
+  }),
+]);
+
+/**
+ * Transport algorithm schema
+ * Either a preset name, or a preset whose lists are replaced by the lists given.
+ * Lists are in order of preference and use OpenSSH algorithm names.
+ */
+export const AlgorithmPresetSchema = z.enum(['modern', 'compat', 'fips-like']);
+
+const AlgorithmListSchema = z.array(z.string().min(1, 'Algorithm name cannot be empty')).min(1);
+
+export const AlgorithmsConfigSchema = z.union([
+  AlgorithmPresetSchema,
+  z.object({
+    preset: AlgorithmPresetSchema.optional(),
+    kex: AlgorithmListSchema.optional(),
+    ciphers: AlgorithmListSchema.optional(),
+    macs: AlgorithmListSchema.optional(),
+    hostKeys: AlgorithmListSchema.optional(),
+    compression: AlgorithmListSchema.optional(),
+  }).strict(),
+]);
+
+/**
+ * Authentication fields shared by the SSH target and its jump hosts
+ * agent: true uses the agent at SSH_AUTH_SOCK, a string is an explicit agent socket path
+ * password: only accepted as a secret reference so it never appears in the config file
+ * algorithms: transport algorithms offered to the host (default: ssh2 defaults)
+ */
+export const HostAuthConfigSchema = z.object({
+  privateKeyPath: z.string().min(1, 'Private key path cannot be empty').optional(),
+  passphrase: z.union([z.string(), SecretReferenceSchema]).optional(),
+  certificatePath: z.string().min(1, 'Certificate path cannot be empty').optional(),
+  agent: z.union([z.boolean(), z.string().min(1, 'Agent socket path cannot be empty')]).optional(),
+  password: SecretReferenceSchema.optional(),
+  keyboardInteractive: z.boolean().optional(),
+  hostKeyVerification: HostKeyVerificationConfigSchema.optional(),
+  algorithms: AlgorithmsConfigSchema.optional(),
+});
+
+/**
+ * Jump host configuration schema
+ * A bastion the target is reached through, like OpenSSH ProxyJump.
+ * username defaults to the target username. A jump host without its own
+ * privateKeyPath, agent or password uses the target's credentials.
+ */
+export const JumpHostConfigSchema = HostAuthConfigSchema.extend({
+  host: z.string().min(1, 'Host cannot be empty'),
+  port: z.number().int().min(1).max(65535).default(22),
+  username: z.string().min(1, 'Username cannot be empty').optional(),
+}).refine(
+  (data) => data.keyboardInteractive !== true || data.password !== undefined,
+  {
+    message: 'keyboardInteractive requires a password',
+    path: ['keyboardInteractive'],
+  }
+).refine(
+  (data) => data.certificatePath === undefined || data.privateKeyPath !== undefined,
+  {
+    message: 'certificatePath requires privateKeyPath',
+    path: ['certificatePath'],
+  }
+);
+
 /**
  * SSH target configuration schema
  * Defines the remote host connection parameters
+ * jumpHosts: bastions to tunnel through, outermost first
+ * proxy: how to reach the target, or the first jump host, from this machine
  */
-export const SSHTargetConfigSchema = z.object({
+export const SSHTargetConfigSchema = HostAuthConfigSchema.extend({
   host: z.string().min(1, 'Host cannot be empty'),
   port: z.number().int().min(1).max(65535),
   username: z.string().min(1, 'Username cannot be empty'),
-  privateKeyPath: z.string().min(1, 'Private key path cannot be empty'),
-  passphrase: z.string().optional(),
+  agentForward: z.boolean().optional(),
   shell: z.enum(['bash', 'sh', 'powershell', 'cmd']).default('bash'),
-});
+  jumpHosts: z.array(JumpHostConfigSchema).optional(),
+  proxy: ProxyConfigSchema.optional(),
+}).refine(
+  (data) => data.privateKeyPath !== undefined ||
+    (data.agent !== undefined && data.agent !== false) ||
+    data.password !== undefined,
+  {
+    message: 'privateKeyPath is required unless an SSH agent or password is configured',
+    path: ['privateKeyPath'],
+  }
+).refine(
+  (data) => data.agentForward !== true || (data.agent !== undefined && data.agent !== false),
+  {
+    message: 'agentForward requires an SSH agent',
+    path: ['agentForward'],
+  }
+).refine(
+  (data) => data.keyboardInteractive !== true || data.password !== undefined,
+  {
+    message: 'keyboardInteractive requires a password',
+    path: ['keyboardInteractive'],
+  }
+).refine(
+  (data) => data.certificatePath === undefined || data.privateKeyPath !== undefined,
+  {
+    message: 'certificatePath requires privateKeyPath',
+    path: ['certificatePath'],
+  }
+);
 
 /**
  * Timeout configuration schema
@@ -36,6 +183,7 @@ export const TimeoutsConfigSchema = z.object({
   session: z.number().int().min(1).max(3600000).optional(),
   connection: z.number().int().min(1).max(3600000).optional(),
   keepAlive: z.number().int().min(1).max(3600000).optional(),
+  idleConnection: z.number().int().min(1).max(3600000).optional(),
 });
 
 /**
@@ -71,6 +219,7 @@ export const SecurityConfigSchema = z.object({
   maxSessions: z.number().int().min(1).max(100).optional(),
   sessionTimeout: z.number().int().min(1).optional(),
   maxConnectionsPerHost: z.number().int().min(1).optional(),
+  maxConnections: z.number().int().min(1).optional(),
 });
 
 /**
@@ -99,6 +248,73 @@ export const LoggingConfigSchema = z.object({
   audit: AuditConfigSchema.optional(),
 });
 
+/**
+ * Reconnect configuration schema
+ * Defines how dropped pooled connections are re-established
+ */
+export const ReconnectConfigSchema = z.object({
+  maxAttempts: z.number().int().min(1).max(20).optional(),
+  initialDelay: z.number().int().min(1).max(3600000).optional(),
+  maxDelay: z.number().int().min(1).max(3600000).optional(),
+});
+
+/**
+ * Circuit breaker configuration schema
+ * Defines when connections to a failing host fail fast
+ */
+export const CircuitBreakerConfigSchema = z.object({
+  failureThreshold: z.number().int().min(1).optional(),
+  resetTimeout: z.number().int().min(1).max(3600000).optional(),
+});
+
+/**
+ * Channel scheduling configuration schema
+ * Defines how many exec and shell channels share one connection
+ */
+export const ChannelsConfigSchema = z.object({
+  maxPerConnection: z.number().int().min(1).max(1000).optional(),
+  spillover: z.boolean().optional(),
+});
+
+/**
+ * Startup configuration schema
+ * Defines whether the target connection is established before the first tool call
+ */
+export const StartupConfigSchema = z.object({
+  prewarm: z.boolean().optional(),
+  failFast: z.boolean().optional(),
+});
+
+/**
+ * Environment variable name schema
+ * Names are set in the remote shell without quoting, so only letters, digits and underscores are allowed
+ */
+export const EnvironmentVariableNameSchema = z.string().regex(
+  /^[A-Za-z_][A-Za-z0-9_]*$/,
+  'Environment variable names may only contain letters, digits and underscores, and cannot start with a digit'
+);
+
+/**
+ * Session profile schema
+ * Prepares the shell of a session created with the profile, in order:
+ * cwd is changed to, env is exported, then each init command is run
+ */
+export const SessionProfileConfigSchema = z.object({
+  init: z.array(z.string().min(1, 'Init command cannot be empty')).optional(),
+  env: z.record(EnvironmentVariableNameSchema, z.string()).optional(),
+  cwd: z.string().min(1, 'Working directory cannot be empty').optional(),
+  shellType: z.enum(['bash', 'sh', 'powershell', 'cmd']).optional(),
+});
+
+/**
+ * OpenSSH client configuration schema
+ * Lets tools name hosts by their Host alias in an ssh_config file
+ */
+export const OpenSSHConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  path: z.string().min(1, 'SSH config path cannot be empty').optional(),
+});
+
 /**
  * Complete server configuration schema
  * Combines all configuration sections
@@ -106,19 +322,39 @@ export const LoggingConfigSchema = z.object({
 export const ServerConfigSchema = z.object({
   name: z.string().min(1, 'Instance name cannot be empty'),
   target: SSHTargetConfigSchema,
+  hostKeyVerification: HostKeyVerificationConfigSchema.optional(),
   timeouts: TimeoutsConfigSchema.optional(),
   buffers: BuffersConfigSchema.optional(),
   security: SecurityConfigSchema.optional(),
   logging: LoggingConfigSchema.optional(),
+  reconnect: ReconnectConfigSchema.optional(),
+  circuitBreaker: CircuitBreakerConfigSchema.optional(),
+  channels: ChannelsConfigSchema.optional(),
+  startup: StartupConfigSchema.optional(),
+  sshConfig: OpenSSHConfigSchema.optional(),
+  profiles: z.record(z.string().min(1, 'Profile name cannot be empty'), SessionProfileConfigSchema).optional(),
 });
 
 /**
  * TypeScript types inferred from Zod schemas
  */
+export type SecretReference = z.infer<typeof SecretReferenceSchema>;
+export type HostKeyVerificationConfig = z.infer<typeof HostKeyVerificationConfigSchema>;
+export type ProxyConfig = z.infer<typeof ProxyConfigSchema>;
+export type AlgorithmPreset = z.infer<typeof AlgorithmPresetSchema>;
+export type AlgorithmsConfig = z.infer<typeof AlgorithmsConfigSchema>;
+export type HostAuthConfig = z.infer<typeof HostAuthConfigSchema>;
+export type JumpHostConfig = z.infer<typeof JumpHostConfigSchema>;
 export type SSHTargetConfig = z.infer<typeof SSHTargetConfigSchema>;
 export type TimeoutsConfig = z.infer<typeof TimeoutsConfigSchema>;
 export type BuffersConfig = z.infer<typeof BuffersConfigSchema>;
 export type SecurityConfig = z.infer<typeof SecurityConfigSchema>;
 export type AuditConfig = z.infer<typeof AuditConfigSchema>;
 export type LoggingConfig = z.infer<typeof LoggingConfigSchema>;
+export type ReconnectConfig = z.infer<typeof ReconnectConfigSchema>;
+export type CircuitBreakerConfig = z.infer<typeof CircuitBreakerConfigSchema>;
+export type ChannelsConfig = z.infer<typeof ChannelsConfigSchema>;
+export type StartupConfig = z.infer<typeof StartupConfigSchema>;
+export type SessionProfileConfig = z.infer<typeof SessionProfileConfigSchema>;
+export type OpenSSHConfig = z.infer<typeof OpenSSHConfigSchema>;
 export type ServerConfig = z.infer<typeof ServerConfigSchema>;
@@ -1,12 +1,28 @@
+export const CERTIFICATE_AUTH_UNSUPPORTED_ERROR = 'SSH certificate authentication is not supported by this ssh2 version';
+export const CERTIFICATE_INVALID_ERROR = 'SSH certificate is not valid';
+export const CHANNEL_WAIT_TIMEOUT_ERROR = 'Timed out waiting for an SSH channel';
+export const CIRCUIT_OPEN_ERROR = 'Circuit breaker open';
+export const COMMAND_CANCELLED_ERROR = 'Command cancelled';
+export const COMMAND_NOT_FOUND_ERROR = 'Command not found';
 export const COMMAND_TIMEOUT_ERROR = 'Command timeout';
 export const CONNECTION_FAILED_ERROR = 'Connection failed';
+export const CONNECTION_IN_USE_ERROR = 'Connection in use';
+export const CONNECTION_LIMIT_ERROR = 'Connection limit reached';
 export const CONNECTION_TIMEOUT_ERROR = 'Connection timeout';
 export const FAILED_TO_START_MCP_SERVER_ERROR = 'Failed to start MCP server';
+export const HEALTH_CHECK_FAILED_ERROR = 'Health check failed';
+export const HOST_KEY_VERIFICATION_FAILED_ERROR = 'Host key verification failed';
 export const INVALID_ARGUMENTS_ERROR = 'Invalid arguments';
+export const JOB_NOT_FOUND_ERROR = 'Job not found';
 export const NULL_OR_UNDEFINED_ARGUMENTS_ERROR = 'Null or undefined arguments';
+export const PATTERN_WAIT_TIMEOUT_ERROR = 'Timed out waiting for pattern';
+export const PROFILE_NOT_FOUND_ERROR = 'Session profile not found';
+export const PROXY_FAILED_ERROR = 'Proxy connection failed';
 export const SESSION_ALREADY_EXISTS_ERROR = 'Session already exists';
 export const SESSION_ID_REQUIRED_ERROR = 'Session ID is required';
 export const SESSION_NOT_FOUND_ERROR = 'Session not found';
+export const SESSION_SETUP_FAILED_ERROR = 'Session setup failed';
+export const SESSION_UNHEALTHY_ERROR = 'Session unhealthy';
 export const ShellNames = {
   PowerShell: 'powershell',
   Cmd: 'cmd',
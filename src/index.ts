@@ -2,16 +2,69 @@ export {
   SSHConnectionManager,
   PersistentSession,
   SSHError,
+  HostKeyVerificationError,
+  HostKeyFailureReason,
+  CommandTimeoutError,
+  CommandCancelledError,
+  verifyHostKey,
+  parseKnownHosts,
+  KnownHostEntry,
+  HostKeyCheckResult,
+  computeFingerprint,
+  parseCertificate,
+  OpenSSHCertificate,
+  loadUserCertificate,
+  checkCertificateValidity,
+  UserCertificate,
+  parseProxyJump,
+  encodeKeys,
+  VirtualTerminal,
+  diffScreens,
+  ScreenSnapshot,
+  ScreenChange,
+  ALGORITHM_PRESETS,
+  resolveAlgorithms,
+  AlgorithmPolicy,
+  NegotiatedAlgorithmSet,
+  ConnectionTestReport,
+  ConnectionTestStage,
+  ConnectionTestStageName,
+  loadSSHConfig,
+  resolveSSHHost,
+  SSHConfig,
+  SSHHostConfig,
   CommandResult,
   SessionType,
   SessionMode,
   SessionMetadata,
+  SessionSetupOptions,
+  PtyOptions,
+  WaitSource,
+  WaitForOptions,
+  WaitForResult,
+  JobState,
+  BackgroundJob,
+  QueuedCommand,
   CommandRequest,
   ConnectionPool,
+  CircuitBreaker,
+  CircuitState,
   ConnectionInfo,
+  ConnectionOptions,
+  ConnectionPoolOptions,
+  ChannelLease,
+  PooledConnectionInfo,
+  ConnectionSummary,
+  CloseConnectionResult,
+  ReadinessState,
+  TargetReadiness,
+  JumpHost,
+  ProxyOptions,
+  AuthMethod,
   TIMEOUTS,
   BUFFER_LIMITS,
-  SSH_CONFIG
+  SSH_CONFIG,
+  RECONNECT
 } from './ssh/index.js';
 
 export {
@@ -22,4 +75,11 @@ export {
 
 export { expandTilde } from './utils.js';
 
-export { createServer, startServer, stopServer } from './mcp/server.js';
\ No newline at end of file
+export {
+  createServer,
+  startServer,
+  stopServer,
+  prewarmTarget,
+  getTargetReadiness,
+  runStartupPhase
+} from './mcp/server.js';
\ No newline at end of file
@@ -4,20 +4,48 @@ import {
   CallToolRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { SSHConnectionManager } from '../ssh/manager.js';
+import { parseProxyJump } from '../ssh/jump-hosts.js';
+import type { SessionMetadata } from '../ssh/types.js';
+import { sanitizeEnvironmentVars } from '../security/sanitize.js';
 import {
   tools,
   SshExecuteArgsSchema,
   SshSessionCreateArgsSchema,
   SshSessionExecuteArgsSchema,
   SshSessionListArgsSchema,
+  SshSessionInfoArgsSchema,
+  SshSessionResizeArgsSchema,
+  SshSessionSendKeysArgsSchema,
+  SshSessionScreenArgsSchema,
+  SshSessionWaitForArgsSchema,
   SshSessionCloseArgsSchema,
   SshSessionOutputArgsSchema,
+  SshJobStatusArgsSchema,
+  SshJobListArgsSchema,
+  SshSessionQueueArgsSchema,
+  SshSessionCancelArgsSchema,
+  SshSessionFlushArgsSchema,
+  SshConnectionTestArgsSchema,
+  SshConnectionListArgsSchema,
+  SshConnectionCloseArgsSchema,
   type SshExecuteArgs,
   type SshSessionCreateArgs,
   type SshSessionExecuteArgs,
   type SshSessionListArgs,
+  type SshSessionInfoArgs,
+  type SshSessionResizeArgs,
+  type SshSessionSendKeysArgs,
+  type SshSessionScreenArgs,
+  type SshSessionWaitForArgs,
   type SshSessionCloseArgs,
   type SshSessionOutputArgs,
+  type SshJobStatusArgs,
+  type SshJobListArgs,
+  type SshSessionQueueArgs,
+  type SshSessionCancelArgs,
+  type SshSessionFlushArgs,
+  type SshConnectionTestArgs,
+  type SshConnectionCloseArgs,
 } from './tools.js';
 
 /**
@@ -49,7 +77,11 @@ export function registerToolHandlers(server: Server, manager: SSHConnectionManag
           validatedArgs.privateKeyPath,
           validatedArgs.command,
           validatedArgs.port,
-          validatedArgs.timeout
+          validatedArgs.timeout,
+          {
+            passphrase: validatedArgs.passphrase,
+            jumpHosts: validatedArgs.proxyJump !== undefined ? parseProxyJump(validatedArgs.proxyJump) : undefined,
+          }
         );
 
         return {
@@ -73,7 +105,20 @@ export function registerToolHandlers(server: Server, manager: SSHConnectionManag
           validatedArgs.port,
           validatedArgs.mode,
           undefined, // timeoutMs - use default
-          validatedArgs.shellType
+          validatedArgs.shellType,
+          {
+            passphrase: validatedArgs.passphrase,
+            jumpHosts: validatedArgs.proxyJump !== undefined ? parseProxyJump(validatedArgs.proxyJump) : undefined,
+            profile: validatedArgs.profile,
+            env: validatedArgs.env,
+            cwd: validatedArgs.cwd,
+            pty: {
+              term: validatedArgs.term,
+              rows: validatedArgs.rows,
+              cols: validatedArgs.cols,
+              modes: validatedArgs.modes,
+            },
+          }
         );
 
         const sessionInfo = session.getSessionInfo();
@@ -122,17 +167,89 @@ export function registerToolHandlers(server: Server, manager: SSHConnectionManag
           content: [
             {
               type: 'text',
-              text: JSON.stringify(sessions.map(session => ({
-                sessionId: session.sessionId,
-                target: session.target,
-                username: session.username,
-                type: session.type,
-                mode: session.mode,
-                port: session.port,
-                isActive: session.isActive,
-                createdAt: session.createdAt,
-                lastActivity: session.lastActivity,
-              })), null, 2),
+              text: JSON.stringify(sessions.map(describeSession), null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'ssh_session_info': {
+        const validatedArgs = SshSessionInfoArgsSchema.parse(args) as SshSessionInfoArgs;
+        const session = manager.getSessionInfo(validatedArgs.sessionId);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(describeSession(session), null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'ssh_session_resize': {
+        const validatedArgs = SshSessionResizeArgsSchema.parse(args) as SshSessionResizeArgs;
+        manager.resizeSession(validatedArgs.sessionId, validatedArgs.rows, validatedArgs.cols);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                sessionId: validatedArgs.sessionId,
+                rows: validatedArgs.rows,
+                cols: validatedArgs.cols,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'ssh_session_send_keys': {
+        const validatedArgs = SshSessionSendKeysArgsSchema.parse(args) as SshSessionSendKeysArgs;
+        const output = await manager.sendKeys(validatedArgs.sessionId, validatedArgs.keys, validatedArgs.settle);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ output }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'ssh_session_screen': {
+        const validatedArgs = SshSessionScreenArgsSchema.parse(args) as SshSessionScreenArgs;
+        const { lines, changes, ...screen } = manager.getSessionScreen(validatedArgs.sessionId, validatedArgs.diff);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                ...screen,
+                screen: lines.join('\n'),
+                ...(changes ? { changes } : {}),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'ssh_session_wait_for': {
+        const validatedArgs = SshSessionWaitForArgsSchema.parse(args) as SshSessionWaitForArgs;
+        const result = await manager.waitFor(validatedArgs.sessionId, validatedArgs.pattern, {
+          timeout: validatedArgs.timeout,
+          source: validatedArgs.source,
+          ignoreCase: validatedArgs.ignoreCase,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
             },
           ],
         };
@@ -170,8 +287,156 @@ export function registerToolHandlers(server: Server, manager: SSHConnectionManag
         };
       }
 
+      case 'ssh_job_status': {
+        const validatedArgs = SshJobStatusArgsSchema.parse(args) as SshJobStatusArgs;
+        const job = manager.getJob(validatedArgs.sessionId, validatedArgs.jobId);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(job, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'ssh_job_list': {
+        const validatedArgs = SshJobListArgsSchema.parse(args) as SshJobListArgs;
+        const jobs = manager.listJobs(validatedArgs.sessionId);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(jobs, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'ssh_session_queue': {
+        const validatedArgs = SshSessionQueueArgsSchema.parse(args) as SshSessionQueueArgs;
+        const queue = manager.listQueue(validatedArgs.sessionId);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(queue, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'ssh_session_cancel': {
+        const validatedArgs = SshSessionCancelArgsSchema.parse(args) as SshSessionCancelArgs;
+        manager.cancelCommand(validatedArgs.sessionId, validatedArgs.commandId);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ cancelled: [validatedArgs.commandId] }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'ssh_session_flush': {
+        const validatedArgs = SshSessionFlushArgsSchema.parse(args) as SshSessionFlushArgs;
+        const cancelled = manager.flushQueue(validatedArgs.sessionId);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ cancelled }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'ssh_connection_test': {
+        const validatedArgs = SshConnectionTestArgsSchema.parse(args) as SshConnectionTestArgs;
+        const report = await manager.testConnection(
+          validatedArgs.host,
+          validatedArgs.username,
+          validatedArgs.privateKeyPath,
+          validatedArgs.port,
+          {
+            passphrase: validatedArgs.passphrase,
+            jumpHosts: validatedArgs.proxyJump !== undefined ? parseProxyJump(validatedArgs.proxyJump) : undefined,
+          }
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'ssh_connection_list': {
+        SshConnectionListArgsSchema.parse(args); // Validate (even though empty)
+        const connections = manager.listConnections();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(connections, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'ssh_connection_close': {
+        const validatedArgs = SshConnectionCloseArgsSchema.parse(args) as SshConnectionCloseArgs;
+        const result = await manager.closeConnection(validatedArgs.connectionKey, validatedArgs.cascade);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ closed: result.connections.length > 0, ...result }, null, 2),
+            },
+          ],
+        };
+      }
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
   });
 }
+
+/**
+ * Describe a session for tool results
+ * Values of sensitive environment variables are redacted.
+ *
+ * @param session - The session metadata
+ * @returns The session fields reported by ssh_session_list and ssh_session_info
+ */
+function describeSession(session: SessionMetadata): Record<string, unknown> {
+  return {
+    sessionId: session.sessionId,
+    target: session.target,
+    username: session.username,
+    type: session.type,
+    mode: session.mode,
+    port: session.port,
+    isActive: session.isActive,
+    isHealthy: session.isHealthy,
+    term: session.term,
+    rows: session.rows,
+    cols: session.cols,
+    createdAt: session.createdAt,
+    lastActivity: session.lastActivity,
+    workingDirectory: session.workingDirectory,
+    environmentVars: sanitizeEnvironmentVars(session.environmentVars),
+  };
+}
@@ -1,10 +1,20 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { NULL_OR_UNDEFINED_ARGUMENTS_ERROR, FAILED_TO_START_MCP_SERVER_ERROR } from '../constants.js';
+import {
+  INVALID_ARGUMENTS_ERROR,
+  NULL_OR_UNDEFINED_ARGUMENTS_ERROR,
+  FAILED_TO_START_MCP_SERVER_ERROR,
+} from '../constants.js';
 import pkg from '../../package.json' with { type: 'json' };
 import { SSHConnectionManager } from '../ssh/manager.js';
 import { registerToolHandlers } from './handlers.js';
-import type { ServerConfig } from '../config/schema.js';
+import type { ServerConfig, StartupConfig } from '../config/schema.js';
+import type { TargetReadiness } from '../ssh/types.js';
+
+/**
+ * The SSH connection manager behind each server created by createServer
+ */
+const serverManagers = new WeakMap<Server, SSHConnectionManager>();
 
 /**
  * Create and configure the MCP server instance
@@ -34,10 +44,100 @@ export function createServer(config?: ServerConfig): Server {
 
   const sshManager = new SSHConnectionManager(config);
   registerToolHandlers(server, sshManager);
+  serverManagers.set(server, sshManager);
 
   return server;
 }
 
+/**
+ * Get the SSH connection manager behind a server
+ *
+ * @param server - A server created by createServer
+ * @returns The connection manager
+ * @throws {Error} If the server is null or undefined, or was not created by createServer
+ */
+function getManager(server: Server): SSHConnectionManager {
+  if (server === null || server === undefined) {
+    throw new Error(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+  }
+  const manager = serverManagers.get(server);
+  if (!manager) {
+    throw new Error(`${INVALID_ARGUMENTS_ERROR}: server was not created by createServer`);
+  }
+  return manager;
+}
+
+/**
+ * Establish and health-check the connection to the configured target
+ *
+ * The connection is retried under the configured reconnect policy and stays
+ * pooled for the first tool call.
+ *
+ * @param server - A server created by createServer
+ * @returns A promise that resolves with the readiness once the target is ready
+ * @throws {Error} If the target cannot be connected or fails its health check
+ *
+ * @example
+ * ```typescript
+ * const server = createServer(config);
+ * const readiness = await prewarmTarget(server);
+ * console.error(`${readiness.target} ready in ${readiness.durationMs}ms`);
+ * ```
+ */
+export async function prewarmTarget(server: Server): Promise<TargetReadiness> {
+  return getManager(server).prewarm();
+}
+
+/**
+ * Get the readiness of the configured target connection
+ *
+ * @param server - A server created by createServer
+ * @returns The readiness; idle unless the target is being or has been pre-warmed
+ * @throws {Error} If the server is null or undefined, or was not created by createServer
+ */
+export function getTargetReadiness(server: Server): TargetReadiness {
+  return getManager(server).getReadiness();
+}
+
+/**
+ * Run the startup phase configured in the startup section
+ *
+ * With prewarm, the target connection is established and health-checked.
+ * With failFast as well, this waits for the target and rejects when it is
+ * unreachable, so startup can be aborted; otherwise the target is warmed in
+ * the background and the outcome is logged to stderr.
+ *
+ * @param server - A server created by createServer
+ * @param startup - The startup configuration
+ * @returns A promise that resolves once the startup phase no longer blocks startup
+ * @throws {Error} With failFast, if the target cannot be connected or fails its health check
+ *
+ * @example
+ * ```typescript
+ * const server = createServer(config);
+ * await runStartupPhase(server, config.startup);
+ * await startServer(server);
+ * ```
+ */
+export async function runStartupPhase(server: Server, startup?: StartupConfig): Promise<void> {
+  if (!startup?.prewarm) {
+    return;
+  }
+
+  const warming = prewarmTarget(server).then((readiness) => {
+    console.error(`Target ${readiness.target} ready in ${readiness.durationMs}ms`);
+  });
+
+  if (startup.failFast) {
+    await warming;
+    return;
+  }
+
+  warming.catch((error) => {
+    console.error(`Target pre-warm failed: ${(error as Error).message}`);
+  });
+}
+
 /**
  * Options for starting the MCP server
  */
@@ -4,11 +4,13 @@ import { z } from 'zod';
  * Zod schema for ssh_execute tool parameters
  */
 export const SshExecuteArgsSchema = z.object({
-  host: z.string().min(1).describe('The SSH host to connect to'),
-  username: z.string().min(1).describe('The username for SSH authentication'),
-  privateKeyPath: z.string().min(1).describe('Path to the private key file for authentication'),
+  host: z.string().min(1).describe('The SSH host, or a Host alias from ~/.ssh/config when sshConfig is enabled'),
+  username: z.string().min(1).optional().describe('The username for SSH authentication (optional when ~/.ssh/config sets User for the host)'),
+  privateKeyPath: z.string().min(1).optional().describe('Path to the private key file for authentication (optional when an SSH agent or password is configured for the target)'),
+  passphrase: z.string().min(1).optional().describe('Passphrase for an encrypted private key (prefer configuring target.passphrase as an env or file reference)'),
+  proxyJump: z.string().min(1).optional().describe('Comma-separated jump hosts to tunnel through, outermost first, e.g. "admin@bastion1,bastion2:2222" (default: target.jumpHosts when connecting to the configured target)'),
   command: z.string().min(1).describe('The command to execute on the remote host'),
-  port: z.number().int().min(1).max(65535).optional().default(22).describe('The SSH port (default: 22)'),
+  port: z.number().int().min(1).max(65535).optional().describe('The SSH port (default: Port from ~/.ssh/config, otherwise 22)'),
   timeout: z.number().int().positive().optional().default(30000).describe('Command timeout in milliseconds (default: 30000)'),
 });
 
@@ -17,13 +19,28 @@ export const SshExecuteArgsSchema = z.object({
  */
 export const SshSessionCreateArgsSchema = z.object({
   sessionId: z.string().min(1).describe('Unique identifier for the session'),
-  host: z.string().min(1).describe('The SSH host to connect to'),
-  username: z.string().min(1).describe('The username for SSH authentication'),
-  privateKeyPath: z.string().min(1).describe('Path to the private key file for authentication'),
+  host: z.string().min(1).describe('The SSH host, or a Host alias from ~/.ssh/config when sshConfig is enabled'),
+  username: z.string().min(1).optional().describe('The username for SSH authentication (optional when ~/.ssh/config sets User for the host)'),
+  privateKeyPath: z.string().min(1).optional().describe('Path to the private key file for authentication (optional when an SSH agent or password is configured for the target)'),
+  passphrase: z.string().min(1).optional().describe('Passphrase for an encrypted private key (prefer configuring target.passphrase as an env or file reference)'),
+  proxyJump: z.string().min(1).optional().describe('Comma-separated jump hosts to tunnel through, outermost first, e.g. "admin@bastion1,bastion2:2222" (default: target.jumpHosts when connecting to the configured target)'),
   type: z.enum(['interactive', 'background']).describe('Session type: interactive for command-response, background for continuous output'),
-  port: z.number().int().min(1).max(65535).optional().default(22).describe('The SSH port (default: 22)'),
+  port: z.number().int().min(1).max(65535).optional().describe('The SSH port (default: Port from ~/.ssh/config, otherwise 22)'),
   mode: z.enum(['normal', 'raw']).optional().default('normal').describe('Session mode: normal for structured output, raw for direct stream'),
-  shellType: z.enum(['bash', 'sh', 'powershell', 'cmd']).optional().default('bash').describe('The shell type to use (default: bash)'),
+  shellType: z.enum(['bash', 'sh', 'powershell', 'cmd']).optional().describe('The shell type to use (default: the profile\'s shell type, otherwise bash)'),
+  profile: z.string().min(1).optional().describe('Name of a session profile from the server config whose starting directory, environment variables and init commands prepare the shell'),
+  env: z.record(
+    z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/),
+    z.string()
+  ).optional().describe('Environment variables to export in the shell, overriding those of the profile'),
+  cwd: z.string().min(1).optional().describe('Directory to start in, overriding that of the profile'),
+  term: z.string().min(1).optional().describe('Value of $TERM in the shell, e.g. xterm-256color (default: vt100)'),
+  rows: z.number().int().positive().max(10000).optional().describe('Terminal height in characters (default: 24)'),
+  cols: z.number().int().positive().max(10000).optional().describe('Terminal width in characters, raise it to stop wide output wrapping (default: 80)'),
+  modes: z.record(
+    z.string().regex(/^[A-Z][A-Z0-9_]*$/),
+    z.number().int().min(0)
+  ).optional().describe('Terminal modes from RFC 4254 set to their argument, e.g. {"ECHO": 0} to turn off echo; unknown modes are ignored'),
 });
 
 /**
@@ -32,7 +49,7 @@ export const SshSessionCreateArgsSchema = z.object({
 export const SshSessionExecuteArgsSchema = z.object({
   sessionId: z.string().min(1).describe('The session ID to execute the command in'),
   command: z.string().min(1).describe('The command to execute in the session'),
-  timeout: z.number().int().positive().optional().default(30000).describe('Command timeout in milliseconds (default: 30000)'),
+  timeout: z.number().int().positive().optional().describe('Command timeout in milliseconds (default: 30000). A command that times out is interrupted with Ctrl-C. In a background session the default is no timeout, so the command runs until it exits; give one to have it interrupted when it passes'),
 });
 
 /**
@@ -40,6 +57,50 @@ export const SshSessionExecuteArgsSchema = z.object({
  */
 export const SshSessionListArgsSchema = z.object({});
 
+/**
+ * Zod schema for ssh_session_info tool parameters
+ */
+export const SshSessionInfoArgsSchema = z.object({
+  sessionId: z.string().min(1).describe('The session ID to describe'),
+});
+
+/**
+ * Zod schema for ssh_session_resize tool parameters
+ */
+export const SshSessionResizeArgsSchema = z.object({
+  sessionId: z.string().min(1).describe('The session ID to resize the terminal of'),
+  rows: z.number().int().positive().max(10000).describe('Terminal height in characters'),
+  cols: z.number().int().positive().max(10000).describe('Terminal width in characters'),
+});
+
+/**
+ * Zod schema for ssh_session_send_keys tool parameters
+ */
+export const SshSessionSendKeysArgsSchema = z.object({
+  sessionId: z.string().min(1).describe('The raw mode session ID to type into'),
+  keys: z.string().min(1).describe('Keystrokes to type: literal text with named keys in angle brackets, e.g. "ihello<Esc>:wq<Enter>". Keys: Enter, Tab, S-Tab, Esc, BS, Del, Ins, Space, Up, Down, Left, Right, Home, End, PageUp, PageDown, F1-F12; <C-x> is Ctrl-x and <M-x> Alt-x; <lt> is a literal "<". No newline is added'),
+  settle: z.number().int().positive().max(10000).optional().default(500).describe('Milliseconds the output must be quiet before it is returned (default: 500)'),
+});
+
+/**
+ * Zod schema for ssh_session_screen tool parameters
+ */
+export const SshSessionScreenArgsSchema = z.object({
+  sessionId: z.string().min(1).describe('The raw mode session ID to get the screen of'),
+  diff: z.boolean().optional().default(false).describe('Also return the lines that changed since the previous snapshot of the session (default: false)'),
+});
+
+/**
+ * Zod schema for ssh_session_wait_for tool parameters
+ */
+export const SshSessionWaitForArgsSchema = z.object({
+  sessionId: z.string().min(1).describe('The session ID to watch'),
+  pattern: z.string().min(1).describe('JavaScript regular expression to wait for, in multiline mode so ^ and $ match at line breaks, e.g. "Continue\\? \\[y/N\\]" or "listening on port (\\d+)"'),
+  timeout: z.number().int().positive().max(600000).optional().default(30000).describe('Milliseconds to wait for a match (default: 30000)'),
+  source: z.enum(['output', 'screen']).optional().describe('What to search: output received from now on with escape sequences removed, or the rendered screen of a raw mode session, which includes what is already shown (default: screen for raw mode sessions, otherwise output)'),
+  ignoreCase: z.boolean().optional().default(false).describe('Match letters regardless of case (default: false)'),
+});
+
 /**
  * Zod schema for ssh_session_close tool parameters
  */
@@ -56,6 +117,68 @@ export const SshSessionOutputArgsSchema = z.object({
   clear: z.boolean().optional().default(false).describe('Whether to clear the buffer after retrieving (default: false)'),
 });
 
+/**
+ * Zod schema for ssh_job_status tool parameters
+ */
+export const SshJobStatusArgsSchema = z.object({
+  sessionId: z.string().min(1).describe('The background session the job was queued in'),
+  jobId: z.string().min(1).describe('The job ID returned by ssh_session_execute, e.g. job-1'),
+});
+
+/**
+ * Zod schema for ssh_job_list tool parameters
+ */
+export const SshJobListArgsSchema = z.object({
+  sessionId: z.string().min(1).optional().describe('Only list the jobs of this session (default: all sessions)'),
+});
+
+/**
+ * Zod schema for ssh_session_queue tool parameters
+ */
+export const SshSessionQueueArgsSchema = z.object({
+  sessionId: z.string().min(1).describe('The session ID to list the command queue of'),
+});
+
+/**
+ * Zod schema for ssh_session_cancel tool parameters
+ */
+export const SshSessionCancelArgsSchema = z.object({
+  sessionId: z.string().min(1).describe('The session ID the command is queued in'),
+  commandId: z.string().min(1).describe('The command ID reported by ssh_session_queue'),
+});
+
+/**
+ * Zod schema for ssh_session_flush tool parameters
+ */
+export const SshSessionFlushArgsSchema = z.object({
+  sessionId: z.string().min(1).describe('The session ID to flush the command queue of'),
+});
+
+/**
+ * Zod schema for ssh_connection_test tool parameters
+ */
+export const SshConnectionTestArgsSchema = z.object({
+  host: z.string().min(1).describe('The SSH host, or a Host alias from ~/.ssh/config when sshConfig is enabled'),
+  username: z.string().min(1).optional().describe('The username for SSH authentication (optional when ~/.ssh/config sets User for the host)'),
+  privateKeyPath: z.string().min(1).optional().describe('Path to the private key file for authentication (optional when an SSH agent or password is configured for the target)'),
+  passphrase: z.string().min(1).optional().describe('Passphrase for an encrypted private key (prefer configuring target.passphrase as an env or file reference)'),
+  proxyJump: z.string().min(1).optional().describe('Comma-separated jump hosts to tunnel through, outermost first, e.g. "admin@bastion1,bastion2:2222" (default: target.jumpHosts when connecting to the configured target)'),
+  port: z.number().int().min(1).max(65535).optional().describe('The SSH port (default: Port from ~/.ssh/config, otherwise 22)'),
+});
+
+/**
+ * Zod schema for ssh_connection_list tool parameters
+ */
+export const SshConnectionListArgsSchema = z.object({});
+
+/**
+ * Zod schema for ssh_connection_close tool parameters
+ */
+export const SshConnectionCloseArgsSchema = z.object({
+  connectionKey: z.string().min(1).describe('The connection key reported by ssh_connection_list'),
+  cascade: z.boolean().optional().default(false).describe('Also close the sessions running on the connection (default: false, which refuses to close a connection sessions run on)'),
+});
+
 /**
  * Type definitions for tool arguments
  */
@@ -63,8 +186,21 @@ export type SshExecuteArgs = z.infer<typeof SshExecuteArgsSchema>;
 export type SshSessionCreateArgs = z.infer<typeof SshSessionCreateArgsSchema>;
 export type SshSessionExecuteArgs = z.infer<typeof SshSessionExecuteArgsSchema>;
 export type SshSessionListArgs = z.infer<typeof SshSessionListArgsSchema>;
+export type SshSessionInfoArgs = z.infer<typeof SshSessionInfoArgsSchema>;
+export type SshSessionResizeArgs = z.infer<typeof SshSessionResizeArgsSchema>;
+export type SshSessionSendKeysArgs = z.infer<typeof SshSessionSendKeysArgsSchema>;
+export type SshSessionScreenArgs = z.infer<typeof SshSessionScreenArgsSchema>;
+export type SshSessionWaitForArgs = z.infer<typeof SshSessionWaitForArgsSchema>;
 export type SshSessionCloseArgs = z.infer<typeof SshSessionCloseArgsSchema>;
 export type SshSessionOutputArgs = z.infer<typeof SshSessionOutputArgsSchema>;
+export type SshJobStatusArgs = z.infer<typeof SshJobStatusArgsSchema>;
+export type SshJobListArgs = z.infer<typeof SshJobListArgsSchema>;
+export type SshSessionQueueArgs = z.infer<typeof SshSessionQueueArgsSchema>;
+export type SshSessionCancelArgs = z.infer<typeof SshSessionCancelArgsSchema>;
+export type SshSessionFlushArgs = z.infer<typeof SshSessionFlushArgsSchema>;
+export type SshConnectionTestArgs = z.infer<typeof SshConnectionTestArgsSchema>;
+export type SshConnectionListArgs = z.infer<typeof SshConnectionListArgsSchema>;
+export type SshConnectionCloseArgs = z.infer<typeof SshConnectionCloseArgsSchema>;
 
 /**
  * Helper function to convert Zod schema to JSON Schema format for MCP
@@ -99,6 +235,13 @@ function zodToJsonSchema(schema: z.ZodObject<any>): { type: 'object'; properties
         enum: (zodType as any)._def.values,
         description
       };
+    } else if (zodType instanceof z.ZodRecord) {
+      // Records map names to strings, e.g. environment variables, or to numbers, e.g. terminal modes
+      properties[key] = {
+        type: 'object',
+        additionalProperties: { type: (zodType as any)._def.valueType instanceof z.ZodNumber ? 'number' : 'string' },
+        description
+      };
     }
 
     if (isRequired) {
@@ -129,14 +272,39 @@ export const tools = [
   },
   {
     name: 'ssh_session_execute',
-    description: 'Execute a command in an existing SSH session. The session must have been created with ssh_session_create first.',
+    description: 'Execute a command in an existing SSH session. The session must have been created with ssh_session_create first. In a background session the command is queued and a jobId is returned at once; check it with ssh_job_status.',
     inputSchema: zodToJsonSchema(SshSessionExecuteArgsSchema),
   },
   {
     name: 'ssh_session_list',
-    description: 'List all active SSH sessions with their metadata including session ID, host, type, and status.',
+    description: 'List all active SSH sessions with their metadata including session ID, host, type, status, working directory and changed environment variables.',
     inputSchema: zodToJsonSchema(SshSessionListArgsSchema),
   },
+  {
+    name: 'ssh_session_info',
+    description: 'Get the metadata of an SSH session, including its working directory and the environment variables changed since it started. Values of sensitive variables are redacted. Background and raw mode sessions do not track them.',
+    inputSchema: zodToJsonSchema(SshSessionInfoArgsSchema),
+  },
+  {
+    name: 'ssh_session_resize',
+    description: 'Resize the terminal of an SSH session, e.g. so a full-screen program in a raw mode session redraws to fit.',
+    inputSchema: zodToJsonSchema(SshSessionResizeArgsSchema),
+  },
+  {
+    name: 'ssh_session_send_keys',
+    description: 'Type keystrokes into a raw mode SSH session to drive full-screen and interactive programs such as vim, top, less or installers. Writes exactly the given text and named keys, with no newline added, and returns the output observed until it settles.',
+    inputSchema: zodToJsonSchema(SshSessionSendKeysArgsSchema),
+  },
+  {
+    name: 'ssh_session_screen',
+    description: 'Get the screen of a raw mode SSH session as plain text, rendered by a terminal emulator from the output so far, with the cursor position and terminal size. Use it to read full-screen programs driven with ssh_session_send_keys; with diff, only the changed lines since the previous snapshot are needed.',
+    inputSchema: zodToJsonSchema(SshSessionScreenArgsSchema),
+  },
+  {
+    name: 'ssh_session_wait_for',
+    description: 'Wait until a regular expression matches the output of an SSH session, or the screen of a raw mode session, e.g. a "Continue? [y/N]" or "Password:" prompt or "Server started on port 8080". Returns the match, its capture groups, offset and surrounding lines, or fails with the last output once the timeout expires.',
+    inputSchema: zodToJsonSchema(SshSessionWaitForArgsSchema),
+  },
   {
     name: 'ssh_session_close',
     description: 'Close a specific SSH session and clean up its resources. Returns true if the session was closed, false if it was not found.',
@@ -147,6 +315,46 @@ export const tools = [
     description: 'Get buffered output from a background SSH session. Optionally retrieve a specific number of lines and clear the buffer.',
     inputSchema: zodToJsonSchema(SshSessionOutputArgsSchema),
   },
+  {
+    name: 'ssh_job_status',
+    description: 'Get the status of a command queued in a background SSH session: queued, running, done (exit code 0), failed, or unknown for raw mode commands whose timeout passed, with its exit code, start and end time and the offsets of its output in the session output. Use it to check whether a build or scan finished and succeeded.',
+    inputSchema: zodToJsonSchema(SshJobStatusArgsSchema),
+  },
+  {
+    name: 'ssh_job_list',
+    description: 'List the jobs of background SSH sessions with their state and exit code, optionally for one session only.',
+    inputSchema: zodToJsonSchema(SshJobListArgsSchema),
+  },
+  {
+    name: 'ssh_session_queue',
+    description: 'List the command an SSH session is executing and the commands queued behind it, with their command IDs, position, timeout and background job IDs.',
+    inputSchema: zodToJsonSchema(SshSessionQueueArgsSchema),
+  },
+  {
+    name: 'ssh_session_cancel',
+    description: 'Cancel a command of an SSH session. A queued command is withdrawn before it runs; the running command, such as a background job that never exits, is interrupted with Ctrl-C. The command fails with a "Command cancelled" error.',
+    inputSchema: zodToJsonSchema(SshSessionCancelArgsSchema),
+  },
+  {
+    name: 'ssh_session_flush',
+    description: 'Cancel every queued command of an SSH session, leaving the running command to complete. Returns the IDs of the cancelled commands.',
+    inputSchema: zodToJsonSchema(SshSessionFlushArgsSchema),
+  },
+  {
+    name: 'ssh_connection_test',
+    description: 'Test whether a host can be reached and logged into, without running anything. Reports each stage (DNS, TCP or proxy/jump host tunnel, credentials, banner, key exchange, host key check, each authentication attempt) with its timing, and the stage and reason of a failure.',
+    inputSchema: zodToJsonSchema(SshConnectionTestArgsSchema),
+  },
+  {
+    name: 'ssh_connection_list',
+    description: 'List pooled SSH connections with their key, creation and last use time, open channel count, the sessions running on them and the server version.',
+    inputSchema: zodToJsonSchema(SshConnectionListArgsSchema),
+  },
+  {
+    name: 'ssh_connection_close',
+    description: 'Close a pooled SSH connection, and connections tunnelled through it, e.g. when it is stale. Running commands are aborted; sessions on it are closed only with cascade.',
+    inputSchema: zodToJsonSchema(SshConnectionCloseArgsSchema),
+  },
 ] as const;
 
 /**
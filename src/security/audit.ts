@@ -13,8 +13,17 @@ export enum AuditEvent {
   SESSION_CREATED = 'SESSION_CREATED',
   SESSION_CLOSED = 'SESSION_CLOSED',
   COMMAND_EXECUTED = 'COMMAND_EXECUTED',
+  COMMAND_CANCELLED = 'COMMAND_CANCELLED',
+  KEYS_SENT = 'KEYS_SENT',
   CONNECTION_ESTABLISHED = 'CONNECTION_ESTABLISHED',
   CONNECTION_FAILED = 'CONNECTION_FAILED',
+  CONNECTION_CLOSED = 'CONNECTION_CLOSED',
+  HOST_KEY_MISMATCH = 'HOST_KEY_MISMATCH',
+  HOST_KEY_ACCEPTED = 'HOST_KEY_ACCEPTED',
+  CERTIFICATE_SKIPPED = 'CERTIFICATE_SKIPPED',
+  RECONNECT_ATTEMPT = 'RECONNECT_ATTEMPT',
+  CIRCUIT_STATE_CHANGED = 'CIRCUIT_STATE_CHANGED',
+  CONNECTION_TESTED = 'CONNECTION_TESTED',
   ERROR_OCCURRED = 'ERROR_OCCURRED',
 }
 
@@ -25,8 +34,17 @@ const EVENT_LOG_LEVELS: Record<AuditEvent, string> = {
   [AuditEvent.SESSION_CREATED]: 'info',
   [AuditEvent.SESSION_CLOSED]: 'info',
   [AuditEvent.COMMAND_EXECUTED]: 'info',
+  [AuditEvent.COMMAND_CANCELLED]: 'warn',
+  [AuditEvent.KEYS_SENT]: 'info',
   [AuditEvent.CONNECTION_ESTABLISHED]: 'info',
   [AuditEvent.CONNECTION_FAILED]: 'warn',
+  [AuditEvent.CONNECTION_CLOSED]: 'info',
+  [AuditEvent.HOST_KEY_MISMATCH]: 'error',
+  [AuditEvent.HOST_KEY_ACCEPTED]: 'warn',
+  [AuditEvent.CERTIFICATE_SKIPPED]: 'warn',
+  [AuditEvent.RECONNECT_ATTEMPT]: 'warn',
+  [AuditEvent.CIRCUIT_STATE_CHANGED]: 'warn',
+  [AuditEvent.CONNECTION_TESTED]: 'info',
   [AuditEvent.ERROR_OCCURRED]: 'error',
 };
 
@@ -17,6 +17,11 @@ const DEFAULT_SENSITIVE_PATTERNS = [
   /(secret|private[_-]?key|passphrase)[\s=:]+\S+/gi,
 ];
 
+/**
+ * Environment variable names whose values are redacted
+ */
+const SENSITIVE_ENV_VAR_PATTERN = /pass|secret|token|key|credential|auth|cookie|session|private/i;
+
 /**
  * Sanitizes a private key path to show only the basename
  * @param keyPath - The full path to the private key
@@ -123,6 +128,33 @@ export function sanitizeOutput(output: string, maxLength: number = 1000): string
   return output.substring(0, maxLength) + '... [truncated]';
 }
 
+/**
+ * Checks whether an environment variable's name suggests it holds a secret
+ * @param name - The variable name
+ * @returns True if the value should be redacted
+ */
+export function isSensitiveEnvironmentVar(name: string): boolean {
+  return SENSITIVE_ENV_VAR_PATTERN.test(name);
+}
+
+/**
+ * Redacts the values of environment variables whose names suggest a secret
+ * @param vars - The environment variables
+ * @returns The variables as a plain object, with sensitive values replaced by [REDACTED]
+ * @throws {Error} If vars is null or undefined
+ */
+export function sanitizeEnvironmentVars(vars: Map<string, string>): Record<string, string> {
+  if (vars == null) {
+    throw new Error(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+  }
+
+  const sanitized: Record<string, string> = {};
+  for (const [name, value] of vars) {
+    sanitized[name] = isSensitiveEnvironmentVar(name) ? '[REDACTED]' : value;
+  }
+  return sanitized;
+}
+
 /**
  * Sanitizes an entire event data object by redacting sensitive fields
  * @param data - The event data to sanitize
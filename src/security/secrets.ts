@@ -0,0 +1,69 @@
+import { readFile, stat } from 'fs/promises';
+import type { SecretReference } from '../config/schema.js';
+import { expandTilde } from '../utils.js';
+import { INVALID_ARGUMENTS_ERROR, NULL_OR_UNDEFINED_ARGUMENTS_ERROR } from '../constants.js';
+
+/**
+ * Resolve a secret value from configuration
+ *
+ * Plain strings are returned unchanged. Environment references read the named
+ * variable. File references read the file, which must not be readable or
+ * writable by group or others (chmod 600), and strip one trailing newline.
+ *
+ * Addresses OWASP A02 (secrets kept out of configuration files and tool arguments)
+ *
+ * @param secret - A plaintext secret or a reference to one
+ * @returns The resolved secret value
+ * @throws {Error} If the secret is null or undefined
+ * @throws {Error} If the environment variable is unset or the file is missing or too permissive
+ *
+ * @example
+ * ```typescript
+ * const passphrase = await resolveSecret({ env: 'SSH_KEY_PASSPHRASE' });
+ * const password = await resolveSecret({ file: '~/.config/ssh-control/lab-password' });
+ * ```
+ */
+export async function resolveSecret(secret: string | SecretReference): Promise<string> {
+  if (secret == null) {
+    throw new Error(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+  }
+
+  if (typeof secret === 'string') {
+    return secret;
+  }
+
+  if ('env' in secret) {
+    const value = process.env[secret.env];
+    if (value === undefined || value === '') {
+      throw new Error(`${INVALID_ARGUMENTS_ERROR}: secret environment variable ${secret.env} is not set`);
+    }
+    return value;
+  }
+
+  const filePath = expandTilde(secret.file);
+
+  let mode: number;
+  try {
+    mode = (await stat(filePath)).mode;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`${INVALID_ARGUMENTS_ERROR}: secret file not found: ${filePath}`);
+    }
+    throw new Error(`Failed to read secret file ${filePath}: ${(error as Error).message}`);
+  }
+
+  if ((mode & 0o077) !== 0) {
+    throw new Error(
+      `${INVALID_ARGUMENTS_ERROR}: secret file ${filePath} must not be accessible by group or others (chmod 600)`
+    );
+  }
+
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Failed to read secret file ${filePath}: ${(error as Error).message}`);
+  }
+
+  return content.replace(/\r?\n$/, '');
+}
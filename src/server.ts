@@ -8,13 +8,14 @@
  */
 
 import { loadConfig } from './config/loader.js';
-import { createServer, startServer } from './mcp/server.js';
+import { createServer, runStartupPhase, startServer } from './mcp/server.js';
 
 async function main() {
   try {
     const config = await loadConfig();
 
     const server = createServer(config);
+    await runStartupPhase(server, config.startup);
     await startServer(server, { registerSignalHandlers: true });
 
     console.error(`SSH Control MCP server started for ${config.target.host}`);
@@ -4,10 +4,105 @@ import { INVALID_ARGUMENTS_ERROR, ShellNames } from './constants.js';
  * Shell-specific command formatting for cross-platform SSH session support
  */
 
+/**
+ * Environment variable names are written into commands unquoted
+ */
+const ENV_VAR_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check the arguments of formatSetEnvironmentCommand
+ * @param name - The variable name
+ * @param value - The variable value
+ * @throws {Error} If the name is not a valid variable name or the value is not provided
+ */
+function checkEnvironmentVariable(name: string, value: string): void {
+  if (!name || value == null) {
+    throw new Error(`${INVALID_ARGUMENTS_ERROR}: name and value are required`);
+  }
+  if (!ENV_VAR_NAME_PATTERN.test(name)) {
+    throw new Error(`${INVALID_ARGUMENTS_ERROR}: invalid environment variable name ${name}`);
+  }
+}
+
+/**
+ * Characters cmd.exe interprets even in a quoted value: " ends the quotes and %
+ * expands variables; the others are operators once the quotes are off balance
+ */
+const CMD_SPECIAL_CHARACTER_PATTERN = /["%^&|<>]/;
+
+/**
+ * Check that a value can be written into a cmd.exe command in quotes
+ * @param value - The directory or variable value
+ * @param what - What the value is, for the error message
+ * @throws {Error} If the value contains a character cmd.exe would interpret
+ */
+function checkCmdValue(value: string, what: string): void {
+  const special = CMD_SPECIAL_CHARACTER_PATTERN.exec(value);
+  if (special) {
+    throw new Error(`${INVALID_ARGUMENTS_ERROR}: ${what} cannot contain ${special[0]} in cmd`);
+  }
+}
+
+/**
+ * Redirect the stderr of every command on a cmd.exe command line to a file
+ * Grouping the line in parentheses breaks on an unbalanced ")", so the redirection is
+ * put in front of each command between &, &&, || and | instead. Commands that redirect
+ * stderr themselves, and IF, FOR and REM, which a redirection cannot precede, are left as is.
+ * @param command - The command line
+ * @param file - The quoted file to append stderr to
+ * @returns The command line with stderr redirected
+ */
+function redirectCmdStderr(command: string, file: string): string {
+  // Commands and the operators between them, alternately
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === '^' && i + 1 < command.length) {
+      current += char + command[++i];
+      continue;
+    } else if (!quoted && (char === '&' || char === '|') && !/[<>]$/.test(current)) {
+      // >& and <& duplicate a handle, e.g. 2>&1
+      const operator = command[i + 1] === char ? char + char : char;
+      parts.push(current, operator);
+      current = '';
+      i += operator.length - 1;
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.map((part, index) => {
+    if (index % 2 === 1) {
+      return part;
+    }
+    const [, lead, rest] = /^([\s(@]*)([\s\S]*)$/.exec(part)!;
+    const unquoted = rest.replace(/"[^"]*"?/g, '');
+    if (!rest.trim() || /^(if|for|rem)(\s|$)/i.test(rest) || /(^|\s)2>/.test(unquoted)) {
+      return part;
+    }
+    return `${lead}2>>${file} ${rest}`;
+  }).join('');
+}
+
 export type ShellType = 'bash' | 'sh' | 'powershell' | 'cmd';
 
 export interface ShellFormatter {
-  formatCommandWithDelimiters(command: string, startDelimiter: string, endDelimiter: string): string;
+  formatCommandWithDelimiters(
+    command: string,
+    startDelimiter: string,
+    endDelimiter: string,
+    stderrDelimiter?: string,
+    stateDelimiter?: string
+  ): string;
+  formatSyncCommand(marker: string): string;
+  formatStateCommand(stateDelimiter: string): string;
+  formatChangeDirectoryCommand(directory: string): string;
+  formatSetEnvironmentCommand(name: string, value: string): string;
   getKeepAliveCommand(): string;
   parseExitCode(output: string, endDelimiter: string): number | null;
   getShellName(): string;
@@ -34,16 +129,93 @@ export class BashShellFormatter implements ShellFormatter {
    * @param command - The command to format
    * @param startDelimiter - The delimiter to start the command
    * @param endDelimiter - The delimiter to end the command
+   * @param stderrDelimiter - When set, the command's stderr is captured in a temp file named after
+   * this delimiter and printed after it, between the stdout and the end delimiter
+   * @param stateDelimiter - When set, the shell state is printed after the command as by formatStateCommand
    * @throws {Error} If the command, startDelimiter, or endDelimiter is not provided
    * @returns The formatted command
    */
-  formatCommandWithDelimiters(command: string, startDelimiter: string, endDelimiter: string): string {
+  formatCommandWithDelimiters(
+    command: string,
+    startDelimiter: string,
+    endDelimiter: string,
+    stderrDelimiter?: string,
+    stateDelimiter?: string
+  ): string {
     if (!command || !startDelimiter || !endDelimiter) {
       throw new Error(`${INVALID_ARGUMENTS_ERROR}: command, startDelimiter, and endDelimiter are required`);
     }
-    return `echo "${startDelimiter}"; ${command}; echo "${endDelimiter}:$?"`;
+    if (!stderrDelimiter && !stateDelimiter) {
+      return `echo "${startDelimiter}"; ${command}; echo "${endDelimiter}:$?"`;
+    }
+
+    // The exit status is saved, as capturing stderr and printing the state overwrite $?
+    const stderrFile = `"\${TMPDIR:-/tmp}/${stderrDelimiter}"`;
+    return [
+      `echo "${startDelimiter}"`,
+      stderrDelimiter ? `{ ${command}; } 2>${stderrFile}` : command,
+      '__ssh_mcp_rc=$?',
+      ...(stderrDelimiter ? [`echo "${stderrDelimiter}"`, `cat ${stderrFile} 2>/dev/null`, `rm -f ${stderrFile}`] : []),
+      ...(stateDelimiter ? [this.formatStateCommand(stateDelimiter)] : []),
+      `echo "${endDelimiter}:$__ssh_mcp_rc"`,
+    ].join('; ');
   }
   
+  /**
+   * Formats a command that prints a marker on a line of its own, to find where the shell's output is up to
+   * @param marker - The marker to print
+   * @throws {Error} If the marker is not provided
+   * @returns The formatted command
+   */
+  formatSyncCommand(marker: string): string {
+    if (!marker) {
+      throw new Error(`${INVALID_ARGUMENTS_ERROR}: marker is required`);
+    }
+    return `echo "${marker}"`;
+  }
+
+  /**
+   * Formats a command that prints the shell state after a delimiter line: the working
+   * directory on the first line, then the environment as NAME=value lines
+   * @param stateDelimiter - The delimiter to print first
+   * @throws {Error} If the stateDelimiter is not provided
+   * @returns The formatted command
+   */
+  formatStateCommand(stateDelimiter: string): string {
+    if (!stateDelimiter) {
+      throw new Error(`${INVALID_ARGUMENTS_ERROR}: stateDelimiter is required`);
+    }
+    return `echo "${stateDelimiter}"; pwd; env`;
+  }
+
+  /**
+   * Formats a command that changes the working directory
+   * @param directory - The directory to change to
+   * @throws {Error} If the directory is not provided
+   * @returns The formatted command
+   */
+  formatChangeDirectoryCommand(directory: string): string {
+    if (!directory) {
+      throw new Error(`${INVALID_ARGUMENTS_ERROR}: directory is required`);
+    }
+    // A leading ~ stays unquoted, so the shell still expands it to the home directory
+    const home = directory === '~' ? '~' : directory.startsWith('~/') ? '~/' : '';
+    const rest = directory.substring(home.length);
+    return `cd ${home}${rest ? quoteBashString(rest) : ''}`;
+  }
+
+  /**
+   * Formats a command that sets an environment variable for the rest of the session
+   * @param name - The variable name
+   * @param value - The variable value
+   * @throws {Error} If the name is not a valid variable name or the value is not provided
+   * @returns The formatted command
+   */
+  formatSetEnvironmentCommand(name: string, value: string): string {
+    checkEnvironmentVariable(name, value);
+    return `export ${name}=${quoteBashString(value)}`;
+  }
+
   /**
    * Gets the keep-alive command
    * @returns The keep-alive command
@@ -86,16 +258,90 @@ export class PowerShellFormatter implements ShellFormatter {
    * @param command - The command to format
    * @param startDelimiter - The delimiter to start the command
    * @param endDelimiter - The delimiter to end the command
+   * @param stderrDelimiter - When set, the command's stderr is captured in a temp file named after
+   * this delimiter and printed after it, between the stdout and the end delimiter
+   * @param stateDelimiter - When set, the shell state is printed after the command as by formatStateCommand
    * @throws {Error} If the command, startDelimiter, or endDelimiter is not provided
    * @returns The formatted command
    */
-  formatCommandWithDelimiters(command: string, startDelimiter: string, endDelimiter: string): string {
+  formatCommandWithDelimiters(
+    command: string,
+    startDelimiter: string,
+    endDelimiter: string,
+    stderrDelimiter?: string,
+    stateDelimiter?: string
+  ): string {
     if (!command || !startDelimiter || !endDelimiter) {
       throw new Error(`${INVALID_ARGUMENTS_ERROR}: command, startDelimiter, and endDelimiter are required`);
     }
-    return `Write-Output "${startDelimiter}"; ${command}; Write-Output "${endDelimiter}:$LASTEXITCODE"`;
+    // Dot-sourcing runs the command in the current scope, so variables it sets persist
+    const stderrFile = `(Join-Path ([IO.Path]::GetTempPath()) "${stderrDelimiter}")`;
+    return [
+      `Write-Output "${startDelimiter}"`,
+      stderrDelimiter ? `. { ${command} } 2> ${stderrFile}` : command,
+      ...(stderrDelimiter ? [
+        `Write-Output "${stderrDelimiter}"`,
+        `Get-Content -ErrorAction SilentlyContinue ${stderrFile}`,
+        `Remove-Item -ErrorAction SilentlyContinue ${stderrFile}`,
+      ] : []),
+      ...(stateDelimiter ? [this.formatStateCommand(stateDelimiter)] : []),
+      `Write-Output "${endDelimiter}:$LASTEXITCODE"`,
+    ].join('; ');
   }
   
+  /**
+   * Formats a command that prints a marker on a line of its own, to find where the shell's output is up to
+   * @param marker - The marker to print
+   * @throws {Error} If the marker is not provided
+   * @returns The formatted command
+   */
+  formatSyncCommand(marker: string): string {
+    if (!marker) {
+      throw new Error(`${INVALID_ARGUMENTS_ERROR}: marker is required`);
+    }
+    return `Write-Output "${marker}"`;
+  }
+
+  /**
+   * Formats a command that prints the shell state after a delimiter line: the working
+   * directory on the first line, then the environment as NAME=value lines
+   * @param stateDelimiter - The delimiter to print first
+   * @throws {Error} If the stateDelimiter is not provided
+   * @returns The formatted command
+   */
+  formatStateCommand(stateDelimiter: string): string {
+    if (!stateDelimiter) {
+      throw new Error(`${INVALID_ARGUMENTS_ERROR}: stateDelimiter is required`);
+    }
+    return `Write-Output "${stateDelimiter}"; (Get-Location).Path; ` +
+      'Get-ChildItem env: | ForEach-Object { "$($_.Name)=$($_.Value)" }';
+  }
+
+  /**
+   * Formats a command that changes the working directory
+   * @param directory - The directory to change to
+   * @throws {Error} If the directory is not provided
+   * @returns The formatted command
+   */
+  formatChangeDirectoryCommand(directory: string): string {
+    if (!directory) {
+      throw new Error(`${INVALID_ARGUMENTS_ERROR}: directory is required`);
+    }
+    return `Set-Location -Path ${quotePowerShellString(directory)}`;
+  }
+
+  /**
+   * Formats a command that sets an environment variable for the rest of the session
+   * @param name - The variable name
+   * @param value - The variable value
+   * @throws {Error} If the name is not a valid variable name or the value is not provided
+   * @returns The formatted command
+   */
+  formatSetEnvironmentCommand(name: string, value: string): string {
+    checkEnvironmentVariable(name, value);
+    return `$env:${name} = ${quotePowerShellString(value)}`;
+  }
+
   /**
    * Gets the keep-alive command
    * @returns The keep-alive command
@@ -140,19 +386,90 @@ export class CmdShellFormatter implements ShellFormatter {
    * @param command - The command to format
    * @param startDelimiter - The delimiter to start the command
    * @param endDelimiter - The delimiter to end the command
+   * @param stderrDelimiter - When set, the command's stderr is captured in a temp file named after
+   * this delimiter and printed after it, between the stdout and the end delimiter
+   * @param stateDelimiter - When set, the shell state is printed after the command as by formatStateCommand
    * @throws {Error} If the command, startDelimiter, or endDelimiter is not provided
    * @returns The formatted command
    */
-  formatCommandWithDelimiters(command: string, startDelimiter: string, endDelimiter: string): string {
+  formatCommandWithDelimiters(
+    command: string,
+    startDelimiter: string,
+    endDelimiter: string,
+    stderrDelimiter?: string,
+    stateDelimiter?: string
+  ): string {
     if (!command || !startDelimiter || !endDelimiter) {
       throw new Error(`${INVALID_ARGUMENTS_ERROR}: command, startDelimiter, and endDelimiter are required`);
     }
 
     // %ERRORLEVEL% contains the exit code
     // The echo %ERRORLEVEL% > NUL is to force evaluation of ERRORLEVEL before the final echo
-    return `echo ${startDelimiter} & ${command} & echo %ERRORLEVEL% > NUL & echo ${endDelimiter}:%ERRORLEVEL%`;
+    const stderrFile = `"%TEMP%\\${stderrDelimiter}"`;
+    return [
+      `echo ${startDelimiter}`,
+      stderrDelimiter ? redirectCmdStderr(command, stderrFile) : command,
+      'echo %ERRORLEVEL% > NUL',
+      ...(stderrDelimiter ? [`echo ${stderrDelimiter}`, `type ${stderrFile} 2>NUL`, `del ${stderrFile} 2>NUL`] : []),
+      ...(stateDelimiter ? [this.formatStateCommand(stateDelimiter)] : []),
+      `echo ${endDelimiter}:%ERRORLEVEL%`,
+    ].join(' & ');
   }
   
+  /**
+   * Formats a command that prints a marker on a line of its own, to find where the shell's output is up to
+   * @param marker - The marker to print
+   * @throws {Error} If the marker is not provided
+   * @returns The formatted command
+   */
+  formatSyncCommand(marker: string): string {
+    if (!marker) {
+      throw new Error(`${INVALID_ARGUMENTS_ERROR}: marker is required`);
+    }
+    return `echo ${marker}`;
+  }
+
+  /**
+   * Formats a command that prints the shell state after a delimiter line: the working
+   * directory on the first line, then the environment as NAME=value lines
+   * @param stateDelimiter - The delimiter to print first
+   * @throws {Error} If the stateDelimiter is not provided
+   * @returns The formatted command
+   */
+  formatStateCommand(stateDelimiter: string): string {
+    if (!stateDelimiter) {
+      throw new Error(`${INVALID_ARGUMENTS_ERROR}: stateDelimiter is required`);
+    }
+    return `echo ${stateDelimiter} & cd & set`;
+  }
+
+  /**
+   * Formats a command that changes the working directory
+   * @param directory - The directory to change to
+   * @throws {Error} If the directory is not provided or contains " % ^ & | < or >
+   * @returns The formatted command
+   */
+  formatChangeDirectoryCommand(directory: string): string {
+    if (!directory) {
+      throw new Error(`${INVALID_ARGUMENTS_ERROR}: directory is required`);
+    }
+    checkCmdValue(directory, 'directory');
+    return `cd /d "${directory}"`;
+  }
+
+  /**
+   * Formats a command that sets an environment variable for the rest of the session
+   * @param name - The variable name
+   * @param value - The variable value
+   * @throws {Error} If the name is not a valid variable name, or the value is not provided or contains " % ^ & | < or >
+   * @returns The formatted command
+   */
+  formatSetEnvironmentCommand(name: string, value: string): string {
+    checkEnvironmentVariable(name, value);
+    checkCmdValue(value, `value of ${name}`);
+    return `set "${name}=${value}"`;
+  }
+
   /**
    * Gets the keep-alive command
    * @returns The keep-alive command
@@ -191,6 +508,24 @@ export class CmdShellFormatter implements ShellFormatter {
   }
 }
 
+/**
+ * Quote a string for bash and sh, where nothing inside single quotes is expanded
+ * @param value - The string to quote
+ * @returns The quoted string
+ */
+function quoteBashString(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quote a string for PowerShell, where nothing inside single quotes is expanded
+ * @param value - The string to quote
+ * @returns The quoted string
+ */
+function quotePowerShellString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
 /**
  * Factory function to create the appropriate shell formatter
  * @param shellType - The type of shell to create
@@ -0,0 +1,196 @@
+import type { Algorithms, NegotiatedAlgorithms } from 'ssh2';
+import type { AlgorithmsConfig, AlgorithmPreset } from '../config/schema.js';
+
+/**
+ * Transport algorithm lists, most preferred first
+ */
+export interface AlgorithmPolicy {
+  kex: string[];
+  ciphers: string[];
+  macs: string[];
+  hostKeys: string[];
+  compression: string[];
+}
+
+/**
+ * The algorithms agreed with a server during the key exchange
+ * Cipher, MAC and compression are those of the client to server direction.
+ */
+export interface NegotiatedAlgorithmSet {
+  kex: string;
+  hostKey: string;
+  cipher: string;
+  /** Empty for AEAD ciphers such as aes256-gcm@openssh.com, which authenticate on their own */
+  mac: string;
+  compression: string;
+}
+
+/**
+ * Named algorithm policies
+ * modern: only current algorithms, for hardened OpenSSH hosts
+ * compat: the ssh2 defaults plus SHA-1, CBC and DSA algorithms for old appliances
+ * fips-like: NIST curves, AES and SHA-2 only, as FIPS 140 approved implementations offer
+ */
+export const ALGORITHM_PRESETS: Readonly<Record<AlgorithmPreset, Readonly<AlgorithmPolicy>>> = {
+  'modern': {
+    kex: [
+      'curve25519-sha256',
+      'curve25519-sha256@libssh.org',
+      'ecdh-sha2-nistp521',
+      'ecdh-sha2-nistp384',
+      'ecdh-sha2-nistp256',
+      'diffie-hellman-group-exchange-sha256',
+      'diffie-hellman-group16-sha512',
+      'diffie-hellman-group18-sha512',
+    ],
+    ciphers: [
+      'chacha20-poly1305@openssh.com',
+      'aes256-gcm@openssh.com',
+      'aes128-gcm@openssh.com',
+      'aes256-ctr',
+      'aes192-ctr',
+      'aes128-ctr',
+    ],
+    macs: [
+      'hmac-sha2-512-etm@openssh.com',
+      'hmac-sha2-256-etm@openssh.com',
+      'hmac-sha2-512',
+      'hmac-sha2-256',
+    ],
+    hostKeys: [
+      'ssh-ed25519',
+      'ecdsa-sha2-nistp521',
+      'ecdsa-sha2-nistp384',
+      'ecdsa-sha2-nistp256',
+      'rsa-sha2-512',
+      'rsa-sha2-256',
+    ],
+    compression: ['none', 'zlib@openssh.com'],
+  },
+  'compat': {
+    kex: [
+      'curve25519-sha256',
+      'curve25519-sha256@libssh.org',
+      'ecdh-sha2-nistp256',
+      'ecdh-sha2-nistp384',
+      'ecdh-sha2-nistp521',
+      'diffie-hellman-group-exchange-sha256',
+      'diffie-hellman-group14-sha256',
+      'diffie-hellman-group16-sha512',
+      'diffie-hellman-group18-sha512',
+      'diffie-hellman-group-exchange-sha1',
+      'diffie-hellman-group14-sha1',
+      'diffie-hellman-group1-sha1',
+    ],
+    ciphers: [
+      'aes128-gcm@openssh.com',
+      'aes256-gcm@openssh.com',
+      'aes128-ctr',
+      'aes192-ctr',
+      'aes256-ctr',
+      'chacha20-poly1305@openssh.com',
+      'aes256-cbc',
+      'aes192-cbc',
+      'aes128-cbc',
+      '3des-cbc',
+    ],
+    macs: [
+      'hmac-sha2-256-etm@openssh.com',
+      'hmac-sha2-512-etm@openssh.com',
+      'hmac-sha1-etm@openssh.com',
+      'hmac-sha2-256',
+      'hmac-sha2-512',
+      'hmac-sha1',
+      'hmac-sha1-96',
+      'hmac-md5',
+    ],
+    hostKeys: [
+      'ssh-ed25519',
+      'ecdsa-sha2-nistp256',
+      'ecdsa-sha2-nistp384',
+      'ecdsa-sha2-nistp521',
+      'rsa-sha2-512',
+      'rsa-sha2-256',
+      'ssh-rsa',
+      'ssh-dss',
+    ],
+    compression: ['none', 'zlib@openssh.com', 'zlib'],
+  },
+  'fips-like': {
+    kex: [
+      'ecdh-sha2-nistp256',
+      'ecdh-sha2-nistp384',
+      'ecdh-sha2-nistp521',
+      'diffie-hellman-group-exchange-sha256',
+      'diffie-hellman-group14-sha256',
+      'diffie-hellman-group16-sha512',
+      'diffie-hellman-group18-sha512',
+    ],
+    ciphers: [
+      'aes256-gcm@openssh.com',
+      'aes128-gcm@openssh.com',
+      'aes256-ctr',
+      'aes192-ctr',
+      'aes128-ctr',
+    ],
+    macs: [
+      'hmac-sha2-512-etm@openssh.com',
+      'hmac-sha2-256-etm@openssh.com',
+      'hmac-sha2-512',
+      'hmac-sha2-256',
+    ],
+    hostKeys: [
+      'ecdsa-sha2-nistp521',
+      'ecdsa-sha2-nistp384',
+      'ecdsa-sha2-nistp256',
+      'rsa-sha2-512',
+      'rsa-sha2-256',
+    ],
+    compression: ['none'],
+  },
+};
+
+/**
+ * Turn an algorithm configuration into ssh2 algorithm lists
+ * Lists given explicitly replace the preset's list of that kind; kinds set by
+ * neither keep the ssh2 defaults.
+ * @param config - A preset name, or a preset and explicit lists
+ * @returns The algorithms to offer, in ssh2's format
+ *
+ * @example
+ * ```typescript
+ * resolveAlgorithms({ preset: 'modern', ciphers: ['aes256-gcm@openssh.com'] });
+ * // { kex: [...modern], cipher: ['aes256-gcm@openssh.com'], hmac: [...modern], ... }
+ * ```
+ */
+export function resolveAlgorithms(config: AlgorithmsConfig): Algorithms {
+  const { preset, ...lists } = typeof config === 'string' ? { preset: config } : config;
+  const policy: Partial<AlgorithmPolicy> = {
+    ...(preset !== undefined ? ALGORITHM_PRESETS[preset] : {}),
+    ...Object.fromEntries(Object.entries(lists).filter(([, list]) => list !== undefined)),
+  };
+
+  // ssh2 checks the names against the algorithms it supports when connecting
+  return {
+    ...(policy.kex ? { kex: [...policy.kex] } : {}),
+    ...(policy.ciphers ? { cipher: [...policy.ciphers] } : {}),
+    ...(policy.macs ? { hmac: [...policy.macs] } : {}),
+    ...(policy.hostKeys ? { serverHostKey: [...policy.hostKeys] } : {}),
+    ...(policy.compression ? { compress: [...policy.compression] } : {}),
+  } as Algorithms;
+}
+
+/**
+ * Summarise the algorithms ssh2 negotiated
+ * @param negotiated - The algorithms from ssh2's handshake event
+ * @returns The negotiated algorithms
+ */
+export function summarizeNegotiatedAlgorithms(negotiated: NegotiatedAlgorithms): NegotiatedAlgorithmSet {
+  return {
+    kex: negotiated.kex,
+    hostKey: negotiated.serverHostKey,
+    cipher: negotiated.cs.cipher,
+    mac: negotiated.cs.mac,
+    compression: negotiated.cs.compress,
+  };
+}
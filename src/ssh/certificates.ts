@@ -0,0 +1,362 @@
+import { createRequire } from 'module';
+import { readFile } from 'fs/promises';
+import { Client, ParsedKey, utils } from 'ssh2';
+import { SSHError } from './errors.js';
+import { encodeString, parseCertificate, OpenSSHCertificate } from './keys.js';
+import { CERTIFICATE_AUTH_UNSUPPORTED_ERROR, CERTIFICATE_INVALID_ERROR, UNKNOWN_ERROR } from '../constants.js';
+
+/**
+ * Suffix of certificate key algorithm names
+ */
+const CERTIFICATE_SUFFIX = '-cert-v01@openssh.com';
+
+/**
+ * Suffix ssh-keygen uses for a certificate stored next to its private key
+ */
+const CERTIFICATE_FILE_SUFFIX = '-cert.pub';
+
+/**
+ * The ssh2 release line whose internals certificate authentication was written and tested against
+ * Other versions are refused by {@link enableCertificateAuth} before any internals are touched.
+ * package.json pins ssh2 to this line, so the two must be raised together.
+ */
+export const SSH2_TESTED_VERSION = '1.17';
+
+const requireModule = createRequire(import.meta.url);
+
+/**
+ * ssh2 protocol helpers that are not part of its public API
+ */
+interface SSH2ProtocolUtils {
+  convertSignature(signature: Buffer, keyType: string): Buffer | false | undefined;
+  sendPacket(protocol: SSH2Protocol, packet: Buffer): boolean;
+}
+
+let ssh2ProtocolUtils: SSH2ProtocolUtils | undefined;
+
+/**
+ * The parts of ssh2's internal Protocol object used to send certificate auth requests
+ */
+interface SSH2Protocol {
+  authPK(
+    username: string,
+    key: ParsedKey,
+    keyAlgo?: string | SignCallback,
+    cbSign?: SignCallback
+  ): void;
+  _authsQueue: string[];
+  _packetRW: {
+    write: {
+      allocStart: number;
+      alloc(length: number): Buffer;
+      finalize(packet: Buffer): Buffer;
+    };
+  };
+}
+
+type SignCallback = (data: Buffer, callback: (signature: Buffer) => void) => void;
+
+/**
+ * An OpenSSH user certificate loaded from disk
+ */
+export interface UserCertificate {
+  path: string;
+  blob: Buffer;
+  certificate: OpenSSHCertificate;
+}
+
+/**
+ * Certificates attached to keys created by {@link createCertificateKey}
+ */
+const certificateKeys = new WeakMap<object, UserCertificate>();
+
+/**
+ * Protocol instances that already send certificate auth requests
+ */
+const patchedProtocols = new WeakSet<object>();
+
+/**
+ * Read the version of the installed ssh2
+ * @returns The version, or unknown if package.json cannot be read
+ */
+function installedSSH2Version(): string {
+  try {
+    return (requireModule('ssh2/package.json') as { version: string }).version;
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Build the error for an ssh2 whose internals are not what certificate authentication expects
+ * @param detail - What is missing or changed
+ * @returns The error naming the installed and the tested ssh2 versions
+ */
+function unsupportedSSH2Error(detail: string): SSHError {
+  return new SSHError(
+    `${CERTIFICATE_AUTH_UNSUPPORTED_ERROR}: ${detail} (installed ssh2 ${installedSSH2Version()}, tested with ${SSH2_TESTED_VERSION}.x)`
+  );
+}
+
+/**
+ * Check whether an ssh2 version is from the release line certificate authentication was tested with
+ * @param version - The ssh2 version, e.g. 1.17.0
+ * @returns True if certificate authentication may patch this version
+ */
+export function isTestedSSH2Version(version: string): boolean {
+  return version.startsWith(`${SSH2_TESTED_VERSION}.`);
+}
+
+/**
+ * Load the ssh2 protocol helpers used to send certificate auth requests
+ * @returns The helpers
+ * @throws {SSHError} If the helpers are missing from the installed ssh2
+ */
+function loadProtocolUtils(): SSH2ProtocolUtils {
+  if (ssh2ProtocolUtils !== undefined) {
+    return ssh2ProtocolUtils;
+  }
+
+  let helpers: Partial<SSH2ProtocolUtils>;
+  try {
+    helpers = requireModule('ssh2/lib/protocol/utils.js') as Partial<SSH2ProtocolUtils>;
+  } catch (error) {
+    throw unsupportedSSH2Error(
+      `cannot load ssh2/lib/protocol/utils.js: ${error instanceof Error ? error.message : UNKNOWN_ERROR}`
+    );
+  }
+  if (typeof helpers.convertSignature !== 'function' || typeof helpers.sendPacket !== 'function') {
+    throw unsupportedSSH2Error('ssh2/lib/protocol/utils.js has no convertSignature or sendPacket');
+  }
+
+  ssh2ProtocolUtils = helpers as SSH2ProtocolUtils;
+  return ssh2ProtocolUtils;
+}
+
+/**
+ * Check that a client's protocol object has the internals certificate auth patches
+ * @param protocol - The client's _protocol
+ * @returns The protocol
+ * @throws {SSHError} If authPK, _authsQueue or the packet writer are missing
+ */
+function checkProtocol(protocol: Partial<SSH2Protocol> | undefined): SSH2Protocol {
+  if (protocol === undefined) {
+    throw unsupportedSSH2Error('the client has no _protocol');
+  }
+  if (typeof protocol.authPK !== 'function') {
+    throw unsupportedSSH2Error('_protocol.authPK is not a function');
+  }
+  if (!Array.isArray(protocol._authsQueue)) {
+    throw unsupportedSSH2Error('_protocol._authsQueue is not an array');
+  }
+  const writer = protocol._packetRW?.write;
+  if (
+    typeof writer?.allocStart !== 'number'
+    || typeof writer.alloc !== 'function'
+    || typeof writer.finalize !== 'function'
+  ) {
+    throw unsupportedSSH2Error('_protocol._packetRW.write is not a packet writer');
+  }
+  return protocol as SSH2Protocol;
+}
+
+/**
+ * Get the path where ssh-keygen stores the certificate for a private key
+ * @param privateKeyPath - The path to the private key
+ * @returns The certificate path, e.g. ~/.ssh/id_ed25519-cert.pub
+ */
+export function getCertificatePath(privateKeyPath: string): string {
+  return `${privateKeyPath}${CERTIFICATE_FILE_SUFFIX}`;
+}
+
+/**
+ * Load an OpenSSH user certificate (-cert.pub file)
+ * @param certificatePath - The path to the certificate file
+ * @returns The loaded certificate
+ * @throws {SSHError} If the file cannot be read or is not a user certificate
+ */
+export async function loadUserCertificate(certificatePath: string): Promise<UserCertificate> {
+  let content: string;
+  try {
+    content = await readFile(certificatePath, 'utf-8');
+  } catch (error) {
+    throw new SSHError(
+      `Failed to read SSH certificate from ${certificatePath}: ${error instanceof Error ? error.message : UNKNOWN_ERROR}`
+    );
+  }
+
+  const [type, data] = content.trim().split(/\s+/);
+  if (!type?.endsWith(CERTIFICATE_SUFFIX) || !data) {
+    throw new SSHError(`${CERTIFICATE_INVALID_ERROR}: ${certificatePath} is not an OpenSSH certificate`);
+  }
+
+  const blob = Buffer.from(data, 'base64');
+  let certificate: OpenSSHCertificate;
+  try {
+    certificate = parseCertificate(blob);
+  } catch (error) {
+    throw new SSHError(
+      `${CERTIFICATE_INVALID_ERROR}: ${certificatePath}: ${error instanceof Error ? error.message : UNKNOWN_ERROR}`
+    );
+  }
+
+  if (certificate.certType !== 'user') {
+    throw new SSHError(`${CERTIFICATE_INVALID_ERROR}: ${certificatePath} is a host certificate`);
+  }
+
+  return { path: certificatePath, blob, certificate };
+}
+
+/**
+ * Look for a user certificate next to a private key
+ * A missing or unreadable certificate is not an error, the key is then used on its own.
+ * @param privateKeyPath - The path to the private key
+ * @returns The certificate, or undefined if there is no usable certificate file
+ */
+export async function findUserCertificate(privateKeyPath: string): Promise<UserCertificate | undefined> {
+  try {
+    return await loadUserCertificate(getCertificatePath(privateKeyPath));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check that a certificate is inside its validity period
+ * @param certificate - The certificate to check
+ * @param now - The time to check against
+ * @throws {SSHError} If the certificate has expired or is not yet valid
+ */
+export function checkCertificateValidity(certificate: UserCertificate, now: Date = new Date()): void {
+  const { validAfter, validBefore } = certificate.certificate;
+  if (validBefore !== null && validBefore.getTime() <= now.getTime()) {
+    throw new SSHError(
+      `${CERTIFICATE_INVALID_ERROR}: ${certificate.path} expired at ${validBefore.toISOString()}`
+    );
+  }
+  if (validAfter.getTime() > now.getTime()) {
+    throw new SSHError(
+      `${CERTIFICATE_INVALID_ERROR}: ${certificate.path} is not valid until ${validAfter.toISOString()}`
+    );
+  }
+}
+
+/**
+ * Create a signing key that presents a certificate instead of its plain public key
+ * @param privateKey - The private key file contents
+ * @param passphrase - The passphrase for an encrypted private key
+ * @param certificate - The certificate for the private key
+ * @returns A parsed key for ssh2 publickey authentication
+ * @throws {SSHError} If the key cannot be parsed or the certificate is for a different key
+ */
+export function createCertificateKey(
+  privateKey: Buffer,
+  passphrase: string | undefined,
+  certificate: UserCertificate
+): ParsedKey {
+  const parsed = utils.parseKey(privateKey, passphrase);
+  if (parsed instanceof Error) {
+    throw new SSHError(`Failed to load SSH private key: ${parsed.message}`, parsed);
+  }
+  const key = Array.isArray(parsed) ? parsed[0] : parsed;
+
+  if (!key.getPublicSSH().equals(certificate.certificate.publicKey)) {
+    throw new SSHError(`${CERTIFICATE_INVALID_ERROR}: ${certificate.path} does not certify the private key`);
+  }
+
+  const certificateKey: ParsedKey = Object.create(key, {
+    getPublicSSH: { value: () => certificate.blob },
+  });
+  certificateKeys.set(certificateKey, certificate);
+  return certificateKey;
+}
+
+/**
+ * Teach a connecting client to authenticate with certificate keys
+ *
+ * ssh2 has no user certificate support: it names the signature after the
+ * request's key algorithm, which servers reject for certificates. This wraps
+ * the client's protocol so requests for keys from {@link createCertificateKey}
+ * use the certificate algorithm for the key and the plain algorithm for the
+ * signature (PROTOCOL.certkeys). Other keys are passed through unchanged.
+ *
+ * ssh2 offers no extension point for this: an authHandler or agent key is
+ * always signed under the request's algorithm. So this relies on ssh2
+ * internals, _protocol.authPK, _protocol._authsQueue, the packet writer and
+ * lib/protocol/utils.js, and is only enabled for ssh2 {@link SSH2_TESTED_VERSION}.x.
+ * The version and the internals are checked first, so any other ssh2 fails
+ * here rather than mid-handshake.
+ *
+ * Must be called after client.connect(), which creates the protocol object.
+ *
+ * @param client - The connecting SSH client
+ * @throws {SSHError} If the installed ssh2 is not a tested version or does not have the internals this relies on
+ */
+export function enableCertificateAuth(client: Client): void {
+  const internals = client as unknown as { _protocol?: Partial<SSH2Protocol> };
+  if (internals._protocol !== undefined && patchedProtocols.has(internals._protocol)) {
+    return;
+  }
+  if (!isTestedSSH2Version(installedSSH2Version())) {
+    throw unsupportedSSH2Error('certificate authentication patches ssh2 internals and is only enabled for the tested versions');
+  }
+  const protocol = checkProtocol(internals._protocol);
+  const protocolUtils = loadProtocolUtils();
+  patchedProtocols.add(protocol);
+
+  const authPK = protocol.authPK.bind(protocol);
+  protocol.authPK = (username, key, keyAlgo, cbSign) => {
+    const certificate = certificateKeys.get(key);
+    if (certificate === undefined) {
+      authPK(username, key, keyAlgo, cbSign);
+      return;
+    }
+
+    if (typeof keyAlgo === 'function') {
+      cbSign = keyAlgo;
+      keyAlgo = undefined;
+    }
+    const signatureAlgo = keyAlgo ?? key.type;
+    const certificateAlgo = signatureAlgo.startsWith('rsa-sha2-')
+      ? `${signatureAlgo}${CERTIFICATE_SUFFIX}`
+      : certificate.certificate.type;
+
+    if (cbSign === undefined) {
+      authPK(username, key, certificateAlgo);
+      return;
+    }
+
+    const sign = cbSign;
+    authPK(username, key, certificateAlgo, (data) => {
+      sign(data, (signature) => {
+        let converted: Buffer | false | undefined;
+        try {
+          converted = protocolUtils.convertSignature(signature, key.type);
+        } catch {
+          converted = undefined;
+        }
+        if (!converted) {
+          // A throw here would escape into ssh2's packet processing, so the connection fails instead
+          client.emit('error', new SSHError(
+            `Failed to sign with the key of ${certificate.path}: cannot convert the ${key.type} signature`
+          ));
+          client.end();
+          return;
+        }
+
+        // data is the session ID followed by the request that was signed
+        const request = data.subarray(4 + data.readUInt32BE(0));
+        const payload = Buffer.concat([
+          request,
+          encodeString(Buffer.concat([encodeString(signatureAlgo), encodeString(converted)])),
+        ]);
+
+        const writer = protocol._packetRW.write;
+        const packet = writer.alloc(payload.length);
+        payload.copy(packet, writer.allocStart);
+        protocol._authsQueue.push('publickey');
+        protocolUtils.sendPacket(protocol, writer.finalize(packet));
+      });
+    });
+  };
+}
@@ -0,0 +1,139 @@
+import { SSHError } from './errors.js';
+import { CIRCUIT_OPEN_ERROR } from '../constants.js';
+
+/**
+ * State of a circuit breaker
+ * closed lets connections through, open fails them fast and half-open lets a
+ * single trial connection through.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Fails connections to a host fast after repeated failures
+ *
+ * After failureThreshold consecutive failures the breaker opens. Once
+ * resetTimeout has passed it half-opens on its own and lets one trial
+ * connection through: success closes it again, failure reopens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private trialInProgress = false;
+  private openedAt?: Date;
+  private resetTimer?: NodeJS.Timeout;
+
+  /**
+   * Create a circuit breaker for a host
+   * @param target - The host:port the breaker guards, used in error messages
+   * @param failureThreshold - Consecutive failures that open the breaker
+   * @param resetTimeout - Milliseconds the breaker stays open before half-opening
+   * @param onStateChange - Called with the previous and new state on every change
+   */
+  constructor(
+    private readonly target: string,
+    private readonly failureThreshold: number,
+    private readonly resetTimeout: number,
+    private readonly onStateChange?: (from: CircuitState, to: CircuitState, failures: number) => void
+  ) {}
+
+  /**
+   * Get the current state
+   * @returns The breaker state
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Check that a connection attempt may go ahead
+   * In the half-open state only the first caller is let through.
+   * @throws {SSHError} If the breaker is open, or half-open with a trial already running
+   */
+  beforeAttempt(): void {
+    if (this.state === 'closed') {
+      return;
+    }
+    if (this.state === 'half-open' && !this.trialInProgress) {
+      this.trialInProgress = true;
+      return;
+    }
+
+    const retryAt = new Date((this.openedAt?.getTime() ?? Date.now()) + this.resetTimeout);
+    throw new SSHError(
+      `${CIRCUIT_OPEN_ERROR}: ${this.target} failed ${this.failures} times in a row, ` +
+      `next attempt allowed after ${retryAt.toISOString()}`
+    );
+  }
+
+  /**
+   * Record a successful connection, closing the breaker
+   */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInProgress = false;
+    this.transition('closed');
+  }
+
+  /**
+   * Record a failed connection, opening the breaker at the threshold or after a failed trial
+   */
+  recordFailure(): void {
+    this.failures++;
+    const trialFailed = this.state === 'half-open';
+    this.trialInProgress = false;
+    if (trialFailed || this.failures >= this.failureThreshold) {
+      this.open();
+    }
+  }
+
+  /**
+   * End an attempt that neither reached nor failed to reach the host
+   * A half-open breaker lets the next caller make the trial instead.
+   */
+  abortAttempt(): void {
+    this.trialInProgress = false;
+  }
+
+  /**
+   * Stop the half-open timer
+   */
+  dispose(): void {
+    if (this.resetTimer) {
+      clearTimeout(this.resetTimer);
+      this.resetTimer = undefined;
+    }
+  }
+
+  /**
+   * Open the breaker and schedule the half-open transition
+   */
+  private open(): void {
+    this.dispose();
+    this.openedAt = new Date();
+    this.transition('open');
+
+    this.resetTimer = setTimeout(() => {
+      this.resetTimer = undefined;
+      this.transition('half-open');
+    }, this.resetTimeout);
+    // A pending half-open must not keep the process alive
+    this.resetTimer.unref?.();
+  }
+
+  /**
+   * Change state and report the change
+   * @param to - The new state
+   */
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+    this.state = to;
+    if (to === 'closed') {
+      this.dispose();
+      this.openedAt = undefined;
+    }
+    this.onStateChange?.(from, to, this.failures);
+  }
+}
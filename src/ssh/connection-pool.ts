@@ -1,133 +1,1400 @@
-import { Client } from 'ssh2';
+import { Client, ConnectConfig, AuthHandlerMiddleware, AuthenticationType, AnyAuthMethod, ParsedKey } from 'ssh2';
 import { readFile } from 'fs/promises';
-import { ConnectionInfo } from './types.js';
-import { SSHError } from './errors.js';
-import { TIMEOUTS, SSH_CONFIG } from './constants.js';
+import { Duplex } from 'stream';
+import {
+  AuthMethod,
+  ChannelLease,
+  ConnectionInfo,
+  ConnectionOptions,
+  ConnectionPoolOptions,
+  JumpHost,
+  PooledConnectionInfo,
+} from './types.js';
+import { SSHError, HostKeyVerificationError } from './errors.js';
+import { TIMEOUTS, SSH_CONFIG, RECONNECT } from './constants.js';
+import { CircuitBreaker, CircuitState } from './circuit-breaker.js';
+import { verifyHostKey } from './known-hosts.js';
+import { computeFingerprint } from './keys.js';
+import { formatJumpHost } from './jump-hosts.js';
+import { NegotiatedAlgorithmSet, summarizeNegotiatedAlgorithms } from './algorithms.js';
+import { openProxySocket } from './proxy.js';
+import {
+  ConnectionProbe,
+  ConnectionTestRecorder,
+  ConnectionTestReport,
+  connectSocket,
+  resolveHostAddress,
+} from './diagnostics.js';
+import {
+  UserCertificate,
+  loadUserCertificate,
+  findUserCertificate,
+  checkCertificateValidity,
+  createCertificateKey,
+  enableCertificateAuth,
+} from './certificates.js';
+import { AuditLogger, AuditEvent } from '../security/audit.js';
 import { 
   INVALID_ARGUMENTS_ERROR,
   NULL_OR_UNDEFINED_ARGUMENTS_ERROR,
   UNKNOWN_ERROR,
+  CHANNEL_WAIT_TIMEOUT_ERROR,
   CONNECTION_TIMEOUT_ERROR,
-  CONNECTION_FAILED_ERROR
+  CONNECTION_FAILED_ERROR,
+  CONNECTION_LIMIT_ERROR,
+  HOST_KEY_VERIFICATION_FAILED_ERROR,
+  PROXY_FAILED_ERROR
  } from '../constants.js';
 
+/**
+ * Build an ssh2 auth handler that tries the given methods in order
+ * Methods the server no longer accepts are skipped. Certificates and the
+ * agent sign with publickey on the wire, so they are offered whenever
+ * publickey is allowed.
+ * @param methods - The authentication methods to try, in order
+ * @param onAttempt - Called with each method as it is attempted, returns what to send to ssh2
+ * @returns The auth handler middleware
+ */
+function createAuthHandler(
+  methods: AuthMethod[],
+  onAttempt: (method: AuthMethod) => AuthenticationType | AnyAuthMethod
+): AuthHandlerMiddleware {
+  let next = 0;
+  return (methodsLeft, _partialSuccess, callback) => {
+    while (next < methods.length) {
+      const method = methods[next++];
+      const wireMethod: AuthenticationType =
+        method === 'agent' || method === 'certificate' ? 'publickey' : method;
+      if (methodsLeft == null || methodsLeft.includes(wireMethod)) {
+        callback(onAttempt(method));
+        return;
+      }
+    }
+    // ssh2 treats false as "no methods left"
+    callback(false as unknown as AuthenticationType);
+  };
+}
+
+/**
+ * A jump host connection to tunnel a new connection through
+ */
+interface JumpHostTunnel {
+  client: Client;
+  jumpHost: JumpHost;
+  connectionKey: string;
+}
+
+/**
+ * A connection being established, shared by every caller asking for it meanwhile
+ */
+interface PendingConnection {
+  host: string;
+  port: number;
+  attempt: Promise<ConnectionInfo>;
+}
+
+/**
+ * A channel slot on a pooled connection
+ */
+interface ChannelSlot {
+  connectionKey: string;
+  connInfo: ConnectionInfo;
+}
+
+/**
+ * A caller waiting in a channel queue
+ * Resolved with a slot handed over by a caller releasing one, or with
+ * undefined when it should look for a slot again.
+ */
+interface ChannelWaiter {
+  target: string;
+  resolve: (slot: ChannelSlot | undefined) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Suffix of the pool key of the second connection channels spill over to
+ */
+const SPILLOVER_KEY_SUFFIX = '#2';
+
+/**
+ * Prefix of the key a test connection's events are reported under; it is never pooled
+ */
+const TEST_KEY_PREFIX = 'test:';
+
+/**
+ * Matches ssh2's debug line for the server identification, capturing its software version
+ */
+const REMOTE_SOFTWARE_PATTERN = /^Remote ident: 'SSH-(?:2\.0|1\.99)-([^ ']+)/;
+
+/**
+ * Fill in the username and port of jump hosts
+ * Jump hosts without a username or port use the target's username and port 22.
+ * @param jumpHosts - The jump hosts, outermost first
+ * @param username - The username of the connection being tunnelled
+ * @returns The jump hosts with username and port set
+ */
+function withJumpHostDefaults(
+  jumpHosts: JumpHost[] | undefined,
+  username: string
+): Array<JumpHost & { port: number; username: string }> {
+  return (jumpHosts ?? []).map((jumpHost) => ({
+    ...jumpHost,
+    port: jumpHost.port ?? 22,
+    username: jumpHost.username ?? username,
+  }));
+}
+
+/**
+ * Compute the delay before a reconnect attempt
+ * Exponential backoff with equal jitter: at least half the backoff, so
+ * retries still slow down, and a random remainder so clients that dropped
+ * together do not reconnect in lockstep.
+ * @param retry - The retry number, starting at 1
+ * @param initialDelay - The backoff of the first retry in milliseconds
+ * @param maxDelay - The upper bound of the backoff in milliseconds
+ * @returns The delay in milliseconds
+ */
+function computeBackoffDelay(retry: number, initialDelay: number, maxDelay: number): number {
+  const backoff = Math.min(maxDelay, initialDelay * 2 ** (retry - 1));
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+/**
+ * Wait for a number of milliseconds
+ * @param ms - The delay in milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Check whether a connection error means the host could not be reached
+ * Authentication, key and host key failures are not transient and are neither
+ * retried nor counted by the circuit breaker.
+ * @param err - The connection error
+ * @returns true for connection failures and timeouts
+ */
+function isTransientError(err: unknown): boolean {
+  if (!(err instanceof SSHError) || err instanceof HostKeyVerificationError) {
+    return false;
+  }
+  if ((err.cause as { level?: string } | undefined)?.level === 'client-authentication') {
+    return false;
+  }
+  return err.message === CONNECTION_TIMEOUT_ERROR ||
+    err.message.startsWith(`${CONNECTION_FAILED_ERROR}:`) ||
+    err.message.startsWith(`${PROXY_FAILED_ERROR}:`);
+}
+
+/**
+ * Check the arguments of a connection request
+ * @param host - The host to connect to
+ * @param username - The username to use for the connection
+ * @param privateKeyPath - The path to the private key, optional when options.agent or options.password is set
+ * @param port - The port to connect to
+ * @param options - Per-connection options
+ * @throws {SSHError} If arguments are null, undefined, empty, or invalid
+ */
+function checkConnectionArguments(
+  host: string,
+  username: string,
+  privateKeyPath: string | undefined,
+  port: number,
+  options: ConnectionOptions
+): void {
+  if (host == null || username == null ||
+      (privateKeyPath == null && !options.agent && options.password === undefined)) {
+    throw new SSHError(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+  }
+  if (host === '' || username === '' || privateKeyPath === '') {
+    throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: host, username, and privateKeyPath are required`);
+  }
+  if (options.agentForward && !options.agent) {
+    throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: agent forwarding requires an SSH agent`);
+  }
+  if (port <= 0 || port > 65535) {
+    throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: port must be between 1 and 65535`);
+  }
+}
+
 /**
  * Manages a pool of SSH connections for reuse
+ *
+ * Connections are counted per host and port and in total. Connections used by
+ * a session or a running command are reference counted and never evicted;
+ * the others are closed once idle, or least recently used first when a limit
+ * is reached.
  */
 export class ConnectionPool {
   private connections: Map<string, ConnectionInfo> = new Map();
+  private auditLogger?: AuditLogger;
+  private maxConnectionsPerHost: number;
+  private maxConnections: number;
+  private idleTimeout: number;
+  private reconnectAttempts: number;
+  private reconnectInitialDelay: number;
+  private reconnectMaxDelay: number;
+  private circuitFailureThreshold: number;
+  private circuitResetTimeout: number;
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private pendingConnections: Map<string, PendingConnection> = new Map();
+  private maxChannelsPerConnection: number;
+  private channelSpillover: boolean;
+  private channelQueues: Map<string, ChannelWaiter[]> = new Map();
+
+  /**
+   * Create a new connection pool
+   * @param options - Optional connection and channel limits, idle timeout, reconnect and circuit breaker settings
+   */
+  constructor(options: ConnectionPoolOptions = {}) {
+    this.maxConnectionsPerHost = options.maxConnectionsPerHost ?? SSH_CONFIG.MAX_CONNECTIONS_PER_HOST;
+    this.maxConnections = options.maxConnections ?? SSH_CONFIG.MAX_CONNECTIONS;
+    this.idleTimeout = options.idleTimeout ?? TIMEOUTS.IDLE_CONNECTION;
+    this.reconnectAttempts = options.reconnectAttempts ?? RECONNECT.MAX_ATTEMPTS;
+    this.reconnectInitialDelay = options.reconnectInitialDelay ?? RECONNECT.INITIAL_DELAY;
+    this.reconnectMaxDelay = options.reconnectMaxDelay ?? RECONNECT.MAX_DELAY;
+    this.circuitFailureThreshold = options.circuitFailureThreshold ?? RECONNECT.FAILURE_THRESHOLD;
+    this.circuitResetTimeout = options.circuitResetTimeout ?? RECONNECT.RESET_TIMEOUT;
+    this.maxChannelsPerConnection = options.maxChannelsPerConnection ?? SSH_CONFIG.MAX_CHANNELS_PER_CONNECTION;
+    this.channelSpillover = options.channelSpillover ?? false;
+  }
+
+  /**
+   * Set the audit logger for this pool
+   * @param logger - The audit logger instance
+   */
+  setAuditLogger(logger: AuditLogger | undefined): void {
+    this.auditLogger = logger;
+  }
 
   /**
    * Get or create an SSH connection to a host
    * @param host - The host to get the connection for
    * @param username - The username to use for the connection
-   * @param privateKeyPath - The path to the private key to use for the connection
+   * @param privateKeyPath - The path to the private key to use for the connection, optional when options.agent or options.password is set
    * @param port - The port to use for the connection
+   * @param options - Optional per-connection options such as host key verification, credentials, agent, jump hosts and proxy
    * @returns A promise that resolves with the SSH client
-   * @throws {SSHError} If the connection fails to create
+   * @throws {HostKeyVerificationError} If the server's or a jump host's host key fails verification
+   * @throws {SSHError} If the connection, a jump host tunnel or the proxy connection fails to create, or a connection limit is reached
    * @throws {Error} If arguments are null, undefined, empty, or invalid
    */
   async getConnection(
     host: string,
     username: string,
-    privateKeyPath: string,
-    port: number = 22
+    privateKeyPath: string | undefined,
+    port: number = 22,
+    options: ConnectionOptions = {}
   ): Promise<Client> {
-    if (host == null || username == null || privateKeyPath == null) {
-      throw new SSHError(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+    checkConnectionArguments(host, username, privateKeyPath, port, options);
+
+    const jumpHosts = withJumpHostDefaults(options.jumpHosts, username);
+    const connectionKey = this.getConnectionKey(host, username, port, jumpHosts);
+
+    const connInfo = await this.establishConnection(connectionKey, host, username, privateKeyPath, port, options, jumpHosts);
+    return connInfo.client;
+  }
+
+  /**
+   * Establish a pooled SSH connection to a host ahead of use
+   * Unlike getConnection, a new connection is retried with backoff under the
+   * reconnect policy, so a target that is briefly unreachable does not fail
+   * on the first attempt. The circuit breaker applies as usual.
+   * @param host - The host to connect to
+   * @param username - The username to use for the connection
+   * @param privateKeyPath - The path to the private key to use for the connection, optional when options.agent or options.password is set
+   * @param port - The port to use for the connection
+   * @param options - Optional per-connection options, as for getConnection
+   * @returns A promise that resolves with the SSH client
+   * @throws {HostKeyVerificationError} If the server's or a jump host's host key fails verification
+   * @throws {SSHError} If every attempt fails, the circuit breaker is open or a connection limit is reached
+   * @throws {Error} If arguments are null, undefined, empty, or invalid
+   */
+  async warmConnection(
+    host: string,
+    username: string,
+    privateKeyPath: string | undefined,
+    port: number = 22,
+    options: ConnectionOptions = {}
+  ): Promise<Client> {
+    checkConnectionArguments(host, username, privateKeyPath, port, options);
+
+    const jumpHosts = withJumpHostDefaults(options.jumpHosts, username);
+    const connectionKey = this.getConnectionKey(host, username, port, jumpHosts);
+
+    const connInfo = await this.establishConnection(connectionKey, host, username, privateKeyPath, port, options, jumpHosts, true);
+    return connInfo.client;
+  }
+
+  /**
+   * Get a pooled connection by key, connecting or reconnecting as needed
+   * Concurrent callers for the same key share one connection attempt.
+   * @param connectionKey - The pool key of the connection
+   * @param host - The host to connect to
+   * @param username - The username to use for the connection
+   * @param privateKeyPath - The path to the private key to use for the connection, if any
+   * @param port - The port to connect to
+   * @param options - Per-connection options
+   * @param jumpHosts - The jump hosts with username and port filled in, outermost first
+   * @param retry - Whether to retry a new connection with backoff, as a dropped one is
+   * @returns A promise that resolves with the connection information
+   * @throws {HostKeyVerificationError} If the server's or a jump host's host key fails verification
+   * @throws {SSHError} If the connection fails, the circuit breaker is open or a connection limit is reached
+   */
+  private async establishConnection(
+    connectionKey: string,
+    host: string,
+    username: string,
+    privateKeyPath: string | undefined,
+    port: number,
+    options: ConnectionOptions,
+    jumpHosts: Array<JumpHost & { port: number; username: string }>,
+    retry: boolean = false
+  ): Promise<ConnectionInfo> {
+    const pending = this.pendingConnections.get(connectionKey);
+    if (pending) {
+      return pending.attempt;
     }
-    if (host === '' || username === '' || privateKeyPath === '') {
-      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: host, username, and privateKeyPath are required`);
+
+    const existing = this.connections.get(connectionKey);
+    if (existing?.connected) {
+      this.markUsed(connectionKey, existing);
+      this.scheduleIdleClose(connectionKey);
+      return existing;
     }
-    if (port <= 0 || port > 65535) {
-      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: port must be between 1 and 65535`);
+
+    const attempt = this.connectWithRetry(
+      connectionKey, host, username, privateKeyPath, port, options, jumpHosts, retry || existing !== undefined
+    );
+    this.pendingConnections.set(connectionKey, { host, port, attempt });
+    try {
+      return await attempt;
+    } finally {
+      this.pendingConnections.delete(connectionKey);
     }
+  }
 
-    const connectionKey = `ssh-${username}@${host}:${port}`;
+  /**
+   * Connect to a host, retrying with backoff when re-establishing a dropped connection
+   * @param connectionKey - The pool key of the connection
+   * @param host - The host to connect to
+   * @param username - The username to use for the connection
+   * @param privateKeyPath - The path to the private key to use for the connection, if any
+   * @param port - The port to connect to
+   * @param options - Per-connection options
+   * @param jumpHosts - The jump hosts with username and port filled in, outermost first
+   * @param reconnecting - Whether the pool held a connection for this key that dropped, or the caller asked for retries
+   * @returns A promise that resolves with the pooled connection information
+   * @throws {HostKeyVerificationError} If the server's or a jump host's host key fails verification
+   * @throws {SSHError} If every attempt fails, the circuit breaker is open or a connection limit is reached
+   */
+  private async connectWithRetry(
+    connectionKey: string,
+    host: string,
+    username: string,
+    privateKeyPath: string | undefined,
+    port: number,
+    options: ConnectionOptions,
+    jumpHosts: Array<JumpHost & { port: number; username: string }>,
+    reconnecting: boolean
+  ): Promise<ConnectionInfo> {
+    // A pooled connection that dropped is re-established with backoff, a new one is tried once
+    this.connections.delete(connectionKey);
 
-    if (this.connections.has(connectionKey)) {
-      const connInfo = this.connections.get(connectionKey)!;
-      if (connInfo.connected) {
-        return connInfo.client;
+    this.reserveCapacity(host, port);
+
+    const breaker = this.getCircuitBreaker(host, port);
+    const maxAttempts = reconnecting ? this.reconnectAttempts : 1;
+    let connInfo: ConnectionInfo | undefined;
+    for (let attempt = 1; connInfo === undefined; attempt++) {
+      if (reconnecting) {
+        const delay = attempt === 1 ? 0 : computeBackoffDelay(attempt - 1, this.reconnectInitialDelay, this.reconnectMaxDelay);
+        this.auditLogger?.logEvent(AuditEvent.RECONNECT_ATTEMPT, {
+          target: `${host}:${port}`,
+          username,
+          connectionId: connectionKey,
+          attempt,
+          maxAttempts,
+          delay,
+        });
+        if (delay > 0) {
+          await sleep(delay);
+        }
+      }
+
+      breaker.beforeAttempt();
+      let tunnel: JumpHostTunnel | undefined;
+      try {
+        tunnel = await this.getJumpHostTunnel(jumpHosts);
+      } catch (err) {
+        // The jump host has its own retries and circuit breaker, the target was never tried
+        breaker.abortAttempt();
+        throw err;
+      }
+
+      try {
+        connInfo = await this.openConnection(connectionKey, host, username, privateKeyPath, port, options, tunnel);
+        breaker.recordSuccess();
+      } catch (err) {
+        if (!isTransientError(err)) {
+          // The host was reached, e.g. authentication or host key verification failed
+          breaker.abortAttempt();
+          throw err;
+        }
+        breaker.recordFailure();
+        if (attempt >= maxAttempts) {
+          throw err;
+        }
       }
-      // Connection is dead, remove it
-      this.connections.delete(connectionKey);
     }
 
-    // Check connection limit
-    if (this.connections.size >= SSH_CONFIG.MAX_CONNECTIONS_PER_HOST) {
+    this.connections.set(connectionKey, connInfo);
+    this.scheduleIdleClose(connectionKey);
+    if (connInfo.parentKey !== undefined) {
+      // The jump host is in use for as long as this connection is open
+      this.scheduleIdleClose(connInfo.parentKey);
+    }
+
+    return connInfo;
+  }
+
+  /**
+   * Get a channel slot on a pooled connection to a host
+   * A connection carries at most maxChannelsPerConnection exec and shell
+   * channels at once, like sshd's MaxSessions. Further callers wait in line
+   * for a slot, or use a second connection to the host when channel spillover
+   * is enabled. The connection is retained until the lease is released.
+   * @param host - The host to get the channel for
+   * @param username - The username to use for the connection
+   * @param privateKeyPath - The path to the private key to use for the connection, optional when options.agent or options.password is set
+   * @param port - The port to use for the connection
+   * @param options - Optional per-connection options, as for getConnection
+   * @param timeout - Milliseconds to wait in line for a free channel
+   * @returns A promise that resolves with the channel lease
+   * @throws {HostKeyVerificationError} If the server's or a jump host's host key fails verification
+   * @throws {SSHError} If the connection fails, or no channel frees up within the timeout
+   * @throws {Error} If arguments are null, undefined, empty, or invalid
+   */
+  async acquireChannel(
+    host: string,
+    username: string,
+    privateKeyPath: string | undefined,
+    port: number = 22,
+    options: ConnectionOptions = {},
+    timeout: number = TIMEOUTS.CONNECTION
+  ): Promise<ChannelLease> {
+    const deadline = Date.now() + timeout;
+    let queueWait = 0;
+
+    for (;;) {
+      // Validates the arguments and reconnects a dropped connection
+      await this.getConnection(host, username, privateKeyPath, port, options);
+      const groupKey = this.getConnectionKey(host, username, port, options.jumpHosts);
+
+      // Callers already waiting go first
+      if (!this.channelQueues.get(groupKey)?.length) {
+        const slot = await this.findChannelSlot(groupKey, host, username, privateKeyPath, port, options);
+        if (slot) {
+          slot.connInfo.openChannels++;
+          this.retainConnection(slot.connectionKey);
+          return this.createChannelLease(groupKey, slot, queueWait);
+        }
+      }
+
+      const waitStart = Date.now();
+      const handedOver = await this.waitForChannel(groupKey, `${host}:${port}`, deadline - waitStart);
+      queueWait += Date.now() - waitStart;
+      if (handedOver) {
+        return this.createChannelLease(groupKey, handedOver, queueWait);
+      }
+    }
+  }
+
+  /**
+   * Get the number of callers waiting for a channel on a connection
+   * @param host - The host of the connection
+   * @param username - The username of the connection
+   * @param port - The port of the connection
+   * @param jumpHosts - The jump hosts the connection is tunnelled through, outermost first
+   * @returns The number of queued callers
+   */
+  getChannelQueueLength(host: string, username: string, port: number = 22, jumpHosts: JumpHost[] = []): number {
+    return this.channelQueues.get(this.getConnectionKey(host, username, port, jumpHosts))?.length ?? 0;
+  }
+
+  /**
+   * Open a throwaway connection to a host and report how far it got
+   * Each stage is timed: name resolution and TCP connect, or the proxy or jump
+   * host tunnel, then loading credentials, the server banner, key exchange, the
+   * host key check and every authentication attempt. The connection is closed
+   * afterwards and never pooled; jump host connections are taken from the pool.
+   * The circuit breaker is neither consulted nor updated.
+   * @param host - The host to test
+   * @param username - The username to use for the connection
+   * @param privateKeyPath - The path to the private key to use for the connection, optional when options.agent or options.password is set
+   * @param port - The port to use for the connection
+   * @param options - Optional per-connection options, as for getConnection
+   * @returns A promise that resolves with the report, also when the connection fails
+   * @throws {Error} If arguments are null, undefined, empty, or invalid
+   */
+  async testConnection(
+    host: string,
+    username: string,
+    privateKeyPath: string | undefined,
+    port: number = 22,
+    options: ConnectionOptions = {}
+  ): Promise<ConnectionTestReport> {
+    checkConnectionArguments(host, username, privateKeyPath, port, options);
+
+    const jumpHosts = withJumpHostDefaults(options.jumpHosts, username);
+    const connectionKey = `${TEST_KEY_PREFIX}${this.getConnectionKey(host, username, port, jumpHosts)}`;
+    const recorder = new ConnectionTestRecorder(`${host}:${port}`, username);
+    let sock: Duplex | undefined;
+    let client: Client | undefined;
+
+    try {
+      if (jumpHosts.length > 0) {
+        recorder.begin('tunnel');
+        const tunnel = (await this.getJumpHostTunnel(jumpHosts))!;
+        sock = await this.openTunnel(tunnel.client, tunnel.jumpHost, host, port);
+        recorder.succeed(`via ${formatJumpHost(tunnel.jumpHost, username)}`);
+      } else if (options.proxy !== undefined) {
+        recorder.begin('proxy');
+        sock = await openProxySocket(options.proxy, host, port, username);
+        recorder.succeed(options.proxy.type === 'command'
+          ? 'command'
+          : `${options.proxy.type} ${options.proxy.host}:${options.proxy.port}`);
+      } else {
+        recorder.begin('dns');
+        const address = await resolveHostAddress(host);
+        recorder.succeed(address);
+        recorder.begin('tcp');
+        sock = await connectSocket(address, port);
+        recorder.succeed(`${address}:${port}`);
+      }
+
+      recorder.begin('credentials');
+      const connInfo = await this.createConnection(connectionKey, host, username, privateKeyPath, port, options, sock, recorder);
+      client = connInfo.client;
+      // Ends the auth attempt that was accepted
+      recorder.succeed();
+    } catch (err) {
+      recorder.fail(err);
+    } finally {
+      client?.end();
+      sock?.destroy();
+    }
+
+    return recorder.report(this.getCircuitState(host, port));
+  }
+
+  /**
+   * Find a connection with a free channel, opening the spillover connection when allowed
+   * @param groupKey - The pool key of the main connection
+   * @param host - The host
+   * @param username - The username
+   * @param privateKeyPath - The path to the private key, if any
+   * @param port - The port
+   * @param options - Per-connection options
+   * @returns The slot, or undefined when every allowed connection is full
+   * @throws {SSHError} If the spillover connection fails for a reason other than a connection limit
+   */
+  private async findChannelSlot(
+    groupKey: string,
+    host: string,
+    username: string,
+    privateKeyPath: string | undefined,
+    port: number,
+    options: ConnectionOptions
+  ): Promise<ChannelSlot | undefined> {
+    const jumpHosts = withJumpHostDefaults(options.jumpHosts, username);
+    const connInfo = await this.establishConnection(groupKey, host, username, privateKeyPath, port, options, jumpHosts);
+    if (connInfo.openChannels < this.maxChannelsPerConnection) {
+      return { connectionKey: groupKey, connInfo };
+    }
+    if (!this.channelSpillover) {
+      return undefined;
+    }
+
+    const spilloverKey = `${groupKey}${SPILLOVER_KEY_SUFFIX}`;
+    let spillover: ConnectionInfo;
+    try {
+      spillover = await this.establishConnection(spilloverKey, host, username, privateKeyPath, port, options, jumpHosts);
+    } catch (err) {
+      // No room for a second connection to the host, wait for a channel instead
+      if (err instanceof SSHError && err.message.startsWith(CONNECTION_LIMIT_ERROR)) {
+        return undefined;
+      }
+      throw err;
+    }
+    return spillover.openChannels < this.maxChannelsPerConnection
+      ? { connectionKey: spilloverKey, connInfo: spillover }
+      : undefined;
+  }
+
+  /**
+   * Wait in line for a channel
+   * @param groupKey - The pool key of the main connection
+   * @param target - The host:port, used in error messages
+   * @param timeout - Milliseconds to wait
+   * @returns A promise that resolves with a slot handed over by its previous holder, or undefined to look again
+   * @throws {SSHError} If no channel frees up within the timeout
+   */
+  private waitForChannel(groupKey: string, target: string, timeout: number): Promise<ChannelSlot | undefined> {
+    return new Promise((resolve, reject) => {
+      const queue = this.channelQueues.get(groupKey) ?? [];
+      this.channelQueues.set(groupKey, queue);
+
+      const timer = setTimeout(() => {
+        this.removeChannelWaiter(groupKey, waiter);
+        reject(new SSHError(
+          `${CHANNEL_WAIT_TIMEOUT_ERROR}: all ${this.maxChannelsPerConnection} channels to ${target} stayed in use`
+        ));
+      }, Math.max(0, timeout));
+
+      const waiter: ChannelWaiter = {
+        target,
+        resolve: (slot) => {
+          clearTimeout(timer);
+          resolve(slot);
+        },
+        reject: (err) => {
+          clearTimeout(timer);
+          reject(err);
+        },
+      };
+      queue.push(waiter);
+    });
+  }
+
+  /**
+   * Remove a caller from a channel queue
+   * @param groupKey - The pool key of the main connection
+   * @param waiter - The waiting caller
+   */
+  private removeChannelWaiter(groupKey: string, waiter: ChannelWaiter): void {
+    const queue = this.channelQueues.get(groupKey);
+    if (!queue) {
+      return;
+    }
+    const index = queue.indexOf(waiter);
+    if (index !== -1) {
+      queue.splice(index, 1);
+    }
+    if (queue.length === 0) {
+      this.channelQueues.delete(groupKey);
+    }
+  }
+
+  /**
+   * Wrap a counted channel slot in a lease
+   * @param groupKey - The pool key of the main connection
+   * @param slot - The slot, already counted in openChannels and retained
+   * @param queueWait - Milliseconds the caller waited in line
+   * @returns The lease
+   */
+  private createChannelLease(groupKey: string, slot: ChannelSlot, queueWait: number): ChannelLease {
+    let released = false;
+    return {
+      client: slot.connInfo.client,
+      connectionKey: slot.connectionKey,
+      queueWait,
+      release: () => {
+        if (!released) {
+          released = true;
+          this.releaseChannel(groupKey, slot);
+        }
+      },
+    };
+  }
+
+  /**
+   * Give a channel slot back, handing it to the next caller in line if any
+   * @param groupKey - The pool key of the main connection
+   * @param slot - The released slot
+   */
+  private releaseChannel(groupKey: string, slot: ChannelSlot): void {
+    const { connectionKey, connInfo } = slot;
+    const pooled = this.connections.get(connectionKey) === connInfo;
+    const waiter = this.channelQueues.get(groupKey)?.[0];
+    if (waiter) {
+      this.removeChannelWaiter(groupKey, waiter);
+    }
+
+    if (waiter && pooled && connInfo.connected) {
+      // Hand the slot over directly so a new caller cannot take it out of turn
+      this.markUsed(connectionKey, connInfo);
+      waiter.resolve(slot);
+      return;
+    }
+
+    connInfo.openChannels = Math.max(0, connInfo.openChannels - 1);
+    if (pooled) {
+      this.releaseConnection(connectionKey);
+    }
+    // The connection dropped or closed; the next caller reconnects
+    waiter?.resolve(undefined);
+  }
+
+  /**
+   * Get the circuit breaker state of a host
+   * @param host - The host
+   * @param port - The port
+   * @returns The breaker state; closed for hosts that have not been connected to
+   */
+  getCircuitState(host: string, port: number = 22): CircuitState {
+    return this.circuitBreakers.get(`${host}:${port}`)?.getState() ?? 'closed';
+  }
+
+  /**
+   * Mark a pooled connection as in use, so it is neither closed when idle nor evicted
+   * Every call must be matched by a call to releaseConnection.
+   * @param connectionKey - The pool key of the connection, see getConnectionKey
+   */
+  retainConnection(connectionKey: string): void {
+    const connInfo = this.connections.get(connectionKey);
+    if (!connInfo) {
+      return;
+    }
+    connInfo.refCount++;
+    this.markUsed(connectionKey, connInfo);
+    this.scheduleIdleClose(connectionKey);
+  }
+
+  /**
+   * Release a connection retained with retainConnection
+   * The idle timeout starts once nothing uses the connection any more.
+   * @param connectionKey - The pool key of the connection, see getConnectionKey
+   */
+  releaseConnection(connectionKey: string): void {
+    const connInfo = this.connections.get(connectionKey);
+    if (!connInfo) {
+      return;
+    }
+    connInfo.refCount = Math.max(0, connInfo.refCount - 1);
+    this.markUsed(connectionKey, connInfo);
+    this.scheduleIdleClose(connectionKey);
+  }
+
+  /**
+   * Get the number of open connections to a host
+   * @param host - The host
+   * @param port - The port
+   * @returns The number of open connections to host:port, across users and jump host chains
+   */
+  getHostConnectionCount(host: string, port: number = 22): number {
+    let count = 0;
+    for (const connInfo of this.connections.values()) {
+      if (connInfo.connected && connInfo.host === host && connInfo.port === port) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Make room for a new connection to a host
+   * Closes the least recently used idle connection when a limit is reached.
+   * @param host - The host being connected to
+   * @param port - The port being connected to
+   * @throws {SSHError} If a limit is reached and every connection counting towards it is in use
+   */
+  private reserveCapacity(host: string, port: number): void {
+    const connectionsToHost = this.countConnections((target) => target.host === host && target.port === port);
+    if (connectionsToHost >= this.maxConnectionsPerHost &&
+        !this.evictLeastRecentlyUsed((connInfo) => connInfo.host === host && connInfo.port === port)) {
       throw new SSHError(
-        `Maximum connection limit (${SSH_CONFIG.MAX_CONNECTIONS_PER_HOST}) reached. Close unused connections before creating new ones.`
+        `${CONNECTION_LIMIT_ERROR}: all ${this.maxConnectionsPerHost} connections to ${host}:${port} are in use`
       );
     }
 
-    // Create new connection
-    const client = await this.createConnection(host, username, privateKeyPath, port);
-    this.connections.set(connectionKey, { client, connected: true });
+    if (this.countConnections(() => true) >= this.maxConnections && !this.evictLeastRecentlyUsed(() => true)) {
+      throw new SSHError(`${CONNECTION_LIMIT_ERROR}: all ${this.maxConnections} pooled connections are in use`);
+    }
+  }
+
+  /**
+   * Count the open connections and the connections being established to matching targets
+   * Connections being established count, so concurrent callers cannot connect past a limit.
+   * @param filter - Which targets to count
+   * @returns The number of matching connections
+   */
+  private countConnections(filter: (target: { host: string; port: number }) => boolean): number {
+    let count = 0;
+    // Dropped connections stay pooled so they reconnect on next use, but no longer count
+    for (const connInfo of this.connections.values()) {
+      if (connInfo.connected && filter(connInfo)) {
+        count++;
+      }
+    }
+    for (const [connectionKey, pending] of this.pendingConnections) {
+      // A connection is pooled just before its attempt settles
+      if (!this.connections.get(connectionKey)?.connected && filter(pending)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Close the least recently used connection that is not in use
+   * @param filter - Which connections may be evicted
+   * @returns true if a connection was closed
+   */
+  private evictLeastRecentlyUsed(filter: (connInfo: ConnectionInfo) => boolean): boolean {
+    // The map is kept in order of use, least recently used first
+    for (const [connectionKey, connInfo] of this.connections) {
+      if (filter(connInfo) && this.isIdle(connectionKey)) {
+        this.closeConnection(connectionKey);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Record that a connection was used, moving it to the most recently used end of the pool
+   * @param connectionKey - The pool key of the connection
+   * @param connInfo - The connection information
+   */
+  private markUsed(connectionKey: string, connInfo: ConnectionInfo): void {
+    connInfo.lastUsed = Date.now();
+    this.connections.delete(connectionKey);
+    this.connections.set(connectionKey, connInfo);
+  }
+
+  /**
+   * Check whether nothing uses a connection
+   * A jump host is in use while connections are tunnelled through it.
+   * @param connectionKey - The pool key of the connection
+   * @returns true if the connection is open, unreferenced and has no open dependents
+   */
+  private isIdle(connectionKey: string): boolean {
+    const connInfo = this.connections.get(connectionKey);
+    if (!connInfo || !connInfo.connected || connInfo.refCount > 0) {
+      return false;
+    }
+    for (const dependent of this.connections.values()) {
+      if (dependent.connected && dependent.parentKey === connectionKey) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Restart the idle timeout of a connection, or stop it while the connection is in use
+   * @param connectionKey - The pool key of the connection
+   */
+  private scheduleIdleClose(connectionKey: string): void {
+    const connInfo = this.connections.get(connectionKey);
+    if (!connInfo) {
+      return;
+    }
+    if (connInfo.idleTimer) {
+      clearTimeout(connInfo.idleTimer);
+      connInfo.idleTimer = undefined;
+    }
+    if (!this.isIdle(connectionKey)) {
+      return;
+    }
+
+    connInfo.idleTimer = setTimeout(() => {
+      connInfo.idleTimer = undefined;
+      if (this.connections.get(connectionKey) === connInfo && this.isIdle(connectionKey)) {
+        this.closeConnection(connectionKey);
+      }
+    }, this.idleTimeout);
+    // An idle connection must not keep the process alive
+    connInfo.idleTimer.unref?.();
+  }
+
+  /**
+   * Close a pooled connection and remove it from the pool
+   * @param connectionKey - The pool key of the connection
+   */
+  private closeConnection(connectionKey: string): void {
+    const connInfo = this.connections.get(connectionKey);
+    if (!connInfo) {
+      return;
+    }
+    if (connInfo.idleTimer) {
+      clearTimeout(connInfo.idleTimer);
+      connInfo.idleTimer = undefined;
+    }
+    this.connections.delete(connectionKey);
+    connInfo.connected = false;
+    connInfo.client.end();
+    if (connInfo.parentKey !== undefined) {
+      this.scheduleIdleClose(connInfo.parentKey);
+    }
+  }
+
+  /**
+   * Get the pool key of a connection
+   * Connections through jump hosts are keyed by the full chain, e.g.
+   * ssh-admin@bastion:22>deploy@target:22
+   * @param host - The host of the connection
+   * @param username - The username of the connection
+   * @param port - The port of the connection
+   * @param jumpHosts - The jump hosts the connection is tunnelled through, outermost first
+   * @returns The connection key
+   */
+  getConnectionKey(host: string, username: string, port: number = 22, jumpHosts: JumpHost[] = []): string {
+    const chain = jumpHosts.map((jumpHost) => formatJumpHost(jumpHost, username));
+    chain.push(`${username}@${host}:${port}`);
+    return `ssh-${chain.join('>')}`;
+  }
+
+  /**
+   * Get information about a pooled connection
+   * @param host - The host of the connection
+   * @param username - The username of the connection
+   * @param port - The port of the connection
+   * @param jumpHosts - The jump hosts the connection is tunnelled through, outermost first
+   * @returns The connection information, or undefined if there is no pooled connection
+   */
+  getConnectionInfo(
+    host: string,
+    username: string,
+    port: number = 22,
+    jumpHosts: JumpHost[] = []
+  ): ConnectionInfo | undefined {
+    return this.connections.get(this.getConnectionKey(host, username, port, jumpHosts));
+  }
+
+  /**
+   * Get information about a pooled connection by its pool key
+   * @param connectionKey - The pool key of the connection, such as the one a channel lease is on
+   * @returns The connection information, or undefined if there is no pooled connection
+   */
+  getConnectionInfoByKey(connectionKey: string): ConnectionInfo | undefined {
+    return this.connections.get(connectionKey);
+  }
+
+  /**
+   * Make one attempt at connecting to a host
+   * @param connectionKey - The pool key of the connection
+   * @param host - The host to connect to
+   * @param username - The username to use for the connection
+   * @param privateKeyPath - The path to the private key to use for the connection, if any
+   * @param port - The port to connect to
+   * @param options - Per-connection options
+   * @param tunnel - The jump host to tunnel through, if any
+   * @returns A promise that resolves with the connection information
+   * @throws {HostKeyVerificationError} If the server's host key fails verification
+   * @throws {SSHError} If the connection, the jump host tunnel or the proxy connection fails
+   */
+  private async openConnection(
+    connectionKey: string,
+    host: string,
+    username: string,
+    privateKeyPath: string | undefined,
+    port: number,
+    options: ConnectionOptions,
+    tunnel: JumpHostTunnel | undefined
+  ): Promise<ConnectionInfo> {
+    let sock: Duplex | undefined;
+    if (tunnel !== undefined) {
+      sock = await this.openTunnel(tunnel.client, tunnel.jumpHost, host, port);
+    } else if (options.proxy !== undefined) {
+      sock = await openProxySocket(options.proxy, host, port, username);
+    }
+
+    let connInfo: ConnectionInfo;
+    try {
+      connInfo = await this.createConnection(connectionKey, host, username, privateKeyPath, port, options, sock);
+    } catch (err) {
+      // Don't leave the tunnel or proxy connection open when the SSH handshake fails
+      sock?.destroy();
+      throw err;
+    }
+    connInfo.parentKey = tunnel?.connectionKey;
+    return connInfo;
+  }
+
+  /**
+   * Get the connection to the innermost jump host, which is itself reached through the hops before it
+   * @param jumpHosts - The jump hosts with username and port filled in, outermost first
+   * @returns The jump host connection, or undefined when there are no jump hosts
+   * @throws {HostKeyVerificationError} If a jump host's host key fails verification
+   * @throws {SSHError} If a jump host connection fails
+   */
+  private async getJumpHostTunnel(
+    jumpHosts: Array<JumpHost & { port: number; username: string }>
+  ): Promise<JumpHostTunnel | undefined> {
+    if (jumpHosts.length === 0) {
+      return undefined;
+    }
+
+    const jumpHost = jumpHosts[jumpHosts.length - 1];
+    const outerHops = jumpHosts.slice(0, -1);
+    const client = await this.getConnection(
+      jumpHost.host,
+      jumpHost.username,
+      jumpHost.privateKeyPath,
+      jumpHost.port,
+      { ...jumpHost.options, jumpHosts: outerHops }
+    );
+    return {
+      client,
+      jumpHost,
+      connectionKey: this.getConnectionKey(jumpHost.host, jumpHost.username, jumpHost.port, outerHops),
+    };
+  }
+
+  /**
+   * Get the circuit breaker of a host, creating it on first use
+   * @param host - The host
+   * @param port - The port
+   * @returns The circuit breaker
+   */
+  private getCircuitBreaker(host: string, port: number): CircuitBreaker {
+    const target = `${host}:${port}`;
+    let breaker = this.circuitBreakers.get(target);
+    if (!breaker) {
+      breaker = new CircuitBreaker(target, this.circuitFailureThreshold, this.circuitResetTimeout, (from, to, failures) => {
+        this.auditLogger?.logEvent(AuditEvent.CIRCUIT_STATE_CHANGED, { target, from, to, failures });
+      });
+      this.circuitBreakers.set(target, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Open a TCP tunnel to a host through a jump host connection
+   * @param bastionClient - The connected jump host client
+   * @param bastion - The jump host
+   * @param host - The host to tunnel to
+   * @param port - The port to tunnel to
+   * @returns A promise that resolves with the tunnel stream
+   * @throws {SSHError} If the jump host refuses the tunnel
+   */
+  private openTunnel(bastionClient: Client, bastion: JumpHost, host: string, port: number): Promise<Duplex> {
+    return new Promise((resolve, reject) => {
+      bastionClient.forwardOut('127.0.0.1', 0, host, port, (err, stream) => {
+        if (err) {
+          reject(new SSHError(
+            `${CONNECTION_FAILED_ERROR}: ${host}:${port} via ${bastion.host}:${bastion.port}: ${err.message}`,
+            err
+          ));
+          return;
+        }
+        resolve(stream);
+      });
+    });
+  }
 
-    return client;
+  /**
+   * Close the connections tunnelled through a connection, and theirs in turn
+   * @param parentKey - The pool key of the closed connection
+   */
+  private closeDependents(parentKey: string): void {
+    for (const [connectionKey, connInfo] of this.connections) {
+      if (connInfo.parentKey !== parentKey) {
+        continue;
+      }
+      if (connInfo.connected) {
+        connInfo.connected = false;
+        connInfo.client.end();
+      }
+      this.closeDependents(connectionKey);
+    }
   }
 
   /**
    * Create a new SSH connection
+   * @param connectionKey - The pool key of the connection
    * @param host - The host to create the connection for
    * @param username - The username to use for the connection
-   * @param privateKeyPath - The path to the private key to use for the connection
+   * @param privateKeyPath - The path to the private key to use for the connection, if any
    * @param port - The port to use for the connection
-   * @returns A promise that resolves with the SSH client
+   * @param options - Per-connection options such as host key verification, credentials and agent
+   * @param sock - A jump host tunnel or proxy connection to use instead of dialling the host
+   * @param probe - Observes the stages of the connection, for connection tests
+   * @returns A promise that resolves with the connection information for the SSH client
+   * @throws {HostKeyVerificationError} If the server's host key fails verification
    * @throws {SSHError} If the connection fails to create
    */
   private async createConnection(
+    connectionKey: string,
     host: string,
     username: string,
-    privateKeyPath: string,
-    port: number = 22
-  ): Promise<Client> {
-    let privateKey: Buffer;
-    try {
-      privateKey = await readFile(privateKeyPath);
-    } catch (error) {
-      throw new SSHError(
-        `Failed to read SSH private key from ${privateKeyPath}: ${error instanceof Error ? error.message : UNKNOWN_ERROR}`
-      );
+    privateKeyPath: string | undefined,
+    port: number = 22,
+    options: ConnectionOptions = {},
+    sock?: Duplex,
+    probe?: ConnectionProbe
+  ): Promise<ConnectionInfo> {
+    let privateKey: Buffer | undefined;
+    if (privateKeyPath !== undefined) {
+      try {
+        privateKey = await readFile(privateKeyPath);
+      } catch (error) {
+        throw new SSHError(
+          `Failed to read SSH private key from ${privateKeyPath}: ${error instanceof Error ? error.message : UNKNOWN_ERROR}`
+        );
+      }
+    }
+
+    let certificate: UserCertificate | undefined;
+    if (options.certificatePath !== undefined) {
+      if (privateKey === undefined) {
+        throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: certificate authentication requires privateKeyPath`);
+      }
+      certificate = await loadUserCertificate(options.certificatePath);
+    } else if (privateKeyPath !== undefined) {
+      certificate = await findUserCertificate(privateKeyPath);
+    }
+
+    let certificateKey: ParsedKey | undefined;
+    if (certificate !== undefined && privateKey !== undefined) {
+      try {
+        checkCertificateValidity(certificate);
+        certificateKey = createCertificateKey(privateKey, options.passphrase, certificate);
+      } catch (error) {
+        if (options.certificatePath !== undefined) {
+          throw error;
+        }
+        // A certificate found next to the key is optional, so the key is offered on its own
+        this.auditLogger?.logEvent(AuditEvent.CERTIFICATE_SKIPPED, {
+          target: `${host}:${port}`,
+          username,
+          certificatePath: certificate.path,
+          error: error instanceof Error ? error.message : UNKNOWN_ERROR,
+        });
+        certificate = undefined;
+      }
     }
 
     const client = new Client();
+    let hostKeyError: HostKeyVerificationError | undefined;
+
+    const connectConfig: ConnectConfig = {
+      host,
+      port,
+      username,
+      timeout: SSH_CONFIG.READY_TIMEOUT,
+      readyTimeout: SSH_CONFIG.READY_TIMEOUT,
+      keepaliveInterval: SSH_CONFIG.KEEPALIVE_INTERVAL,
+      keepaliveCountMax: SSH_CONFIG.KEEPALIVE_COUNT_MAX,
+    };
+
+    if (sock !== undefined) {
+      connectConfig.sock = sock;
+    }
+    if (options.algorithms !== undefined) {
+      connectConfig.algorithms = options.algorithms;
+    }
+    // ssh2 only reports the server's identification through its debug output
+    let serverVersion: string | undefined;
+    connectConfig.debug = (message: string) => {
+      if (serverVersion === undefined) {
+        serverVersion = REMOTE_SOFTWARE_PATTERN.exec(message)?.[1];
+      }
+      probe?.debug(message);
+    };
+    if (privateKey !== undefined) {
+      connectConfig.privateKey = privateKey;
+    }
+    if (options.passphrase !== undefined) {
+      connectConfig.passphrase = options.passphrase;
+    }
+    if (options.agent !== undefined) {
+      // ssh2 tries the private key first, then the keys held by the agent
+      connectConfig.agent = options.agent;
+      connectConfig.agentForward = options.agentForward === true;
+    }
+    if (options.password !== undefined) {
+      connectConfig.password = options.password;
+      connectConfig.tryKeyboard = options.keyboardInteractive === true;
+    }
+
+    const authMethods: AuthMethod[] = [];
+    if (certificateKey !== undefined) {
+      authMethods.push('certificate');
+    }
+    if (privateKey !== undefined) {
+      authMethods.push('publickey');
+    }
+    if (options.agent !== undefined) {
+      authMethods.push('agent');
+    }
+    if (options.password !== undefined) {
+      authMethods.push('password');
+      if (options.keyboardInteractive) {
+        authMethods.push('keyboard-interactive');
+      }
+    }
+
+    let authMethod: AuthMethod | undefined;
+    connectConfig.authHandler = createAuthHandler(authMethods, (method) => {
+      authMethod = method;
+      probe?.authAttempt(method);
+      if (method === 'certificate') {
+        return { type: 'publickey', username, key: certificateKey! };
+      }
+      return method;
+    });
+
+    // Every connection is verified; without a policy of its own, unknown hosts are trusted on first use
+    const hostKeyVerification = options.hostKeyVerification ?? { mode: SSH_CONFIG.DEFAULT_HOST_KEY_MODE };
+    connectConfig.hostVerifier = (key: Buffer, verify: (valid: boolean) => void) => {
+      probe?.hostKeyOffered(computeFingerprint(key));
+      verifyHostKey(key, host, port, hostKeyVerification)
+        .then((result) => {
+          if (result.status === 'added' || result.status === 'unverified') {
+            // The key was trusted without anything to check it against
+            this.auditLogger?.logEvent(AuditEvent.HOST_KEY_ACCEPTED, {
+              target: `${host}:${port}`,
+              username,
+              mode: hostKeyVerification.mode,
+              status: result.status,
+              fingerprint: result.fingerprint,
+            });
+          }
+          probe?.hostKeyChecked(undefined, result.status === 'unverified' ? 'not verified' : result.status);
+          verify(true);
+        })
+        .catch((err) => {
+          hostKeyError = err instanceof HostKeyVerificationError
+            ? err
+            : new HostKeyVerificationError(
+                host, port, computeFingerprint(key), 'unknown',
+                `${HOST_KEY_VERIFICATION_FAILED_ERROR}: ${err instanceof Error ? err.message : UNKNOWN_ERROR}`
+              );
+
+          this.auditLogger?.logEvent(AuditEvent.HOST_KEY_MISMATCH, {
+            target: `${host}:${port}`,
+            username,
+            mode: hostKeyVerification.mode,
+            reason: hostKeyError.reason,
+            fingerprint: hostKeyError.fingerprint,
+            error: hostKeyError.message,
+          });
+
+          probe?.hostKeyChecked(hostKeyError);
+          verify(false);
+        });
+    };
 
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
+        // Abandon the half-open socket and handshake; ssh2 may still report errors while closing
+        client.removeAllListeners();
+        client.on('error', () => {});
+        client.end();
         reject(new SSHError(CONNECTION_TIMEOUT_ERROR));
       }, TIMEOUTS.CONNECTION);
 
+      let ready = false;
+      let negotiatedAlgorithms: NegotiatedAlgorithmSet | undefined;
       client.on('ready', () => {
+        ready = true;
         clearTimeout(timeout);
-        resolve(client);
+        resolve({
+          client,
+          connected: true,
+          host,
+          port,
+          username,
+          createdAt: Date.now(),
+          refCount: 0,
+          lastUsed: Date.now(),
+          openChannels: 0,
+          serverVersion,
+          algorithms: negotiatedAlgorithms,
+          authMethod,
+          certificate: authMethod === 'certificate' ? certificate?.certificate : undefined,
+        });
+      });
+
+      client.on('handshake', (negotiated) => {
+        // Also emitted after a rekey, so the pooled entry always has the current algorithms
+        const algorithms = summarizeNegotiatedAlgorithms(negotiated);
+        negotiatedAlgorithms = algorithms;
+        probe?.handshake(algorithms);
+        const connInfo = this.connections.get(connectionKey);
+        if (connInfo?.client === client) {
+          connInfo.algorithms = algorithms;
+        }
+      });
+
+      client.on('keyboard-interactive', (_name, _instructions, _lang, prompts, finish) => {
+        // Network gear typically asks for the password through a single prompt
+        finish(prompts.map(() => options.password ?? ''));
       });
 
       client.on('error', (err) => {
         clearTimeout(timeout);
+        if (ready) {
+          // The connection dropped, e.g. keepalive timeout or reset; the next use reconnects
+          const connInfo = this.connections.get(connectionKey);
+          if (connInfo) {
+            connInfo.connected = false;
+          }
+          this.auditLogger?.logEvent(AuditEvent.ERROR_OCCURRED, {
+            target: `${host}:${port}`,
+            username,
+            connectionId: connectionKey,
+            error: err.message,
+            errorCode: 'CONNECTION_LOST',
+          });
+          return;
+        }
+        if (hostKeyError) {
+          reject(hostKeyError);
+          return;
+        }
         reject(new SSHError(`${CONNECTION_FAILED_ERROR}: ${host}:${port}: ${err.message}`, err));
       });
 
       client.on('close', () => {
-        // Mark connection as disconnected
-        const connectionKey = `ssh-${username}@${host}:${port}`;
+        // Mark connection as disconnected and tear down connections tunnelled through it
         const connInfo = this.connections.get(connectionKey);
         if (connInfo) {
           connInfo.connected = false;
+          if (connInfo.idleTimer) {
+            clearTimeout(connInfo.idleTimer);
+            connInfo.idleTimer = undefined;
+          }
+          if (connInfo.parentKey !== undefined) {
+            this.scheduleIdleClose(connInfo.parentKey);
+          }
         }
+        this.closeDependents(connectionKey);
       });
 
-      client.connect({
-        host,
-        port,
-        username,
-        privateKey,
-        timeout: SSH_CONFIG.READY_TIMEOUT,
-        readyTimeout: SSH_CONFIG.READY_TIMEOUT,
-        keepaliveInterval: SSH_CONFIG.KEEPALIVE_INTERVAL,
-        keepaliveCountMax: SSH_CONFIG.KEEPALIVE_COUNT_MAX,
-      });
+      try {
+        client.connect(connectConfig);
+        if (certificateKey !== undefined) {
+          enableCertificateAuth(client);
+        }
+        // ssh2 has loaded the credentials; the server's data arrives asynchronously
+        probe?.connecting(authMethods);
+      } catch (err) {
+        if (err instanceof SSHError) {
+          // The ssh2 internals certificate authentication relies on have changed
+          clearTimeout(timeout);
+          client.end();
+          reject(err);
+          return;
+        }
+        // ssh2 validates credentials synchronously, e.g. a missing or wrong passphrase
+        clearTimeout(timeout);
+        const message = err instanceof Error ? err.message : UNKNOWN_ERROR;
+        if (message.startsWith('Unsupported algorithm')) {
+          reject(new SSHError(`${INVALID_ARGUMENTS_ERROR}: ${message} for ${host}:${port}`, err as Error));
+          return;
+        }
+        reject(new SSHError(
+          privateKeyPath !== undefined
+            ? `Failed to load SSH private key from ${privateKeyPath}: ${message}`
+            : `${CONNECTION_FAILED_ERROR}: ${host}:${port}: ${message}`,
+          err instanceof Error ? err : undefined
+        ));
+      }
     });
   }
 
@@ -136,7 +1403,20 @@ export class ConnectionPool {
    * @returns A promise that resolves when all connections are closed
    */
   async disconnectAll(): Promise<void> {
+    this.circuitBreakers.forEach((breaker) => breaker.dispose());
+    this.circuitBreakers.clear();
+    for (const queue of this.channelQueues.values()) {
+      for (const waiter of queue) {
+        waiter.reject(new SSHError(`${CONNECTION_FAILED_ERROR}: ${waiter.target}: connection pool closed`));
+      }
+    }
+    this.channelQueues.clear();
+
     const connectionPromises = Array.from(this.connections.values()).map(connInfo => {
+      if (connInfo.idleTimer) {
+        clearTimeout(connInfo.idleTimer);
+        connInfo.idleTimer = undefined;
+      }
       return new Promise<void>((resolve) => {
         if (connInfo.connected) {
           const timeout = setTimeout(() => {
@@ -159,6 +1439,63 @@ export class ConnectionPool {
     this.connections.clear();
   }
 
+  /**
+   * List the pooled connections
+   * @returns The connections, in the order they were pooled
+   */
+  listConnections(): PooledConnectionInfo[] {
+    return Array.from(this.connections, ([connectionKey, connInfo]) => ({
+      connectionKey,
+      host: connInfo.host,
+      port: connInfo.port,
+      username: connInfo.username,
+      connected: connInfo.connected,
+      createdAt: new Date(connInfo.createdAt),
+      lastUsed: new Date(connInfo.lastUsed),
+      openChannels: connInfo.openChannels,
+      refCount: connInfo.refCount,
+      parentKey: connInfo.parentKey,
+      serverVersion: connInfo.serverVersion,
+      authMethod: connInfo.authMethod,
+      algorithms: connInfo.algorithms,
+    }));
+  }
+
+  /**
+   * Get the pooled connections that close along with a connection
+   * @param connectionKey - The pool key of the connection
+   * @returns The key itself followed by the keys of the connections tunnelled through it, at any depth;
+   * empty when the connection is not pooled
+   */
+  getConnectionTree(connectionKey: string): string[] {
+    if (!this.connections.has(connectionKey)) {
+      return [];
+    }
+    const tree = [connectionKey];
+    for (const [key, connInfo] of this.connections) {
+      if (connInfo.parentKey === connectionKey) {
+        tree.push(...this.getConnectionTree(key));
+      }
+    }
+    return tree;
+  }
+
+  /**
+   * Close a pooled connection and the connections tunnelled through it
+   * The connections are closed even while in use: their commands and session
+   * shells end, and the next caller connects afresh.
+   * @param connectionKey - The pool key of the connection
+   * @returns The pool keys of the closed connections; empty when the connection is not pooled
+   */
+  disconnect(connectionKey: string): string[] {
+    const tree = this.getConnectionTree(connectionKey);
+    // Innermost first, so no connection outlives the tunnel it runs through
+    for (const key of [...tree].reverse()) {
+      this.closeConnection(key);
+    }
+    return tree;
+  }
+
   /**
    * Get the number of active connections
    * @returns The number of connections in the pool
@@ -7,7 +7,14 @@ export const TIMEOUTS = {
   CONNECTION: 30000,
   KEEP_ALIVE_INTERVAL: 30000,
   FORCE_CLOSE: 3000,
+  IDLE_CONNECTION: 300000,
   SESSION_CLOSE: 5000,
+  HEALTH_CHECK: 10000,
+  INTERRUPT_DELAY: 100,
+  RESYNC: 5000,
+  KEYS_SETTLE: 500,
+  KEYS_MAX_WAIT: 10000,
+  WAIT_FOR: 30000,
 } as const;
 
 /**
@@ -16,6 +23,27 @@ export const TIMEOUTS = {
 export const BUFFER_LIMITS = {
   MAX_SIZE: 10000,
   TRIM_TO: 5000,
+  MAX_JOBS: 1000,
+} as const;
+
+/**
+ * Pseudo-terminal defaults for session shells, the same as ssh2's
+ */
+export const PTY = {
+  TERM: 'vt100',
+  ROWS: 24,
+  COLS: 80,
+} as const;
+
+/**
+ * Reconnect and circuit breaker settings for pooled connections
+ */
+export const RECONNECT = {
+  MAX_ATTEMPTS: 3,
+  INITIAL_DELAY: 1000,
+  MAX_DELAY: 30000,
+  FAILURE_THRESHOLD: 5,
+  RESET_TIMEOUT: 60000,
 } as const;
 
 /**
@@ -26,4 +54,9 @@ export const SSH_CONFIG = {
   KEEPALIVE_INTERVAL: 30000,
   KEEPALIVE_COUNT_MAX: 3,
   MAX_CONNECTIONS_PER_HOST: 10,
+  MAX_CONNECTIONS: 50,
+  MAX_CHANNELS_PER_CONNECTION: 10,
+  DEFAULT_KNOWN_HOSTS_PATH: '~/.ssh/known_hosts',
+  DEFAULT_HOST_KEY_MODE: 'accept-new',
+  DEFAULT_SSH_CONFIG_PATH: '~/.ssh/config',
 } as const;
@@ -0,0 +1,283 @@
+import { lookup } from 'dns/promises';
+import { connect, Socket } from 'net';
+import { AuthMethod } from './types.js';
+import { SSHError } from './errors.js';
+import { TIMEOUTS } from './constants.js';
+import type { NegotiatedAlgorithmSet } from './algorithms.js';
+import type { CircuitState } from './circuit-breaker.js';
+import { CONNECTION_FAILED_ERROR, UNKNOWN_ERROR } from '../constants.js';
+
+/**
+ * A stage of establishing an SSH connection
+ * dns, tcp: direct connections only
+ * proxy: connecting through target.proxy
+ * tunnel: opening a tunnel through the innermost jump host
+ * credentials: loading the private key and certificate
+ * banner: the server identification string
+ * kex: key exchange up to the server presenting its host key
+ * host-key: checking the host key
+ * auth: one authentication attempt
+ */
+export type ConnectionTestStageName = 'dns' | 'tcp' | 'proxy' | 'tunnel' | 'credentials' | 'banner' | 'kex' | 'host-key' | 'auth';
+
+/**
+ * Outcome of one stage of a connection test
+ */
+export interface ConnectionTestStage {
+  stage: ConnectionTestStageName;
+  status: 'ok' | 'failed';
+  durationMs: number;
+  /** What the stage found, e.g. the resolved address or the host key fingerprint */
+  detail?: string;
+  /** The method tried, for auth stages */
+  method?: AuthMethod;
+  error?: string;
+}
+
+/**
+ * Result of ConnectionPool.testConnection
+ */
+export interface ConnectionTestReport {
+  target: string;
+  username: string;
+  success: boolean;
+  durationMs: number;
+  /** The stage that failed, when success is false */
+  failedStage?: ConnectionTestStageName;
+  error?: string;
+  /** Stages in the order they ran; stages after a failure are not listed */
+  stages: ConnectionTestStage[];
+  serverIdent?: string;
+  hostKeyFingerprint?: string;
+  algorithms?: NegotiatedAlgorithmSet;
+  /** The method that authenticated, when success is true */
+  authMethod?: AuthMethod;
+  /** The host's circuit breaker state; a test connection is made even while it is open */
+  circuitState: CircuitState;
+}
+
+/**
+ * Observes the SSH stages of a connection being created
+ */
+export interface ConnectionProbe {
+  /** Credentials are loaded and the client starts talking to the server */
+  connecting(methods: AuthMethod[]): void;
+  /** ssh2 debug output, which reports the server identification */
+  debug(message: string): void;
+  /** The server presented its host key */
+  hostKeyOffered(fingerprint: string): void;
+  /** The host key was checked; detail says how it was trusted, error why it was rejected */
+  hostKeyChecked(error?: Error, detail?: string): void;
+  /** An authentication method is being tried */
+  authAttempt(method: AuthMethod): void;
+  /** A key exchange completed */
+  handshake(algorithms: NegotiatedAlgorithmSet): void;
+}
+
+/**
+ * Matches ssh2's debug line for the server identification
+ */
+const REMOTE_IDENT_PATTERN = /^Remote ident: '(.*)'$/;
+
+/**
+ * The stage that follows each SSH stage
+ */
+const NEXT_STAGE: Partial<Record<ConnectionTestStageName, ConnectionTestStageName>> = {
+  'dns': 'tcp',
+  'tcp': 'credentials',
+  'proxy': 'credentials',
+  'tunnel': 'credentials',
+  'credentials': 'banner',
+  'banner': 'kex',
+  'kex': 'host-key',
+  'host-key': 'auth',
+};
+
+/**
+ * Records the stages of a connection test with their timing
+ * The stage running when the test fails is reported as the failed stage.
+ */
+export class ConnectionTestRecorder implements ConnectionProbe {
+  private readonly startTime = Date.now();
+  private readonly stages: ConnectionTestStage[] = [];
+  private current?: { stage: ConnectionTestStageName; method?: AuthMethod; startTime: number };
+  private next: ConnectionTestStageName = 'dns';
+  private lastTransition = Date.now();
+  private serverIdent?: string;
+  private hostKeyFingerprint?: string;
+  private algorithms?: NegotiatedAlgorithmSet;
+
+  /**
+   * Create a recorder for a connection test
+   * @param target - The host:port being tested
+   * @param username - The username being tested
+   */
+  constructor(private readonly target: string, private readonly username: string) {}
+
+  /**
+   * Start a stage
+   * @param stage - The stage
+   * @param method - The authentication method, for auth stages
+   */
+  begin(stage: ConnectionTestStageName, method?: AuthMethod): void {
+    this.current = { stage, method, startTime: Date.now() };
+  }
+
+  /**
+   * Complete the running stage
+   * @param detail - What the stage found
+   */
+  succeed(detail?: string): void {
+    this.end('ok', detail);
+  }
+
+  /**
+   * Fail the running stage, or the stage that would have run next
+   * Only the first failure is recorded.
+   * @param err - The error
+   */
+  fail(err: unknown): void {
+    if (!this.current) {
+      if (this.stages[this.stages.length - 1]?.status === 'failed') {
+        return;
+      }
+      this.current = { stage: this.next, startTime: this.lastTransition };
+    }
+    this.end('failed', undefined, err instanceof Error ? err.message : String(err ?? UNKNOWN_ERROR));
+  }
+
+  connecting(methods: AuthMethod[]): void {
+    if (this.current?.stage === 'credentials') {
+      this.succeed(methods.join(', '));
+    }
+    this.begin('banner');
+  }
+
+  debug(message: string): void {
+    const match = REMOTE_IDENT_PATTERN.exec(message);
+    if (match && this.current?.stage === 'banner') {
+      this.serverIdent = match[1];
+      this.succeed(match[1]);
+      this.begin('kex');
+    }
+  }
+
+  hostKeyOffered(fingerprint: string): void {
+    this.hostKeyFingerprint = fingerprint;
+    if (this.current?.stage === 'kex') {
+      this.succeed();
+    }
+    this.begin('host-key');
+  }
+
+  hostKeyChecked(error?: Error, detail?: string): void {
+    if (error) {
+      this.fail(error);
+      return;
+    }
+    this.succeed(detail);
+  }
+
+  authAttempt(method: AuthMethod): void {
+    if (this.current?.stage === 'auth') {
+      this.end('failed', undefined, 'rejected by the server');
+    }
+    this.begin('auth', method);
+  }
+
+  handshake(algorithms: NegotiatedAlgorithmSet): void {
+    this.algorithms = algorithms;
+  }
+
+  /**
+   * Build the report
+   * @param circuitState - The host's circuit breaker state
+   * @returns The report; success when the last stage is a successful auth attempt
+   */
+  report(circuitState: CircuitState): ConnectionTestReport {
+    // Stages stop at the first failure, except auth attempts the server rejected
+    const last = this.stages[this.stages.length - 1];
+    const success = last?.stage === 'auth' && last.status === 'ok';
+
+    return {
+      target: this.target,
+      username: this.username,
+      success,
+      durationMs: Date.now() - this.startTime,
+      ...(last?.status === 'failed' ? { failedStage: last.stage, error: last.error } : {}),
+      stages: [...this.stages],
+      serverIdent: this.serverIdent,
+      hostKeyFingerprint: this.hostKeyFingerprint,
+      algorithms: this.algorithms,
+      authMethod: success ? last.method : undefined,
+      circuitState,
+    };
+  }
+
+  /**
+   * End the running stage
+   * @param status - The outcome
+   * @param detail - What the stage found
+   * @param error - Why the stage failed
+   */
+  private end(status: 'ok' | 'failed', detail?: string, error?: string): void {
+    if (!this.current) {
+      return;
+    }
+    const now = Date.now();
+    const { stage, method, startTime } = this.current;
+    this.stages.push({
+      stage,
+      status,
+      durationMs: now - startTime,
+      ...(detail !== undefined ? { detail } : {}),
+      ...(method !== undefined ? { method } : {}),
+      ...(error !== undefined ? { error } : {}),
+    });
+    this.current = undefined;
+    this.next = NEXT_STAGE[stage] ?? stage;
+    this.lastTransition = now;
+  }
+}
+
+/**
+ * Resolve a host name to an address
+ * @param host - The host name or address
+ * @returns A promise that resolves with the first address
+ * @throws {SSHError} If the name cannot be resolved
+ */
+export async function resolveHostAddress(host: string): Promise<string> {
+  try {
+    const { address } = await lookup(host);
+    return address;
+  } catch (err) {
+    throw new SSHError(
+      `${CONNECTION_FAILED_ERROR}: cannot resolve ${host}: ${err instanceof Error ? err.message : UNKNOWN_ERROR}`,
+      err instanceof Error ? err : undefined
+    );
+  }
+}
+
+/**
+ * Open a TCP connection to an SSH server
+ * @param address - The server address
+ * @param port - The server port
+ * @returns A promise that resolves with the connected socket
+ * @throws {SSHError} If the connection is refused or times out
+ */
+export function connectSocket(address: string, port: number): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = connect({ host: address, port, timeout: TIMEOUTS.CONNECTION });
+    const onError = (error: Error) => {
+      socket.destroy();
+      reject(new SSHError(`${CONNECTION_FAILED_ERROR}: ${address}:${port}: ${error.message}`, error));
+    };
+    socket.once('error', onError);
+    socket.once('timeout', () => onError(new Error('connection timed out')));
+    socket.once('connect', () => {
+      socket.off('error', onError);
+      socket.setTimeout(0);
+      resolve(socket);
+    });
+  });
+}
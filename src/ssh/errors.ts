@@ -1,3 +1,5 @@
+import { COMMAND_CANCELLED_ERROR, COMMAND_TIMEOUT_ERROR } from '../constants.js';
+
 /**
  * Custom error class for SSH operations
  */
@@ -8,3 +10,62 @@ export class SSHError extends Error {
     this.cause = cause;
   }
 }
+
+/**
+ * Reason a host key was rejected
+ */
+export type HostKeyFailureReason = 'unknown' | 'mismatch' | 'revoked' | 'not-pinned';
+
+/**
+ * Error raised when a server's host key fails verification
+ */
+export class HostKeyVerificationError extends SSHError {
+  readonly host: string;
+  readonly port: number;
+  readonly fingerprint: string;
+  readonly reason: HostKeyFailureReason;
+
+  constructor(host: string, port: number, fingerprint: string, reason: HostKeyFailureReason, message: string) {
+    super(message);
+    this.name = 'HostKeyVerificationError';
+    this.host = host;
+    this.port = port;
+    this.fingerprint = fingerprint;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error raised when a session command does not complete within its timeout
+ * The output the command produced before it was interrupted is kept.
+ */
+export class CommandTimeoutError extends SSHError {
+  readonly command: string;
+  readonly partialOutput: string;
+
+  constructor(command: string, partialOutput: string) {
+    super(
+      partialOutput === ''
+        ? `${COMMAND_TIMEOUT_ERROR}: ${command}`
+        : `${COMMAND_TIMEOUT_ERROR}: ${command}; partial output:\n${partialOutput}`
+    );
+    this.name = 'CommandTimeoutError';
+    this.command = command;
+    this.partialOutput = partialOutput;
+  }
+}
+
+/**
+ * Error a queued session command is rejected with when it is cancelled before it ran
+ */
+export class CommandCancelledError extends SSHError {
+  readonly command: string;
+  readonly commandId: string;
+
+  constructor(command: string, commandId: string) {
+    super(`${COMMAND_CANCELLED_ERROR}: ${command}`);
+    this.name = 'CommandCancelledError';
+    this.command = command;
+    this.commandId = commandId;
+  }
+}
@@ -5,13 +5,42 @@
 export { PersistentSession } from './session.js';
 export { SSHConnectionManager } from './manager.js';
 export { ConnectionPool } from './connection-pool.js';
-export { SSHError } from './errors.js';
+export { CircuitBreaker, CircuitState } from './circuit-breaker.js';
+export { SSHError, HostKeyVerificationError, HostKeyFailureReason, CommandTimeoutError, CommandCancelledError } from './errors.js';
+export { verifyHostKey, parseKnownHosts, KnownHostEntry, HostKeyCheckResult } from './known-hosts.js';
+export { computeFingerprint, parseCertificate, OpenSSHCertificate } from './keys.js';
+export { loadUserCertificate, checkCertificateValidity, UserCertificate } from './certificates.js';
+export { parseProxyJump } from './jump-hosts.js';
+export { encodeKeys } from './keystrokes.js';
+export { VirtualTerminal, diffScreens, ScreenSnapshot, ScreenChange } from './terminal.js';
+export { ALGORITHM_PRESETS, resolveAlgorithms, AlgorithmPolicy, NegotiatedAlgorithmSet } from './algorithms.js';
+export { ConnectionTestReport, ConnectionTestStage, ConnectionTestStageName } from './diagnostics.js';
+export { loadSSHConfig, resolveSSHHost, SSHConfig, SSHHostConfig } from './ssh-config.js';
 export {
   CommandResult,
   SessionType,
   SessionMode,
   SessionMetadata,
+  SessionSetupOptions,
+  PtyOptions,
+  WaitSource,
+  WaitForOptions,
+  WaitForResult,
+  JobState,
+  BackgroundJob,
+  QueuedCommand,
   CommandRequest,
   ConnectionInfo,
+  ConnectionOptions,
+  ConnectionPoolOptions,
+  ChannelLease,
+  PooledConnectionInfo,
+  ConnectionSummary,
+  CloseConnectionResult,
+  ReadinessState,
+  TargetReadiness,
+  JumpHost,
+  ProxyOptions,
+  AuthMethod,
 } from './types.js';
-export { TIMEOUTS, BUFFER_LIMITS, SSH_CONFIG } from './constants.js';
+export { TIMEOUTS, BUFFER_LIMITS, SSH_CONFIG, RECONNECT } from './constants.js';
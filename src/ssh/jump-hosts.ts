@@ -0,0 +1,56 @@
+import { JumpHost } from './types.js';
+import { SSHError } from './errors.js';
+import { INVALID_ARGUMENTS_ERROR, NULL_OR_UNDEFINED_ARGUMENTS_ERROR } from '../constants.js';
+
+/**
+ * Matches one ProxyJump hop: [ssh://][user@]host[:port], with IPv6 hosts in brackets
+ */
+const JUMP_HOST_PATTERN = /^(?:ssh:\/\/)?(?:([^@\s]+)@)?(\[[^\]\s]+\]|[^@:\s[\]]+)(?::(\d+))?$/;
+
+/**
+ * Parse an OpenSSH ProxyJump specification
+ * @param spec - Comma-separated jump hosts, outermost first, e.g. "admin@bastion1,bastion2:2222"
+ * @returns The jump hosts, without credentials. Port and username are only set when given.
+ * @throws {SSHError} If the specification is null, undefined or malformed
+ *
+ * @example
+ * ```typescript
+ * parseProxyJump('admin@bastion1,[fd00::1]:2222');
+ * // [{ host: 'bastion1', username: 'admin' }, { host: 'fd00::1', port: 2222 }]
+ * ```
+ */
+export function parseProxyJump(spec: string): JumpHost[] {
+  if (spec == null) {
+    throw new SSHError(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+  }
+
+  return spec.split(',').map((part) => {
+    const hop = part.trim();
+    const match = JUMP_HOST_PATTERN.exec(hop);
+    if (!match) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: invalid jump host "${hop}", expected [user@]host[:port]`);
+    }
+
+    const [, username, host, portText] = match;
+    const port = portText === undefined ? undefined : Number(portText);
+    if (port !== undefined && (port <= 0 || port > 65535)) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: jump host port must be between 1 and 65535`);
+    }
+
+    return {
+      host: host.startsWith('[') ? host.slice(1, -1) : host,
+      ...(port !== undefined ? { port } : {}),
+      ...(username !== undefined ? { username } : {}),
+    };
+  });
+}
+
+/**
+ * Format a jump host as user@host:port
+ * @param jumpHost - The jump host
+ * @param defaultUsername - The username used when the jump host has none
+ * @returns The formatted jump host
+ */
+export function formatJumpHost(jumpHost: JumpHost, defaultUsername: string): string {
+  return `${jumpHost.username ?? defaultUsername}@${jumpHost.host}:${jumpHost.port ?? 22}`;
+}
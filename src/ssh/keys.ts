@@ -0,0 +1,216 @@
+import { createHash } from 'crypto';
+import { INVALID_ARGUMENTS_ERROR, NULL_OR_UNDEFINED_ARGUMENTS_ERROR } from '../constants.js';
+
+/**
+ * Suffix shared by all OpenSSH certificate key types
+ */
+const CERTIFICATE_SUFFIX = '-cert-v01@openssh.com';
+
+/**
+ * Number of public key fields that follow the nonce in a certificate blob,
+ * keyed by the underlying key type
+ */
+const CERTIFICATE_KEY_FIELDS: Record<string, number> = {
+  'ssh-rsa': 2,
+  'ssh-dss': 4,
+  'ecdsa-sha2-nistp256': 2,
+  'ecdsa-sha2-nistp384': 2,
+  'ecdsa-sha2-nistp521': 2,
+  'ssh-ed25519': 1,
+  'sk-ecdsa-sha2-nistp256@openssh.com': 3,
+  'sk-ssh-ed25519@openssh.com': 2,
+};
+
+/**
+ * Value of valid_before meaning a certificate never expires
+ */
+const CERTIFICATE_NO_EXPIRY = 0xffffffffffffffffn;
+
+/**
+ * Parsed OpenSSH certificate (see PROTOCOL.certkeys)
+ */
+export interface OpenSSHCertificate {
+  type: string;
+  keyType: string;
+  serial: bigint;
+  certType: 'user' | 'host';
+  keyId: string;
+  principals: string[];
+  validAfter: Date;
+  validBefore: Date | null;
+  signatureKey: Buffer;
+  /** The certified public key as a plain SSH public key blob */
+  publicKey: Buffer;
+}
+
+/**
+ * Sequential reader for SSH wire-format blobs
+ */
+class SSHBlobReader {
+  private offset = 0;
+
+  constructor(private readonly blob: Buffer) {}
+
+  readUInt32(): number {
+    this.ensure(4);
+    const value = this.blob.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  readUInt64(): bigint {
+    this.ensure(8);
+    const value = this.blob.readBigUInt64BE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  readBuffer(): Buffer {
+    const length = this.readUInt32();
+    this.ensure(length);
+    const value = this.blob.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  readString(): string {
+    return this.readBuffer().toString('utf-8');
+  }
+
+  hasMore(): boolean {
+    return this.offset < this.blob.length;
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.blob.length) {
+      throw new Error(`${INVALID_ARGUMENTS_ERROR}: truncated SSH key blob`);
+    }
+  }
+}
+
+/**
+ * Encode a value as an SSH wire-format string
+ * @param value - The value to encode
+ * @returns The length-prefixed value
+ */
+export function encodeString(value: string | Buffer): Buffer {
+  const data = typeof value === 'string' ? Buffer.from(value) : value;
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, data]);
+}
+
+/**
+ * Read the key type name from an SSH public key blob
+ * @param blob - The public key blob in SSH wire format
+ * @returns The key type, e.g. ssh-ed25519
+ * @throws {Error} If the blob is null, undefined, or malformed
+ */
+export function getKeyType(blob: Buffer): string {
+  if (blob == null) {
+    throw new Error(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+  }
+  return new SSHBlobReader(blob).readString();
+}
+
+/**
+ * Compute the OpenSSH-style SHA256 fingerprint of a public key blob
+ * @param blob - The public key blob in SSH wire format
+ * @returns The fingerprint, e.g. SHA256:47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU
+ * @throws {Error} If the blob is null or undefined
+ */
+export function computeFingerprint(blob: Buffer): string {
+  if (blob == null) {
+    throw new Error(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+  }
+  const digest = createHash('sha256').update(blob).digest('base64').replace(/=+$/, '');
+  return `SHA256:${digest}`;
+}
+
+/**
+ * Compute the legacy colon-separated MD5 fingerprint of a public key blob
+ * @param blob - The public key blob in SSH wire format
+ * @returns The fingerprint, e.g. MD5:16:27:ac:a5:76:28:2d:36:63:1b:56:4d:eb:df:a6:48
+ * @throws {Error} If the blob is null or undefined
+ */
+export function computeMd5Fingerprint(blob: Buffer): string {
+  if (blob == null) {
+    throw new Error(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+  }
+  const hex = createHash('md5').update(blob).digest('hex');
+  return `MD5:${hex.match(/.{2}/g)!.join(':')}`;
+}
+
+/**
+ * Check whether a public key blob is an OpenSSH certificate
+ * @param blob - The public key blob in SSH wire format
+ * @returns True if the key type is a certificate type
+ */
+export function isCertificate(blob: Buffer): boolean {
+  try {
+    return getKeyType(blob).endsWith(CERTIFICATE_SUFFIX);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse an OpenSSH certificate blob
+ * @param blob - The certificate blob in SSH wire format
+ * @returns The parsed certificate fields
+ * @throws {Error} If the blob is not a supported or well-formed certificate
+ */
+export function parseCertificate(blob: Buffer): OpenSSHCertificate {
+  if (blob == null) {
+    throw new Error(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+  }
+
+  const reader = new SSHBlobReader(blob);
+  const type = reader.readString();
+  if (!type.endsWith(CERTIFICATE_SUFFIX)) {
+    throw new Error(`${INVALID_ARGUMENTS_ERROR}: not an OpenSSH certificate: ${type}`);
+  }
+
+  const keyType = type.slice(0, -CERTIFICATE_SUFFIX.length) +
+    (type.startsWith('sk-') ? '@openssh.com' : '');
+  const keyFields = CERTIFICATE_KEY_FIELDS[keyType];
+  if (keyFields === undefined) {
+    throw new Error(`${INVALID_ARGUMENTS_ERROR}: unsupported certificate type: ${type}`);
+  }
+
+  reader.readBuffer(); // nonce
+  const publicKeyFields: Buffer[] = [encodeString(keyType)];
+  for (let i = 0; i < keyFields; i++) {
+    publicKeyFields.push(encodeString(reader.readBuffer()));
+  }
+
+  const serial = reader.readUInt64();
+  const certType = reader.readUInt32();
+  const keyId = reader.readString();
+
+  const principalsReader = new SSHBlobReader(reader.readBuffer());
+  const principals: string[] = [];
+  while (principalsReader.hasMore()) {
+    principals.push(principalsReader.readString());
+  }
+
+  const validAfter = reader.readUInt64();
+  const validBefore = reader.readUInt64();
+  reader.readBuffer(); // critical options
+  reader.readBuffer(); // extensions
+  reader.readBuffer(); // reserved
+  const signatureKey = reader.readBuffer();
+
+  return {
+    type,
+    keyType,
+    serial,
+    certType: certType === 2 ? 'host' : 'user',
+    keyId,
+    principals,
+    validAfter: new Date(Number(validAfter) * 1000),
+    validBefore: validBefore === CERTIFICATE_NO_EXPIRY ? null : new Date(Number(validBefore) * 1000),
+    signatureKey: Buffer.from(signatureKey),
+    publicKey: Buffer.concat(publicKeyFields),
+  };
+}
@@ -0,0 +1,109 @@
+import { SSHError } from './errors.js';
+import { INVALID_ARGUMENTS_ERROR, NULL_OR_UNDEFINED_ARGUMENTS_ERROR } from '../constants.js';
+
+const ESC = '\x1b';
+
+/**
+ * Bytes a terminal sends for each named key, by lower-cased name
+ * Cursor and function keys use the xterm sequences, which curses programs accept in either cursor mode.
+ */
+const NAMED_KEYS: Record<string, string> = {
+  enter: '\r',
+  cr: '\r',
+  return: '\r',
+  tab: '\t',
+  's-tab': `${ESC}[Z`,
+  esc: ESC,
+  escape: ESC,
+  bs: '\x7f',
+  backspace: '\x7f',
+  del: `${ESC}[3~`,
+  delete: `${ESC}[3~`,
+  ins: `${ESC}[2~`,
+  insert: `${ESC}[2~`,
+  space: ' ',
+  lt: '<',
+  up: `${ESC}[A`,
+  down: `${ESC}[B`,
+  right: `${ESC}[C`,
+  left: `${ESC}[D`,
+  home: `${ESC}[H`,
+  end: `${ESC}[F`,
+  pageup: `${ESC}[5~`,
+  pagedown: `${ESC}[6~`,
+  f1: `${ESC}OP`,
+  f2: `${ESC}OQ`,
+  f3: `${ESC}OR`,
+  f4: `${ESC}OS`,
+  f5: `${ESC}[15~`,
+  f6: `${ESC}[17~`,
+  f7: `${ESC}[18~`,
+  f8: `${ESC}[19~`,
+  f9: `${ESC}[20~`,
+  f10: `${ESC}[21~`,
+  f11: `${ESC}[23~`,
+  f12: `${ESC}[24~`,
+};
+
+/**
+ * Matches a key in angle brackets: a named key, or a Ctrl (C-) or Alt (M- or A-) chord
+ */
+const KEY_PATTERN = /<([^<>\s]+)>/g;
+
+/**
+ * Encode keystrokes written in vim key notation into the bytes a terminal sends
+ * Text outside angle brackets is sent as is. Named keys are case-insensitive:
+ * Enter (CR, Return), Tab, S-Tab, Esc, BS, Del, Ins, Space, Up, Down, Left, Right,
+ * Home, End, PageUp, PageDown and F1 to F12. C-x is Ctrl with x, M-x and A-x are Alt
+ * with x, where x is a character or a named key. Use <lt> for a literal "<".
+ * @param keys - The keystrokes, e.g. "ihello<Esc>:wq<Enter>"
+ * @returns The bytes to write to the terminal
+ * @throws {SSHError} If keys is null, undefined or empty, or names an unknown key
+ *
+ * @example
+ * ```typescript
+ * encodeKeys('<C-c>ls -l<Enter>');
+ * // '\x03ls -l\r'
+ * ```
+ */
+export function encodeKeys(keys: string): string {
+  if (keys == null) {
+    throw new SSHError(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+  }
+  if (keys === '') {
+    throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: keys are required`);
+  }
+
+  return keys.replace(KEY_PATTERN, (_match, name: string) => encodeKey(name));
+}
+
+/**
+ * Encode one key from inside angle brackets
+ * @param name - The key name, e.g. "Esc", "C-c" or "M-Left"
+ * @returns The bytes of the key
+ * @throws {SSHError} If the key is unknown
+ */
+function encodeKey(name: string): string {
+  const named = NAMED_KEYS[name.toLowerCase()];
+  if (named !== undefined) {
+    return named;
+  }
+
+  const chord = /^([CMA])-(.+)$/i.exec(name);
+  if (chord) {
+    const [, modifier, key] = chord;
+    const base = key.length === 1 ? key : NAMED_KEYS[key.toLowerCase()];
+    if (base !== undefined) {
+      if (modifier.toUpperCase() !== 'C') {
+        // Alt is sent as Escape followed by the key
+        return ESC + base;
+      }
+      if (key.length === 1 && /[@-_a-z?]/i.test(key)) {
+        // Ctrl clears the top bits of the character; Ctrl-? is DEL
+        return key === '?' ? '\x7f' : String.fromCharCode(key.toUpperCase().charCodeAt(0) & 0x1f);
+      }
+    }
+  }
+
+  throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: unknown key <${name}>, use <lt> for a literal "<"`);
+}
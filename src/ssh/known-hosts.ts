@@ -0,0 +1,336 @@
+import { createHmac } from 'crypto';
+import { readFile, appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type { HostKeyVerificationConfig } from '../config/schema.js';
+import { expandTilde } from '../utils.js';
+import { HostKeyVerificationError } from './errors.js';
+import { SSH_CONFIG } from './constants.js';
+import { computeFingerprint, computeMd5Fingerprint, getKeyType } from './keys.js';
+import {
+  HOST_KEY_VERIFICATION_FAILED_ERROR,
+  NULL_OR_UNDEFINED_ARGUMENTS_ERROR,
+  UNKNOWN_ERROR,
+} from '../constants.js';
+
+/**
+ * A single entry parsed from an OpenSSH known_hosts file
+ */
+export interface KnownHostEntry {
+  marker?: 'cert-authority' | 'revoked';
+  hostPatterns: string[];
+  keyType: string;
+  key: Buffer;
+  comment?: string;
+  line: number;
+}
+
+/**
+ * Outcome of a successful host key check
+ */
+export interface HostKeyCheckResult {
+  status: 'known' | 'added' | 'pinned' | 'unverified';
+  fingerprint: string;
+}
+
+/**
+ * Pending appends per known_hosts file, so concurrent accept-new checks write one at a time
+ */
+const knownHostsWrites = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a task once every earlier task queued for the same file has settled
+ * @param filePath - The file the task writes
+ * @param task - The task to run
+ * @returns The result of the task
+ */
+async function serializeWrite<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = knownHostsWrites.get(filePath) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  knownHostsWrites.set(filePath, current);
+  try {
+    return await current;
+  } finally {
+    if (knownHostsWrites.get(filePath) === current) {
+      knownHostsWrites.delete(filePath);
+    }
+  }
+}
+
+/**
+ * Format a host the way OpenSSH writes it in known_hosts
+ * @param host - The host name or address
+ * @param port - The SSH port
+ * @returns host for port 22, [host]:port otherwise
+ */
+export function formatKnownHostsHost(host: string, port: number): string {
+  return port === 22 ? host : `[${host}]:${port}`;
+}
+
+/**
+ * Parse the contents of an OpenSSH known_hosts file
+ *
+ * Blank lines, comments and malformed lines are skipped. Hashed host
+ * entries (|1|salt|hash) are kept as-is and matched by {@link matchesHost}.
+ * Entries marked @cert-authority are parsed but never trust a host: ssh2
+ * does not negotiate host certificate algorithms, so servers only offer
+ * plain keys.
+ *
+ * @param content - The known_hosts file contents
+ * @returns The parsed entries
+ * @throws {Error} If content is null or undefined
+ */
+export function parseKnownHosts(content: string): KnownHostEntry[] {
+  if (content == null) {
+    throw new Error(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+  }
+
+  const entries: KnownHostEntry[] = [];
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      continue;
+    }
+
+    const fields = trimmed.split(/\s+/);
+    let marker: KnownHostEntry['marker'];
+    if (fields[0] === '@cert-authority' || fields[0] === '@revoked') {
+      marker = fields.shift()!.slice(1) as KnownHostEntry['marker'];
+    } else if (fields[0].startsWith('@')) {
+      continue; // Unknown marker
+    }
+
+    if (fields.length < 3) {
+      continue;
+    }
+
+    const [hosts, keyType, encodedKey, ...comment] = fields;
+    const key = Buffer.from(encodedKey, 'base64');
+    if (key.length === 0) {
+      continue;
+    }
+
+    entries.push({
+      marker,
+      hostPatterns: hosts.split(','),
+      keyType,
+      key,
+      comment: comment.length > 0 ? comment.join(' ') : undefined,
+      line: i + 1,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Match a host against a single OpenSSH wildcard pattern (* and ?)
+ * @param pattern - The pattern to match
+ * @param value - The host string to test
+ * @returns True if the pattern matches
+ */
+function matchWildcard(pattern: string, value: string): boolean {
+  const regex = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${regex}$`, 'i').test(value);
+}
+
+/**
+ * Match a host against a hashed known_hosts pattern (|1|salt|hash)
+ * @param pattern - The hashed pattern
+ * @param value - The host string to test
+ * @returns True if the HMAC-SHA1 of the host matches the stored hash
+ */
+function matchHashed(pattern: string, value: string): boolean {
+  const parts = pattern.split('|');
+  if (parts.length !== 4 || parts[1] !== '1') {
+    return false;
+  }
+  const salt = Buffer.from(parts[2], 'base64');
+  const expected = parts[3];
+  return createHmac('sha1', salt).update(value).digest('base64') === expected;
+}
+
+/**
+ * Check whether a known_hosts entry applies to a host and port
+ *
+ * Negated patterns (!pattern) take precedence over positive matches.
+ *
+ * @param entry - The known_hosts entry
+ * @param host - The host name or address
+ * @param port - The SSH port
+ * @returns True if the entry matches the host
+ */
+export function matchesHost(entry: KnownHostEntry, host: string, port: number): boolean {
+  const value = formatKnownHostsHost(host, port);
+  let matched = false;
+
+  for (const rawPattern of entry.hostPatterns) {
+    const negated = rawPattern.startsWith('!');
+    const pattern = negated ? rawPattern.slice(1) : rawPattern;
+    const isMatch = pattern.startsWith('|')
+      ? matchHashed(pattern, value)
+      : matchWildcard(pattern, value);
+
+    if (isMatch && negated) {
+      return false;
+    }
+    if (isMatch) {
+      matched = true;
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * Check whether a pinned fingerprint matches a host key
+ *
+ * Accepts SHA256 fingerprints with or without the SHA256: prefix, and
+ * legacy colon-separated MD5 fingerprints with or without the MD5: prefix.
+ *
+ * @param pinned - The pinned fingerprint from configuration
+ * @param key - The host key blob
+ * @returns True if the fingerprint identifies the key
+ */
+export function fingerprintMatches(pinned: string, key: Buffer): boolean {
+  const value = pinned.trim();
+  const md5 = value.replace(/^MD5:/i, '');
+  if (/^([0-9a-f]{2}:){15}[0-9a-f]{2}$/i.test(md5)) {
+    return computeMd5Fingerprint(key) === `MD5:${md5.toLowerCase()}`;
+  }
+  const sha256 = value.replace(/^SHA256:/i, '').replace(/=+$/, '');
+  return computeFingerprint(key) === `SHA256:${sha256}`;
+}
+
+/**
+ * Read a known_hosts file, treating a missing file as empty
+ * @param filePath - The expanded path to the known_hosts file
+ * @returns The file contents
+ */
+async function readKnownHostsFile(filePath: string): Promise<string> {
+  try {
+    return await readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return '';
+    }
+    throw error;
+  }
+}
+
+/**
+ * Verify a server host key against the configured policy
+ *
+ * known_hosts entries are compared only with keys of the same type, so a
+ * host recorded with just its RSA key is unknown when it offers Ed25519.
+ *
+ * @param key - The host key blob presented by the server
+ * @param host - The host name or address that was dialled
+ * @param port - The SSH port
+ * @param config - The host key verification policy
+ * @returns The check result when the key is trusted; unverified in off mode, which accepts any key
+ * @throws {HostKeyVerificationError} If the key is unknown, changed, revoked or not pinned
+ */
+export async function verifyHostKey(
+  key: Buffer,
+  host: string,
+  port: number,
+  config: HostKeyVerificationConfig
+): Promise<HostKeyCheckResult> {
+  if (key == null || host == null || config == null) {
+    throw new Error(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+  }
+
+  const fingerprint = computeFingerprint(key);
+  const hostString = formatKnownHostsHost(host, port);
+
+  if (config.mode === 'off') {
+    return { status: 'unverified', fingerprint };
+  }
+
+  if (config.mode === 'fingerprint') {
+    if ((config.fingerprints ?? []).some(pinned => fingerprintMatches(pinned, key))) {
+      return { status: 'pinned', fingerprint };
+    }
+    throw new HostKeyVerificationError(
+      host, port, fingerprint, 'not-pinned',
+      `${HOST_KEY_VERIFICATION_FAILED_ERROR}: ${hostString} presented ${fingerprint}, which is not a pinned fingerprint`
+    );
+  }
+
+  const knownHostsPath = expandTilde(config.knownHostsPath ?? SSH_CONFIG.DEFAULT_KNOWN_HOSTS_PATH);
+  const content = await readKnownHostsFile(knownHostsPath);
+  const entries = parseKnownHosts(content)
+    .filter(entry => matchesHost(entry, host, port));
+
+  const revoked = entries.some(entry => entry.marker === 'revoked' && entry.key.equals(key));
+  if (revoked) {
+    throw new HostKeyVerificationError(
+      host, port, fingerprint, 'revoked',
+      `${HOST_KEY_VERIFICATION_FAILED_ERROR}: ${hostString} presented revoked key ${fingerprint}`
+    );
+  }
+
+  const keyType = getKeyType(key);
+  const plainEntries = entries.filter(entry => entry.marker === undefined && entry.keyType === keyType);
+  if (plainEntries.some(entry => entry.key.equals(key))) {
+    return { status: 'known', fingerprint };
+  }
+
+  if (plainEntries.length > 0) {
+    throw new HostKeyVerificationError(
+      host, port, fingerprint, 'mismatch',
+      `${HOST_KEY_VERIFICATION_FAILED_ERROR}: host key for ${hostString} has changed (got ${fingerprint}, known_hosts ${knownHostsPath}:${plainEntries[0].line})`
+    );
+  }
+
+  if (config.mode === 'accept-new') {
+    return serializeWrite(knownHostsPath, async (): Promise<HostKeyCheckResult> => {
+      let current: string;
+      try {
+        // Another connection to the same host may have recorded its key since the file was read
+        current = await readKnownHostsFile(knownHostsPath);
+      } catch (error) {
+        throw new HostKeyVerificationError(
+          host, port, fingerprint, 'unknown',
+          `${HOST_KEY_VERIFICATION_FAILED_ERROR}: could not read ${knownHostsPath}: ${error instanceof Error ? error.message : UNKNOWN_ERROR}`
+        );
+      }
+      const recorded = parseKnownHosts(current)
+        .filter(entry => entry.marker === undefined && entry.keyType === keyType && matchesHost(entry, host, port));
+      if (recorded.some(entry => entry.key.equals(key))) {
+        return { status: 'known', fingerprint };
+      }
+      if (recorded.length > 0) {
+        throw new HostKeyVerificationError(
+          host, port, fingerprint, 'mismatch',
+          `${HOST_KEY_VERIFICATION_FAILED_ERROR}: host key for ${hostString} has changed (got ${fingerprint}, known_hosts ${knownHostsPath}:${recorded[0].line})`
+        );
+      }
+
+      try {
+        await mkdir(dirname(knownHostsPath), { recursive: true, mode: 0o700 });
+        await appendFile(
+          knownHostsPath,
+          `${current === '' || current.endsWith('\n') ? '' : '\n'}${hostString} ${keyType} ${key.toString('base64')}\n`,
+          { mode: 0o600 }
+        );
+      } catch (error) {
+        throw new HostKeyVerificationError(
+          host, port, fingerprint, 'unknown',
+          `${HOST_KEY_VERIFICATION_FAILED_ERROR}: could not record new host key for ${hostString} in ${knownHostsPath}: ${error instanceof Error ? error.message : UNKNOWN_ERROR}`
+        );
+      }
+      return { status: 'added', fingerprint };
+    });
+  }
+
+  throw new HostKeyVerificationError(
+    host, port, fingerprint, 'unknown',
+    `${HOST_KEY_VERIFICATION_FAILED_ERROR}: no known_hosts entry for ${hostString} in ${knownHostsPath} (got ${fingerprint})`
+  );
+}
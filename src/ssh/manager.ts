@@ -1,20 +1,65 @@
+import type { Client, ClientChannel } from 'ssh2';
 import { PersistentSession } from './session.js';
 import { ConnectionPool } from './connection-pool.js';
-import { CommandResult, SessionType, SessionMode, SessionMetadata } from './types.js';
+import {
+  ChannelLease,
+  CloseConnectionResult,
+  CommandResult,
+  ConnectionSummary,
+  TargetReadiness,
+  SessionType,
+  SessionMode,
+  SessionMetadata,
+  SessionSetupOptions,
+  ConnectionOptions,
+  JumpHost,
+  ProxyOptions,
+  WaitForOptions,
+  WaitForResult,
+  BackgroundJob,
+  QueuedCommand,
+} from './types.js';
 import { SSHError } from './errors.js';
+import type { ScreenSnapshot, ScreenChange } from './terminal.js';
 import { ShellType } from '../shells.js';
 import {
   INVALID_ARGUMENTS_ERROR,
   NULL_OR_UNDEFINED_ARGUMENTS_ERROR,
   COMMAND_TIMEOUT_ERROR,
+  CONNECTION_IN_USE_ERROR,
+  HEALTH_CHECK_FAILED_ERROR,
+  PROFILE_NOT_FOUND_ERROR,
   SESSION_ID_REQUIRED_ERROR,
   SESSION_NOT_FOUND_ERROR,
   SESSION_ALREADY_EXISTS_ERROR,
   STREAM_ERROR
 } from '../constants.js';
-import { TIMEOUTS } from './constants.js';
-import type { ServerConfig } from '../config/schema.js';
+import { TIMEOUTS, SSH_CONFIG } from './constants.js';
+import { parseProxyJump } from './jump-hosts.js';
+import { resolveAlgorithms } from './algorithms.js';
+import type { ConnectionTestReport } from './diagnostics.js';
+import { SSHConfig, loadSSHConfig, resolveSSHHost } from './ssh-config.js';
+import type { ServerConfig, SecretReference, HostAuthConfig, ProxyConfig } from '../config/schema.js';
 import { AuditLogger, AuditEvent } from '../security/audit.js';
+import { resolveSecret } from '../security/secrets.js';
+import { expandTilde } from '../utils.js';
+import { access } from 'fs/promises';
+
+/**
+ * Maximum ProxyJump nesting followed through ~/.ssh/config
+ */
+const MAX_PROXY_JUMP_DEPTH = 8;
+
+/**
+ * A connection target after ~/.ssh/config has been applied
+ */
+interface ResolvedTarget {
+  host: string;
+  username: string;
+  privateKeyPath?: string;
+  port: number;
+  options: ConnectionOptions;
+}
 
 /**
  * Manages SSH connections and persistent sessions
@@ -22,15 +67,29 @@ import { AuditLogger, AuditEvent } from '../security/audit.js';
 export class SSHConnectionManager {
   private pool: ConnectionPool;
   private sessions: Map<string, PersistentSession>;
+  /** Pool key of the connection each session's shell runs on */
+  private sessionConnections: Map<string, string> = new Map();
   private config?: ServerConfig;
   private auditLogger?: AuditLogger;
+  private readiness: TargetReadiness = { state: 'idle', since: new Date() };
 
   /**
    * Create a new SSH connection manager
    * @param config - Optional server configuration. If provided, configuration values will be used for sessions.
    */
   constructor(config?: ServerConfig) {
-    this.pool = new ConnectionPool();
+    this.pool = new ConnectionPool({
+      maxConnectionsPerHost: config?.security?.maxConnectionsPerHost,
+      maxConnections: config?.security?.maxConnections,
+      idleTimeout: config?.timeouts?.idleConnection,
+      reconnectAttempts: config?.reconnect?.maxAttempts,
+      reconnectInitialDelay: config?.reconnect?.initialDelay,
+      reconnectMaxDelay: config?.reconnect?.maxDelay,
+      circuitFailureThreshold: config?.circuitBreaker?.failureThreshold,
+      circuitResetTimeout: config?.circuitBreaker?.resetTimeout,
+      maxChannelsPerConnection: config?.channels?.maxPerConnection,
+      channelSpillover: config?.channels?.spillover,
+    });
     this.sessions = new Map();
     this.config = config;
 
@@ -40,6 +99,382 @@ export class SSHConnectionManager {
         config?.logging?.audit?.filePath
       );
     }
+
+    this.pool.setAuditLogger(this.auditLogger);
+  }
+
+  /**
+   * Resolve per-connection options for a host
+   * Target configuration only applies when the host and port match the configured target.
+   * Explicitly supplied options take precedence over target configuration, and
+   * hosts without their own host key verification use the configured default.
+   * @param host - The host being connected to
+   * @param port - The port being connected to
+   * @param privateKeyPath - The private key path supplied by the caller, inherited by jump hosts without credentials
+   * @param overrides - Options supplied by the caller
+   * @returns The connection options for the host with secrets resolved
+   * @throws {SSHError} If a configured secret cannot be resolved
+   */
+  private async resolveConnectionOptions(
+    host: string,
+    port: number,
+    privateKeyPath: string | undefined,
+    overrides: ConnectionOptions
+  ): Promise<ConnectionOptions> {
+    const explicit = Object.fromEntries(
+      Object.entries(overrides).filter(([, value]) => value !== undefined)
+    ) as ConnectionOptions;
+
+    let options: ConnectionOptions = explicit;
+    const target = this.config?.target;
+    if (target && target.host === host && target.port === port) {
+      const targetOptions = await this.resolveHostOptions(
+        explicit.passphrase === undefined ? target : { ...target, passphrase: undefined },
+        host,
+        port
+      );
+      if (target.agentForward === true && targetOptions.agent !== undefined) {
+        targetOptions.agentForward = true;
+      }
+      if (target.jumpHosts !== undefined && target.jumpHosts.length > 0) {
+        targetOptions.jumpHosts = target.jumpHosts.map(({ host, port, username }) => ({ host, port, username }));
+      }
+      if (target.proxy !== undefined) {
+        targetOptions.proxy = await this.resolveProxy(target.proxy, host, port);
+      }
+      options = { ...targetOptions, ...explicit };
+    }
+
+    if (options.hostKeyVerification === undefined && this.config?.hostKeyVerification !== undefined) {
+      options.hostKeyVerification = this.config.hostKeyVerification;
+    }
+
+    if (options.jumpHosts !== undefined) {
+      options.jumpHosts = await this.resolveJumpHosts(options.jumpHosts, privateKeyPath, options);
+
+      // The proxy is the way out of this network, so only the outermost hop goes through it
+      if (options.proxy !== undefined && options.jumpHosts.length > 0) {
+        const [outermost] = options.jumpHosts;
+        outermost.options = { ...outermost.options, proxy: options.proxy };
+        delete options.proxy;
+      }
+    }
+
+    return options;
+  }
+
+  /**
+   * Resolve the authentication settings of a configured host
+   * @param hostConfig - The target or jump host configuration
+   * @param host - The host being connected to
+   * @param port - The port being connected to
+   * @returns The connection options for the host with secrets resolved
+   * @throws {SSHError} If a configured secret cannot be resolved
+   */
+  private async resolveHostOptions(
+    hostConfig: HostAuthConfig,
+    host: string,
+    port: number
+  ): Promise<ConnectionOptions> {
+    const options: ConnectionOptions = {
+      hostKeyVerification: hostConfig.hostKeyVerification,
+    };
+
+    if (hostConfig.algorithms !== undefined) {
+      options.algorithms = resolveAlgorithms(hostConfig.algorithms);
+    }
+
+    if (hostConfig.certificatePath !== undefined) {
+      options.certificatePath = expandTilde(hostConfig.certificatePath);
+    }
+
+    if (hostConfig.agent !== undefined && hostConfig.agent !== false) {
+      options.agent = this.resolveAgentSocket(hostConfig.agent, host, port);
+      options.agentForward = false;
+    }
+
+    if (hostConfig.password !== undefined) {
+      options.password = await this.resolveTargetSecret(hostConfig.password, 'password', host, port);
+      options.keyboardInteractive = hostConfig.keyboardInteractive === true;
+    }
+
+    if (hostConfig.passphrase !== undefined) {
+      options.passphrase = await this.resolveTargetSecret(hostConfig.passphrase, 'passphrase', host, port);
+    }
+
+    return options;
+  }
+
+  /**
+   * Resolve a configured proxy
+   * @param proxy - The proxy configuration
+   * @param host - The host being connected to
+   * @param port - The port being connected to
+   * @returns The proxy options with the password resolved
+   * @throws {SSHError} If the proxy password cannot be resolved
+   */
+  private async resolveProxy(proxy: ProxyConfig, host: string, port: number): Promise<ProxyOptions> {
+    if (proxy.type === 'command') {
+      return { type: 'command', command: proxy.command };
+    }
+    return {
+      type: proxy.type,
+      host: proxy.host,
+      port: proxy.port,
+      username: proxy.username,
+      password: proxy.password !== undefined
+        ? await this.resolveTargetSecret(proxy.password, 'proxy password', host, port)
+        : undefined,
+    };
+  }
+
+  /**
+   * Resolve the credentials for each jump host of a connection
+   * Jump hosts configured in target.jumpHosts use their own settings. Jump hosts
+   * without their own private key, agent or password use the connection's key,
+   * passphrase and agent, and its host key verification unless that pins fingerprints,
+   * in which case they use the configured default.
+   * @param jumpHosts - The jump hosts, outermost first
+   * @param privateKeyPath - The private key path of the connection
+   * @param options - The resolved options of the connection
+   * @returns The jump hosts with credentials and host key verification resolved
+   * @throws {SSHError} If a configured secret cannot be resolved
+   */
+  private async resolveJumpHosts(
+    jumpHosts: JumpHost[],
+    privateKeyPath: string | undefined,
+    options: ConnectionOptions
+  ): Promise<JumpHost[]> {
+    const inheritedVerification = options.hostKeyVerification?.mode === 'fingerprint'
+      ? undefined
+      : options.hostKeyVerification;
+
+    const resolved: JumpHost[] = [];
+    for (const jumpHost of jumpHosts) {
+      const port = jumpHost.port ?? 22;
+      const configured = this.config?.target?.jumpHosts?.find(
+        (candidate) => candidate.host === jumpHost.host && candidate.port === port
+      );
+      const username = jumpHost.username ?? configured?.username;
+
+      const hopOptions = configured
+        ? await this.resolveHostOptions(configured, jumpHost.host, port)
+        : {};
+      const hasCredentials = configured?.privateKeyPath !== undefined ||
+        hopOptions.agent !== undefined ||
+        hopOptions.password !== undefined;
+
+      if (hasCredentials) {
+        resolved.push({
+          host: jumpHost.host,
+          port,
+          username,
+          privateKeyPath: configured?.privateKeyPath !== undefined ? expandTilde(configured.privateKeyPath) : undefined,
+          options: hopOptions,
+        });
+        continue;
+      }
+
+      resolved.push({
+        host: jumpHost.host,
+        port,
+        username,
+        privateKeyPath: jumpHost.privateKeyPath ?? privateKeyPath,
+        options: {
+          hostKeyVerification: hopOptions.hostKeyVerification ?? inheritedVerification ?? this.config?.hostKeyVerification,
+          passphrase: options.passphrase,
+          agent: options.agent,
+        },
+      });
+    }
+    return resolved;
+  }
+
+  /**
+   * Apply the OpenSSH client configuration to a connection target
+   * When sshConfig is enabled, the host may be a Host alias. Explicit arguments
+   * take precedence over the configuration, as on the ssh command line.
+   * @param host - The host or Host alias supplied by the caller
+   * @param username - The username supplied by the caller, if any
+   * @param privateKeyPath - The private key path supplied by the caller, if any
+   * @param port - The port supplied by the caller, if any
+   * @param options - Options supplied by the caller
+   * @returns The target with the configuration applied and defaults filled in
+   * @throws {SSHError} If the configuration is invalid or no username can be determined
+   */
+  private async resolveTarget(
+    host: string,
+    username: string | undefined,
+    privateKeyPath: string | undefined,
+    port: number | undefined,
+    options: ConnectionOptions
+  ): Promise<ResolvedTarget> {
+    let target = { host, username, privateKeyPath, port, options };
+
+    const sshConfig = await this.loadSSHConfig();
+    if (sshConfig) {
+      const hostConfig = resolveSSHHost(sshConfig, host, { user: username, port });
+      const resolvedOptions = { ...options };
+      const resolvedKeyPath = privateKeyPath ?? await findExistingFile(hostConfig.identityFiles);
+
+      // A CertificateFile only applies with a key, and must not mask a configured certificatePath
+      const certificatePath = resolvedKeyPath !== undefined && options.certificatePath === undefined
+        ? await findExistingFile(hostConfig.certificateFiles)
+        : undefined;
+      if (certificatePath !== undefined) {
+        resolvedOptions.certificatePath = certificatePath;
+      }
+      const jumpHosts = options.jumpHosts ??
+        (hostConfig.proxyJump !== undefined ? parseProxyJump(hostConfig.proxyJump) : undefined);
+      if (jumpHosts) {
+        resolvedOptions.jumpHosts = await this.resolveJumpHostAliases(sshConfig, jumpHosts);
+      } else if (resolvedOptions.proxy === undefined && hostConfig.proxyCommand !== undefined) {
+        resolvedOptions.proxy = { type: 'command', command: hostConfig.proxyCommand };
+      }
+
+      target = {
+        host: hostConfig.hostName,
+        username: hostConfig.user,
+        privateKeyPath: resolvedKeyPath,
+        port: hostConfig.port,
+        options: resolvedOptions,
+      };
+    }
+
+    if (target.username === undefined) {
+      throw new SSHError(
+        `${NULL_OR_UNDEFINED_ARGUMENTS_ERROR}: username is required unless ~/.ssh/config sets User for ${host}`
+      );
+    }
+    return { ...target, username: target.username, port: target.port ?? 22 };
+  }
+
+  /**
+   * Resolve jump hosts through the OpenSSH client configuration
+   * As with ssh -J, the ProxyJump of the outermost hop is followed, while the
+   * chain itself replaces the ProxyJump of the other hops.
+   * @param sshConfig - The parsed configuration
+   * @param jumpHosts - The jump hosts, outermost first, which may be Host aliases
+   * @param depth - The ProxyJump nesting depth
+   * @returns The jump hosts with HostName, User, Port and IdentityFile applied
+   * @throws {SSHError} If the configuration is invalid or ProxyJump is nested too deeply
+   */
+  private async resolveJumpHostAliases(
+    sshConfig: SSHConfig,
+    jumpHosts: JumpHost[],
+    depth: number = 0
+  ): Promise<JumpHost[]> {
+    if (depth > MAX_PROXY_JUMP_DEPTH) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: ProxyJump nested too deeply in ${sshConfig.path}`);
+    }
+
+    const resolved: JumpHost[] = [];
+    for (const [index, jumpHost] of jumpHosts.entries()) {
+      const hostConfig = resolveSSHHost(sshConfig, jumpHost.host, { user: jumpHost.username, port: jumpHost.port });
+      if (index === 0 && hostConfig.proxyJump !== undefined) {
+        resolved.push(...await this.resolveJumpHostAliases(sshConfig, parseProxyJump(hostConfig.proxyJump), depth + 1));
+      }
+
+      resolved.push({
+        ...jumpHost,
+        host: hostConfig.hostName,
+        port: hostConfig.port,
+        username: hostConfig.user,
+        privateKeyPath: jumpHost.privateKeyPath ?? await findExistingFile(hostConfig.identityFiles),
+      });
+    }
+    return resolved;
+  }
+
+  /**
+   * Load the OpenSSH client configuration if it is enabled
+   * The file is read on every call so edits apply to the next connection.
+   * @returns The parsed configuration, or undefined when sshConfig is not enabled
+   * @throws {SSHError} If the configuration cannot be read or is invalid
+   */
+  private async loadSSHConfig(): Promise<SSHConfig | undefined> {
+    const sshConfig = this.config?.sshConfig;
+    if (!sshConfig || sshConfig.enabled === false) {
+      return undefined;
+    }
+    return loadSSHConfig(sshConfig.path ?? SSH_CONFIG.DEFAULT_SSH_CONFIG_PATH);
+  }
+
+  /**
+   * Resolve a secret from the target configuration
+   * @param secret - The configured secret or secret reference
+   * @param name - What the secret is, used in the error message
+   * @param host - The host being connected to
+   * @param port - The port being connected to
+   * @returns The secret value
+   * @throws {SSHError} If the secret cannot be resolved
+   */
+  private async resolveTargetSecret(
+    secret: string | SecretReference,
+    name: string,
+    host: string,
+    port: number
+  ): Promise<string> {
+    try {
+      return await resolveSecret(secret);
+    } catch (err) {
+      throw new SSHError(
+        `Failed to resolve ${name} for ${host}:${port}: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+
+  /**
+   * Resolve the ssh-agent socket path for a configured agent
+   * @param agent - true to use SSH_AUTH_SOCK, or an explicit socket path
+   * @param host - The host being connected to
+   * @param port - The port being connected to
+   * @returns The agent socket path
+   * @throws {SSHError} If SSH_AUTH_SOCK is required but not set
+   */
+  private resolveAgentSocket(agent: true | string, host: string, port: number): string {
+    if (typeof agent === 'string') {
+      return expandTilde(agent);
+    }
+    const socket = process.env.SSH_AUTH_SOCK;
+    if (socket === undefined || socket === '') {
+      throw new SSHError(`SSH agent is enabled for ${host}:${port} but SSH_AUTH_SOCK is not set`);
+    }
+    return socket;
+  }
+
+  /**
+   * Check that a connection has a private key, an SSH agent or a password to authenticate with
+   * @param privateKeyPath - The private key path supplied by the caller
+   * @param options - The resolved connection options
+   * @throws {SSHError} If no credentials are available
+   */
+  private checkCredentials(privateKeyPath: string | undefined, options: ConnectionOptions): void {
+    if (privateKeyPath == null && options.agent === undefined && options.password === undefined) {
+      throw new SSHError(
+        `${NULL_OR_UNDEFINED_ARGUMENTS_ERROR}: privateKeyPath is required unless an SSH agent or password is configured`
+      );
+    }
+  }
+
+  /**
+   * Describe how a pooled connection authenticated and which algorithms it negotiated, for audit events
+   * Only the method and certificate identity are reported, never credentials.
+   * @param connectionKey - The pool key of the connection, which may be a spillover connection
+   * @returns The audit details for the connection
+   */
+  private getConnectionAuditDetails(connectionKey: string): Record<string, unknown> {
+    const connInfo = this.pool.getConnectionInfoByKey(connectionKey);
+    const certificate = connInfo?.certificate;
+    return {
+      authMethod: connInfo?.authMethod,
+      ...(certificate ? {
+        certificateKeyId: certificate.keyId,
+        certificatePrincipals: certificate.principals,
+        certificateExpiresAt: certificate.validBefore?.toISOString() ?? 'never',
+      } : {}),
+      ...(connInfo?.algorithms ? { algorithms: connInfo.algorithms } : {}),
+    };
   }
 
   /**
@@ -90,31 +525,33 @@ export class SSHConnectionManager {
 
   /**
    * Execute a one-off SSH command without creating a persistent session
-   * @param host - The host to connect to
-   * @param username - The username to use for the connection
-   * @param privateKeyPath - The path to the private key to use for the connection
+   * @param host - The host or ~/.ssh/config Host alias to connect to
+   * @param username - The username to use for the connection, optional when ~/.ssh/config sets User
+   * @param privateKeyPath - The path to the private key to use for the connection, optional when an SSH agent or password is configured
    * @param command - The command to execute
-   * @param port - The port to use for the connection
+   * @param port - The port to use for the connection (default: ~/.ssh/config Port or 22)
    * @param timeout - The timeout for the command execution in milliseconds
+   * @param options - Optional connection options such as the key passphrase and jump hosts
    * @returns A promise that resolves with the command result
    * @throws {SSHError} If the command execution fails
    * @throws {Error} If arguments are null, undefined, empty, or invalid
    */
   async executeCommand(
     host: string,
-    username: string,
-    privateKeyPath: string,
+    username: string | undefined,
+    privateKeyPath: string | undefined,
     command: string,
-    port: number = 22,
-    timeout: number = TIMEOUTS.DEFAULT_COMMAND
+    port?: number,
+    timeout: number = TIMEOUTS.DEFAULT_COMMAND,
+    options: ConnectionOptions = {}
   ): Promise<CommandResult> {
-    if (host == null || username == null || privateKeyPath == null || command == null) {
+    if (host == null || command == null) {
       throw new SSHError(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
     }
     if (host === '' || username === '' || privateKeyPath === '' || command === '') {
       throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: host, username, privateKeyPath, and command are required`);
     }
-    if (port <= 0 || port > 65535) {
+    if (port !== undefined && (port <= 0 || port > 65535)) {
       throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: port must be between 1 and 65535`);
     }
     if (timeout <= 0) {
@@ -123,44 +560,73 @@ export class SSHConnectionManager {
 
     this.checkCommandAllowed(command);
 
+    const resolved = await this.resolveTarget(host, username ?? undefined, privateKeyPath, port, options);
+    const connectionOptions = await this.resolveConnectionOptions(
+      resolved.host,
+      resolved.port,
+      resolved.privateKeyPath,
+      resolved.options
+    );
+    this.checkCredentials(resolved.privateKeyPath, connectionOptions);
+    const target = `${resolved.host}:${resolved.port}`;
+
     const startTime = Date.now();
-    let client;
+    let lease: ChannelLease;
 
     try {
-      client = await this.pool.getConnection(host, username, privateKeyPath, port);
+      // Waiting for a free channel counts against the command timeout
+      lease = await this.pool.acquireChannel(
+        resolved.host,
+        resolved.username,
+        resolved.privateKeyPath,
+        resolved.port,
+        connectionOptions,
+        timeout
+      );
 
       // Log connection established
       this.auditLogger?.logEvent(AuditEvent.CONNECTION_ESTABLISHED, {
-        target: `${host}:${port}`,
-        username,
-        connectionId: `ssh-${username}@${host}:${port}`,
+        target,
+        username: resolved.username,
+        connectionId: lease.connectionKey,
+        ...this.getConnectionAuditDetails(lease.connectionKey),
       });
     } catch (err) {
       // Log connection failure
       this.auditLogger?.logEvent(AuditEvent.CONNECTION_FAILED, {
-        target: `${host}:${port}`,
-        username,
+        target,
+        username: resolved.username,
         error: err instanceof Error ? err.message : String(err),
       });
       throw err;
     }
 
-    return new Promise((resolve, reject) => {
+    // The lease keeps the connection from being evicted while the command runs, and
+    // is only released once the channel is closed, as sshd counts it until then
+    const { client, queueWait } = lease;
+    return new Promise<CommandResult>((resolve, reject) => {
+      let channel: ClientChannel | undefined;
+      let timedOut = false;
       const timeoutHandle = setTimeout(() => {
+        timedOut = true;
+        if (channel !== undefined) {
+          abortExec(channel);
+        }
         reject(new SSHError(COMMAND_TIMEOUT_ERROR));
-      }, timeout);
+      }, Math.max(1, timeout - queueWait));
 
       let stdout = '';
       let stderr = '';
 
-      client.exec(command, (err, stream) => {
+      const onExec = (err: Error | undefined, stream: ClientChannel) => {
         if (err) {
           clearTimeout(timeoutHandle);
+          lease.release();
 
           // Log command execution error
           this.auditLogger?.logEvent(AuditEvent.ERROR_OCCURRED, {
-            target: `${host}:${port}`,
-            username,
+            target,
+            username: resolved.username,
             command,
             error: err.message,
             errorCode: 'EXEC_FAILED',
@@ -170,6 +636,7 @@ export class SSHConnectionManager {
           return;
         }
 
+        channel = stream;
         stream.on('data', (data: Buffer) => {
           stdout += data.toString();
         });
@@ -180,21 +647,27 @@ export class SSHConnectionManager {
 
         stream.on('close', (code: number, signal: string) => {
           clearTimeout(timeoutHandle);
+          lease.release();
+          if (timedOut) {
+            return;
+          }
 
           const result = {
             stdout,
             stderr,
             code: code ?? null,
             signal: signal ?? null,
+            queueWait,
           };
 
           // Log command execution
           this.auditLogger?.logEvent(AuditEvent.COMMAND_EXECUTED, {
-            target: `${host}:${port}`,
-            username,
+            target,
+            username: resolved.username,
             command,
             exitCode: code ?? null,
             duration: Date.now() - startTime,
+            queueWait,
             stdout,
             stderr,
           });
@@ -207,8 +680,8 @@ export class SSHConnectionManager {
 
           // Log stream error
           this.auditLogger?.logEvent(AuditEvent.ERROR_OCCURRED, {
-            target: `${host}:${port}`,
-            username,
+            target,
+            username: resolved.username,
             command,
             error: err.message,
             errorCode: 'STREAM_ERROR',
@@ -216,37 +689,199 @@ export class SSHConnectionManager {
 
           reject(new SSHError(`${STREAM_ERROR}: ${err.message}`, err));
         });
-      });
+
+        if (timedOut) {
+          // The command timed out before the channel opened
+          abortExec(stream);
+        }
+      };
+
+      try {
+        client.exec(command, onExec);
+      } catch (err) {
+        clearTimeout(timeoutHandle);
+        lease.release();
+        const message = err instanceof Error ? err.message : String(err);
+        reject(new SSHError(`Failed to execute command: ${message}`, err instanceof Error ? err : undefined));
+      }
     });
   }
 
+  /**
+   * Test a connection stage by stage without pooling it
+   * Connection failures are reported rather than thrown, so the report says
+   * where and why the connection failed.
+   * @param host - The host or ~/.ssh/config Host alias to test
+   * @param username - The username to use for the connection, optional when ~/.ssh/config sets User
+   * @param privateKeyPath - The path to the private key to use for the connection, optional when an SSH agent or password is configured
+   * @param port - The port to use for the connection (default: ~/.ssh/config Port or 22)
+   * @param options - Optional connection options such as the key passphrase and jump hosts
+   * @returns A promise that resolves with the staged report
+   * @throws {SSHError} If the target or its credentials cannot be resolved
+   * @throws {Error} If arguments are null, undefined, empty, or invalid
+   */
+  async testConnection(
+    host: string,
+    username: string | undefined,
+    privateKeyPath: string | undefined,
+    port?: number,
+    options: ConnectionOptions = {}
+  ): Promise<ConnectionTestReport> {
+    if (host == null) {
+      throw new SSHError(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+    }
+    if (host === '' || username === '' || privateKeyPath === '') {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: host, username, and privateKeyPath are required`);
+    }
+    if (port !== undefined && (port <= 0 || port > 65535)) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: port must be between 1 and 65535`);
+    }
+
+    const resolved = await this.resolveTarget(host, username ?? undefined, privateKeyPath, port, options);
+    const connectionOptions = await this.resolveConnectionOptions(
+      resolved.host,
+      resolved.port,
+      resolved.privateKeyPath,
+      resolved.options
+    );
+    this.checkCredentials(resolved.privateKeyPath, connectionOptions);
+
+    const report = await this.pool.testConnection(
+      resolved.host,
+      resolved.username,
+      resolved.privateKeyPath,
+      resolved.port,
+      connectionOptions
+    );
+
+    this.auditLogger?.logEvent(AuditEvent.CONNECTION_TESTED, {
+      target: report.target,
+      username: report.username,
+      success: report.success,
+      failedStage: report.failedStage,
+      error: report.error,
+      duration: report.durationMs,
+    });
+
+    return report;
+  }
+
+  /**
+   * Establish and health-check the connection to the configured target
+   * The connection is retried under the reconnect policy and stays pooled,
+   * so the first command does not pay for the handshake. Readiness is
+   * reported by getReadiness while and after this runs.
+   * @returns A promise that resolves with the readiness once the target is ready
+   * @throws {HostKeyVerificationError} If the target's or a jump host's host key fails verification
+   * @throws {SSHError} If no target is configured, the target cannot be connected or the health check fails
+   */
+  async prewarm(): Promise<TargetReadiness> {
+    const configured = this.config?.target;
+    if (!configured) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: no target is configured`);
+    }
+
+    const startTime = Date.now();
+    this.readiness = { state: 'connecting', target: `${configured.host}:${configured.port}`, since: new Date() };
+
+    let username = configured.username;
+    try {
+      const resolved = await this.resolveTarget(configured.host, configured.username, configured.privateKeyPath, configured.port, {});
+      username = resolved.username;
+      const connectionOptions = await this.resolveConnectionOptions(
+        resolved.host,
+        resolved.port,
+        resolved.privateKeyPath,
+        resolved.options
+      );
+      this.checkCredentials(resolved.privateKeyPath, connectionOptions);
+
+      await this.pool.warmConnection(
+        resolved.host,
+        resolved.username,
+        resolved.privateKeyPath,
+        resolved.port,
+        connectionOptions
+      );
+      const lease = await this.pool.acquireChannel(
+        resolved.host,
+        resolved.username,
+        resolved.privateKeyPath,
+        resolved.port,
+        connectionOptions,
+        TIMEOUTS.HEALTH_CHECK
+      );
+      await runHealthCheck(lease.client, () => lease.release());
+
+      this.auditLogger?.logEvent(AuditEvent.CONNECTION_ESTABLISHED, {
+        target: this.readiness.target,
+        username,
+        connectionId: lease.connectionKey,
+        reason: 'prewarm',
+        ...this.getConnectionAuditDetails(lease.connectionKey),
+      });
+    } catch (err) {
+      this.readiness = {
+        ...this.readiness,
+        state: 'failed',
+        since: new Date(),
+        durationMs: Date.now() - startTime,
+        error: err instanceof Error ? err.message : String(err),
+      };
+      this.auditLogger?.logEvent(AuditEvent.CONNECTION_FAILED, {
+        target: this.readiness.target,
+        username,
+        reason: 'prewarm',
+        error: this.readiness.error,
+      });
+      throw err;
+    }
+
+    this.readiness = { ...this.readiness, state: 'ready', since: new Date(), durationMs: Date.now() - startTime };
+    return this.getReadiness();
+  }
+
+  /**
+   * Get the readiness of the configured target connection
+   * The state stays idle unless prewarm has been called. A ready target is
+   * not re-checked; a connection that drops later is re-established on use.
+   * @returns The readiness
+   */
+  getReadiness(): TargetReadiness {
+    return { ...this.readiness };
+  }
+
   /**
    * Create a new persistent SSH session
    * @param sessionId - The unique session ID
-   * @param target - The target host to connect to
-   * @param username - The username to use for the connection
+   * @param target - The target host or ~/.ssh/config Host alias to connect to
+   * @param username - The username to use for the connection, optional when ~/.ssh/config sets User
    * @param type - The type of session (interactive or background)
-   * @param privateKeyPath - The path to the private key to use for the connection
-   * @param port - The port to use for the connection
+   * @param privateKeyPath - The path to the private key to use for the connection, optional when an SSH agent or password is configured
+   * @param port - The port to use for the connection (default: ~/.ssh/config Port or 22)
    * @param mode - The mode of session (normal or raw)
    * @param timeoutMs - The timeout for the session in milliseconds
-   * @param shellType - The type of shell to use
+   * @param shellType - The type of shell to use (default: the profile's shellType, otherwise bash)
+   * @param options - Optional connection options such as the key passphrase and jump hosts, and the
+   * profile, environment variables and starting directory the shell is prepared with before the session is returned
+   * and the pseudo-terminal it runs in
    * @returns A promise that resolves with the created session
-   * @throws {SSHError} If the session creation fails
+   * @throws {SSHError} If the session creation fails, the profile is not configured or a setup step fails
    * @throws {Error} If arguments are null, undefined, empty, or invalid
    */
   async createSession(
     sessionId: string,
     target: string,
-    username: string,
+    username: string | undefined,
     type: SessionType,
-    privateKeyPath: string,
-    port: number = 22,
+    privateKeyPath: string | undefined,
+    port: number | undefined,
     mode: SessionMode = 'normal',
     timeoutMs: number = TIMEOUTS.DEFAULT_SESSION,
-    shellType: ShellType = 'bash'
+    shellType?: ShellType,
+    options: ConnectionOptions & SessionSetupOptions = {}
   ): Promise<PersistentSession> {
-    if (sessionId == null || target == null || username == null || privateKeyPath == null) {
+    if (sessionId == null || target == null) {
       throw new SSHError(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
     }
     if (sessionId === '' || target === '' || username === '' || privateKeyPath === '') {
@@ -262,18 +897,40 @@ export class SSHConnectionManager {
       throw new SSHError(`Maximum session limit (${maxSessions}) reached`);
     }
 
-    const client = await this.pool.getConnection(target, username, privateKeyPath, port);
+    const { profile, env, cwd, pty, ...targetOptions } = options;
+    const profileConfig = profile !== undefined ? this.config?.profiles?.[profile] : undefined;
+    if (profile !== undefined && !profileConfig) {
+      throw new SSHError(`${PROFILE_NOT_FOUND_ERROR}: ${profile}`);
+    }
+
+    const resolved = await this.resolveTarget(target, username ?? undefined, privateKeyPath, port, targetOptions);
+    const connectionOptions = await this.resolveConnectionOptions(
+      resolved.host,
+      resolved.port,
+      resolved.privateKeyPath,
+      resolved.options
+    );
+    this.checkCredentials(resolved.privateKeyPath, connectionOptions);
+
+    const lease = await this.pool.acquireChannel(
+      resolved.host,
+      resolved.username,
+      resolved.privateKeyPath,
+      resolved.port,
+      connectionOptions
+    );
 
     const session = new PersistentSession(
       sessionId,
-      target,
-      username,
+      resolved.host,
+      resolved.username,
       type,
-      client,
-      port,
+      lease.client,
+      resolved.port,
       mode,
       timeoutMs,
-      shellType
+      shellType ?? profileConfig?.shellType ?? 'bash',
+      pty
     );
 
     session.setAuditLogger(this.auditLogger);
@@ -282,16 +939,36 @@ export class SSHConnectionManager {
       session.setCommandFilter((cmd: string) => this.checkCommandAllowed(cmd));
     }
 
-    await session.initialize();
+    // The shell holds its channel, and the connection is never evicted, until the session closes,
+    // including when it closes itself on a timeout or shell exit
+    const onClosed = () => {
+      lease.release();
+      this.sessionConnections.delete(sessionId);
+    };
+    session.once('closed', onClosed);
+
+    try {
+      await session.initialize();
+      await session.runSetup(cwd ?? profileConfig?.cwd, { ...profileConfig?.env, ...env }, profileConfig?.init ?? []);
+    } catch (err) {
+      session.off('closed', onClosed);
+      lease.release();
+      session.close();
+      throw err;
+    }
     this.sessions.set(sessionId, session);
+    this.sessionConnections.set(sessionId, lease.connectionKey);
 
     this.auditLogger?.logEvent(AuditEvent.SESSION_CREATED, {
       sessionId,
-      target: `${target}:${port}`,
-      username,
+      target: `${resolved.host}:${resolved.port}`,
+      username: resolved.username,
       type,
       mode,
-      privateKeyPath,
+      profile,
+      privateKeyPath: resolved.privateKeyPath,
+      queueWait: lease.queueWait,
+      ...this.getConnectionAuditDetails(lease.connectionKey),
     });
 
     return session;
@@ -313,6 +990,87 @@ export class SSHConnectionManager {
     return this.sessions.get(sessionId);
   }
 
+  /**
+   * Get the metadata of a session
+   * @param sessionId - The session ID
+   * @returns The session metadata, including the working directory and changed environment variables
+   * @throws {SSHError} If the session is not found
+   * @throws {Error} If sessionId is null, undefined, or empty
+   */
+  getSessionInfo(sessionId: string): SessionMetadata {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new SSHError(`${SESSION_NOT_FOUND_ERROR}: ${sessionId}`);
+    }
+    return session.getSessionInfo();
+  }
+
+  /**
+   * Resize the terminal of a session
+   * @param sessionId - The session ID
+   * @param rows - Terminal height in characters
+   * @param cols - Terminal width in characters
+   * @throws {SSHError} If the session is not found or inactive, or rows or cols is not a positive integer
+   * @throws {Error} If sessionId is null, undefined, or empty
+   */
+  resizeSession(sessionId: string, rows: number, cols: number): void {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new SSHError(`${SESSION_NOT_FOUND_ERROR}: ${sessionId}`);
+    }
+    session.resize(rows, cols);
+  }
+
+  /**
+   * Type keystrokes into a raw mode session and collect the output they produce
+   * @param sessionId - The session ID
+   * @param keys - The keystrokes, literal text with named keys in angle brackets, e.g. "ihello<Esc>:wq<Enter>"
+   * @param settleMs - How long the output must be quiet before it is returned, in milliseconds
+   * @returns The output observed after the keystrokes were written
+   * @throws {SSHError} If the session is not found, not in raw mode or inactive, or the keys are invalid
+   * @throws {Error} If sessionId is null, undefined, or empty
+   */
+  async sendKeys(sessionId: string, keys: string, settleMs?: number): Promise<string> {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new SSHError(`${SESSION_NOT_FOUND_ERROR}: ${sessionId}`);
+    }
+    return session.sendKeys(keys, settleMs);
+  }
+
+  /**
+   * Wait until a pattern matches the output or screen of a session
+   * @param sessionId - The session ID
+   * @param pattern - The regular expression to wait for
+   * @param options - The timeout, what to search and case sensitivity
+   * @returns The match with its capture groups, offset and the lines around it
+   * @throws {SSHError} If the session is not found or inactive, the pattern is invalid or nothing matches within the timeout
+   * @throws {Error} If sessionId is null, undefined, or empty
+   */
+  async waitFor(sessionId: string, pattern: string, options?: WaitForOptions): Promise<WaitForResult> {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new SSHError(`${SESSION_NOT_FOUND_ERROR}: ${sessionId}`);
+    }
+    return session.waitFor(pattern, options);
+  }
+
+  /**
+   * Get the rendered terminal screen of a raw mode session
+   * @param sessionId - The session ID
+   * @param diff - Also return the lines that changed since the previous call
+   * @returns The screen, and with diff the changed lines
+   * @throws {SSHError} If the session is not found or not in raw mode
+   * @throws {Error} If sessionId is null, undefined, or empty
+   */
+  getSessionScreen(sessionId: string, diff: boolean = false): ScreenSnapshot & { changes?: ScreenChange[] } {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new SSHError(`${SESSION_NOT_FOUND_ERROR}: ${sessionId}`);
+    }
+    return session.getScreen(diff);
+  }
+
   /**
    * List all active sessions
    * @returns An array of session metadata
@@ -335,6 +1093,16 @@ export class SSHConnectionManager {
       throw new Error(SESSION_ID_REQUIRED_ERROR);
     }
 
+    return this.endSession(sessionId, 'user_requested');
+  }
+
+  /**
+   * Close a session and forget it
+   * @param sessionId - The session ID to close
+   * @param reason - Why the session is closed, for the audit log
+   * @returns A promise that resolves with true if the session was closed, false if not found
+   */
+  private async endSession(sessionId: string, reason: string): Promise<boolean> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       return false;
@@ -344,13 +1112,14 @@ export class SSHConnectionManager {
 
     await session.close();
     this.sessions.delete(sessionId);
+    this.sessionConnections.delete(sessionId);
 
     // Log session closure
     this.auditLogger?.logEvent(AuditEvent.SESSION_CLOSED, {
       sessionId,
       target: `${sessionInfo.target}:${sessionInfo.port}`,
       username: sessionInfo.username,
-      reason: 'user_requested',
+      reason,
     });
 
     return true;
@@ -365,6 +1134,7 @@ export class SSHConnectionManager {
     const closePromises = Array.from(this.sessions.values()).map(session => session.close());
     await Promise.all(closePromises);
     this.sessions.clear();
+    this.sessionConnections.clear();
 
     // Disconnect all connections
     await this.pool.disconnectAll();
@@ -408,6 +1178,152 @@ export class SSHConnectionManager {
     return session.getBufferedOutput(lines, clear);
   }
 
+  /**
+   * Get a job of a background session
+   * @param sessionId - The session ID
+   * @param jobId - The job ID returned when the command was queued
+   * @returns The job
+   * @throws {SSHError} If the session or job is not found
+   * @throws {Error} If sessionId is null, undefined, or empty
+   */
+  getJob(sessionId: string, jobId: string): BackgroundJob {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new SSHError(`${SESSION_NOT_FOUND_ERROR}: ${sessionId}`);
+    }
+    return session.getJob(jobId);
+  }
+
+  /**
+   * List the running and queued commands of a session
+   * @param sessionId - The session ID
+   * @returns The commands in the order they run
+   * @throws {SSHError} If the session is not found
+   * @throws {Error} If sessionId is null, undefined, or empty
+   */
+  listQueue(sessionId: string): QueuedCommand[] {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new SSHError(`${SESSION_NOT_FOUND_ERROR}: ${sessionId}`);
+    }
+    return session.listQueue();
+  }
+
+  /**
+   * Cancel a queued command of a session before it runs, or interrupt its running command
+   * @param sessionId - The session ID
+   * @param commandId - The command ID reported by listQueue
+   * @throws {SSHError} If the session is not found, or the command is not queued or running in it
+   * @throws {Error} If sessionId is null, undefined, or empty
+   */
+  cancelCommand(sessionId: string, commandId: string): void {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new SSHError(`${SESSION_NOT_FOUND_ERROR}: ${sessionId}`);
+    }
+    session.cancelCommand(commandId);
+  }
+
+  /**
+   * Cancel every queued command of a session, leaving the running one to complete
+   * @param sessionId - The session ID
+   * @returns The IDs of the cancelled commands
+   * @throws {SSHError} If the session is not found
+   * @throws {Error} If sessionId is null, undefined, or empty
+   */
+  flushQueue(sessionId: string): string[] {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new SSHError(`${SESSION_NOT_FOUND_ERROR}: ${sessionId}`);
+    }
+    return session.flushQueue();
+  }
+
+  /**
+   * List the jobs of one session or of all sessions
+   * Jobs are dropped along with their session when it is closed.
+   * @param sessionId - The session ID, or undefined for every session
+   * @returns The jobs, oldest first within each session
+   * @throws {SSHError} If the session is not found
+   */
+  listJobs(sessionId?: string): BackgroundJob[] {
+    if (sessionId === undefined) {
+      return Array.from(this.sessions.values()).flatMap(session => session.listJobs());
+    }
+
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new SSHError(`${SESSION_NOT_FOUND_ERROR}: ${sessionId}`);
+    }
+    return session.listJobs();
+  }
+
+  /**
+   * List the pooled connections with the sessions running on them
+   * @returns The connections
+   */
+  listConnections(): ConnectionSummary[] {
+    return this.pool.listConnections().map((connection) => ({
+      ...connection,
+      sessions: this.getSessionsOn([connection.connectionKey]),
+    }));
+  }
+
+  /**
+   * Close a pooled connection and the connections tunnelled through it
+   * Commands running on them are aborted. Sessions running on them are only
+   * closed with cascade; otherwise the connection is left open.
+   * @param connectionKey - The pool key of the connection, as reported by listConnections
+   * @param cascade - Whether to close the sessions running on the connections first
+   * @returns A promise that resolves with the closed connections and sessions; both are
+   * empty when the connection is not pooled
+   * @throws {SSHError} If sessions run on the connections and cascade is not set
+   * @throws {Error} If connectionKey is null, undefined, or empty
+   */
+  async closeConnection(connectionKey: string, cascade: boolean = false): Promise<CloseConnectionResult> {
+    if (connectionKey == null) {
+      throw new SSHError(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+    }
+    if (connectionKey === '') {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: connectionKey is required`);
+    }
+
+    const sessions = this.getSessionsOn(this.pool.getConnectionTree(connectionKey));
+    if (sessions.length > 0 && !cascade) {
+      throw new SSHError(
+        `${CONNECTION_IN_USE_ERROR}: sessions ${sessions.join(', ')} run on ${connectionKey}; ` +
+        'close them first or close the connection with cascade'
+      );
+    }
+
+    for (const sessionId of sessions) {
+      await this.endSession(sessionId, 'connection_closed');
+    }
+    const connections = this.pool.disconnect(connectionKey);
+
+    if (connections.length > 0) {
+      this.auditLogger?.logEvent(AuditEvent.CONNECTION_CLOSED, {
+        connectionId: connectionKey,
+        connections,
+        sessions,
+        reason: 'user_requested',
+      });
+    }
+
+    return { connections, sessions };
+  }
+
+  /**
+   * Get the sessions whose shell runs on any of the given connections
+   * @param connectionKeys - Pool keys of the connections
+   * @returns The session IDs
+   */
+  private getSessionsOn(connectionKeys: string[]): string[] {
+    return Array.from(this.sessionConnections)
+      .filter(([, connectionKey]) => connectionKeys.includes(connectionKey))
+      .map(([sessionId]) => sessionId);
+  }
+
   /**
    * Get the number of active connections in the pool
    * @returns The number of connections
@@ -416,3 +1332,91 @@ export class SSHConnectionManager {
     return this.pool.getConnectionCount();
   }
 }
+
+/**
+ * Stop the command on an exec channel and close the channel
+ * Servers that ignore the signal still end the command when the channel closes.
+ * @param stream - The exec channel
+ */
+function abortExec(stream: ClientChannel): void {
+  stream.signal('KILL');
+  stream.close();
+}
+
+/**
+ * Run a command that does nothing on a connection to check that it can execute commands
+ * @param client - The SSH client
+ * @param release - Called once the channel is closed, or was never opened
+ * @returns A promise that resolves once the command exits with status 0
+ * @throws {SSHError} If the channel cannot be opened, the command fails or does not exit in time
+ */
+function runHealthCheck(client: Client, release: () => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let channel: ClientChannel | undefined;
+    let timedOut = false;
+    const timeoutHandle = setTimeout(() => {
+      timedOut = true;
+      if (channel !== undefined) {
+        abortExec(channel);
+      }
+      reject(new SSHError(`${HEALTH_CHECK_FAILED_ERROR}: no response within ${TIMEOUTS.HEALTH_CHECK}ms`));
+    }, TIMEOUTS.HEALTH_CHECK);
+
+    const onExec = (err: Error | undefined, stream: ClientChannel) => {
+      if (err) {
+        clearTimeout(timeoutHandle);
+        release();
+        reject(new SSHError(`${HEALTH_CHECK_FAILED_ERROR}: ${err.message}`, err));
+        return;
+      }
+
+      channel = stream;
+      // Drain the output so the channel can close
+      stream.on('data', () => {});
+      stream.stderr.on('data', () => {});
+      stream.on('close', (code: number | null) => {
+        clearTimeout(timeoutHandle);
+        release();
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new SSHError(`${HEALTH_CHECK_FAILED_ERROR}: exit code ${code ?? 'none'}`));
+        }
+      });
+      stream.on('error', (streamErr: Error) => {
+        clearTimeout(timeoutHandle);
+        reject(new SSHError(`${HEALTH_CHECK_FAILED_ERROR}: ${streamErr.message}`, streamErr));
+      });
+
+      if (timedOut) {
+        abortExec(stream);
+      }
+    };
+
+    try {
+      client.exec('exit 0', onExec);
+    } catch (err) {
+      clearTimeout(timeoutHandle);
+      release();
+      const message = err instanceof Error ? err.message : String(err);
+      reject(new SSHError(`${HEALTH_CHECK_FAILED_ERROR}: ${message}`, err instanceof Error ? err : undefined));
+    }
+  });
+}
+
+/**
+ * Find the first file that exists, as OpenSSH skips missing IdentityFile entries
+ * @param paths - The candidate paths, in order
+ * @returns The first existing path, or undefined if none exists
+ */
+async function findExistingFile(paths: string[]): Promise<string | undefined> {
+  for (const path of paths) {
+    try {
+      await access(path);
+      return path;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,358 @@
+import { connect, isIP, Socket } from 'net';
+import { spawn } from 'child_process';
+import { Duplex } from 'stream';
+import { ProxyOptions } from './types.js';
+import { SSHError } from './errors.js';
+import { TIMEOUTS } from './constants.js';
+import { PROXY_FAILED_ERROR, UNKNOWN_ERROR } from '../constants.js';
+
+/**
+ * SOCKS5 reply codes (RFC 1928 section 6)
+ */
+const SOCKS5_REPLIES: Record<number, string> = {
+  1: 'general SOCKS server failure',
+  2: 'connection not allowed by ruleset',
+  3: 'network unreachable',
+  4: 'host unreachable',
+  5: 'connection refused',
+  6: 'TTL expired',
+  7: 'command not supported',
+  8: 'address type not supported',
+};
+
+/**
+ * Values substituted into a ProxyCommand that need no shell quoting
+ */
+const SHELL_SAFE = /^[A-Za-z0-9._@:/+=-]+$/;
+
+/**
+ * Largest HTTP CONNECT response header accepted from a proxy
+ */
+const MAX_HTTP_RESPONSE = 16384;
+
+/**
+ * Open a stream to an SSH server through a proxy
+ * @param proxy - The proxy to connect through
+ * @param host - The SSH server host
+ * @param port - The SSH server port
+ * @param username - The SSH username, substituted for %r in a ProxyCommand
+ * @returns A promise that resolves with a stream connected to the SSH server. Proxy
+ * server streams are paused so no server data is lost before the SSH client reads them.
+ * @throws {SSHError} If the proxy cannot be reached or refuses the connection
+ */
+export async function openProxySocket(
+  proxy: ProxyOptions,
+  host: string,
+  port: number,
+  username: string
+): Promise<Duplex> {
+  if (proxy.type === 'command') {
+    return spawnProxyCommand(expandProxyCommand(proxy.command, host, port, username));
+  }
+
+  const socket = await connectTcp(proxy.host, proxy.port);
+  const timeout = setTimeout(() => {
+    socket.destroy(new Error('proxy handshake timed out'));
+  }, TIMEOUTS.CONNECTION);
+
+  try {
+    if (proxy.type === 'socks5') {
+      await socks5Connect(socket, proxy.username, proxy.password, host, port);
+    } else {
+      await httpConnect(socket, proxy.username, proxy.password, host, port);
+    }
+    return socket;
+  } catch (error) {
+    socket.destroy();
+    throw new SSHError(
+      `${PROXY_FAILED_ERROR}: ${proxy.type} proxy ${proxy.host}:${proxy.port} to ${host}:${port}: ${error instanceof Error ? error.message : UNKNOWN_ERROR}`,
+      error instanceof Error ? error : undefined
+    );
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Expand the OpenSSH tokens in a ProxyCommand
+ * %h is the host, %p the port, %r the username and %% a literal %. Values are
+ * shell-quoted when they contain anything but plain host name characters.
+ * @param command - The ProxyCommand template
+ * @param host - The SSH server host
+ * @param port - The SSH server port
+ * @param username - The SSH username
+ * @returns The command to run
+ */
+export function expandProxyCommand(command: string, host: string, port: number, username: string): string {
+  const values: Record<string, string> = {
+    h: host,
+    p: String(port),
+    r: username,
+    '%': '%',
+  };
+  return command.replace(/%([hpr%])/g, (_token, name: string) => {
+    const value = values[name];
+    return name === '%' || SHELL_SAFE.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+  });
+}
+
+/**
+ * Run a ProxyCommand and use its stdin and stdout as the connection
+ * @param command - The expanded command
+ * @returns A stream connected to the command's stdio
+ */
+function spawnProxyCommand(command: string): Duplex {
+  const child = spawn('/bin/sh', ['-c', command], { stdio: ['pipe', 'pipe', 'pipe'] });
+  const stream = Duplex.from({ readable: child.stdout, writable: child.stdin });
+
+  // Keep the tail of stderr to explain an early exit
+  let stderr = '';
+  child.stderr.on('data', (data: Buffer) => {
+    stderr = (stderr + data.toString()).slice(-1024);
+  });
+
+  child.on('error', (error) => {
+    stream.destroy(new SSHError(`${PROXY_FAILED_ERROR}: ProxyCommand "${command}": ${error.message}`, error));
+  });
+  child.on('exit', (code, signal) => {
+    if (code !== 0 && !stream.destroyed) {
+      const detail = stderr.trim() || (signal ? `killed by ${signal}` : `exited with code ${code}`);
+      stream.destroy(new SSHError(`${PROXY_FAILED_ERROR}: ProxyCommand "${command}": ${detail}`));
+    }
+  });
+  stream.on('close', () => {
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill();
+    }
+  });
+
+  return stream;
+}
+
+/**
+ * Open a TCP connection to a proxy
+ * @param host - The proxy host
+ * @param port - The proxy port
+ * @returns A promise that resolves with the connected socket
+ * @throws {SSHError} If the proxy cannot be reached
+ */
+function connectTcp(host: string, port: number): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = connect({ host, port, timeout: TIMEOUTS.CONNECTION });
+    const onError = (error: Error) => {
+      socket.destroy();
+      reject(new SSHError(`${PROXY_FAILED_ERROR}: cannot reach proxy ${host}:${port}: ${error.message}`, error));
+    };
+    socket.once('error', onError);
+    socket.once('timeout', () => onError(new Error('connection timed out')));
+    socket.once('connect', () => {
+      socket.off('error', onError);
+      socket.setTimeout(0);
+      resolve(socket);
+    });
+  });
+}
+
+/**
+ * Read a complete proxy response from a socket
+ * Bytes after the response belong to the SSH server and are put back on the socket.
+ * @param socket - The proxy socket
+ * @param parse - Returns the response length once the data holds a complete response
+ * @returns A promise that resolves with the response
+ */
+function readResponse(socket: Socket, parse: (data: Buffer) => number | undefined): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let data = Buffer.alloc(0);
+    const cleanup = () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    };
+    const onData = (chunk: Buffer) => {
+      data = Buffer.concat([data, chunk]);
+      let length: number | undefined;
+      try {
+        length = parse(data);
+      } catch (error) {
+        cleanup();
+        reject(error);
+        return;
+      }
+      if (length === undefined) {
+        return;
+      }
+      cleanup();
+      socket.pause();
+      if (data.length > length) {
+        socket.unshift(data.subarray(length));
+      }
+      resolve(data.subarray(0, length));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('proxy closed the connection'));
+    };
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('close', onClose);
+    socket.resume();
+  });
+}
+
+/**
+ * Encode the destination address of a SOCKS5 request
+ * @param host - The destination host
+ * @returns The address type and address
+ */
+function encodeSocks5Address(host: string): Buffer {
+  switch (isIP(host)) {
+    case 4:
+      return Buffer.from([0x01, ...host.split('.').map(Number)]);
+    case 6:
+      return Buffer.concat([Buffer.from([0x04]), ipv6ToBuffer(host)]);
+    default: {
+      const name = Buffer.from(host);
+      if (name.length > 255) {
+        throw new Error('host name is too long for SOCKS5');
+      }
+      return Buffer.concat([Buffer.from([0x03, name.length]), name]);
+    }
+  }
+}
+
+/**
+ * Convert an IPv6 address to its 16 bytes
+ * @param address - The IPv6 address
+ * @returns The address bytes
+ */
+function ipv6ToBuffer(address: string): Buffer {
+  const [head, tail = ''] = address.split('::');
+  const parse = (part: string) => (part === '' ? [] : part.split(':'));
+  let groups = [...parse(head)];
+  const tailGroups = parse(tail);
+
+  // An embedded IPv4 address takes two groups
+  const last = (address.includes('::') ? tailGroups : groups).at(-1);
+  if (last?.includes('.')) {
+    const octets = last.split('.').map(Number);
+    const embedded = [((octets[0] << 8) | octets[1]).toString(16), ((octets[2] << 8) | octets[3]).toString(16)];
+    if (address.includes('::')) {
+      tailGroups.splice(-1, 1, ...embedded);
+    } else {
+      groups.splice(-1, 1, ...embedded);
+    }
+  }
+
+  if (address.includes('::')) {
+    groups = [...groups, ...Array(8 - groups.length - tailGroups.length).fill('0'), ...tailGroups];
+  }
+
+  const buffer = Buffer.alloc(16);
+  groups.forEach((group, index) => buffer.writeUInt16BE(parseInt(group, 16), index * 2));
+  return buffer;
+}
+
+/**
+ * Ask a SOCKS5 proxy to connect to the SSH server (RFC 1928, RFC 1929)
+ * @param socket - The connected proxy socket
+ * @param username - The proxy username, if the proxy requires authentication
+ * @param password - The proxy password
+ * @param host - The SSH server host
+ * @param port - The SSH server port
+ */
+async function socks5Connect(
+  socket: Socket,
+  username: string | undefined,
+  password: string | undefined,
+  host: string,
+  port: number
+): Promise<void> {
+  const methods = username !== undefined ? [0x00, 0x02] : [0x00];
+  socket.write(Buffer.from([0x05, methods.length, ...methods]));
+
+  const greeting = await readResponse(socket, (data) => (data.length >= 2 ? 2 : undefined));
+  if (greeting[0] !== 0x05) {
+    throw new Error('not a SOCKS5 proxy');
+  }
+  if (greeting[1] === 0x02 && username !== undefined) {
+    const user = Buffer.from(username);
+    const pass = Buffer.from(password ?? '');
+    socket.write(Buffer.concat([
+      Buffer.from([0x01, user.length]), user,
+      Buffer.from([pass.length]), pass,
+    ]));
+    const auth = await readResponse(socket, (data) => (data.length >= 2 ? 2 : undefined));
+    if (auth[1] !== 0x00) {
+      throw new Error('proxy authentication failed');
+    }
+  } else if (greeting[1] !== 0x00) {
+    throw new Error(username === undefined ? 'proxy requires authentication' : 'no acceptable authentication method');
+  }
+
+  const portBytes = Buffer.alloc(2);
+  portBytes.writeUInt16BE(port);
+  socket.write(Buffer.concat([Buffer.from([0x05, 0x01, 0x00]), encodeSocks5Address(host), portBytes]));
+
+  const reply = await readResponse(socket, (data) => {
+    if (data.length < 5) {
+      return undefined;
+    }
+    if (data[1] !== 0x00) {
+      throw new Error(SOCKS5_REPLIES[data[1]] ?? `SOCKS5 error ${data[1]}`);
+    }
+    const addressLength = data[3] === 0x01 ? 4 : data[3] === 0x04 ? 16 : 1 + data[4];
+    const length = 4 + addressLength + 2;
+    return data.length >= length ? length : undefined;
+  });
+  if (reply[0] !== 0x05) {
+    throw new Error('invalid SOCKS5 reply');
+  }
+}
+
+/**
+ * Ask an HTTP proxy to open a tunnel to the SSH server with CONNECT
+ * @param socket - The connected proxy socket
+ * @param username - The proxy username, if the proxy requires authentication
+ * @param password - The proxy password
+ * @param host - The SSH server host
+ * @param port - The SSH server port
+ */
+async function httpConnect(
+  socket: Socket,
+  username: string | undefined,
+  password: string | undefined,
+  host: string,
+  port: number
+): Promise<void> {
+  const authority = isIP(host) === 6 ? `[${host}]:${port}` : `${host}:${port}`;
+  const headers = [`CONNECT ${authority} HTTP/1.1`, `Host: ${authority}`];
+  if (username !== undefined) {
+    const credentials = Buffer.from(`${username}:${password ?? ''}`).toString('base64');
+    headers.push(`Proxy-Authorization: Basic ${credentials}`);
+  }
+  socket.write(`${headers.join('\r\n')}\r\n\r\n`);
+
+  const response = await readResponse(socket, (data) => {
+    const end = data.indexOf('\r\n\r\n');
+    if (end === -1) {
+      if (data.length > MAX_HTTP_RESPONSE) {
+        throw new Error('proxy response header is too large');
+      }
+      return undefined;
+    }
+    return end + 4;
+  });
+
+  const statusLine = response.toString('latin1').split('\r\n')[0];
+  const match = /^HTTP\/1\.[01] (\d{3})(?: (.*))?$/.exec(statusLine);
+  if (!match) {
+    throw new Error(`invalid HTTP response "${statusLine}"`);
+  }
+  if (match[1] !== '200') {
+    throw new Error(`HTTP ${match[1]}${match[2] ? ` ${match[2]}` : ''}`);
+  }
+}
@@ -1,17 +1,65 @@
 import { Client, ClientChannel } from 'ssh2';
 import { EventEmitter } from 'events';
 import { ShellFormatter, ShellType, createShellFormatter } from '../shells.js';
-import { INVALID_ARGUMENTS_ERROR, NULL_OR_UNDEFINED_ARGUMENTS_ERROR } from '../constants.js';
+import {
+  COMMAND_NOT_FOUND_ERROR,
+  COMMAND_TIMEOUT_ERROR,
+  INVALID_ARGUMENTS_ERROR,
+  JOB_NOT_FOUND_ERROR,
+  NULL_OR_UNDEFINED_ARGUMENTS_ERROR,
+  PATTERN_WAIT_TIMEOUT_ERROR,
+  SESSION_SETUP_FAILED_ERROR,
+  SESSION_UNHEALTHY_ERROR,
+} from '../constants.js';
 import {
   CommandResult,
   SessionType,
   SessionMode,
   SessionMetadata,
   CommandRequest,
+  PtyOptions,
+  WaitForOptions,
+  WaitForResult,
+  BackgroundJob,
+  JobState,
+  QueuedCommand,
 } from './types.js';
-import { SSHError } from './errors.js';
-import { TIMEOUTS, BUFFER_LIMITS } from './constants.js';
+import { SSHError, CommandTimeoutError, CommandCancelledError } from './errors.js';
+import { encodeKeys } from './keystrokes.js';
+import { VirtualTerminal, ScreenSnapshot, ScreenChange, diffScreens } from './terminal.js';
+import { TIMEOUTS, BUFFER_LIMITS, PTY } from './constants.js';
 import { AuditLogger, AuditEvent } from '../security/audit.js';
+import { isSensitiveEnvironmentVar } from '../security/sanitize.js';
+
+/**
+ * Ctrl-C, which the remote terminal turns into SIGINT for the foreground command
+ */
+const INTERRUPT = '\x03';
+
+/**
+ * Environment variables the shell changes on its own, left out of SessionMetadata.environmentVars
+ */
+const VOLATILE_ENV_VARS = ['_', 'PWD', 'OLDPWD', 'SHLVL'];
+
+/**
+ * Lines of context shown either side of the line a waitFor pattern matched
+ */
+const WAIT_CONTEXT_LINES = 2;
+
+/**
+ * Characters of output kept for waitFor to search; older output is dropped
+ */
+const WAIT_OUTPUT_LIMIT = 1024 * 1024;
+
+/**
+ * Escape sequences removed from the output waitFor searches: CSI, OSC, character set designations and other two-byte sequences
+ */
+const ESCAPE_SEQUENCE = /\x1b(?:\[[0-?]*[ -\/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[()*+%#][0-9A-Za-z@]|O[A-Za-z]|[0-9A-Za-z=><\\])/g;
+
+/**
+ * An escape sequence cut off at the end of a chunk of output
+ */
+const PARTIAL_ESCAPE_SEQUENCE = /\x1b(?:\[[0-?]*[ -\/]*|\][^\x07\x1b]*\x1b?|[()*+%#O])?$/;
 
 /**
  * A persistent session with a shell
@@ -31,6 +79,29 @@ export class PersistentSession extends EventEmitter {
   private shellFormatter: ShellFormatter;
   private auditLogger?: AuditLogger;
   private commandFilter?: (command: string) => void;
+  /** Marker the shell is expected to print once it is back at a prompt after a timed-out command */
+  private resyncMarker: string | null = null;
+  private resyncTimer: NodeJS.Timeout | null = null;
+  /** The environment when the shell started, which environmentVars are the changes to */
+  private baselineEnvironment: Map<string, string> | null = null;
+  private ptyModes?: PtyOptions['modes'];
+  /** Renders the output of raw mode sessions into a screen */
+  private terminal: VirtualTerminal | null = null;
+  /** Lines of the screen returned by the previous getScreen call */
+  private lastScreen: string[] = [];
+  /** Commands queued in a background session, by job ID, oldest first */
+  private jobs = new Map<string, BackgroundJob>();
+  private jobCounter = 0;
+  /** Characters of output added to outputBuffer since the session started, including what was trimmed or cleared since */
+  private outputReceived = 0;
+  /** Whether runSetup is running; its output is not buffered, as the steps may export secrets */
+  private settingUp = false;
+  /** Whether observers are between a state delimiter line and the end of the state report */
+  private hidingState = false;
+  /** Whether the next output observers see starts a line */
+  private atLineStart = true;
+  /** Start of a line held back from observers until it is known whether it begins a state report */
+  private heldLine = '';
 
   private sessionTimeoutMs: number;
 
@@ -45,6 +116,7 @@ export class PersistentSession extends EventEmitter {
    * @param mode - The mode of the session
    * @param timeoutMs - The session timeout in milliseconds
    * @param shellType - The type of shell to use
+   * @param pty - The term type, size and modes of the pseudo-terminal the shell runs in
    * @throws {SSHError} If required parameters are missing or invalid
    */
   constructor(
@@ -56,7 +128,8 @@ export class PersistentSession extends EventEmitter {
     port: number = 22,
     mode: SessionMode = 'normal',
     timeoutMs: number = TIMEOUTS.DEFAULT_SESSION,
-    shellType: ShellType = 'bash'
+    shellType: ShellType = 'bash',
+    pty: PtyOptions = {}
   ) {
     super();
 
@@ -76,10 +149,15 @@ export class PersistentSession extends EventEmitter {
       throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: timeoutMs must be positive`);
     }
 
+    if (!isTerminalDimension(pty.rows ?? PTY.ROWS) || !isTerminalDimension(pty.cols ?? PTY.COLS)) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: rows and cols must be positive integers`);
+    }
+
     this.client = client;
     this.sessionTimeoutMs = timeoutMs;
     this.commandDelimiter = `___CMD_${Date.now()}_${Math.random().toString(36).substring(2, 11)}___`;
     this.shellFormatter = createShellFormatter(shellType);
+    this.ptyModes = pty.modes;
 
     this.sessionInfo = {
       sessionId,
@@ -93,8 +171,16 @@ export class PersistentSession extends EventEmitter {
       workingDirectory: '~',
       environmentVars: new Map(),
       isActive: false,
+      isHealthy: true,
+      term: pty.term ?? PTY.TERM,
+      rows: pty.rows ?? PTY.ROWS,
+      cols: pty.cols ?? PTY.COLS,
       commandHistory: []
     };
+
+    if (mode === 'raw') {
+      this.terminal = new VirtualTerminal(this.sessionInfo.rows, this.sessionInfo.cols);
+    }
   }
 
   /**
@@ -121,8 +207,15 @@ export class PersistentSession extends EventEmitter {
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
+    const window = {
+      term: this.sessionInfo.term,
+      rows: this.sessionInfo.rows,
+      cols: this.sessionInfo.cols,
+      ...(this.ptyModes ? { modes: this.ptyModes } : {}),
+    };
+
     return new Promise((resolve, reject) => {
-      this.client.shell((err, stream) => {
+      this.client.shell(window, (err, stream) => {
         if (err) {
           reject(new SSHError(`Failed to create shell: ${err.message}`, err));
           return;
@@ -154,6 +247,8 @@ export class PersistentSession extends EventEmitter {
         this.resetSessionTimeout();
 
         setTimeout(() => {
+          // Commands wait until the shell answers, reporting its starting state
+          this.startResync(false);
           resolve();
         }, 1000); // Shell startup delay
       });
@@ -163,19 +258,21 @@ export class PersistentSession extends EventEmitter {
   /**
    * Execute a command in the session
    * @param command - The command to execute
-   * @param timeout - The timeout for the command
+   * @param timeout - The timeout for the command (default: TIMEOUTS.DEFAULT_COMMAND). Normal mode
+   * background commands without one run until they exit; with one, they are interrupted when it passes
    * @param raw - Whether the command should be executed in raw mode
    * @returns A promise that resolves when the command completes
-   * @throws {SSHError} If the session is not initialized or inactive
+   * @throws {SSHError} If the session is not initialized, inactive or unhealthy
+   * @throws {CommandTimeoutError} If the command does not complete within the timeout
    * @throws {SSHError} If command parameter is invalid
    */
-  async executeCommand(command: string, timeout: number = TIMEOUTS.DEFAULT_COMMAND, raw?: boolean): Promise<CommandResult> {
+  async executeCommand(command: string, timeout?: number, raw?: boolean): Promise<CommandResult> {
     // Defensive parameter validation
     if (!command) {
       throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: command is required`);
     }
 
-    if (timeout <= 0) {
+    if (timeout !== undefined && timeout <= 0) {
       throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: timeout must be positive`);
     }
 
@@ -183,20 +280,33 @@ export class PersistentSession extends EventEmitter {
       throw new SSHError('Session not initialized or inactive');
     }
 
+    if (!this.sessionInfo.isHealthy) {
+      throw new SSHError(this.getUnhealthyMessage());
+    }
+
     if (this.commandFilter) {
       this.commandFilter(command);
     }
 
+    const isRaw = raw !== undefined ? raw : this.sessionInfo.mode === 'raw';
+
     // Background sessions should return immediately after queuing
     if (this.sessionInfo.type === 'background') {
       const commandId = `${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+      const job = this.addJob(command);
       const request: CommandRequest = {
         id: commandId,
         command,
-        resolve: () => {}, // No-op resolve for background
-        reject: () => {}, // No-op reject for background
-        timeout,
-        raw: raw !== undefined ? raw : this.sessionInfo.mode === 'raw'
+        // Nobody waits for a background command; its job records how it ended
+        // Raw mode commands resolve once their timeout passes, without an exit code
+        resolve: (result) => request.raw
+          ? this.finishJob(job, 'unknown', null)
+          : this.finishJob(job, result.code === 0 ? 'done' : 'failed', result.code),
+        reject: (error) => this.finishJob(job, 'failed', null, error.message),
+        // A raw mode command ends when its timeout passes, so it always has one
+        timeout: timeout ?? (isRaw ? TIMEOUTS.DEFAULT_COMMAND : undefined),
+        raw: isRaw,
+        jobId: job.jobId,
       };
 
       this.commandQueue.push(request);
@@ -210,10 +320,11 @@ export class PersistentSession extends EventEmitter {
 
       // Return immediately for background sessions
       return {
-        stdout: `Command '${command}' queued in background session '${this.sessionInfo.sessionId}'`,
+        stdout: `Command '${command}' queued in background session '${this.sessionInfo.sessionId}' as ${job.jobId}`,
         stderr: '',
         code: 0,
-        signal: null
+        signal: null,
+        jobId: job.jobId,
       };
     }
 
@@ -225,8 +336,8 @@ export class PersistentSession extends EventEmitter {
         command,
         resolve,
         reject,
-        timeout,
-        raw: raw !== undefined ? raw : this.sessionInfo.mode === 'raw'
+        timeout: timeout ?? TIMEOUTS.DEFAULT_COMMAND,
+        raw: isRaw
       };
 
       this.commandQueue.push(request);
@@ -240,16 +351,383 @@ export class PersistentSession extends EventEmitter {
     });
   }
 
+  /**
+   * List the command the shell is executing and the commands queued behind it
+   * @returns The commands in the order they run
+   */
+  listQueue(): QueuedCommand[] {
+    const requests = this.currentCommand ? [this.currentCommand, ...this.commandQueue] : this.commandQueue;
+    return requests.map((request, position) => ({
+      commandId: request.id,
+      command: request.redactedCommand ?? request.command,
+      state: request === this.currentCommand ? 'running' : 'queued',
+      position,
+      timeout: request.timeout,
+      raw: request.raw ?? false,
+      ...(request.jobId ? { jobId: request.jobId } : {}),
+    }));
+  }
+
+  /**
+   * Withdraw a queued command before it runs, or stop the command the shell is executing
+   * The command is rejected with a CommandCancelledError and audited. A running
+   * command is interrupted with Ctrl-C and the shell resynced before queued
+   * commands run, as when it times out.
+   * @param commandId - The command ID reported by listQueue
+   * @throws {SSHError} If the command is not queued or running in the session
+   */
+  cancelCommand(commandId: string): void {
+    if (commandId == null) {
+      throw new SSHError(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+    }
+
+    if (this.currentCommand?.id === commandId) {
+      const request = this.currentCommand;
+      this.currentCommand = null;
+      this.rejectCancelled(request);
+      this.startResync(true);
+      return;
+    }
+
+    const index = this.commandQueue.findIndex((request) => request.id === commandId);
+    if (index === -1) {
+      throw new SSHError(`${COMMAND_NOT_FOUND_ERROR}: ${commandId}`);
+    }
+
+    const [request] = this.commandQueue.splice(index, 1);
+    this.rejectCancelled(request);
+  }
+
+  /**
+   * Withdraw every queued command, leaving the running one to complete
+   * Each command is rejected with a CommandCancelledError and audited.
+   * @returns The IDs of the cancelled commands
+   */
+  flushQueue(): string[] {
+    const queued = this.commandQueue;
+    this.commandQueue = [];
+    for (const request of queued) {
+      this.rejectCancelled(request);
+    }
+    return queued.map((request) => request.id);
+  }
+
+  /**
+   * Type keystrokes into the shell and collect the output they produce
+   * Exactly the encoded bytes are written, without a newline. Output is collected
+   * until none has arrived for the settle time, or for at most TIMEOUTS.KEYS_MAX_WAIT,
+   * so a full-screen program has redrawn before it is returned. Each line typed is
+   * checked by the command filter.
+   * @param keys - The keystrokes in the notation of encodeKeys, e.g. "ihello<Esc>:wq<Enter>"
+   * @param settleMs - How long the output must be quiet before it is returned, in milliseconds
+   * @returns The output observed after the keystrokes were written
+   * @throws {SSHError} If the session is not in raw mode, not initialized or inactive, or the keys are invalid
+   */
+  async sendKeys(keys: string, settleMs: number = TIMEOUTS.KEYS_SETTLE): Promise<string> {
+    if (this.sessionInfo.mode !== 'raw') {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: keys can only be sent to raw mode sessions`);
+    }
+
+    if (settleMs <= 0) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: settleMs must be positive`);
+    }
+
+    const data = encodeKeys(keys);
+
+    if (!this.isInitialized || !this.shell || !this.sessionInfo.isActive) {
+      throw new SSHError('Session not initialized or inactive');
+    }
+
+    if (this.commandFilter) {
+      for (const line of typedLines(data)) {
+        this.commandFilter(line);
+      }
+    }
+
+    // Keystrokes may answer password or passphrase prompts, so only their length is recorded
+    this.auditLogger?.logEvent(AuditEvent.KEYS_SENT, {
+      sessionId: this.sessionInfo.sessionId,
+      target: `${this.sessionInfo.target}:${this.sessionInfo.port}`,
+      username: this.sessionInfo.username,
+      keysLength: data.length,
+    });
+
+    this.sessionInfo.lastActivity = new Date();
+    this.resetSessionTimeout();
+
+    return new Promise((resolve) => {
+      let output = '';
+      let settleTimer: NodeJS.Timeout;
+      const finish = () => {
+        clearTimeout(settleTimer);
+        clearTimeout(maxWaitTimer);
+        this.off('output', onOutput);
+        this.off('closed', finish);
+        resolve(output);
+      };
+      const onOutput = (chunk: string) => {
+        output += chunk;
+        clearTimeout(settleTimer);
+        settleTimer = setTimeout(finish, settleMs);
+      };
+      const maxWaitTimer = setTimeout(finish, Math.max(settleMs, TIMEOUTS.KEYS_MAX_WAIT));
+
+      this.on('output', onOutput);
+      this.once('closed', finish);
+      settleTimer = setTimeout(finish, settleMs);
+      this.shell!.write(data);
+    });
+  }
+
+  /**
+   * Wait until a pattern matches the session's output or screen
+   * Output is searched from the moment of the call, so a prompt that was printed
+   * before is only found on the screen of a raw mode session. The pattern is a
+   * JavaScript regular expression in multiline mode, so ^ and $ match at line breaks.
+   * @param pattern - The regular expression, e.g. "Continue\? \[y/N\]" or "port (\d+)"
+   * @param options - The timeout, what to search and case sensitivity
+   * @returns The match with its capture groups, offset and the lines around it
+   * @throws {SSHError} If the pattern is invalid, the screen is searched in a session not in raw mode,
+   * the session is not initialized or inactive, closes while waiting, or nothing matches within the timeout
+   */
+  async waitFor(pattern: string, options: WaitForOptions = {}): Promise<WaitForResult> {
+    if (pattern == null) {
+      throw new SSHError(NULL_OR_UNDEFINED_ARGUMENTS_ERROR);
+    }
+
+    if (pattern === '') {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: pattern is required`);
+    }
+
+    const timeout = options.timeout ?? TIMEOUTS.WAIT_FOR;
+    if (timeout <= 0) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: timeout must be positive`);
+    }
+
+    const source = options.source ?? (this.terminal ? 'screen' : 'output');
+    const terminal = this.terminal;
+    if (source === 'screen' && !terminal) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: screens are only kept for raw mode sessions`);
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, options.ignoreCase ? 'im' : 'm');
+    } catch (error) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: invalid pattern: ${(error as Error).message}`);
+    }
+
+    if (!this.isInitialized || !this.shell || !this.sessionInfo.isActive) {
+      throw new SSHError('Session not initialized or inactive');
+    }
+
+    return new Promise((resolve, reject) => {
+      let output = '';
+      let partial = '';
+      let dropped = 0;
+      const searchedText = () => (terminal && source === 'screen' ? terminal.snapshot().lines.join('\n') : output);
+
+      const search = () => {
+        const text = searchedText();
+        const match = regex.exec(text);
+        if (match) {
+          finish();
+          resolve({
+            match: match[0],
+            groups: match.slice(1).map((group) => group ?? null),
+            offset: (source === 'output' ? dropped : 0) + match.index,
+            context: matchContext(text, match.index, match[0].length),
+            source,
+          });
+        }
+      };
+      const onOutput = (chunk: string) => {
+        if (source === 'output') {
+          // Hold back an escape sequence split across chunks until the rest of it arrives
+          const data = partial + chunk;
+          const cut = PARTIAL_ESCAPE_SEQUENCE.exec(data);
+          partial = cut ? cut[0] : '';
+          output += plainText(cut ? data.substring(0, cut.index) : data);
+          if (output.length > WAIT_OUTPUT_LIMIT) {
+            dropped += output.length - WAIT_OUTPUT_LIMIT;
+            output = output.substring(output.length - WAIT_OUTPUT_LIMIT);
+          }
+        }
+        search();
+      };
+      const onClosed = () => {
+        finish();
+        reject(new SSHError('Session closed while waiting for pattern'));
+      };
+      const timer = setTimeout(() => {
+        finish();
+        const recent = searchedText().trimEnd().split('\n').slice(-(WAIT_CONTEXT_LINES * 2 + 1)).join('\n');
+        reject(new SSHError(
+          recent === ''
+            ? `${PATTERN_WAIT_TIMEOUT_ERROR}: /${pattern}/ after ${timeout}ms`
+            : `${PATTERN_WAIT_TIMEOUT_ERROR}: /${pattern}/ after ${timeout}ms; last ${source}:\n${recent}`
+        ));
+      }, timeout);
+      const finish = () => {
+        clearTimeout(timer);
+        this.off('output', onOutput);
+        this.off('closed', onClosed);
+      };
+
+      this.on('output', onOutput);
+      this.once('closed', onClosed);
+      if (source === 'screen') {
+        search();
+      }
+    });
+  }
+
+  /**
+   * Resize the terminal of the session
+   * The remote side is told of the new size, so full-screen programs redraw to fit it.
+   * @param rows - Terminal height in characters
+   * @param cols - Terminal width in characters
+   * @throws {SSHError} If rows or cols is not a positive integer, or the session is not initialized or inactive
+   */
+  resize(rows: number, cols: number): void {
+    if (!isTerminalDimension(rows) || !isTerminalDimension(cols)) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: rows and cols must be positive integers`);
+    }
+
+    if (!this.isInitialized || !this.shell || !this.sessionInfo.isActive) {
+      throw new SSHError('Session not initialized or inactive');
+    }
+
+    // The pixel size is informational and overridden by the character size
+    this.shell.setWindow(rows, cols, 0, 0);
+    this.terminal?.resize(rows, cols);
+    this.sessionInfo.rows = rows;
+    this.sessionInfo.cols = cols;
+    this.sessionInfo.lastActivity = new Date();
+  }
+
+  /**
+   * Get the screen of the session's terminal as rendered from the output so far
+   * Only raw mode sessions keep a screen; the output of other sessions is parsed
+   * into command results instead.
+   * @param diff - Also return the lines that changed since the previous call
+   * @returns The screen, and with diff the changed lines
+   * @throws {SSHError} If the session is not in raw mode
+   */
+  getScreen(diff: boolean = false): ScreenSnapshot & { changes?: ScreenChange[] } {
+    if (!this.terminal) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: screens are only kept for raw mode sessions`);
+    }
+
+    const snapshot = this.terminal.snapshot();
+    const changes = diff ? diffScreens(this.lastScreen, snapshot.lines) : undefined;
+    this.lastScreen = snapshot.lines;
+    return changes ? { ...snapshot, changes } : snapshot;
+  }
+
+  /**
+   * Prepare the shell before the session is handed out
+   * The working directory is changed to first, then the environment variables
+   * are exported and the init commands run, in order. Unlike executeCommand,
+   * every step is awaited, in background and raw mode sessions too, and the
+   * first one that fails stops the setup.
+   * @param cwd - The directory to change to
+   * @param env - The environment variables to export
+   * @param init - The commands to run
+   * @param timeout - The timeout for each step in milliseconds
+   * @throws {SSHError} If a step exits with a non-zero code or the session is not initialized, inactive or unhealthy
+   * @throws {CommandTimeoutError} If a step does not complete within the timeout
+   */
+  async runSetup(
+    cwd: string | undefined,
+    env: Record<string, string>,
+    init: string[],
+    timeout: number = TIMEOUTS.DEFAULT_COMMAND
+  ): Promise<void> {
+    // Secret values are kept out of the history, the audit log and errors
+    const steps: Pick<CommandRequest, 'command' | 'redactedCommand'>[] = [
+      ...(cwd ? [{ command: this.shellFormatter.formatChangeDirectoryCommand(cwd) }] : []),
+      ...Object.entries(env).map(([name, value]) => ({
+        command: this.shellFormatter.formatSetEnvironmentCommand(name, value),
+        redactedCommand: isSensitiveEnvironmentVar(name)
+          ? this.shellFormatter.formatSetEnvironmentCommand(name, '[REDACTED]')
+          : undefined,
+      })),
+      ...init.map(command => ({ command })),
+    ];
+
+    this.settingUp = true;
+    try {
+      await this.runSetupSteps(steps, timeout);
+    } finally {
+      this.settingUp = false;
+    }
+  }
+
+  /**
+   * Run setup steps one after the other, stopping at the first that fails
+   * @param steps - The commands to run, with the form to show in place of each
+   * @param timeout - The timeout for each step in milliseconds
+   * @throws {SSHError} If a step exits with a non-zero code or the session is not initialized, inactive or unhealthy
+   * @throws {CommandTimeoutError} If a step does not complete within the timeout
+   */
+  private async runSetupSteps(
+    steps: Pick<CommandRequest, 'command' | 'redactedCommand'>[],
+    timeout: number
+  ): Promise<void> {
+    for (const { command: step, redactedCommand } of steps) {
+      if (!this.isInitialized || !this.shell || !this.sessionInfo.isActive) {
+        throw new SSHError('Session not initialized or inactive');
+      }
+      if (!this.sessionInfo.isHealthy) {
+        throw new SSHError(this.getUnhealthyMessage());
+      }
+      if (this.commandFilter) {
+        this.commandFilter(step);
+      }
+
+      const result = await new Promise<CommandResult>((resolve, reject) => {
+        this.commandQueue.push({
+          id: `${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+          command: step,
+          redactedCommand,
+          resolve,
+          reject,
+          timeout,
+          raw: false,
+        });
+        this.sessionInfo.commandHistory.push(redactedCommand ?? step);
+        this.sessionInfo.lastActivity = new Date();
+
+        if (!this.currentCommand) {
+          this.processNextCommand();
+        }
+      });
+
+      if (result.code !== 0) {
+        const stderr = result.stderr ? `: ${result.stderr}` : '';
+        throw new SSHError(`${SESSION_SETUP_FAILED_ERROR}: \`${redactedCommand ?? step}\` exited with code ${result.code}${stderr}`);
+      }
+    }
+  }
+
   /**
    * Process the next command in the queue
    * @throws {SSHError} If the session is not initialized or inactive
    */
   private processNextCommand(): void {
-    if (this.commandQueue.length === 0 || !this.shell) return;
+    if (this.commandQueue.length === 0 || !this.shell || this.resyncMarker !== null) return;
 
     this.currentCommand = this.commandQueue.shift()!;
     this.outputData = '';
 
+    const job = this.currentCommand.jobId ? this.jobs.get(this.currentCommand.jobId) : undefined;
+    if (job) {
+      job.state = 'running';
+      job.startedAt = new Date();
+      job.outputStart = this.outputReceived;
+    }
+
     if (this.currentCommand.raw) {
       // Raw mode: send command directly without wrapping
       this.shell.write(this.currentCommand.command + '\n');
@@ -277,40 +755,296 @@ export class PersistentSession extends EventEmitter {
       // Normal mode: use delimiter wrapping
       const startDelimiter = `${this.commandDelimiter}_START_${this.currentCommand.id}`;
       const endDelimiter = `${this.commandDelimiter}_END_${this.currentCommand.id}`;
+      // stderr is collected in a file and printed when the command exits, so prompts written to it show only then
+      const stderrDelimiter = `${this.commandDelimiter}_ERR_${this.currentCommand.id}`;
+      const stateDelimiter = `${this.commandDelimiter}_STATE_${this.currentCommand.id}`;
 
       const wrappedCommand = this.shellFormatter.formatCommandWithDelimiters(
         this.currentCommand.command,
         startDelimiter,
-        endDelimiter
+        endDelimiter,
+        stderrDelimiter,
+        this.tracksState() ? stateDelimiter : undefined
       );
 
       this.shell.write(wrappedCommand + '\n');
 
+      // Background commands without a timeout run until they exit, however long that takes
       if (this.currentCommand.timeout) {
         const commandId = this.currentCommand.id;
         setTimeout(() => {
           if (this.currentCommand?.id === commandId) {
-            this.currentCommand!.reject(new SSHError(`Command timeout: ${this.currentCommand!.command}`));
-            this.currentCommand = null;
-            this.processNextCommand();
+            this.handleCommandTimeout(this.currentCommand);
           }
         }, this.currentCommand.timeout);
       }
     }
   }
 
+  /**
+   * Fail a command that did not complete in time and resync the shell
+   * The remote command is still running, so it is interrupted with Ctrl-C and
+   * the shell asked to print a fresh marker. Output up to the marker belongs
+   * to the timed-out command and is discarded; queued commands run once the
+   * marker arrives. If it never does, the session is marked unhealthy.
+   * @param request - The command that timed out
+   */
+  private handleCommandTimeout(request: CommandRequest): void {
+    const partialOutput = this.getPartialOutput(request.id);
+    this.currentCommand = null;
+
+    this.auditLogger?.logEvent(AuditEvent.ERROR_OCCURRED, {
+      sessionId: this.sessionInfo.sessionId,
+      target: `${this.sessionInfo.target}:${this.sessionInfo.port}`,
+      username: this.sessionInfo.username,
+      command: request.redactedCommand ?? request.command,
+      error: COMMAND_TIMEOUT_ERROR,
+      errorCode: 'COMMAND_TIMEOUT',
+      stdout: partialOutput,
+    });
+
+    request.reject(new CommandTimeoutError(request.redactedCommand ?? request.command, partialOutput));
+    this.startResync(true);
+  }
+
+  /**
+   * Hold back queued commands until the shell prints a fresh marker
+   * Interactive sessions have the shell print its state before the marker,
+   * so the session metadata catches up with whatever ran before. If the
+   * marker does not arrive in time, the session is marked unhealthy.
+   * @param interrupt - Whether to interrupt the foreground command with Ctrl-C first
+   */
+  private startResync(interrupt: boolean): void {
+    const marker = `${this.commandDelimiter}_SYNC_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    this.resyncMarker = marker;
+    this.outputData = '';
+
+    const probe = () => {
+      const stateCommand = this.tracksState() ? this.shellFormatter.formatStateCommand(`${marker}_STATE`) + '\n' : '';
+      this.shell?.write(stateCommand + this.shellFormatter.formatSyncCommand(marker) + '\n');
+      this.resyncTimer = setTimeout(() => this.failResync(), TIMEOUTS.RESYNC);
+    };
+
+    if (!interrupt) {
+      probe();
+      return;
+    }
+
+    this.shell?.write(INTERRUPT);
+    // Input typed before the interrupt is handled may be flushed with it
+    this.resyncTimer = setTimeout(probe, TIMEOUTS.INTERRUPT_DELAY);
+  }
+
+  /**
+   * Get the output a command printed so far
+   * @param commandId - The ID of the command
+   * @returns The output after the command's start delimiter, or an empty string if it has not started
+   */
+  private getPartialOutput(commandId: string): string {
+    // The terminal echoes the wrapped command line, so the printed delimiter is the last one
+    const startPattern = `${this.commandDelimiter}_START_${commandId}`;
+    const startIndex = this.outputData.lastIndexOf(startPattern);
+    if (startIndex === -1) {
+      return '';
+    }
+    return this.outputData.substring(startIndex + startPattern.length).trim();
+  }
+
+  /**
+   * Finish resyncing once the shell printed the marker on a line of its own
+   * The echo of the sync command line itself does not count.
+   */
+  private checkResync(): void {
+    if (this.resyncMarker === null) {
+      return;
+    }
+    const match = new RegExp(`(^|\n)${this.resyncMarker}\r?\n`).exec(this.outputData);
+    if (!match) {
+      return;
+    }
+
+    const statePattern = `${this.resyncMarker}_STATE`;
+    const stateIndex = this.outputData.lastIndexOf(statePattern, match.index);
+    if (stateIndex !== -1) {
+      this.applyShellState(this.outputData.substring(stateIndex + statePattern.length, match.index));
+    }
+
+    if (this.resyncTimer) {
+      clearTimeout(this.resyncTimer);
+      this.resyncTimer = null;
+    }
+    this.resyncMarker = null;
+    this.outputData = '';
+    this.processNextCommand();
+  }
+
+  /**
+   * Mark the session unhealthy after the shell did not resync, failing queued commands
+   */
+  private failResync(): void {
+    this.resyncTimer = null;
+    this.resyncMarker = null;
+    this.outputData = '';
+    this.sessionInfo.isHealthy = false;
+
+    this.auditLogger?.logEvent(AuditEvent.ERROR_OCCURRED, {
+      sessionId: this.sessionInfo.sessionId,
+      target: `${this.sessionInfo.target}:${this.sessionInfo.port}`,
+      username: this.sessionInfo.username,
+      error: this.getUnhealthyMessage(),
+      errorCode: 'SESSION_UNHEALTHY',
+    });
+
+    const queued = this.commandQueue;
+    this.commandQueue = [];
+    for (const request of queued) {
+      request.reject(new SSHError(this.getUnhealthyMessage()));
+    }
+
+    this.emit('unhealthy');
+  }
+
+  /**
+   * Reject a command taken off the queue and audit its cancellation
+   * @param request - The cancelled command
+   */
+  private rejectCancelled(request: CommandRequest): void {
+    this.auditLogger?.logEvent(AuditEvent.COMMAND_CANCELLED, {
+      sessionId: this.sessionInfo.sessionId,
+      target: `${this.sessionInfo.target}:${this.sessionInfo.port}`,
+      username: this.sessionInfo.username,
+      command: request.redactedCommand ?? request.command,
+      commandId: request.id,
+      ...(request.jobId ? { jobId: request.jobId } : {}),
+    });
+    request.reject(new CommandCancelledError(request.redactedCommand ?? request.command, request.id));
+  }
+
+  /**
+   * Describe why the session refuses commands
+   * @returns The error message
+   */
+  private getUnhealthyMessage(): string {
+    return `${SESSION_UNHEALTHY_ERROR}: the shell of ${this.sessionInfo.sessionId} stopped responding; close it and create a new session`;
+  }
+
+  /**
+   * Whether the shell reports its working directory and environment after each command
+   * Background sessions do not, as their output is buffered for callers to read, and
+   * neither do raw mode sessions, whose output is rendered on the screen.
+   * @returns True for interactive sessions in normal mode
+   */
+  private tracksState(): boolean {
+    return this.sessionInfo.type === 'interactive' && this.sessionInfo.mode !== 'raw';
+  }
+
+  /**
+   * Remove state reports from shell output before it reaches observers
+   * A report runs from a state delimiter line to the end delimiter or sync marker
+   * line after it, and holds the unredacted environment. A partial line that may
+   * start a delimiter is held back until the rest of it arrives.
+   * @param data - The output data
+   * @returns The output without state reports
+   */
+  private withoutStateReports(data: string): string {
+    if (!this.tracksState()) {
+      return data;
+    }
+
+    const reportStart = new RegExp(`^${this.commandDelimiter}_(?:STATE_.+|SYNC_.+_STATE)$`);
+    const reportEnd = new RegExp(`^${this.commandDelimiter}_(?:END_|SYNC_(?!.*_STATE$))`);
+    let visible = '';
+    for (const piece of data.split(/(?<=\n)/)) {
+      const complete = piece.endsWith('\n');
+      if (!this.hidingState && !this.atLineStart) {
+        visible += piece;
+        this.atLineStart = complete;
+        continue;
+      }
+
+      const line = this.heldLine + piece;
+      this.heldLine = '';
+      if (!complete) {
+        if (this.hidingState || this.commandDelimiter.startsWith(line) || line.startsWith(this.commandDelimiter)) {
+          this.heldLine = line;
+        } else {
+          visible += line;
+          this.atLineStart = false;
+        }
+        continue;
+      }
+
+      const content = line.replace(/\r?\n$/, '');
+      if (this.hidingState) {
+        if (reportEnd.test(content)) {
+          this.hidingState = false;
+          visible += line;
+        }
+      } else if (reportStart.test(content)) {
+        this.hidingState = true;
+      } else {
+        visible += line;
+      }
+    }
+    return visible;
+  }
+
+  /**
+   * Update the working directory and changed environment variables from a state report
+   * The first report is the baseline the environment changes are relative to.
+   * @param report - The shell's output after the state delimiter, as printed by ShellFormatter.formatStateCommand
+   */
+  private applyShellState(report: string): void {
+    const { workingDirectory, environment } = parseShellState(report);
+    if (workingDirectory) {
+      this.sessionInfo.workingDirectory = workingDirectory;
+    }
+    if (environment.size === 0) {
+      return;
+    }
+
+    if (this.baselineEnvironment === null) {
+      this.baselineEnvironment = environment;
+      return;
+    }
+
+    const changed = new Map<string, string>();
+    for (const [name, value] of environment) {
+      if (!VOLATILE_ENV_VARS.includes(name) && this.baselineEnvironment.get(name) !== value) {
+        changed.set(name, value);
+      }
+    }
+    this.sessionInfo.environmentVars = changed;
+  }
+
   /**
    * Handle the output from the shell
    * @param data - The output data
    */
   private handleShellOutput(data: string): void {
-    if (this.sessionInfo.type === 'background') {
+    // The shell echoes setup steps with the values of secret environment variables
+    if (!this.settingUp) {
+      const visible = this.withoutStateReports(data);
+      this.terminal?.write(visible);
+      if (visible !== '') {
+        this.emit('output', visible);
+      }
+    }
+
+    if (this.sessionInfo.type === 'background' && !this.settingUp) {
+      this.outputReceived += data.length;
       this.outputBuffer.push(data);
       if (this.outputBuffer.length > BUFFER_LIMITS.MAX_SIZE) {
         this.outputBuffer = this.outputBuffer.slice(-BUFFER_LIMITS.TRIM_TO);
       }
     }
 
+    if (this.resyncMarker !== null) {
+      this.outputData += data;
+      this.checkResync();
+      return;
+    }
+
     if (this.currentCommand) {
       this.outputData += data;
       this.parseCommandOutput();
@@ -335,25 +1069,30 @@ export class PersistentSession extends EventEmitter {
 
     if (exitCode !== null) {
       const startPattern = `${this.commandDelimiter}_START_${this.currentCommand.id}`;
-      const startIndex = this.outputData.indexOf(startPattern);
+      const stderrPattern = `${this.commandDelimiter}_ERR_${this.currentCommand.id}`;
+      const statePattern = `${this.commandDelimiter}_STATE_${this.currentCommand.id}`;
       const endPattern = `${endDelimiter}:${exitCode}`;
       const endIndex = this.outputData.indexOf(endPattern);
+      // The terminal echoes the wrapped command line, which contains every delimiter,
+      // so each delimiter the shell printed is the last one before the next
+      const stateIndex = endIndex === -1 ? -1 : this.outputData.lastIndexOf(statePattern, endIndex);
+      const stderrEnd = stateIndex === -1 ? endIndex : stateIndex;
+      const stderrIndex = endIndex === -1 ? -1 : this.outputData.lastIndexOf(stderrPattern, stderrEnd);
+      const stdoutEnd = stderrIndex === -1 ? stderrEnd : stderrIndex;
+      const startIndex = endIndex === -1 ? -1 : this.outputData.lastIndexOf(startPattern, stdoutEnd);
 
       if (startIndex !== -1 && endIndex !== -1) {
-        const output = this.outputData.substring(
-          startIndex + startPattern.length,
-          endIndex
-        ).trim();
-
-        const lines = output.split('\n');
-        if (lines[0] === '') lines.shift();
-        if (lines[lines.length - 1] === '') lines.pop();
-
-        const cleanOutput = lines.join('\n');
+        const cleanOutput = trimOutputLines(this.outputData.substring(startIndex + startPattern.length, stdoutEnd));
+        const stderr = stderrIndex === -1
+          ? ''
+          : trimOutputLines(this.outputData.substring(stderrIndex + stderrPattern.length, stderrEnd));
+        if (stateIndex !== -1) {
+          this.applyShellState(this.outputData.substring(stateIndex + statePattern.length, endIndex));
+        }
 
         const result = {
           stdout: cleanOutput,
-          stderr: '',
+          stderr,
           code: exitCode,
           signal: null
         };
@@ -363,10 +1102,10 @@ export class PersistentSession extends EventEmitter {
           sessionId: this.sessionInfo.sessionId,
           target: `${this.sessionInfo.target}:${this.sessionInfo.port}`,
           username: this.sessionInfo.username,
-          command: this.currentCommand.command,
+          command: this.currentCommand.redactedCommand ?? this.currentCommand.command,
           exitCode,
           stdout: cleanOutput,
-          stderr: '',
+          stderr,
         });
 
         this.currentCommand.resolve(result);
@@ -409,12 +1148,85 @@ export class PersistentSession extends EventEmitter {
     return result;
   }
 
+  /**
+   * Get a job of the background session
+   * @param jobId - The job ID returned when the command was queued
+   * @returns A copy of the job
+   * @throws {SSHError} If the job is not found
+   */
+  getJob(jobId: string): BackgroundJob {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new SSHError(`${JOB_NOT_FOUND_ERROR}: ${jobId}`);
+    }
+    return { ...job };
+  }
+
+  /**
+   * List the jobs of the background session, oldest first
+   * @returns Copies of the jobs
+   */
+  listJobs(): BackgroundJob[] {
+    return Array.from(this.jobs.values(), (job) => ({ ...job }));
+  }
+
+  /**
+   * Record a command queued in the background session
+   * Once more than BUFFER_LIMITS.MAX_JOBS jobs are kept, the oldest finished one is dropped.
+   * @param command - The command
+   * @returns The job
+   */
+  private addJob(command: string): BackgroundJob {
+    const job: BackgroundJob = {
+      jobId: `job-${++this.jobCounter}`,
+      sessionId: this.sessionInfo.sessionId,
+      command,
+      state: 'queued',
+      exitCode: null,
+      queuedAt: new Date(),
+    };
+    this.jobs.set(job.jobId, job);
+
+    if (this.jobs.size > BUFFER_LIMITS.MAX_JOBS) {
+      for (const [jobId, { state }] of this.jobs) {
+        if (state !== 'queued' && state !== 'running') {
+          this.jobs.delete(jobId);
+          break;
+        }
+      }
+    }
+    return job;
+  }
+
+  /**
+   * Record how a job ended
+   * @param job - The job
+   * @param state - done, failed or unknown
+   * @param exitCode - The exit code, null when unknown or the command did not complete
+   * @param error - Why the job failed without completing
+   */
+  private finishJob(job: BackgroundJob, state: JobState, exitCode: number | null, error?: string): void {
+    if (job.state !== 'queued' && job.state !== 'running') {
+      return;
+    }
+    job.state = state;
+    job.exitCode = exitCode;
+    job.endedAt = new Date();
+    if (job.outputStart !== undefined) {
+      job.outputEnd = this.outputReceived;
+    }
+    if (error !== undefined) {
+      job.error = error;
+    }
+  }
+
   /**
    * Start the keep-alive interval
    */
   private startKeepAlive(): void {
     this.keepAliveInterval = setInterval(() => {
-      if (this.shell && this.sessionInfo.isActive && this.commandQueue.length === 0 && !this.currentCommand) {
+      if (this.shell && this.sessionInfo.isActive && this.commandQueue.length === 0 && !this.currentCommand &&
+        this.resyncMarker === null) {
         this.shell.write(this.shellFormatter.getKeepAliveCommand());
       }
     }, TIMEOUTS.KEEP_ALIVE_INTERVAL);
@@ -458,8 +1270,101 @@ export class PersistentSession extends EventEmitter {
       this.sessionTimeout = null;
     }
 
+    if (this.resyncTimer) {
+      clearTimeout(this.resyncTimer);
+      this.resyncTimer = null;
+    }
+    this.resyncMarker = null;
+
     this.sessionInfo.isActive = false;
     this.currentCommand = null;
     this.commandQueue = [];
+
+    for (const job of this.jobs.values()) {
+      this.finishJob(job, 'failed', null, 'Session closed');
+    }
+  }
+}
+
+/**
+ * Get the lines typed by keystrokes, for the command filter
+ * Cursor and function key sequences and other control characters are dropped,
+ * e.g. "<C-u>ls -l<Enter>" types the line "ls -l".
+ * @param data - The bytes of the keystrokes
+ * @returns The non-empty lines
+ */
+function typedLines(data: string): string[] {
+  return data
+    .replace(/\x1b(\[[0-9;]*[~A-Za-z]|O[A-Z])?/g, '')
+    .split(/[\r\n]/)
+    .map((line) => line.replace(/[\x00-\x1f\x7f]/g, '').trim())
+    .filter((line) => line !== '');
+}
+
+/**
+ * Turn terminal output into plain text for waitFor
+ * Escape sequences, carriage returns and other control characters apart from
+ * newlines and tabs are removed.
+ * @param data - The output
+ * @returns The plain text
+ */
+function plainText(data: string): string {
+  return data.replace(ESCAPE_SEQUENCE, '').replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '');
+}
+
+/**
+ * Get the line a match is on with up to WAIT_CONTEXT_LINES lines either side
+ * @param text - The searched text
+ * @param index - Offset of the match
+ * @param length - Length of the match
+ * @returns The lines around the match
+ */
+function matchContext(text: string, index: number, length: number): string {
+  const before = text.substring(0, index).split('\n').slice(-(WAIT_CONTEXT_LINES + 1)).join('\n');
+  const after = text.substring(index + length).split('\n').slice(0, WAIT_CONTEXT_LINES + 1).join('\n');
+  return before + text.substring(index, index + length) + after;
+}
+
+/**
+ * Check a terminal height or width
+ * @param value - The number of rows or columns
+ * @returns True if it is a positive integer
+ */
+function isTerminalDimension(value: number): boolean {
+  return Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Trim the blank lines and whitespace around a command's output
+ * @param output - The output between two delimiters
+ * @returns The trimmed output
+ */
+function trimOutputLines(output: string): string {
+  const lines = output.trim().split('\n');
+  if (lines[0] === '') lines.shift();
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines.join('\n');
+}
+
+/**
+ * Parse a shell state report: the working directory on the first line, then NAME=value lines
+ * Lines that are not variable assignments, such as continuation lines of
+ * multi-line values, are skipped.
+ * @param report - The output after the state delimiter
+ * @returns The working directory, if reported, and the environment
+ */
+function parseShellState(report: string): { workingDirectory?: string; environment: Map<string, string> } {
+  const lines = report.split('\n').map((line) => line.replace(/\r$/, ''));
+  while (lines.length > 0 && lines[0].trim() === '') {
+    lines.shift();
+  }
+
+  const environment = new Map<string, string>();
+  for (const line of lines.slice(1)) {
+    const match = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/.exec(line);
+    if (match) {
+      environment.set(match[1], match[2]);
+    }
   }
+  return { workingDirectory: lines[0]?.trim() || undefined, environment };
 }
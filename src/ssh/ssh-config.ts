@@ -0,0 +1,470 @@
+import { readFile, readdir } from 'fs/promises';
+import { homedir, userInfo } from 'os';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { SSHError } from './errors.js';
+import { expandTilde } from '../utils.js';
+import { INVALID_ARGUMENTS_ERROR, UNKNOWN_ERROR } from '../constants.js';
+
+/**
+ * Maximum Include nesting, as in OpenSSH
+ */
+const MAX_INCLUDE_DEPTH = 16;
+
+/**
+ * Keywords whose first value wins
+ */
+const SINGLE_VALUE_KEYWORDS = new Set(['hostname', 'user', 'port', 'proxyjump', 'proxycommand']);
+
+/**
+ * Keywords whose values accumulate
+ */
+const MULTI_VALUE_KEYWORDS = new Set(['identityfile', 'certificatefile']);
+
+/**
+ * One criterion of a Match line, e.g. host or !originalhost
+ */
+interface MatchCriterion {
+  name: string;
+  negated: boolean;
+  patterns: string[];
+}
+
+/**
+ * A Host or Match line that must apply for a setting to be used
+ */
+type SSHConfigCondition =
+  | { type: 'host'; patterns: string[] }
+  | { type: 'match'; criteria: MatchCriterion[] };
+
+/**
+ * A setting from an OpenSSH client configuration file
+ */
+interface SSHConfigEntry {
+  keyword: string;
+  value: string;
+  /** Host and Match lines enclosing the setting, including those of including files */
+  conditions: SSHConfigCondition[];
+}
+
+/**
+ * A parsed OpenSSH client configuration, with Include directives expanded
+ */
+export interface SSHConfig {
+  path: string;
+  entries: SSHConfigEntry[];
+}
+
+/**
+ * Connection settings for a host resolved from an OpenSSH client configuration
+ */
+export interface SSHHostConfig {
+  /** The alias that was looked up */
+  alias: string;
+  /** The host to connect to: HostName, or the alias when HostName is not set */
+  hostName: string;
+  user?: string;
+  port?: number;
+  /** IdentityFile paths in order, with tokens and ~ expanded */
+  identityFiles: string[];
+  /** CertificateFile paths in order, with tokens and ~ expanded */
+  certificateFiles: string[];
+  /** ProxyJump specification; ProxyJump none is reported as undefined */
+  proxyJump?: string;
+  /** ProxyCommand; ProxyCommand none is reported as undefined */
+  proxyCommand?: string;
+}
+
+/**
+ * Load an OpenSSH client configuration file
+ * A missing file is treated as an empty configuration.
+ * @param configPath - The configuration file, e.g. ~/.ssh/config
+ * @returns The parsed configuration
+ * @throws {SSHError} If the file or an included file cannot be read or is invalid
+ */
+export async function loadSSHConfig(configPath: string): Promise<SSHConfig> {
+  const path = expandTilde(configPath);
+  const entries: SSHConfigEntry[] = [];
+  await readConfigFile(path, dirname(path), [], entries, 0);
+  return { path, entries };
+}
+
+/**
+ * Parse OpenSSH client configuration text
+ * Include directives are resolved relative to baseDir.
+ * @param content - The configuration text
+ * @param baseDir - The directory relative Include paths are resolved against (default: ~/.ssh)
+ * @returns The parsed configuration
+ * @throws {SSHError} If the configuration or an included file is invalid
+ */
+export async function parseSSHConfig(
+  content: string,
+  baseDir: string = join(homedir(), '.ssh')
+): Promise<SSHConfig> {
+  const entries: SSHConfigEntry[] = [];
+  await parseConfigText(content, '<config>', baseDir, [], entries, 0);
+  return { path: '<config>', entries };
+}
+
+/**
+ * Resolve the settings for a host the way OpenSSH does
+ *
+ * Host and Match blocks are applied in file order and the first value found
+ * for each keyword wins, except IdentityFile and CertificateFile which
+ * accumulate. Match supports host, originalhost, user, localuser and all;
+ * other criteria such as exec never match.
+ *
+ * @param config - The parsed configuration
+ * @param alias - The host name or alias to resolve
+ * @param overrides - Values given explicitly, which take precedence over the configuration
+ * @returns The resolved host settings
+ * @throws {SSHError} If the configuration has an invalid Port for the host
+ */
+export function resolveSSHHost(
+  config: SSHConfig,
+  alias: string,
+  overrides: { user?: string; port?: number } = {}
+): SSHHostConfig {
+  const values = new Map<string, string>();
+  const identityFiles: string[] = [];
+  const certificateFiles: string[] = [];
+
+  for (const entry of config.entries) {
+    const context = {
+      alias,
+      hostName: expandHostName(values.get('hostname') ?? alias, alias),
+      user: overrides.user ?? values.get('user'),
+    };
+    if (!entry.conditions.every((condition) => conditionMatches(condition, context))) {
+      continue;
+    }
+
+    if (SINGLE_VALUE_KEYWORDS.has(entry.keyword)) {
+      // ProxyJump and ProxyCommand are alternatives, the first one found wins
+      const isProxy = entry.keyword === 'proxyjump' || entry.keyword === 'proxycommand';
+      if (isProxy && (values.has('proxyjump') || values.has('proxycommand'))) {
+        continue;
+      }
+      if (!values.has(entry.keyword)) {
+        values.set(entry.keyword, entry.value);
+      }
+    } else if (entry.keyword === 'identityfile') {
+      identityFiles.push(entry.value);
+    } else if (entry.keyword === 'certificatefile') {
+      certificateFiles.push(entry.value);
+    }
+  }
+
+  const hostName = expandHostName(values.get('hostname') ?? alias, alias);
+  const user = overrides.user ?? values.get('user');
+
+  let port = overrides.port;
+  const configuredPort = values.get('port');
+  if (port === undefined && configuredPort !== undefined) {
+    port = Number(configuredPort);
+    if (!/^\d+$/.test(configuredPort) || port <= 0 || port > 65535) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: invalid Port "${configuredPort}" for ${alias} in ${config.path}`);
+    }
+  }
+
+  const tokens = { alias, hostName, user, port: port ?? 22 };
+  const proxyJump = values.get('proxyjump');
+  const proxyCommand = values.get('proxycommand');
+
+  return {
+    alias,
+    hostName,
+    user,
+    port,
+    identityFiles: identityFiles.map((file) => expandPath(file, tokens)),
+    certificateFiles: certificateFiles.map((file) => expandPath(file, tokens)),
+    proxyJump: proxyJump !== undefined && proxyJump.toLowerCase() !== 'none' ? proxyJump : undefined,
+    proxyCommand: proxyCommand !== undefined && proxyCommand.toLowerCase() !== 'none' ? proxyCommand : undefined,
+  };
+}
+
+/**
+ * Read a configuration file and append its settings
+ * Missing files are ignored, as OpenSSH does for Include.
+ * @param path - The file to read
+ * @param baseDir - The directory relative Include paths are resolved against
+ * @param conditions - Host and Match lines enclosing the Include of this file
+ * @param entries - The settings read so far
+ * @param depth - The Include nesting depth
+ */
+async function readConfigFile(
+  path: string,
+  baseDir: string,
+  conditions: SSHConfigCondition[],
+  entries: SSHConfigEntry[],
+  depth: number
+): Promise<void> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return;
+    }
+    throw new SSHError(
+      `Failed to read SSH config ${path}: ${error instanceof Error ? error.message : UNKNOWN_ERROR}`
+    );
+  }
+  await parseConfigText(content, path, baseDir, conditions, entries, depth);
+}
+
+/**
+ * Parse configuration text and append its settings
+ * @param content - The configuration text
+ * @param source - The file name used in error messages
+ * @param baseDir - The directory relative Include paths are resolved against
+ * @param outerConditions - Host and Match lines enclosing the Include of this text
+ * @param entries - The settings read so far
+ * @param depth - The Include nesting depth
+ */
+async function parseConfigText(
+  content: string,
+  source: string,
+  baseDir: string,
+  outerConditions: SSHConfigCondition[],
+  entries: SSHConfigEntry[],
+  depth: number
+): Promise<void> {
+  let block: SSHConfigCondition | undefined;
+  const lines = content.split(/\r?\n/);
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const match = /^([A-Za-z][A-Za-z0-9]*)(?:\s*=\s*|\s+)(.*)$/.exec(line);
+    if (!match) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: invalid line in ${source} line ${index + 1}: ${line}`);
+    }
+    const keyword = match[1].toLowerCase();
+    const args = splitArguments(match[2]);
+    const conditions = block ? [...outerConditions, block] : outerConditions;
+
+    switch (keyword) {
+      case 'host':
+        block = { type: 'host', patterns: args };
+        break;
+      case 'match':
+        block = { type: 'match', criteria: parseMatchCriteria(args, source, index + 1) };
+        break;
+      case 'include':
+        if (depth >= MAX_INCLUDE_DEPTH) {
+          throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: SSH config Include nested too deeply in ${source}`);
+        }
+        for (const pattern of args) {
+          const expanded = expandTilde(pattern);
+          const files = await expandGlob(isAbsolute(expanded) ? expanded : resolve(baseDir, expanded));
+          for (const file of files) {
+            await readConfigFile(file, baseDir, conditions, entries, depth + 1);
+          }
+        }
+        break;
+      default:
+        if (SINGLE_VALUE_KEYWORDS.has(keyword) || MULTI_VALUE_KEYWORDS.has(keyword)) {
+          // ProxyCommand is a command line, keep it as written
+          const value = keyword === 'proxycommand' ? match[2].trim() : args[0];
+          if (value !== undefined) {
+            entries.push({ keyword, value, conditions });
+          }
+        }
+    }
+  }
+}
+
+/**
+ * Parse the criteria of a Match line
+ * @param args - The arguments after Match
+ * @param source - The file name used in error messages
+ * @param line - The line number used in error messages
+ * @returns The criteria
+ * @throws {SSHError} If a criterion is missing its patterns
+ */
+function parseMatchCriteria(args: string[], source: string, line: number): MatchCriterion[] {
+  const criteria: MatchCriterion[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const negated = args[i].startsWith('!');
+    const name = (negated ? args[i].slice(1) : args[i]).toLowerCase();
+    if (name === 'all' || name === 'canonical' || name === 'final') {
+      criteria.push({ name, negated, patterns: [] });
+      continue;
+    }
+    const patterns = args[++i];
+    if (patterns === undefined) {
+      throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: Match ${name} requires an argument in ${source} line ${line}`);
+    }
+    criteria.push({ name, negated, patterns: patterns.split(',') });
+  }
+  return criteria;
+}
+
+/**
+ * Check whether a Host or Match line applies to a connection
+ * @param condition - The Host or Match line
+ * @param context - The alias, the host name resolved so far and the user
+ * @returns true if the settings under the line apply
+ */
+function conditionMatches(
+  condition: SSHConfigCondition,
+  context: { alias: string; hostName: string; user?: string }
+): boolean {
+  if (condition.type === 'host') {
+    return matchesPatternList(context.alias, condition.patterns, true);
+  }
+
+  return condition.criteria.every((criterion) => {
+    let matched: boolean;
+    switch (criterion.name) {
+      case 'all':
+        matched = true;
+        break;
+      case 'host':
+        matched = matchesPatternList(context.hostName, criterion.patterns, true);
+        break;
+      case 'originalhost':
+        matched = matchesPatternList(context.alias, criterion.patterns, true);
+        break;
+      case 'user':
+        matched = context.user !== undefined && matchesPatternList(context.user, criterion.patterns, false);
+        break;
+      case 'localuser':
+        matched = matchesPatternList(userInfo().username, criterion.patterns, false);
+        break;
+      default:
+        // exec, canonical, final, localnetwork and tagged are not supported and never match
+        return false;
+    }
+    return criterion.negated ? !matched : matched;
+  });
+}
+
+/**
+ * Match a value against OpenSSH patterns
+ * Any matching negated pattern (!pattern) rejects the value, otherwise one
+ * positive pattern must match.
+ * @param value - The value to match
+ * @param patterns - The patterns, which may use * and ? wildcards
+ * @param ignoreCase - Whether to compare case-insensitively, as for host names
+ * @returns true if the value matches
+ */
+function matchesPatternList(value: string, patterns: string[], ignoreCase: boolean): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!');
+    if (wildcardToRegExp(negated ? pattern.slice(1) : pattern, ignoreCase).test(value)) {
+      if (negated) {
+        return false;
+      }
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Convert a * and ? wildcard pattern to a regular expression
+ * @param pattern - The wildcard pattern
+ * @param ignoreCase - Whether the expression ignores case
+ * @returns The regular expression matching the whole value
+ */
+function wildcardToRegExp(pattern: string, ignoreCase: boolean): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, ignoreCase ? 'i' : '');
+}
+
+/**
+ * Split configuration arguments on whitespace, honouring double quotes
+ * @param text - The text after the keyword
+ * @returns The arguments
+ */
+function splitArguments(text: string): string[] {
+  const args: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    args.push(match[1] ?? match[2]);
+  }
+  return args;
+}
+
+/**
+ * Expand the tokens allowed in HostName: %h is the alias and %% a literal %
+ * @param hostName - The configured HostName
+ * @param alias - The alias being resolved
+ * @returns The host name
+ */
+function expandHostName(hostName: string, alias: string): string {
+  return hostName.replace(/%([h%])/g, (_token, name: string) => (name === 'h' ? alias : '%'));
+}
+
+/**
+ * Expand ~ and the tokens allowed in IdentityFile and CertificateFile
+ * %d is the home directory, %u the local user, %h the host name, %n the alias,
+ * %r the remote user, %p the port and %% a literal %.
+ * @param path - The configured path
+ * @param tokens - The values of the connection being resolved
+ * @returns The expanded path
+ */
+function expandPath(
+  path: string,
+  tokens: { alias: string; hostName: string; user?: string; port: number }
+): string {
+  const values: Record<string, string> = {
+    d: homedir(),
+    u: userInfo().username,
+    h: tokens.hostName,
+    n: tokens.alias,
+    r: tokens.user ?? userInfo().username,
+    p: String(tokens.port),
+    '%': '%',
+  };
+  return expandTilde(path.replace(/%([duhnrp%])/g, (_token, name: string) => values[name]));
+}
+
+/**
+ * Expand * and ? wildcards in a path, as Include does
+ * @param pattern - The absolute path pattern
+ * @returns The matching paths in sorted order; the path itself when it has no wildcards
+ */
+async function expandGlob(pattern: string): Promise<string[]> {
+  if (!/[*?]/.test(pattern)) {
+    return [pattern];
+  }
+
+  const segments = pattern.split('/');
+  let paths = [segments[0] === '' ? '/' : segments[0]];
+  for (const segment of segments.slice(1)) {
+    if (segment === '') {
+      continue;
+    }
+    if (!/[*?]/.test(segment)) {
+      paths = paths.map((path) => join(path, segment));
+      continue;
+    }
+    const matcher = wildcardToRegExp(segment, false);
+    const next: string[] = [];
+    for (const path of paths) {
+      let names: string[];
+      try {
+        names = await readdir(path);
+      } catch {
+        continue;
+      }
+      for (const name of names.sort()) {
+        if (matcher.test(name) && (!name.startsWith('.') || segment.startsWith('.'))) {
+          next.push(join(path, name));
+        }
+      }
+    }
+    paths = next;
+  }
+  return paths;
+}
@@ -0,0 +1,701 @@
+import { SSHError } from './errors.js';
+import { INVALID_ARGUMENTS_ERROR } from '../constants.js';
+
+/**
+ * The rendered screen of a VirtualTerminal
+ */
+export interface ScreenSnapshot {
+  /** The visible lines, top to bottom, without trailing spaces */
+  lines: string[];
+  rows: number;
+  cols: number;
+  /** Zero-based cursor position */
+  cursor: { row: number; col: number };
+  /** Whether the cursor is shown */
+  cursorVisible: boolean;
+  /** Whether a full-screen program switched to the alternate screen */
+  alternateScreen: boolean;
+}
+
+/**
+ * A line that differs between two snapshots
+ */
+export interface ScreenChange {
+  /** Zero-based row of the line */
+  row: number;
+  /** The line's new text */
+  line: string;
+}
+
+type ParserState = 'ground' | 'escape' | 'escapeIntermediate' | 'csi' | 'string' | 'stringEscape';
+
+interface CursorState {
+  row: number;
+  col: number;
+  lineDrawing: boolean;
+}
+
+const TAB_WIDTH = 8;
+
+/**
+ * DEC special graphics, selected with ESC ( 0, drawn with the Unicode box drawing characters
+ */
+const LINE_DRAWING: Record<string, string> = {
+  '`': '◆', a: '▒', f: '°', g: '±', j: '┘', k: '┐', l: '┌', m: '└', n: '┼', o: '⎺', p: '⎻',
+  q: '─', r: '⎼', s: '⎽', t: '├', u: '┤', v: '┴', w: '┬', x: '│', y: '≤', z: '≥', '{': 'π',
+  '|': '≠', '}': '£', '~': '·',
+};
+
+/**
+ * A headless VT100/xterm terminal that renders a stream of output into a screen of text
+ *
+ * Printing, cursor movement, erasing, inserting and deleting characters and lines,
+ * scroll regions, saved cursors, the alternate screen and DEC line drawing are
+ * emulated. Colours and other attributes, and requests for replies such as cursor
+ * position reports, are ignored. Escape sequences split across writes are handled.
+ */
+export class VirtualTerminal {
+  private rows: number;
+  private cols: number;
+  private main: string[][];
+  private alternate: string[][] | null = null;
+  private row = 0;
+  private col = 0;
+  /** Set after printing in the last column; the next character wraps to a new line */
+  private pendingWrap = false;
+  private autoWrap = true;
+  private cursorVisible = true;
+  private lineDrawing = false;
+  private scrollTop = 0;
+  private scrollBottom: number;
+  private savedCursor: CursorState | null = null;
+  /** Cursor saved when switching to the alternate screen with mode 1049 */
+  private alternateSavedCursor: CursorState | null = null;
+  private state: ParserState = 'ground';
+  private sequence = '';
+
+  /**
+   * Create a blank terminal
+   * @param rows - Height in characters
+   * @param cols - Width in characters
+   * @throws {SSHError} If rows or cols is not a positive integer
+   */
+  constructor(rows: number, cols: number) {
+    checkDimensions(rows, cols);
+    this.rows = rows;
+    this.cols = cols;
+    this.scrollBottom = rows - 1;
+    this.main = blankScreen(rows, cols);
+  }
+
+  /**
+   * Render output the remote side wrote to the terminal
+   * @param data - The output
+   */
+  write(data: string): void {
+    for (const char of data) {
+      this.consume(char);
+    }
+  }
+
+  /**
+   * Change the size of the terminal
+   * Content is kept from the top left; the cursor is moved inside the new size.
+   * @param rows - Height in characters
+   * @param cols - Width in characters
+   * @throws {SSHError} If rows or cols is not a positive integer
+   */
+  resize(rows: number, cols: number): void {
+    checkDimensions(rows, cols);
+    this.main = resizeScreen(this.main, rows, cols);
+    if (this.alternate) {
+      this.alternate = resizeScreen(this.alternate, rows, cols);
+    }
+    this.rows = rows;
+    this.cols = cols;
+    this.scrollTop = 0;
+    this.scrollBottom = rows - 1;
+    this.row = Math.min(this.row, rows - 1);
+    this.col = Math.min(this.col, cols - 1);
+    this.pendingWrap = false;
+  }
+
+  /**
+   * Get the rendered screen
+   * @returns The snapshot
+   */
+  snapshot(): ScreenSnapshot {
+    return {
+      lines: this.screen().map((line) => line.join('').trimEnd()),
+      rows: this.rows,
+      cols: this.cols,
+      cursor: { row: this.row, col: this.col },
+      cursorVisible: this.cursorVisible,
+      alternateScreen: this.alternate !== null,
+    };
+  }
+
+  /**
+   * Get the buffer currently shown
+   * @returns The rows of characters
+   */
+  private screen(): string[][] {
+    return this.alternate ?? this.main;
+  }
+
+  /**
+   * Feed one character to the parser
+   * @param char - The character
+   */
+  private consume(char: string): void {
+    switch (this.state) {
+      case 'ground':
+        this.consumeGround(char);
+        break;
+      case 'escape':
+        this.consumeEscape(char);
+        break;
+      case 'escapeIntermediate':
+        // The final character of e.g. ESC ( 0 or ESC # 8
+        if (this.sequence === '(') {
+          this.lineDrawing = char === '0';
+        }
+        this.state = 'ground';
+        break;
+      case 'csi':
+        if (char >= '@' && char <= '~') {
+          this.executeCsi(this.sequence, char);
+          this.state = 'ground';
+        } else if (char === '\x1b') {
+          this.state = 'escape';
+        } else {
+          this.sequence += char;
+        }
+        break;
+      case 'string':
+        // OSC, DCS and similar strings end with BEL or ST (ESC \)
+        if (char === '\x07') {
+          this.state = 'ground';
+        } else if (char === '\x1b') {
+          this.state = 'stringEscape';
+        }
+        break;
+      case 'stringEscape':
+        this.state = char === '\\' ? 'ground' : 'string';
+        break;
+    }
+  }
+
+  /**
+   * Handle a character outside escape sequences
+   * @param char - The character
+   */
+  private consumeGround(char: string): void {
+    switch (char) {
+      case '\x1b':
+        this.state = 'escape';
+        return;
+      case '\r':
+        this.col = 0;
+        this.pendingWrap = false;
+        return;
+      case '\n':
+      case '\v':
+      case '\f':
+        this.lineFeed();
+        return;
+      case '\b':
+        this.col = Math.max(0, this.col - 1);
+        this.pendingWrap = false;
+        return;
+      case '\t':
+        this.col = Math.min(this.cols - 1, (Math.floor(this.col / TAB_WIDTH) + 1) * TAB_WIDTH);
+        this.pendingWrap = false;
+        return;
+      case '\x0e':
+        this.lineDrawing = true;
+        return;
+      case '\x0f':
+        this.lineDrawing = false;
+        return;
+    }
+
+    if (char < ' ' || char === '\x7f') {
+      return;
+    }
+    this.print(this.lineDrawing ? LINE_DRAWING[char] ?? char : char);
+  }
+
+  /**
+   * Handle the character after ESC
+   * @param char - The character
+   */
+  private consumeEscape(char: string): void {
+    this.state = 'ground';
+    switch (char) {
+      case '[':
+        this.sequence = '';
+        this.state = 'csi';
+        break;
+      case ']':
+      case 'P':
+      case 'X':
+      case '^':
+      case '_':
+        this.state = 'string';
+        break;
+      case '(':
+      case ')':
+      case '*':
+      case '+':
+      case '#':
+      case '%':
+        this.sequence = char;
+        this.state = 'escapeIntermediate';
+        break;
+      case '7':
+        this.savedCursor = this.saveCursor();
+        break;
+      case '8':
+        this.restoreCursor(this.savedCursor);
+        break;
+      case 'D':
+        this.lineFeed();
+        break;
+      case 'E':
+        this.col = 0;
+        this.lineFeed();
+        break;
+      case 'M':
+        this.reverseIndex();
+        break;
+      case 'c':
+        this.reset();
+        break;
+    }
+  }
+
+  /**
+   * Execute a control sequence
+   * @param sequence - The parameters and intermediates between CSI and the final character
+   * @param final - The final character
+   */
+  private executeCsi(sequence: string, final: string): void {
+    const isPrivate = sequence.startsWith('?');
+    const params = sequence.replace(/^[?<=>]/, '').replace(/[ -/]+$/, '').split(';').map((param) => parseInt(param, 10));
+    // Missing and zero parameters mean the default of 1 for counts and positions
+    const count = (index = 0) => Math.max(1, params[index] || 1);
+    this.pendingWrap = false;
+
+    switch (final) {
+      case 'A':
+        this.row = Math.max(this.row < this.scrollTop ? 0 : this.scrollTop, this.row - count());
+        break;
+      case 'B':
+        this.row = Math.min(this.row > this.scrollBottom ? this.rows - 1 : this.scrollBottom, this.row + count());
+        break;
+      case 'C':
+      case 'a':
+        this.col = Math.min(this.cols - 1, this.col + count());
+        break;
+      case 'D':
+        this.col = Math.max(0, this.col - count());
+        break;
+      case 'E':
+        this.row = Math.min(this.rows - 1, this.row + count());
+        this.col = 0;
+        break;
+      case 'F':
+        this.row = Math.max(0, this.row - count());
+        this.col = 0;
+        break;
+      case 'G':
+      case '`':
+        this.col = Math.min(this.cols - 1, count() - 1);
+        break;
+      case 'H':
+      case 'f':
+        this.row = Math.min(this.rows - 1, count(0) - 1);
+        this.col = Math.min(this.cols - 1, count(1) - 1);
+        break;
+      case 'd':
+        this.row = Math.min(this.rows - 1, count() - 1);
+        break;
+      case 'e':
+        this.row = Math.min(this.rows - 1, this.row + count());
+        break;
+      case 'J':
+        this.eraseInDisplay(params[0] || 0);
+        break;
+      case 'K':
+        this.eraseInLine(params[0] || 0);
+        break;
+      case '@':
+        this.insertCharacters(count());
+        break;
+      case 'P':
+        this.deleteCharacters(count());
+        break;
+      case 'X':
+        this.fill(this.row, this.col, Math.min(this.cols, this.col + count()));
+        break;
+      case 'L':
+        this.insertLines(count());
+        break;
+      case 'M':
+        this.deleteLines(count());
+        break;
+      case 'S':
+        this.scrollUp(count());
+        break;
+      case 'T':
+        this.scrollDown(count());
+        break;
+      case 'r':
+        if (!isPrivate) {
+          this.setScrollRegion(params[0] || 1, params[1] || this.rows);
+        }
+        break;
+      case 's':
+        if (!isPrivate) {
+          this.savedCursor = this.saveCursor();
+        }
+        break;
+      case 'u':
+        this.restoreCursor(this.savedCursor);
+        break;
+      case 'h':
+      case 'l':
+        if (isPrivate) {
+          for (const mode of params) {
+            this.setPrivateMode(mode, final === 'h');
+          }
+        }
+        break;
+    }
+  }
+
+  /**
+   * Set or reset a DEC private mode
+   * @param mode - The mode number
+   * @param enabled - True to set the mode, false to reset it
+   */
+  private setPrivateMode(mode: number, enabled: boolean): void {
+    switch (mode) {
+      case 7:
+        this.autoWrap = enabled;
+        break;
+      case 25:
+        this.cursorVisible = enabled;
+        break;
+      case 47:
+      case 1047:
+        this.switchScreen(enabled);
+        break;
+      case 1049:
+        if (enabled) {
+          this.alternateSavedCursor = this.saveCursor();
+          this.switchScreen(true);
+        } else {
+          this.switchScreen(false);
+          this.restoreCursor(this.alternateSavedCursor);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Switch between the main screen and a cleared alternate screen
+   * @param alternate - True for the alternate screen
+   */
+  private switchScreen(alternate: boolean): void {
+    if (alternate && !this.alternate) {
+      this.alternate = blankScreen(this.rows, this.cols);
+    } else if (!alternate) {
+      this.alternate = null;
+    }
+  }
+
+  /**
+   * Print a character at the cursor and advance it, wrapping at the right margin
+   * @param char - The character
+   */
+  private print(char: string): void {
+    if (this.pendingWrap) {
+      this.col = 0;
+      this.lineFeed();
+    }
+    this.screen()[this.row][this.col] = char;
+    if (this.col === this.cols - 1) {
+      this.pendingWrap = this.autoWrap;
+    } else {
+      this.col++;
+    }
+  }
+
+  /**
+   * Move the cursor down a line, scrolling the scroll region at its bottom margin
+   */
+  private lineFeed(): void {
+    this.pendingWrap = false;
+    if (this.row === this.scrollBottom) {
+      this.scrollUp(1);
+    } else if (this.row < this.rows - 1) {
+      this.row++;
+    }
+  }
+
+  /**
+   * Move the cursor up a line, scrolling the scroll region down at its top margin
+   */
+  private reverseIndex(): void {
+    this.pendingWrap = false;
+    if (this.row === this.scrollTop) {
+      this.scrollDown(1);
+    } else if (this.row > 0) {
+      this.row--;
+    }
+  }
+
+  /**
+   * Scroll the lines of the scroll region up, adding blank lines at the bottom
+   * @param lines - Number of lines
+   */
+  private scrollUp(lines: number): void {
+    this.spliceLines(this.scrollTop, this.scrollBottom, lines, false);
+  }
+
+  /**
+   * Scroll the lines of the scroll region down, adding blank lines at the top
+   * @param lines - Number of lines
+   */
+  private scrollDown(lines: number): void {
+    this.spliceLines(this.scrollTop, this.scrollBottom, lines, true);
+  }
+
+  /**
+   * Insert blank lines at the cursor, pushing the lines below it down within the scroll region
+   * @param lines - Number of lines
+   */
+  private insertLines(lines: number): void {
+    if (this.row >= this.scrollTop && this.row <= this.scrollBottom) {
+      this.spliceLines(this.row, this.scrollBottom, lines, true);
+      this.col = 0;
+    }
+  }
+
+  /**
+   * Delete lines at the cursor, pulling the lines below it up within the scroll region
+   * @param lines - Number of lines
+   */
+  private deleteLines(lines: number): void {
+    if (this.row >= this.scrollTop && this.row <= this.scrollBottom) {
+      this.spliceLines(this.row, this.scrollBottom, lines, false);
+      this.col = 0;
+    }
+  }
+
+  /**
+   * Insert or remove lines at a row, keeping the rows below it up to a bottom margin in place
+   * @param at - Row the lines are inserted or removed at
+   * @param bottom - Last row affected; rows below it do not move
+   * @param lines - Number of lines
+   * @param insert - True to insert blank lines, false to remove lines and add blank lines above the bottom margin
+   */
+  private spliceLines(at: number, bottom: number, lines: number, insert: boolean): void {
+    const screen = this.screen();
+    const count = Math.min(lines, bottom - at + 1);
+    for (let i = 0; i < count; i++) {
+      if (insert) {
+        screen.splice(bottom, 1);
+        screen.splice(at, 0, blankLine(this.cols));
+      } else {
+        screen.splice(at, 1);
+        screen.splice(bottom, 0, blankLine(this.cols));
+      }
+    }
+  }
+
+  /**
+   * Insert blank characters at the cursor, pushing the rest of the line right
+   * @param chars - Number of characters
+   */
+  private insertCharacters(chars: number): void {
+    const line = this.screen()[this.row];
+    const count = Math.min(chars, this.cols - this.col);
+    line.splice(this.col, 0, ...blankLine(count));
+    line.length = this.cols;
+  }
+
+  /**
+   * Delete characters at the cursor, pulling the rest of the line left
+   * @param chars - Number of characters
+   */
+  private deleteCharacters(chars: number): void {
+    const line = this.screen()[this.row];
+    const count = Math.min(chars, this.cols - this.col);
+    line.splice(this.col, count);
+    line.push(...blankLine(count));
+  }
+
+  /**
+   * Erase part or all of the screen
+   * @param mode - 0 from the cursor to the end, 1 from the start to the cursor, 2 and 3 everything
+   */
+  private eraseInDisplay(mode: number): void {
+    if (mode === 0) {
+      this.fill(this.row, this.col, this.cols);
+      for (let row = this.row + 1; row < this.rows; row++) {
+        this.fill(row, 0, this.cols);
+      }
+    } else if (mode === 1) {
+      for (let row = 0; row < this.row; row++) {
+        this.fill(row, 0, this.cols);
+      }
+      this.fill(this.row, 0, this.col + 1);
+    } else {
+      for (let row = 0; row < this.rows; row++) {
+        this.fill(row, 0, this.cols);
+      }
+    }
+  }
+
+  /**
+   * Erase part or all of the cursor's line
+   * @param mode - 0 from the cursor to the end, 1 from the start to the cursor, 2 the whole line
+   */
+  private eraseInLine(mode: number): void {
+    if (mode === 0) {
+      this.fill(this.row, this.col, this.cols);
+    } else if (mode === 1) {
+      this.fill(this.row, 0, this.col + 1);
+    } else {
+      this.fill(this.row, 0, this.cols);
+    }
+  }
+
+  /**
+   * Blank a range of a line
+   * @param row - The row
+   * @param from - First column
+   * @param to - Column after the last
+   */
+  private fill(row: number, from: number, to: number): void {
+    this.screen()[row].fill(' ', from, to);
+  }
+
+  /**
+   * Set the scroll region and move the cursor home
+   * @param top - One-based first row
+   * @param bottom - One-based last row
+   */
+  private setScrollRegion(top: number, bottom: number): void {
+    const first = Math.min(top, this.rows) - 1;
+    const last = Math.min(bottom, this.rows) - 1;
+    if (first < last) {
+      this.scrollTop = first;
+      this.scrollBottom = last;
+      this.row = 0;
+      this.col = 0;
+    }
+  }
+
+  /**
+   * Capture the cursor for ESC 7, CSI s and mode 1049
+   * @returns The cursor state
+   */
+  private saveCursor(): CursorState {
+    return { row: this.row, col: this.col, lineDrawing: this.lineDrawing };
+  }
+
+  /**
+   * Move the cursor back to a saved state, or home when none was saved
+   * @param saved - The saved state
+   */
+  private restoreCursor(saved: CursorState | null): void {
+    this.row = Math.min(saved?.row ?? 0, this.rows - 1);
+    this.col = Math.min(saved?.col ?? 0, this.cols - 1);
+    this.lineDrawing = saved?.lineDrawing ?? false;
+    this.pendingWrap = false;
+  }
+
+  /**
+   * Reset the terminal to its initial state, keeping its size
+   */
+  private reset(): void {
+    this.main = blankScreen(this.rows, this.cols);
+    this.alternate = null;
+    this.row = 0;
+    this.col = 0;
+    this.pendingWrap = false;
+    this.autoWrap = true;
+    this.cursorVisible = true;
+    this.lineDrawing = false;
+    this.scrollTop = 0;
+    this.scrollBottom = this.rows - 1;
+    this.savedCursor = null;
+    this.alternateSavedCursor = null;
+  }
+}
+
+/**
+ * Find the lines that differ between two snapshots
+ * Rows only present in one of them count as blank in the other.
+ * @param previous - The lines of the earlier snapshot
+ * @param current - The lines of the later snapshot
+ * @returns The changed rows with their text in the later snapshot
+ */
+export function diffScreens(previous: string[], current: string[]): ScreenChange[] {
+  const changes: ScreenChange[] = [];
+  for (let row = 0; row < current.length; row++) {
+    if ((previous[row] ?? '') !== current[row]) {
+      changes.push({ row, line: current[row] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Check the size of a terminal
+ * @param rows - Height in characters
+ * @param cols - Width in characters
+ * @throws {SSHError} If rows or cols is not a positive integer
+ */
+function checkDimensions(rows: number, cols: number): void {
+  if (!Number.isInteger(rows) || rows <= 0 || !Number.isInteger(cols) || cols <= 0) {
+    throw new SSHError(`${INVALID_ARGUMENTS_ERROR}: rows and cols must be positive integers`);
+  }
+}
+
+/**
+ * Create a line of spaces
+ * @param cols - Width in characters
+ * @returns The line
+ */
+function blankLine(cols: number): string[] {
+  return new Array<string>(cols).fill(' ');
+}
+
+/**
+ * Create a screen of spaces
+ * @param rows - Height in characters
+ * @param cols - Width in characters
+ * @returns The screen
+ */
+function blankScreen(rows: number, cols: number): string[][] {
+  return Array.from({ length: rows }, () => blankLine(cols));
+}
+
+/**
+ * Crop or pad a screen to a new size, keeping its top left
+ * @param screen - The screen
+ * @param rows - New height in characters
+ * @param cols - New width in characters
+ * @returns The resized screen
+ */
+function resizeScreen(screen: string[][], rows: number, cols: number): string[][] {
+  return Array.from({ length: rows }, (_, row) => {
+    const line = (screen[row] ?? []).slice(0, cols);
+    return line.concat(blankLine(cols - line.length));
+  });
+}
@@ -1,3 +1,8 @@
+import type { HostKeyVerificationConfig } from '../config/schema.js';
+import type { Algorithms, TerminalModes } from 'ssh2';
+import type { OpenSSHCertificate } from './keys.js';
+import type { NegotiatedAlgorithmSet } from './algorithms.js';
+
 /**
  * Result of executing a command via SSH
  */
@@ -6,6 +11,10 @@ export interface CommandResult {
   stderr: string;
   code: number | null;
   signal: string | null;
+  /** Milliseconds spent waiting for a free channel on the connection before the command started */
+  queueWait?: number;
+  /** ID of the job tracking a command queued in a background session */
+  jobId?: string;
 }
 
 /**
@@ -33,25 +42,338 @@ export interface SessionMetadata {
   workingDirectory: string;
   environmentVars: Map<string, string>;
   isActive: boolean;
+  /** False once the shell could not be resynced after a timed-out command; the session then refuses commands */
+  isHealthy: boolean;
+  /** Value of $TERM in the shell */
+  term: string;
+  /** Terminal height in characters */
+  rows: number;
+  /** Terminal width in characters */
+  cols: number;
   commandHistory: string[];
 }
 
+/**
+ * How the shell of a new session is prepared before SSHConnectionManager.createSession returns
+ */
+export interface SessionSetupOptions {
+  /** Name of a profile from the profiles config section */
+  profile?: string;
+  /** Environment variables to export, overriding those of the profile */
+  env?: Record<string, string>;
+  /** Directory to start in, overriding that of the profile */
+  cwd?: string;
+  /** The pseudo-terminal the shell runs in */
+  pty?: PtyOptions;
+}
+
+/**
+ * Pseudo-terminal a session's shell runs in
+ */
+export interface PtyOptions {
+  /** Value of $TERM (default: vt100) */
+  term?: string;
+  /** Terminal height in characters (default: 24) */
+  rows?: number;
+  /** Terminal width in characters (default: 80) */
+  cols?: number;
+  /** Terminal modes from RFC 4254 such as ECHO or ICANON, each set to its argument */
+  modes?: TerminalModes;
+}
+
+/**
+ * What PersistentSession.waitFor searches
+ * output: output received since the wait started, with escape sequences removed
+ * screen: the rendered terminal screen of a raw mode session
+ */
+export type WaitSource = 'output' | 'screen';
+
+/**
+ * Options for PersistentSession.waitFor
+ */
+export interface WaitForOptions {
+  /** Milliseconds to wait for a match (default: 30000) */
+  timeout?: number;
+  /** What to search (default: screen for raw mode sessions, otherwise output) */
+  source?: WaitSource;
+  /** Match letters regardless of case */
+  ignoreCase?: boolean;
+}
+
+/**
+ * A match found by PersistentSession.waitFor
+ */
+export interface WaitForResult {
+  /** The matched text */
+  match: string;
+  /** Capture groups of the pattern, null for groups that did not take part in the match */
+  groups: (string | null)[];
+  /** Offset of the match in the output received since the wait started, or in the screen text */
+  offset: number;
+  /** The matched line with up to two lines either side */
+  context: string;
+  source: WaitSource;
+}
+
+/**
+ * State of a background job
+ * queued: waiting for the commands before it
+ * running: sent to the shell
+ * done: completed with exit code 0
+ * failed: completed with a non-zero exit code, timed out, or was dropped when the session closed or became unhealthy
+ * unknown: sent in raw mode and its timeout passed, with no way to tell whether it completed or succeeded
+ */
+export type JobState = 'queued' | 'running' | 'done' | 'failed' | 'unknown';
+
+/**
+ * A command queued in a background session
+ */
+export interface BackgroundJob {
+  jobId: string;
+  sessionId: string;
+  command: string;
+  state: JobState;
+  /** Exit code once completed; null while queued or running, for raw mode commands and for failures without one */
+  exitCode: number | null;
+  queuedAt: Date;
+  startedAt?: Date;
+  endedAt?: Date;
+  /** Offset of the session's output, in characters received since the session started, when the job started */
+  outputStart?: number;
+  /** Offset of the session's output when the job ended; its output lies between outputStart and outputEnd */
+  outputEnd?: number;
+  /** Why the job failed, unless it exited with a non-zero code */
+  error?: string;
+}
+
+/**
+ * A command of a session's queue, as reported by PersistentSession.listQueue
+ */
+export interface QueuedCommand {
+  /** ID to cancel the command with */
+  commandId: string;
+  command: string;
+  /** running for the command the shell is executing, queued for those waiting behind it */
+  state: 'running' | 'queued';
+  /** Zero-based place in line: 0 is the running command or the next to run */
+  position: number;
+  /** Timeout of the command in milliseconds */
+  timeout?: number;
+  raw: boolean;
+  /** ID of the background job tracking the command */
+  jobId?: string;
+}
+
 /**
  * Request for a command to be executed
  */
 export interface CommandRequest {
   id: string;
   command: string;
+  /** The command as shown in the history, audit log, queue and errors, when it contains a secret */
+  redactedCommand?: string;
   resolve: (result: CommandResult) => void;
   reject: (error: Error) => void;
   timeout?: number;
   raw?: boolean;
+  /** ID of the background job tracking the command */
+  jobId?: string;
 }
 
+/**
+ * Authentication method used to log in to a host
+ */
+export type AuthMethod = 'certificate' | 'publickey' | 'agent' | 'password' | 'keyboard-interactive';
+
 /**
  * Information about a connection to a host
  */
 export interface ConnectionInfo {
   client: any; // ssh2 Client type
   connected: boolean;
+  host: string;
+  port: number;
+  username: string;
+  /** When the connection was established, in milliseconds since the epoch */
+  createdAt: number;
+  /** Number of sessions and commands currently using the connection */
+  refCount: number;
+  /** When the connection was last handed out or released, in milliseconds since the epoch */
+  lastUsed: number;
+  /** Closes the connection once it has been idle for the pool's idle timeout */
+  idleTimer?: NodeJS.Timeout;
+  authMethod?: AuthMethod;
+  /** The user certificate presented when authMethod is certificate */
+  certificate?: OpenSSHCertificate;
+  /** Pool key of the jump host connection this connection is tunnelled through */
+  parentKey?: string;
+  /** The algorithms negotiated in the most recent key exchange */
+  algorithms?: NegotiatedAlgorithmSet;
+  /** Number of exec and shell channels handed out with acquireChannel and not yet released */
+  openChannels: number;
+  /** Software version from the server's identification string, e.g. OpenSSH_9.6p1 */
+  serverVersion?: string;
+}
+
+/**
+ * A pooled connection as reported by ConnectionPool.listConnections
+ */
+export interface PooledConnectionInfo {
+  /** Pool key of the connection, see ConnectionPool.getConnectionKey */
+  connectionKey: string;
+  host: string;
+  port: number;
+  username: string;
+  connected: boolean;
+  createdAt: Date;
+  lastUsed: Date;
+  /** Exec and shell channels currently open */
+  openChannels: number;
+  /** Sessions and commands currently using the connection */
+  refCount: number;
+  /** Pool key of the jump host connection this connection is tunnelled through */
+  parentKey?: string;
+  serverVersion?: string;
+  authMethod?: AuthMethod;
+  algorithms?: NegotiatedAlgorithmSet;
+}
+
+/**
+ * A pooled connection with the sessions running on it, as reported by SSHConnectionManager.listConnections
+ */
+export interface ConnectionSummary extends PooledConnectionInfo {
+  /** IDs of the sessions whose shell runs on the connection */
+  sessions: string[];
+}
+
+/**
+ * Result of SSHConnectionManager.closeConnection
+ */
+export interface CloseConnectionResult {
+  /** Pool keys of the closed connections: the connection and those tunnelled through it */
+  connections: string[];
+  /** IDs of the sessions closed along with them */
+  sessions: string[];
+}
+
+/**
+ * Readiness of the configured target connection
+ * idle: not pre-warmed
+ * connecting: being established and health-checked
+ * ready: connected and a health check command succeeded
+ * failed: could not be connected or failed its health check
+ */
+export type ReadinessState = 'idle' | 'connecting' | 'ready' | 'failed';
+
+/**
+ * Result of SSHConnectionManager.getReadiness
+ */
+export interface TargetReadiness {
+  state: ReadinessState;
+  /** The target as host:port, once pre-warming started */
+  target?: string;
+  /** When the state last changed */
+  since: Date;
+  /** Milliseconds pre-warming took, once ready or failed */
+  durationMs?: number;
+  /** Why pre-warming failed */
+  error?: string;
+}
+
+/**
+ * A channel slot on a pooled connection, handed out by ConnectionPool.acquireChannel
+ */
+export interface ChannelLease {
+  client: any; // ssh2 Client type
+  /** Pool key of the connection the channel is opened on */
+  connectionKey: string;
+  /** Milliseconds spent waiting in the channel queue */
+  queueWait: number;
+  /** Give the slot back once the channel has closed. Safe to call more than once. */
+  release: () => void;
 }
+
+/**
+ * Limits applied by the connection pool
+ */
+export interface ConnectionPoolOptions {
+  /** Connections to one host and port, across users and jump host chains (default: 10) */
+  maxConnectionsPerHost?: number;
+  /** Connections in the pool, jump hosts included (default: 50) */
+  maxConnections?: number;
+  /** Close connections nobody has used for this many milliseconds (default: 300000) */
+  idleTimeout?: number;
+  /** Attempts made to re-establish a dropped connection (default: 3) */
+  reconnectAttempts?: number;
+  /** Delay before the second reconnect attempt in milliseconds, doubled for each further attempt (default: 1000) */
+  reconnectInitialDelay?: number;
+  /** Upper bound of the reconnect delay in milliseconds (default: 30000) */
+  reconnectMaxDelay?: number;
+  /** Consecutive connection failures to a host that open its circuit breaker (default: 5) */
+  circuitFailureThreshold?: number;
+  /** Milliseconds an open circuit breaker waits before letting a trial connection through (default: 60000) */
+  circuitResetTimeout?: number;
+  /** Exec and shell channels opened at once on one connection, matching sshd MaxSessions (default: 10) */
+  maxChannelsPerConnection?: number;
+  /** Open a second connection to the host when every channel of the first is in use, instead of queueing (default: false) */
+  channelSpillover?: boolean;
+}
+
+/**
+ * A jump host (bastion) a connection is tunnelled through
+ */
+export interface JumpHost {
+  host: string;
+  /** Defaults to 22 */
+  port?: number;
+  /** Defaults to the username of the connection being tunnelled */
+  username?: string;
+  privateKeyPath?: string;
+  /** Options for connecting to the jump host itself */
+  options?: ConnectionOptions;
+}
+
+/**
+ * Per-connection options applied when the pool dials a host
+ */
+export interface ConnectionOptions {
+  hostKeyVerification?: HostKeyVerificationConfig;
+  /** Resolved passphrase for an encrypted private key. Never logged or stored in session metadata. */
+  passphrase?: string;
+  /** Path to the OpenSSH user certificate for the private key. Defaults to <privateKeyPath>-cert.pub when present. */
+  certificatePath?: string;
+  /** Path to the ssh-agent socket used for authentication */
+  agent?: string;
+  /** Forward the agent to the remote host. Requires agent. */
+  agentForward?: boolean;
+  /** Resolved password for password authentication. Never logged or stored in session metadata. */
+  password?: string;
+  /** Answer keyboard-interactive prompts with the password. Requires password. */
+  keyboardInteractive?: boolean;
+  /** Jump hosts to tunnel through, outermost first */
+  jumpHosts?: JumpHost[];
+  /** Proxy to open the connection through instead of dialling the host directly */
+  proxy?: ProxyOptions;
+  /** Transport algorithms to offer instead of the ssh2 defaults */
+  algorithms?: Algorithms;
+}
+
+/**
+ * A proxy an SSH connection is opened through
+ * socks5 and http (CONNECT) connect to a proxy server, command runs an OpenSSH
+ * style ProxyCommand and uses its stdin and stdout as the connection.
+ */
+export type ProxyOptions =
+  | {
+      type: 'socks5' | 'http';
+      host: string;
+      port: number;
+      username?: string;
+      /** Resolved proxy password. Never logged or stored in session metadata. */
+      password?: string;
+    }
+  | {
+      type: 'command';
+      /** Command run with /bin/sh; %h, %p and %r expand to the host, port and username */
+      command: string;
+    };
@@ -90,6 +90,21 @@ describe('CLI', () => {
       expect(args.passphrase).toBe('');
     });
 
+    it('should parse passphrase environment variable reference', () => {
+      const args = parseCliArgs(['--passphrase-env', 'SSH_KEY_PASSPHRASE']);
+      expect(args.passphraseEnv).toBe('SSH_KEY_PASSPHRASE');
+    });
+
+    it('should parse passphrase file reference', () => {
+      const args = parseCliArgs(['--passphrase-file', '~/.ssh/passphrase']);
+      expect(args.passphraseFile).toBe('~/.ssh/passphrase');
+    });
+
+    it('should throw error for empty passphrase references', () => {
+      expect(() => parseCliArgs(['--passphrase-env', ''])).toThrow('Invalid arguments');
+      expect(() => parseCliArgs(['--passphrase-file', ' '])).toThrow('Invalid arguments');
+    });
+
     it('should parse shell override bash', () => {
       const args = parseCliArgs(['--shell', 'bash']);
       expect(args.shell).toBe('bash');
@@ -342,6 +357,24 @@ describe('CLI', () => {
       expect(merged.target.passphrase).toBe('secret');
     });
 
+    it('should set passphrase references from args', () => {
+      const config = {
+        name: 'test',
+        target: {
+          host: 'host.com',
+          port: 22,
+          username: 'user',
+          privateKeyPath: '/key',
+          passphrase: 'plaintext',
+          shell: 'bash' as const,
+        },
+      };
+      expect(mergeConfigWithArgs(config, { passphraseEnv: 'KEY_PASS' }).target.passphrase)
+        .toEqual({ env: 'KEY_PASS' });
+      expect(mergeConfigWithArgs(config, { passphraseFile: '/secrets/key-pass' }).target.passphrase)
+        .toEqual({ file: '/secrets/key-pass' });
+    });
+
     it('should override shell from args', () => {
       const config = {
         name: 'test',
@@ -4,6 +4,10 @@ import {
   DEFAULT_BUFFERS,
   DEFAULT_SECURITY,
   DEFAULT_LOGGING,
+  DEFAULT_RECONNECT,
+  DEFAULT_CIRCUIT_BREAKER,
+  DEFAULT_CHANNELS,
+  DEFAULT_STARTUP,
   createDefaultConfig,
   mergeWithDefaults,
 } from '../../src/config/defaults.js';
@@ -261,6 +265,7 @@ describe('Configuration Defaults', () => {
           session: 300000,
           connection: 10000,
           keepAlive: 15000,
+          idleConnection: 60000,
         },
         buffers: {
           maxSize: 5000,
@@ -272,6 +277,7 @@ describe('Configuration Defaults', () => {
           maxSessions: 3,
           sessionTimeout: 120000,
           maxConnectionsPerHost: 5,
+          maxConnections: 20,
         },
         logging: {
           level: 'debug',
@@ -286,6 +292,23 @@ describe('Configuration Defaults', () => {
             sanitizePatterns: [],
           },
         },
+        reconnect: {
+          maxAttempts: 5,
+          initialDelay: 500,
+          maxDelay: 10000,
+        },
+        circuitBreaker: {
+          failureThreshold: 3,
+          resetTimeout: 30000,
+        },
+        channels: {
+          maxPerConnection: 4,
+          spillover: true,
+        },
+        startup: {
+          prewarm: true,
+          failFast: true,
+        },
       };
 
       const merged = mergeWithDefaults(custom);
@@ -330,5 +353,75 @@ describe('Configuration Defaults', () => {
       expect(merged.security?.allowedCommands).toEqual([]);
       expect(merged.security?.blockedCommands).toEqual([]);
     });
+
+    it('should apply reconnect and circuit breaker defaults to missing fields', () => {
+      const merged = mergeWithDefaults({
+        name: 'test',
+        target: { host: 'test', port: 22, username: 'user', privateKeyPath: '/key' },
+        reconnect: { maxAttempts: 5 },
+      });
+
+      expect(merged.reconnect).toEqual({ ...DEFAULT_RECONNECT, maxAttempts: 5 });
+      expect(merged.circuitBreaker).toEqual(DEFAULT_CIRCUIT_BREAKER);
+    });
+
+    it('should apply channel defaults to missing fields', () => {
+      const merged = mergeWithDefaults({
+        name: 'test',
+        target: { host: 'test', port: 22, username: 'user', privateKeyPath: '/key' },
+        channels: { spillover: true },
+      });
+
+      expect(merged.channels).toEqual({ ...DEFAULT_CHANNELS, spillover: true });
+    });
+
+    it('should apply startup defaults to missing fields', () => {
+      const merged = mergeWithDefaults({
+        name: 'test',
+        target: { host: 'test', port: 22, username: 'user', privateKeyPath: '/key' },
+        startup: { prewarm: true },
+      });
+
+      expect(merged.startup).toEqual({ ...DEFAULT_STARTUP, prewarm: true });
+    });
+
+    it('should keep session profiles', () => {
+      const profiles = { 'python-dev': { cwd: '~/app', init: ['source venv/bin/activate'] } };
+      const merged = mergeWithDefaults({
+        name: 'test',
+        target: { host: 'test', port: 22, username: 'user', privateKeyPath: '/key' },
+        profiles,
+      });
+
+      expect(merged.profiles).toEqual(profiles);
+    });
+
+    it('should default the ssh config path when sshConfig is present', () => {
+      const partial: Partial<ServerConfig> = {
+        name: 'test',
+        target: {
+          host: 'test',
+          port: 22,
+          username: 'user',
+          privateKeyPath: '/key',
+        },
+        sshConfig: {},
+      };
+
+      const merged = mergeWithDefaults(partial as ServerConfig);
+
+      expect(merged.sshConfig).toEqual({ enabled: true, path: '~/.ssh/config' });
+    });
+
+    it('should leave sshConfig unset when not configured', () => {
+      const merged = mergeWithDefaults(createDefaultConfig('test', {
+        host: 'test',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+      }));
+
+      expect(merged.sshConfig).toBeUndefined();
+    });
   });
 });
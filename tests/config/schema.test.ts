@@ -45,6 +45,103 @@ describe('Configuration Schema', () => {
       expect(result.success).toBe(true);
     });
 
+    it('should accept passphrase environment and file references', () => {
+      const base = {
+        host: 'target.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/path/to/key',
+      };
+
+      expect(SSHTargetConfigSchema.safeParse({ ...base, passphrase: { env: 'SSH_KEY_PASSPHRASE' } }).success).toBe(true);
+      expect(SSHTargetConfigSchema.safeParse({ ...base, passphrase: { file: '~/.ssh/key-pass' } }).success).toBe(true);
+    });
+
+    it('should reject malformed passphrase references', () => {
+      const base = {
+        host: 'target.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/path/to/key',
+      };
+
+      expect(SSHTargetConfigSchema.safeParse({ ...base, passphrase: { env: '' } }).success).toBe(false);
+      expect(SSHTargetConfigSchema.safeParse({ ...base, passphrase: { env: 'A', file: '/b' } }).success).toBe(false);
+      expect(SSHTargetConfigSchema.safeParse({ ...base, passphrase: { vault: 'x' } }).success).toBe(false);
+    });
+
+    it('should accept agent authentication without privateKeyPath', () => {
+      const base = { host: 'target.local', port: 22, username: 'user' };
+
+      expect(SSHTargetConfigSchema.safeParse({ ...base, agent: true }).success).toBe(true);
+      expect(SSHTargetConfigSchema.safeParse({ ...base, agent: '/run/user/1000/ssh-agent.sock', agentForward: true }).success).toBe(true);
+    });
+
+    it('should require privateKeyPath when no agent is configured', () => {
+      const base = { host: 'target.local', port: 22, username: 'user' };
+
+      expect(SSHTargetConfigSchema.safeParse(base).success).toBe(false);
+      expect(SSHTargetConfigSchema.safeParse({ ...base, agent: false }).success).toBe(false);
+    });
+
+    it('should reject agent forwarding without an agent', () => {
+      const result = SSHTargetConfigSchema.safeParse({
+        host: 'target.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/path/to/key',
+        agentForward: true,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept password references without privateKeyPath', () => {
+      const base = { host: 'target.local', port: 22, username: 'admin' };
+
+      expect(SSHTargetConfigSchema.safeParse({ ...base, password: { env: 'SWITCH_PASSWORD' } }).success).toBe(true);
+      expect(SSHTargetConfigSchema.safeParse({
+        ...base,
+        password: { file: '/secrets/switch' },
+        keyboardInteractive: true,
+      }).success).toBe(true);
+    });
+
+    it('should reject plaintext passwords', () => {
+      const result = SSHTargetConfigSchema.safeParse({
+        host: 'target.local',
+        port: 22,
+        username: 'admin',
+        password: 'hunter2',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject keyboard-interactive without a password', () => {
+      const result = SSHTargetConfigSchema.safeParse({
+        host: 'target.local',
+        port: 22,
+        username: 'admin',
+        privateKeyPath: '/path/to/key',
+        keyboardInteractive: true,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept a certificate path alongside the private key', () => {
+      const base = { host: 'target.local', port: 22, username: 'user' };
+
+      expect(SSHTargetConfigSchema.safeParse({
+        ...base,
+        privateKeyPath: '/path/to/key',
+        certificatePath: '/path/to/key-cert.pub',
+      }).success).toBe(true);
+      expect(SSHTargetConfigSchema.safeParse({
+        ...base,
+        agent: true,
+        certificatePath: '/path/to/key-cert.pub',
+      }).success).toBe(false);
+    });
+
     it('should accept all valid shell types', () => {
       const shells: Array<'bash' | 'sh' | 'powershell' | 'cmd'> = ['bash', 'sh', 'powershell', 'cmd'];
 
@@ -117,6 +214,132 @@ describe('Configuration Schema', () => {
       expect(result.success).toBe(false);
     });
 
+    it('should accept host key verification modes', () => {
+      const verifications = [
+        { mode: 'strict' },
+        { mode: 'accept-new', knownHostsPath: '~/.ssh/known_hosts' },
+        { mode: 'fingerprint', fingerprints: ['SHA256:abc'] },
+        { mode: 'off' },
+      ];
+
+      for (const hostKeyVerification of verifications) {
+        const config = {
+          host: 'target',
+          port: 22,
+          username: 'user',
+          privateKeyPath: '/key',
+          hostKeyVerification,
+        };
+        const result = SSHTargetConfigSchema.safeParse(config);
+        expect(result.success).toBe(true);
+      }
+    });
+
+    it('should require fingerprints in fingerprint mode', () => {
+      const invalidVerifications = [
+        { mode: 'fingerprint' },
+        { mode: 'fingerprint', fingerprints: [] },
+        { mode: 'fingerprint', fingerprints: [''] },
+        { mode: 'tofu' },
+        { mode: 'strict', knownHostsPath: '' },
+      ];
+
+      for (const hostKeyVerification of invalidVerifications) {
+        const config = {
+          host: 'target',
+          port: 22,
+          username: 'user',
+          privateKeyPath: '/key',
+          hostKeyVerification,
+        };
+        const result = SSHTargetConfigSchema.safeParse(config);
+        expect(result.success).toBe(false);
+      }
+    });
+
+    it('should accept jump hosts and default their port', () => {
+      const config = {
+        host: 'target',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        jumpHosts: [
+          { host: 'bastion1' },
+          { host: 'bastion2', port: 2222, username: 'admin', agent: true, hostKeyVerification: { mode: 'strict' } },
+        ],
+      };
+      const result = SSHTargetConfigSchema.safeParse(config);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.jumpHosts?.[0]).toEqual({ host: 'bastion1', port: 22 });
+        expect(result.data.jumpHosts?.[1].username).toBe('admin');
+      }
+    });
+
+    it('should reject invalid jump hosts', () => {
+      const invalidJumpHosts = [
+        { host: '' },
+        { host: 'bastion', port: 0 },
+        { host: 'bastion', username: '' },
+        { host: 'bastion', password: 'plaintext' },
+        { host: 'bastion', keyboardInteractive: true },
+        { host: 'bastion', certificatePath: '/cert.pub' },
+      ];
+
+      for (const jumpHost of invalidJumpHosts) {
+        const config = {
+          host: 'target',
+          port: 22,
+          username: 'user',
+          privateKeyPath: '/key',
+          jumpHosts: [jumpHost],
+        };
+        const result = SSHTargetConfigSchema.safeParse(config);
+        expect(result.success).toBe(false);
+      }
+    });
+
+    it('should accept proxies and default their port', () => {
+      const proxies = [
+        { proxy: { type: 'socks5', host: 'proxy.corp' }, port: 1080 },
+        { proxy: { type: 'http', host: 'proxy.corp', username: 'me', password: { env: 'PROXY_PASSWORD' } }, port: 3128 },
+      ];
+
+      for (const { proxy, port } of proxies) {
+        const result = SSHTargetConfigSchema.safeParse({
+          host: 'target', port: 22, username: 'user', privateKeyPath: '/key', proxy,
+        });
+        expect(result.success).toBe(true);
+        if (result.success && result.data.proxy?.type !== 'command') {
+          expect(result.data.proxy?.port).toBe(port);
+        }
+      }
+
+      const command = SSHTargetConfigSchema.safeParse({
+        host: 'target', port: 22, username: 'user', privateKeyPath: '/key',
+        proxy: { type: 'command', command: 'nc -X connect -x proxy.corp:3128 %h %p' },
+      });
+      expect(command.success).toBe(true);
+    });
+
+    it('should reject invalid proxies', () => {
+      const invalidProxies = [
+        { type: 'socks4', host: 'proxy.corp' },
+        { type: 'socks5', host: '' },
+        { type: 'http', host: 'proxy.corp', port: 70000 },
+        { type: 'http', host: 'proxy.corp', password: 'plaintext' },
+        { type: 'command', command: '' },
+        { type: 'command' },
+      ];
+
+      for (const proxy of invalidProxies) {
+        const result = SSHTargetConfigSchema.safeParse({
+          host: 'target', port: 22, username: 'user', privateKeyPath: '/key', proxy,
+        });
+        expect(result.success).toBe(false);
+      }
+    });
+
     it('should reject missing required fields', () => {
       const invalidConfigs = [
         { port: 22, username: 'user', privateKeyPath: '/key' },
@@ -139,6 +362,7 @@ describe('Configuration Schema', () => {
         session: 600000,
         connection: 30000,
         keepAlive: 30000,
+        idleConnection: 300000,
       };
 
       const result = TimeoutsConfigSchema.safeParse(validConfig);
@@ -290,6 +514,7 @@ describe('Configuration Schema', () => {
         maxSessions: 10,
         sessionTimeout: 600000,
         maxConnectionsPerHost: 10,
+        maxConnections: 50,
       };
 
       const result = SecurityConfigSchema.safeParse(validConfig);
@@ -500,6 +725,82 @@ describe('Configuration Schema', () => {
       }
     });
 
+    it('should accept an sshConfig section', () => {
+      const config = {
+        name: 'test-instance',
+        target: { host: 'target.local', port: 22, username: 'user', privateKeyPath: '/key' },
+        sshConfig: { enabled: true, path: '~/.ssh/config.work' },
+      };
+
+      expect(ServerConfigSchema.safeParse(config).success).toBe(true);
+      expect(ServerConfigSchema.safeParse({ ...config, sshConfig: { path: '' } }).success).toBe(false);
+    });
+
+    it('should accept reconnect and circuitBreaker sections', () => {
+      const config = {
+        name: 'test-instance',
+        target: { host: 'target.local', port: 22, username: 'user', privateKeyPath: '/key' },
+        reconnect: { maxAttempts: 5, initialDelay: 500, maxDelay: 10000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 30000 },
+      };
+
+      expect(ServerConfigSchema.safeParse(config).success).toBe(true);
+      expect(ServerConfigSchema.safeParse({ ...config, reconnect: { maxAttempts: 0 } }).success).toBe(false);
+      expect(ServerConfigSchema.safeParse({ ...config, circuitBreaker: { failureThreshold: 0 } }).success).toBe(false);
+    });
+
+    it('should accept algorithm presets and lists on the target and jump hosts', () => {
+      const target = {
+        host: 'target.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        algorithms: 'modern',
+        jumpHosts: [{ host: 'bastion', algorithms: { preset: 'compat', ciphers: ['aes128-cbc'] } }],
+      };
+
+      expect(ServerConfigSchema.safeParse({ name: 'test', target }).success).toBe(true);
+      expect(ServerConfigSchema.safeParse({ name: 'test', target: { ...target, algorithms: 'legacy' } }).success).toBe(false);
+      expect(ServerConfigSchema.safeParse({ name: 'test', target: { ...target, algorithms: { ciphers: [] } } }).success).toBe(false);
+      expect(ServerConfigSchema.safeParse({ name: 'test', target: { ...target, algorithms: { cipher: ['aes128-ctr'] } } }).success).toBe(false);
+    });
+
+    it('should accept a channels section', () => {
+      const config = {
+        name: 'test-instance',
+        target: { host: 'target.local', port: 22, username: 'user', privateKeyPath: '/key' },
+        channels: { maxPerConnection: 20, spillover: true },
+      };
+
+      expect(ServerConfigSchema.safeParse(config).success).toBe(true);
+      expect(ServerConfigSchema.safeParse({ ...config, channels: { maxPerConnection: 0 } }).success).toBe(false);
+    });
+
+    it('should accept a startup section', () => {
+      const config = {
+        name: 'test-instance',
+        target: { host: 'target.local', port: 22, username: 'user', privateKeyPath: '/key' },
+        startup: { prewarm: true, failFast: true },
+      };
+
+      expect(ServerConfigSchema.safeParse(config).success).toBe(true);
+      expect(ServerConfigSchema.safeParse({ ...config, startup: { prewarm: 'yes' } }).success).toBe(false);
+    });
+
+    it('should accept session profiles', () => {
+      const config = {
+        name: 'test-instance',
+        target: { host: 'target.local', port: 22, username: 'user', privateKeyPath: '/key' },
+        profiles: {
+          'python-dev': { cwd: '~/app', env: { APP_ENV: 'dev' }, init: ['source venv/bin/activate'], shellType: 'bash' },
+        },
+      };
+
+      expect(ServerConfigSchema.safeParse(config).success).toBe(true);
+      expect(ServerConfigSchema.safeParse({ ...config, profiles: { p: { env: { '1BAD': 'x' } } } }).success).toBe(false);
+      expect(ServerConfigSchema.safeParse({ ...config, profiles: { p: { init: [''] } } }).success).toBe(false);
+    });
+
     it('should require name and target fields only', () => {
       const minimalConfig = {
         name: 'test-instance',
@@ -0,0 +1,55 @@
+/**
+ * Builders for SSH wire-format key and certificate blobs used in tests
+ */
+
+export function sshString(value: string | Buffer): Buffer {
+  const data = typeof value === 'string' ? Buffer.from(value) : value;
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, data]);
+}
+
+export function uint32(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32BE(value);
+  return buf;
+}
+
+export function uint64(value: bigint): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64BE(value);
+  return buf;
+}
+
+export function makeEd25519Key(fill: number): Buffer {
+  return Buffer.concat([sshString('ssh-ed25519'), sshString(Buffer.alloc(32, fill))]);
+}
+
+export const ed25519Key = makeEd25519Key(7);
+
+export function buildCertificate(options: {
+  certType?: number;
+  principals?: string[];
+  validAfter?: bigint;
+  validBefore?: bigint;
+  signatureKey?: Buffer;
+  publicKey?: Buffer;
+} = {}): Buffer {
+  const principals = Buffer.concat((options.principals ?? ['alice']).map(p => sshString(p)));
+  return Buffer.concat([
+    sshString('ssh-ed25519-cert-v01@openssh.com'),
+    sshString(Buffer.alloc(32, 1)), // nonce
+    sshString(options.publicKey ?? Buffer.alloc(32, 2)), // public key
+    uint64(42n),
+    uint32(options.certType ?? 1),
+    sshString('key-id'),
+    sshString(principals),
+    uint64(options.validAfter ?? 0n),
+    uint64(options.validBefore ?? 0xffffffffffffffffn),
+    sshString(''),
+    sshString(''),
+    sshString(''),
+    sshString(options.signatureKey ?? ed25519Key),
+    sshString('signature'),
+  ]);
+}
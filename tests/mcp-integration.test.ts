@@ -59,12 +59,12 @@ describe('MCP Integration Tests', () => {
 
   describe('End-to-End Request/Response Flow', () => {
     describe('tools/list', () => {
-      it('should return all 6 tools with proper MCP structure', async () => {
+      it('should return all 19 tools with proper MCP structure', async () => {
         const request = {};
         const response = await listToolsHandler(request);
 
         expect(response).toHaveProperty('tools');
-        expect(response.tools).toHaveLength(6);
+        expect(response.tools).toHaveLength(19);
 
         // Verify each tool has proper MCP structure
         response.tools.forEach((tool: any) => {
@@ -89,8 +89,21 @@ describe('MCP Integration Tests', () => {
           'ssh_session_create',
           'ssh_session_execute',
           'ssh_session_list',
+          'ssh_session_info',
+          'ssh_session_resize',
+          'ssh_session_send_keys',
+          'ssh_session_screen',
+          'ssh_session_wait_for',
           'ssh_session_close',
           'ssh_session_output',
+          'ssh_job_status',
+          'ssh_job_list',
+          'ssh_session_queue',
+          'ssh_session_cancel',
+          'ssh_session_flush',
+          'ssh_connection_test',
+          'ssh_connection_list',
+          'ssh_connection_close',
         ]);
       });
     });
@@ -161,7 +174,8 @@ describe('MCP Integration Tests', () => {
           '/home/user/.ssh/id_rsa',
           'echo test',
           2222,
-          60000
+          60000,
+          { passphrase: undefined }
         );
       });
 
@@ -272,10 +286,11 @@ describe('MCP Integration Tests', () => {
           'testuser',
           'background',
           '/home/user/.ssh/id_rsa',
-          22,
+          undefined,
           'raw',
           undefined,
-          'bash'
+          undefined, // shellType - from the profile, otherwise bash
+          { passphrase: undefined, pty: {} }
         );
       });
     });
@@ -305,10 +320,11 @@ describe('MCP Integration Tests', () => {
 
         expect(result.stdout).toBe('/home/testuser');
         expect(result.code).toBe(0);
+        // The session applies the default, which background sessions do not have
         expect(mockManager.executeInSession).toHaveBeenCalledWith(
           'test-session-1',
           'pwd',
-          30000
+          undefined
         );
       });
 
@@ -369,6 +385,7 @@ describe('MCP Integration Tests', () => {
             mode: 'normal',
             port: 22,
             isActive: true,
+            isHealthy: true,
             createdAt: new Date('2024-01-01'),
             lastActivity: new Date('2024-01-01'),
             workingDirectory: '/home/user1',
@@ -383,6 +400,7 @@ describe('MCP Integration Tests', () => {
             mode: 'raw',
             port: 2222,
             isActive: true,
+            isHealthy: true,
             createdAt: new Date('2024-01-02'),
             lastActivity: new Date('2024-01-02'),
             workingDirectory: '/tmp',
@@ -33,8 +33,21 @@ describe('MCP Handlers', () => {
       createSession: vi.fn(),
       executeInSession: vi.fn(),
       listSessions: vi.fn(),
+      getSessionInfo: vi.fn(),
+      resizeSession: vi.fn(),
+      sendKeys: vi.fn(),
+      getSessionScreen: vi.fn(),
+      waitFor: vi.fn(),
+      getJob: vi.fn(),
+      listJobs: vi.fn(),
+      listQueue: vi.fn(),
+      cancelCommand: vi.fn(),
+      flushQueue: vi.fn(),
       closeSession: vi.fn(),
       getSessionOutput: vi.fn(),
+      testConnection: vi.fn(),
+      listConnections: vi.fn(),
+      closeConnection: vi.fn(),
     };
 
     registerToolHandlers(mockServer, mockManager);
@@ -59,10 +72,10 @@ describe('MCP Handlers', () => {
   });
 
   describe('tools/list handler', () => {
-    it('should return all 6 tools', async () => {
+    it('should return all 19 tools', async () => {
       const result = await listToolsHandler({});
 
-      expect(result.tools).toHaveLength(6);
+      expect(result.tools).toHaveLength(19);
     });
 
     it('should return tools with correct structure', async () => {
@@ -85,8 +98,21 @@ describe('MCP Handlers', () => {
       expect(toolNames).toContain('ssh_session_create');
       expect(toolNames).toContain('ssh_session_execute');
       expect(toolNames).toContain('ssh_session_list');
+      expect(toolNames).toContain('ssh_session_info');
+      expect(toolNames).toContain('ssh_session_resize');
+      expect(toolNames).toContain('ssh_session_send_keys');
+      expect(toolNames).toContain('ssh_session_screen');
+      expect(toolNames).toContain('ssh_session_wait_for');
       expect(toolNames).toContain('ssh_session_close');
       expect(toolNames).toContain('ssh_session_output');
+      expect(toolNames).toContain('ssh_job_status');
+      expect(toolNames).toContain('ssh_job_list');
+      expect(toolNames).toContain('ssh_session_queue');
+      expect(toolNames).toContain('ssh_session_cancel');
+      expect(toolNames).toContain('ssh_session_flush');
+      expect(toolNames).toContain('ssh_connection_test');
+      expect(toolNames).toContain('ssh_connection_list');
+      expect(toolNames).toContain('ssh_connection_close');
     });
   });
 
@@ -119,8 +145,44 @@ describe('MCP Handlers', () => {
         'user',
         '/path/to/key',
         'ls -la',
-        22, // default port
-        30000 // default timeout
+        undefined, // port from ~/.ssh/config or 22
+        30000, // default timeout
+        { passphrase: undefined }
+      );
+    });
+
+    it('should pass proxyJump as jump hosts', async () => {
+      mockManager.executeCommand.mockResolvedValue({ stdout: '', stderr: '', code: 0, signal: null });
+
+      const request = {
+        params: {
+          name: 'ssh_execute',
+          arguments: {
+            host: 'example.com',
+            username: 'user',
+            privateKeyPath: '/path/to/key',
+            command: 'ls -la',
+            proxyJump: 'admin@bastion1,bastion2:2222',
+          },
+        },
+      };
+
+      await callToolHandler(request);
+
+      expect(mockManager.executeCommand).toHaveBeenCalledWith(
+        'example.com',
+        'user',
+        '/path/to/key',
+        'ls -la',
+        undefined,
+        30000,
+        {
+          passphrase: undefined,
+          jumpHosts: [
+            { host: 'bastion1', username: 'admin' },
+            { host: 'bastion2', port: 2222 },
+          ],
+        }
       );
     });
 
@@ -191,13 +253,43 @@ describe('MCP Handlers', () => {
         'user',
         'interactive',
         '/path/to/key',
-        22,
+        undefined,
         'normal',
         undefined,
-        'bash'
+        undefined, // shellType - from the profile, otherwise bash
+        { passphrase: undefined, pty: {} }
       );
     });
 
+    it('should pass the profile, environment variables and starting directory', async () => {
+      mockManager.createSession.mockResolvedValue({ getSessionInfo: () => ({ sessionId: 'test-session' }) });
+
+      await callToolHandler({
+        params: {
+          name: 'ssh_session_create',
+          arguments: {
+            sessionId: 'test-session',
+            host: 'example.com',
+            type: 'interactive',
+            profile: 'python-dev',
+            env: { DEBUG: '1' },
+            cwd: '/srv/app',
+            term: 'xterm-256color',
+            cols: 200,
+          },
+        },
+      });
+
+      expect(mockManager.createSession.mock.calls[0][9]).toEqual({
+        passphrase: undefined,
+        jumpHosts: undefined,
+        profile: 'python-dev',
+        env: { DEBUG: '1' },
+        cwd: '/srv/app',
+        pty: { term: 'xterm-256color', cols: 200 },
+      });
+    });
+
     it('should return session info as JSON', async () => {
       const mockSessionInfo = {
         sessionId: 'test-session',
@@ -259,10 +351,11 @@ describe('MCP Handlers', () => {
 
       await callToolHandler(request);
 
+      // The session applies the default, which background sessions do not have
       expect(mockManager.executeInSession).toHaveBeenCalledWith(
         'test-session',
         'pwd',
-        30000
+        undefined
       );
     });
   });
@@ -282,6 +375,10 @@ describe('MCP Handlers', () => {
           workingDirectory: '~',
           environmentVars: new Map(),
           isActive: true,
+          isHealthy: true,
+          term: 'vt100',
+          rows: 24,
+          cols: 80,
           commandHistory: [],
         },
       ];
@@ -301,6 +398,176 @@ describe('MCP Handlers', () => {
       const parsedContent = JSON.parse(result.content[0].text);
       expect(parsedContent).toHaveLength(1);
       expect(parsedContent[0].sessionId).toBe('session-1');
+      expect(parsedContent[0].workingDirectory).toBe('~');
+      expect(parsedContent[0].environmentVars).toEqual({});
+    });
+  });
+
+  describe('tools/call handler - ssh_session_info', () => {
+    it('should return the session state with sensitive variables redacted', async () => {
+      const session: SessionMetadata = {
+        sessionId: 'session-1',
+        target: 'host1.com',
+        username: 'user1',
+        type: 'interactive',
+        mode: 'normal',
+        createdAt: new Date(),
+        lastActivity: new Date(),
+        port: 22,
+        workingDirectory: '/srv/app',
+        environmentVars: new Map([['NODE_ENV', 'production'], ['API_TOKEN', 'abc123']]),
+        isActive: true,
+        isHealthy: true,
+        term: 'vt100',
+        rows: 24,
+        cols: 80,
+        commandHistory: [],
+      };
+      mockManager.getSessionInfo.mockReturnValue(session);
+
+      const result = await callToolHandler({ params: { name: 'ssh_session_info', arguments: { sessionId: 'session-1' } } });
+
+      expect(mockManager.getSessionInfo).toHaveBeenCalledWith('session-1');
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.workingDirectory).toBe('/srv/app');
+      expect(parsedContent.environmentVars).toEqual({ NODE_ENV: 'production', API_TOKEN: '[REDACTED]' });
+    });
+  });
+
+  describe('tools/call handler - ssh_session_resize', () => {
+    it('should call manager.resizeSession and report the new size', async () => {
+      const result = await callToolHandler({
+        params: { name: 'ssh_session_resize', arguments: { sessionId: 'session-1', rows: 50, cols: 200 } },
+      });
+
+      expect(mockManager.resizeSession).toHaveBeenCalledWith('session-1', 50, 200);
+      expect(JSON.parse(result.content[0].text)).toEqual({ sessionId: 'session-1', rows: 50, cols: 200 });
+    });
+  });
+
+  describe('tools/call handler - ssh_session_send_keys', () => {
+    it('should call manager.sendKeys with the default settle time and return the output', async () => {
+      mockManager.sendKeys.mockResolvedValue('\x1b[H-- INSERT --');
+
+      const result = await callToolHandler({
+        params: { name: 'ssh_session_send_keys', arguments: { sessionId: 'session-1', keys: 'i' } },
+      });
+
+      expect(mockManager.sendKeys).toHaveBeenCalledWith('session-1', 'i', 500);
+      expect(JSON.parse(result.content[0].text)).toEqual({ output: '\x1b[H-- INSERT --' });
+    });
+  });
+
+  describe('tools/call handler - ssh_session_screen', () => {
+    it('should return the screen as text with the cursor, size and changed lines', async () => {
+      mockManager.getSessionScreen.mockReturnValue({
+        lines: ['top - 10:00:01', 'Tasks: 3 total', ''],
+        rows: 3,
+        cols: 80,
+        cursor: { row: 2, col: 0 },
+        cursorVisible: false,
+        alternateScreen: true,
+        changes: [{ row: 0, line: 'top - 10:00:01' }],
+      });
+
+      const result = await callToolHandler({
+        params: { name: 'ssh_session_screen', arguments: { sessionId: 'session-1', diff: true } },
+      });
+
+      expect(mockManager.getSessionScreen).toHaveBeenCalledWith('session-1', true);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        rows: 3,
+        cols: 80,
+        cursor: { row: 2, col: 0 },
+        cursorVisible: false,
+        alternateScreen: true,
+        screen: 'top - 10:00:01\nTasks: 3 total\n',
+        changes: [{ row: 0, line: 'top - 10:00:01' }],
+      });
+    });
+  });
+
+  describe('tools/call handler - ssh_session_wait_for', () => {
+    it('should call manager.waitFor with the defaults and return the match', async () => {
+      const match = { match: 'Continue? [y/N]', groups: [], offset: 42, context: 'Continue? [y/N]', source: 'output' };
+      mockManager.waitFor.mockResolvedValue(match);
+
+      const result = await callToolHandler({
+        params: { name: 'ssh_session_wait_for', arguments: { sessionId: 'session-1', pattern: 'Continue\\?' } },
+      });
+
+      expect(mockManager.waitFor).toHaveBeenCalledWith('session-1', 'Continue\\?', {
+        timeout: 30000,
+        source: undefined,
+        ignoreCase: false,
+      });
+      expect(JSON.parse(result.content[0].text)).toEqual(match);
+    });
+  });
+
+  describe('tools/call handler - ssh_job_status and ssh_job_list', () => {
+    const job = {
+      jobId: 'job-1',
+      sessionId: 'session-1',
+      command: 'make',
+      state: 'done',
+      exitCode: 0,
+      queuedAt: '2024-01-01T00:00:00.000Z',
+      outputStart: 0,
+      outputEnd: 120,
+    };
+
+    it('should call manager.getJob and return the job', async () => {
+      mockManager.getJob.mockReturnValue(job);
+
+      const result = await callToolHandler({
+        params: { name: 'ssh_job_status', arguments: { sessionId: 'session-1', jobId: 'job-1' } },
+      });
+
+      expect(mockManager.getJob).toHaveBeenCalledWith('session-1', 'job-1');
+      expect(JSON.parse(result.content[0].text)).toEqual(job);
+    });
+
+    it('should list the jobs of all sessions when no session is given', async () => {
+      mockManager.listJobs.mockReturnValue([job]);
+
+      const result = await callToolHandler({ params: { name: 'ssh_job_list', arguments: {} } });
+
+      expect(mockManager.listJobs).toHaveBeenCalledWith(undefined);
+      expect(JSON.parse(result.content[0].text)).toEqual([job]);
+    });
+  });
+
+  describe('tools/call handler - ssh_session_queue, ssh_session_cancel and ssh_session_flush', () => {
+    it('should call manager.listQueue and return the commands', async () => {
+      const queue = [
+        { commandId: 'c1', command: 'make', state: 'running', position: 0, timeout: 30000, raw: false },
+        { commandId: 'c2', command: 'make test', state: 'queued', position: 1, timeout: 30000, raw: false },
+      ];
+      mockManager.listQueue.mockReturnValue(queue);
+
+      const result = await callToolHandler({ params: { name: 'ssh_session_queue', arguments: { sessionId: 'session-1' } } });
+
+      expect(mockManager.listQueue).toHaveBeenCalledWith('session-1');
+      expect(JSON.parse(result.content[0].text)).toEqual(queue);
+    });
+
+    it('should call manager.cancelCommand and report the cancelled command', async () => {
+      const result = await callToolHandler({
+        params: { name: 'ssh_session_cancel', arguments: { sessionId: 'session-1', commandId: 'c2' } },
+      });
+
+      expect(mockManager.cancelCommand).toHaveBeenCalledWith('session-1', 'c2');
+      expect(JSON.parse(result.content[0].text)).toEqual({ cancelled: ['c2'] });
+    });
+
+    it('should call manager.flushQueue and report the cancelled commands', async () => {
+      mockManager.flushQueue.mockReturnValue(['c2', 'c3']);
+
+      const result = await callToolHandler({ params: { name: 'ssh_session_flush', arguments: { sessionId: 'session-1' } } });
+
+      expect(mockManager.flushQueue).toHaveBeenCalledWith('session-1');
+      expect(JSON.parse(result.content[0].text)).toEqual({ cancelled: ['c2', 'c3'] });
     });
   });
 
@@ -383,6 +650,93 @@ describe('MCP Handlers', () => {
     });
   });
 
+  describe('tools/call handler - ssh_connection_test', () => {
+    it('should call manager.testConnection and return the report', async () => {
+      const report = {
+        target: 'example.com:22',
+        username: 'user',
+        success: false,
+        durationMs: 12,
+        failedStage: 'auth',
+        error: 'All configured authentication methods failed',
+        stages: [{ stage: 'dns', status: 'ok', durationMs: 1, detail: '192.0.2.1' }],
+        circuitState: 'closed',
+      };
+      mockManager.testConnection.mockResolvedValue(report);
+
+      const request = {
+        params: {
+          name: 'ssh_connection_test',
+          arguments: {
+            host: 'example.com',
+            username: 'user',
+            privateKeyPath: '/path/to/key',
+            proxyJump: 'bastion',
+          },
+        },
+      };
+
+      const result = await callToolHandler(request);
+
+      expect(mockManager.testConnection).toHaveBeenCalledWith(
+        'example.com',
+        'user',
+        '/path/to/key',
+        undefined,
+        { passphrase: undefined, jumpHosts: [{ host: 'bastion' }] }
+      );
+      expect(JSON.parse(result.content[0].text)).toEqual(report);
+    });
+  });
+
+  describe('tools/call handler - ssh_connection_list', () => {
+    it('should return the pooled connections as JSON', async () => {
+      const connections = [{
+        connectionKey: 'ssh-user@example.com:22',
+        createdAt: new Date('2026-03-01T10:00:00Z'),
+        openChannels: 2,
+        sessions: ['s1'],
+        serverVersion: 'OpenSSH_9.6p1',
+      }];
+      mockManager.listConnections.mockReturnValue(connections);
+
+      const result = await callToolHandler({ params: { name: 'ssh_connection_list', arguments: {} } });
+
+      expect(JSON.parse(result.content[0].text)).toEqual([{
+        ...connections[0],
+        createdAt: '2026-03-01T10:00:00.000Z',
+      }]);
+    });
+  });
+
+  describe('tools/call handler - ssh_connection_close', () => {
+    it('should call manager.closeConnection with cascade off by default', async () => {
+      mockManager.closeConnection.mockResolvedValue({ connections: ['ssh-user@example.com:22'], sessions: [] });
+
+      const result = await callToolHandler({
+        params: { name: 'ssh_connection_close', arguments: { connectionKey: 'ssh-user@example.com:22' } },
+      });
+
+      expect(mockManager.closeConnection).toHaveBeenCalledWith('ssh-user@example.com:22', false);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        closed: true,
+        connections: ['ssh-user@example.com:22'],
+        sessions: [],
+      });
+    });
+
+    it('should report closed false for an unknown connection', async () => {
+      mockManager.closeConnection.mockResolvedValue({ connections: [], sessions: [] });
+
+      const result = await callToolHandler({
+        params: { name: 'ssh_connection_close', arguments: { connectionKey: 'ssh-x@y:22', cascade: true } },
+      });
+
+      expect(mockManager.closeConnection).toHaveBeenCalledWith('ssh-x@y:22', true);
+      expect(JSON.parse(result.content[0].text).closed).toBe(false);
+    });
+  });
+
   describe('tools/call handler - error cases', () => {
     it('should throw error for unknown tool', async () => {
       const request = {
@@ -1,5 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createServer, startServer, stopServer } from '../../src/mcp/server.js';
+import {
+  createServer,
+  startServer,
+  stopServer,
+  prewarmTarget,
+  getTargetReadiness,
+  runStartupPhase,
+} from '../../src/mcp/server.js';
+import { SSHConnectionManager } from '../../src/ssh/manager.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createDefaultConfig } from '../../src/config/defaults.js';
@@ -330,6 +338,63 @@ describe('MCP Server', () => {
     });
   });
 
+  describe('Startup', () => {
+    const config = createDefaultConfig('test', {
+      host: 'test.local',
+      port: 22,
+      username: 'user',
+      privateKeyPath: '/key',
+    });
+    const ready = { state: 'ready' as const, target: 'test.local:22', since: new Date(0), durationMs: 12 };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should report the target idle until it is pre-warmed', () => {
+      const server = createServer(config);
+
+      expect(getTargetReadiness(server).state).toBe('idle');
+    });
+
+    it('should pre-warm the target through the server\'s connection manager', async () => {
+      const prewarm = vi.spyOn(SSHConnectionManager.prototype, 'prewarm').mockResolvedValue(ready);
+      const server = createServer(config);
+
+      await expect(prewarmTarget(server)).resolves.toEqual(ready);
+      expect(prewarm).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject servers not created by createServer', () => {
+      expect(() => getTargetReadiness({} as any)).toThrow('server was not created by createServer');
+    });
+
+    it('should skip pre-warming unless configured', async () => {
+      const prewarm = vi.spyOn(SSHConnectionManager.prototype, 'prewarm').mockResolvedValue(ready);
+
+      await runStartupPhase(createServer(config), { prewarm: false, failFast: true });
+
+      expect(prewarm).not.toHaveBeenCalled();
+    });
+
+    it('should abort startup with failFast when the target is unreachable', async () => {
+      vi.spyOn(SSHConnectionManager.prototype, 'prewarm').mockRejectedValue(new Error('Connection failed: test.local:22'));
+
+      await expect(runStartupPhase(createServer(config), { prewarm: true, failFast: true }))
+        .rejects.toThrow('Connection failed: test.local:22');
+    });
+
+    it('should warm in the background and log failures without failFast', async () => {
+      vi.spyOn(SSHConnectionManager.prototype, 'prewarm').mockRejectedValue(new Error('Connection failed: test.local:22'));
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(runStartupPhase(createServer(config), { prewarm: true, failFast: false })).resolves.toBeUndefined();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(consoleError).toHaveBeenCalledWith('Target pre-warm failed: Connection failed: test.local:22');
+    });
+  });
+
   describe('Exported Functions', () => {
     it('should export createServer function', () => {
       expect(createServer).toBeDefined();
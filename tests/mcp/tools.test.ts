@@ -5,14 +5,24 @@ import {
   SshSessionCreateArgsSchema,
   SshSessionExecuteArgsSchema,
   SshSessionListArgsSchema,
+  SshSessionInfoArgsSchema,
+  SshSessionResizeArgsSchema,
+  SshSessionScreenArgsSchema,
+  SshSessionWaitForArgsSchema,
+  SshJobStatusArgsSchema,
+  SshJobListArgsSchema,
+  SshSessionCancelArgsSchema,
   SshSessionCloseArgsSchema,
   SshSessionOutputArgsSchema,
+  SshConnectionTestArgsSchema,
+  SshConnectionListArgsSchema,
+  SshConnectionCloseArgsSchema,
 } from '../../src/mcp/tools.js';
 
 describe('MCP Tools', () => {
   describe('tools array', () => {
-    it('should export 6 tools', () => {
-      expect(tools).toHaveLength(6);
+    it('should export 19 tools', () => {
+      expect(tools).toHaveLength(19);
     });
 
     it('should have unique tool names', () => {
@@ -27,8 +37,21 @@ describe('MCP Tools', () => {
       expect(names).toContain('ssh_session_create');
       expect(names).toContain('ssh_session_execute');
       expect(names).toContain('ssh_session_list');
+      expect(names).toContain('ssh_session_info');
+      expect(names).toContain('ssh_session_resize');
+      expect(names).toContain('ssh_session_send_keys');
+      expect(names).toContain('ssh_session_screen');
+      expect(names).toContain('ssh_session_wait_for');
       expect(names).toContain('ssh_session_close');
       expect(names).toContain('ssh_session_output');
+      expect(names).toContain('ssh_job_status');
+      expect(names).toContain('ssh_job_list');
+      expect(names).toContain('ssh_session_queue');
+      expect(names).toContain('ssh_session_cancel');
+      expect(names).toContain('ssh_session_flush');
+      expect(names).toContain('ssh_connection_test');
+      expect(names).toContain('ssh_connection_list');
+      expect(names).toContain('ssh_connection_close');
     });
 
     it('should have description for each tool', () => {
@@ -59,16 +82,32 @@ describe('MCP Tools', () => {
 
     it('should have required parameters', () => {
       expect(sshExecute.inputSchema.required).toContain('host');
-      expect(sshExecute.inputSchema.required).toContain('username');
-      expect(sshExecute.inputSchema.required).toContain('privateKeyPath');
       expect(sshExecute.inputSchema.required).toContain('command');
     });
 
     it('should have optional parameters', () => {
       expect(sshExecute.inputSchema.properties.port).toBeDefined();
       expect(sshExecute.inputSchema.properties.timeout).toBeDefined();
+      expect(sshExecute.inputSchema.properties.passphrase).toBeDefined();
       expect(sshExecute.inputSchema.required).not.toContain('port');
       expect(sshExecute.inputSchema.required).not.toContain('timeout');
+      expect(sshExecute.inputSchema.required).not.toContain('passphrase');
+      expect(sshExecute.inputSchema.properties.proxyJump.type).toBe('string');
+      expect(sshExecute.inputSchema.required).not.toContain('proxyJump');
+    });
+
+    it('should make privateKeyPath optional for agent authentication', () => {
+      expect(sshExecute.inputSchema.properties.privateKeyPath).toBeDefined();
+      expect(sshExecute.inputSchema.required).not.toContain('privateKeyPath');
+      const result = SshExecuteArgsSchema.safeParse({ host: 'example.com', username: 'user', command: 'ls' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should accept a host alias without username or port', () => {
+      expect(sshExecute.inputSchema.required).not.toContain('username');
+      const result = SshExecuteArgsSchema.safeParse({ host: 'prod-web', command: 'ls' });
+      expect(result.success).toBe(true);
+      expect(result.success && result.data.port).toBeUndefined();
     });
 
     it('should validate valid arguments', () => {
@@ -114,9 +153,8 @@ describe('MCP Tools', () => {
     it('should have required parameters', () => {
       expect(sessionCreate.inputSchema.required).toContain('sessionId');
       expect(sessionCreate.inputSchema.required).toContain('host');
-      expect(sessionCreate.inputSchema.required).toContain('username');
-      expect(sessionCreate.inputSchema.required).toContain('privateKeyPath');
       expect(sessionCreate.inputSchema.required).toContain('type');
+      expect(sessionCreate.inputSchema.required).not.toContain('privateKeyPath');
     });
 
     it('should validate valid arguments', () => {
@@ -159,6 +197,26 @@ describe('MCP Tools', () => {
       };
       expect(SshSessionCreateArgsSchema.safeParse(backgroundArgs).success).toBe(true);
     });
+
+    it('should describe env as an object of strings', () => {
+      expect(sessionCreate.inputSchema.properties.env).toMatchObject({
+        type: 'object',
+        additionalProperties: { type: 'string' },
+      });
+    });
+
+    it('should describe terminal modes as an object of numbers', () => {
+      expect(sessionCreate.inputSchema.properties.modes).toMatchObject({
+        type: 'object',
+        additionalProperties: { type: 'number' },
+      });
+    });
+
+    it('should reject invalid environment variable names', () => {
+      const args = { sessionId: 'test', host: 'example.com', type: 'interactive' as const };
+      expect(SshSessionCreateArgsSchema.safeParse({ ...args, env: { APP_ENV: 'dev' } }).success).toBe(true);
+      expect(SshSessionCreateArgsSchema.safeParse({ ...args, env: { 'A;rm -rf /': 'x' } }).success).toBe(false);
+    });
   });
 
   describe('ssh_session_execute tool', () => {
@@ -272,6 +330,95 @@ describe('MCP Tools', () => {
     });
   });
 
+  describe('ssh_connection_test tool', () => {
+    const connectionTest = tools.find(t => t.name === 'ssh_connection_test')!;
+
+    it('should have correct structure', () => {
+      expect(connectionTest.name).toBe('ssh_connection_test');
+      expect(connectionTest.inputSchema.type).toBe('object');
+      expect(connectionTest.inputSchema.required).toEqual(['host']);
+    });
+
+    it('should validate valid arguments', () => {
+      const result = SshConnectionTestArgsSchema.safeParse({ host: 'example.com', username: 'user', port: 2222 });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an invalid port', () => {
+      const result = SshConnectionTestArgsSchema.safeParse({ host: 'example.com', port: 0 });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('ssh_session_info tool', () => {
+    const sessionInfo = tools.find(t => t.name === 'ssh_session_info')!;
+
+    it('should require the session ID', () => {
+      expect(sessionInfo.inputSchema.required).toEqual(['sessionId']);
+      expect(SshSessionInfoArgsSchema.safeParse({}).success).toBe(false);
+    });
+  });
+
+  describe('ssh_session_resize tool', () => {
+    it('should require positive integer rows and cols', () => {
+      expect(SshSessionResizeArgsSchema.safeParse({ sessionId: 's1', rows: 50, cols: 200 }).success).toBe(true);
+      expect(SshSessionResizeArgsSchema.safeParse({ sessionId: 's1', rows: 0, cols: 200 }).success).toBe(false);
+      expect(SshSessionResizeArgsSchema.safeParse({ sessionId: 's1', rows: 50 }).success).toBe(false);
+    });
+  });
+
+  describe('ssh_session_screen tool', () => {
+    const sessionScreen = tools.find(t => t.name === 'ssh_session_screen')!;
+
+    it('should require the session ID and default diff to false', () => {
+      expect(sessionScreen.inputSchema.required).toEqual(['sessionId']);
+      expect(SshSessionScreenArgsSchema.parse({ sessionId: 's1' }).diff).toBe(false);
+    });
+  });
+
+  describe('ssh_session_wait_for tool', () => {
+    it('should require a pattern and default the timeout and case sensitivity', () => {
+      const result = SshSessionWaitForArgsSchema.parse({ sessionId: 's1', pattern: 'ready' });
+      expect(result).toEqual({ sessionId: 's1', pattern: 'ready', timeout: 30000, ignoreCase: false });
+      expect(SshSessionWaitForArgsSchema.safeParse({ sessionId: 's1' }).success).toBe(false);
+      expect(SshSessionWaitForArgsSchema.safeParse({ sessionId: 's1', pattern: 'ready', source: 'stderr' }).success).toBe(false);
+    });
+  });
+
+  describe('ssh_job_status and ssh_job_list tools', () => {
+    it('should require the session and job ID for a status but no session for a list', () => {
+      expect(SshJobStatusArgsSchema.safeParse({ sessionId: 's1', jobId: 'job-1' }).success).toBe(true);
+      expect(SshJobStatusArgsSchema.safeParse({ sessionId: 's1' }).success).toBe(false);
+      expect(SshJobListArgsSchema.safeParse({}).success).toBe(true);
+    });
+  });
+
+  describe('ssh_session_cancel tool', () => {
+    it('should require the session and command ID', () => {
+      expect(SshSessionCancelArgsSchema.safeParse({ sessionId: 's1', commandId: 'c1' }).success).toBe(true);
+      expect(SshSessionCancelArgsSchema.safeParse({ sessionId: 's1' }).success).toBe(false);
+    });
+  });
+
+  describe('ssh_connection_list tool', () => {
+    it('should accept empty arguments', () => {
+      expect(SshConnectionListArgsSchema.safeParse({}).success).toBe(true);
+    });
+  });
+
+  describe('ssh_connection_close tool', () => {
+    const connectionClose = tools.find(t => t.name === 'ssh_connection_close')!;
+
+    it('should require the connection key', () => {
+      expect(connectionClose.inputSchema.required).toEqual(['connectionKey']);
+    });
+
+    it('should default cascade to false', () => {
+      const result = SshConnectionCloseArgsSchema.parse({ connectionKey: 'ssh-user@host:22' });
+      expect(result.cascade).toBe(false);
+    });
+  });
+
   describe('Zod Schemas', () => {
     it('should export SshExecuteArgsSchema', () => {
       expect(SshExecuteArgsSchema).toBeDefined();
@@ -296,5 +443,9 @@ describe('MCP Tools', () => {
     it('should export SshSessionOutputArgsSchema', () => {
       expect(SshSessionOutputArgsSchema).toBeDefined();
     });
+
+    it('should export SshConnectionTestArgsSchema', () => {
+      expect(SshConnectionTestArgsSchema).toBeDefined();
+    });
   });
 });
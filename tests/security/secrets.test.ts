@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveSecret } from '../../src/security/secrets.js';
+
+describe('resolveSecret', () => {
+  let tmpDir: string;
+  const envName = 'SSH_CONTROL_TEST_SECRET';
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'secrets-test-'));
+    delete process.env[envName];
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+    delete process.env[envName];
+  });
+
+  it('should return plaintext secrets unchanged', async () => {
+    await expect(resolveSecret('hunter2')).resolves.toBe('hunter2');
+  });
+
+  it('should throw for null or undefined secrets', async () => {
+    await expect(resolveSecret(null as any)).rejects.toThrow('Null or undefined arguments');
+    await expect(resolveSecret(undefined as any)).rejects.toThrow('Null or undefined arguments');
+  });
+
+  it('should read environment variable references', async () => {
+    process.env[envName] = 'from-env';
+    await expect(resolveSecret({ env: envName })).resolves.toBe('from-env');
+  });
+
+  it('should reject unset environment variables', async () => {
+    await expect(resolveSecret({ env: envName })).rejects.toThrow(`${envName} is not set`);
+  });
+
+  it('should read 0600 files and strip the trailing newline', async () => {
+    const file = path.join(tmpDir, 'secret');
+    await fs.writeFile(file, 'from-file\n', { mode: 0o600 });
+    await expect(resolveSecret({ file })).resolves.toBe('from-file');
+  });
+
+  it('should reject files readable by group or others', async () => {
+    const file = path.join(tmpDir, 'secret');
+    await fs.writeFile(file, 'from-file\n');
+    await fs.chmod(file, 0o644);
+    await expect(resolveSecret({ file })).rejects.toThrow('chmod 600');
+  });
+
+  it('should reject missing files', async () => {
+    const file = path.join(tmpDir, 'missing');
+    await expect(resolveSecret({ file })).rejects.toThrow('secret file not found');
+  });
+});
@@ -26,6 +26,14 @@ describe('Shell Formatters', () => {
       expect(result).toBe('echo "START_123"; ls -la; echo "END_123:$?"');
     });
 
+    it('should capture stderr in a temp file printed after the stderr delimiter', () => {
+      const result = formatter.formatCommandWithDelimiters('make', 'START_123', 'END_123', 'ERR_123');
+      expect(result).toBe(
+        'echo "START_123"; { make; } 2>"${TMPDIR:-/tmp}/ERR_123"; __ssh_mcp_rc=$?; echo "ERR_123"; ' +
+        'cat "${TMPDIR:-/tmp}/ERR_123" 2>/dev/null; rm -f "${TMPDIR:-/tmp}/ERR_123"; echo "END_123:$__ssh_mcp_rc"'
+      );
+    });
+
     it('should throw error if command parameters are invalid', () => {
       expect(() => formatter.formatCommandWithDelimiters('', 'START', 'END')).toThrow('Invalid arguments: command, startDelimiter, and endDelimiter are required');
       expect(() => formatter.formatCommandWithDelimiters('ls', '', 'END')).toThrow('Invalid arguments: command, startDelimiter, and endDelimiter are required');
@@ -46,6 +54,32 @@ describe('Shell Formatters', () => {
       expect(formatter.getKeepAliveCommand()).toBe('\n');
     });
 
+    it('should format the sync command', () => {
+      expect(formatter.formatSyncCommand('SYNC_123')).toBe('echo "SYNC_123"');
+      expect(() => formatter.formatSyncCommand('')).toThrow('marker is required');
+    });
+
+    it('should format the state command', () => {
+      expect(formatter.formatStateCommand('STATE_123')).toBe('echo "STATE_123"; pwd; env');
+      expect(() => formatter.formatStateCommand('')).toThrow('stateDelimiter is required');
+    });
+
+    it('should format change directory commands, keeping a leading ~ expandable', () => {
+      expect(formatter.formatChangeDirectoryCommand('/srv/my app')).toBe("cd '/srv/my app'");
+      expect(formatter.formatChangeDirectoryCommand('~/app')).toBe("cd ~/'app'");
+      expect(formatter.formatChangeDirectoryCommand('~')).toBe('cd ~');
+    });
+
+    it('should format set environment commands with the value quoted', () => {
+      expect(formatter.formatSetEnvironmentCommand('GREETING', "it's $HOME")).toBe("export GREETING='it'\\''s $HOME'");
+      expect(() => formatter.formatSetEnvironmentCommand('A;rm -rf /', 'x')).toThrow('invalid environment variable name');
+    });
+
+    it('should print the shell state before the end delimiter, keeping the exit status', () => {
+      const result = formatter.formatCommandWithDelimiters('cd /tmp', 'START_1', 'END_1', undefined, 'STATE_1');
+      expect(result).toBe('echo "START_1"; cd /tmp; __ssh_mcp_rc=$?; echo "STATE_1"; pwd; env; echo "END_1:$__ssh_mcp_rc"');
+    });
+
     it('should throw error if parseExitCode parameters are invalid', () => {
       expect(() => formatter.parseExitCode('', 'END')).toThrow('Invalid arguments');
       expect(() => formatter.parseExitCode('output', '')).toThrow('Invalid arguments');
@@ -88,6 +122,16 @@ describe('Shell Formatters', () => {
       expect(result).toBe('Write-Output "START_123"; Get-ChildItem; Write-Output "END_123:$LASTEXITCODE"');
     });
 
+    it('should capture stderr in a temp file printed after the stderr delimiter', () => {
+      const result = formatter.formatCommandWithDelimiters('Get-ChildItem', 'START_123', 'END_123', 'ERR_123');
+      const stderrFile = '(Join-Path ([IO.Path]::GetTempPath()) "ERR_123")';
+      expect(result).toBe(
+        `Write-Output "START_123"; . { Get-ChildItem } 2> ${stderrFile}; Write-Output "ERR_123"; ` +
+        `Get-Content -ErrorAction SilentlyContinue ${stderrFile}; Remove-Item -ErrorAction SilentlyContinue ${stderrFile}; ` +
+        'Write-Output "END_123:$LASTEXITCODE"'
+      );
+    });
+
     it('should handle commands with quotes', () => {
       const command = 'Write-Host "hello world"';
       const startDelimiter = 'START_123';
@@ -101,6 +145,22 @@ describe('Shell Formatters', () => {
       expect(formatter.getKeepAliveCommand()).toBe('Write-Output ""\n');
     });
 
+    it('should format the sync command', () => {
+      expect(formatter.formatSyncCommand('SYNC_123')).toBe('Write-Output "SYNC_123"');
+      expect(() => formatter.formatSyncCommand('')).toThrow('marker is required');
+    });
+
+    it('should format the state command', () => {
+      expect(formatter.formatStateCommand('STATE_123')).toBe(
+        'Write-Output "STATE_123"; (Get-Location).Path; Get-ChildItem env: | ForEach-Object { "$($_.Name)=$($_.Value)" }'
+      );
+    });
+
+    it('should format change directory and set environment commands', () => {
+      expect(formatter.formatChangeDirectoryCommand("C:\\it's")).toBe("Set-Location -Path 'C:\\it''s'");
+      expect(formatter.formatSetEnvironmentCommand('APP_ENV', 'dev')).toBe("$env:APP_ENV = 'dev'");
+    });
+
     it('should throw error if parseExitCode parameters are invalid', () => {
       expect(() => formatter.parseExitCode('', 'END')).toThrow('Invalid arguments: output and endDelimiter are required');
       expect(() => formatter.parseExitCode('output', '')).toThrow('Invalid arguments: output and endDelimiter are required');
@@ -143,6 +203,26 @@ describe('Shell Formatters', () => {
       expect(result).toBe('echo START_123 & dir & echo %ERRORLEVEL% > NUL & echo END_123:%ERRORLEVEL%');
     });
 
+    it('should capture stderr in a temp file printed after the stderr delimiter', () => {
+      const result = formatter.formatCommandWithDelimiters('dir', 'START_123', 'END_123', 'ERR_123');
+      expect(result).toBe(
+        'echo START_123 & 2>>"%TEMP%\\ERR_123" dir & echo %ERRORLEVEL% > NUL & echo ERR_123 & ' +
+        'type "%TEMP%\\ERR_123" 2>NUL & del "%TEMP%\\ERR_123" 2>NUL & echo END_123:%ERRORLEVEL%'
+      );
+    });
+
+    it('should redirect stderr of each command without grouping them in parentheses', () => {
+      const command = 'cd C:\\Users && dir | findstr /v ")" & echo :-) ^& more & if exist x (del x) || type a 2>&1';
+
+      const result = formatter.formatCommandWithDelimiters(command, 'START_123', 'END_123', 'ERR_123');
+
+      expect(result).toContain(
+        'echo START_123 & 2>>"%TEMP%\\ERR_123" cd C:\\Users && 2>>"%TEMP%\\ERR_123" dir | ' +
+        '2>>"%TEMP%\\ERR_123" findstr /v ")" & 2>>"%TEMP%\\ERR_123" echo :-) ^& more & ' +
+        'if exist x (del x) || type a 2>&1 & echo %ERRORLEVEL% > NUL'
+      );
+    });
+
     it('should handle complex commands', () => {
       const command = 'cd C:\\Users && dir';
       const startDelimiter = 'START_123';
@@ -156,6 +236,27 @@ describe('Shell Formatters', () => {
       expect(formatter.getKeepAliveCommand()).toBe('echo.\n');
     });
 
+    it('should format the sync command', () => {
+      expect(formatter.formatSyncCommand('SYNC_123')).toBe('echo SYNC_123');
+      expect(() => formatter.formatSyncCommand('')).toThrow('marker is required');
+    });
+
+    it('should format the state command', () => {
+      expect(formatter.formatStateCommand('STATE_123')).toBe('echo STATE_123 & cd & set');
+    });
+
+    it('should format change directory and set environment commands', () => {
+      expect(formatter.formatChangeDirectoryCommand('D:\\work')).toBe('cd /d "D:\\work"');
+      expect(formatter.formatSetEnvironmentCommand('APP_ENV', 'dev')).toBe('set "APP_ENV=dev"');
+    });
+
+    it('should reject directories and values with characters cmd would interpret', () => {
+      for (const value of ['a"b', '%PATH%', 'a^b', 'a&b', 'a|b', 'a<b', 'a>b']) {
+        expect(() => formatter.formatChangeDirectoryCommand(value)).toThrow('directory cannot contain');
+        expect(() => formatter.formatSetEnvironmentCommand('APP_ENV', value)).toThrow('value of APP_ENV cannot contain');
+      }
+    });
+
     it('should throw error if parseExitCode parameters are invalid', () => {
       expect(() => formatter.parseExitCode('', 'END')).toThrow('Invalid arguments: output and endDelimiter are required');
       expect(() => formatter.parseExitCode('output', '')).toThrow('Invalid arguments: output and endDelimiter are required');
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { ALGORITHM_PRESETS, resolveAlgorithms, summarizeNegotiatedAlgorithms } from '../../src/ssh/algorithms.js';
+
+describe('algorithms', () => {
+  describe('resolveAlgorithms', () => {
+    it('should expand a preset name into ssh2 algorithm lists', () => {
+      expect(resolveAlgorithms('fips-like')).toEqual({
+        kex: ALGORITHM_PRESETS['fips-like'].kex,
+        cipher: ALGORITHM_PRESETS['fips-like'].ciphers,
+        hmac: ALGORITHM_PRESETS['fips-like'].macs,
+        serverHostKey: ALGORITHM_PRESETS['fips-like'].hostKeys,
+        compress: ['none'],
+      });
+    });
+
+    it('should replace the preset lists that are given explicitly', () => {
+      const algorithms = resolveAlgorithms({ preset: 'modern', ciphers: ['aes256-gcm@openssh.com'] });
+
+      expect(algorithms.cipher).toEqual(['aes256-gcm@openssh.com']);
+      expect(algorithms.kex).toEqual(ALGORITHM_PRESETS.modern.kex);
+    });
+
+    it('should leave kinds without a list to the ssh2 defaults', () => {
+      expect(resolveAlgorithms({ hostKeys: ['ssh-rsa'] })).toEqual({ serverHostKey: ['ssh-rsa'] });
+    });
+
+    it('should not share the preset lists with the result', () => {
+      const algorithms = resolveAlgorithms('compat');
+
+      (algorithms.kex as string[]).push('extra');
+
+      expect(ALGORITHM_PRESETS.compat.kex).not.toContain('extra');
+    });
+
+    it('should keep SHA-1 and CBC out of the modern and fips-like presets', () => {
+      for (const preset of [ALGORITHM_PRESETS.modern, ALGORITHM_PRESETS['fips-like']]) {
+        const names = [...preset.kex, ...preset.ciphers, ...preset.macs, ...preset.hostKeys];
+        expect(names.filter((name) => /sha1|-cbc|ssh-rsa$|ssh-dss|md5/.test(name))).toEqual([]);
+      }
+      expect(ALGORITHM_PRESETS['fips-like'].kex.some((name) => name.startsWith('curve25519'))).toBe(false);
+    });
+  });
+
+  describe('summarizeNegotiatedAlgorithms', () => {
+    it('should report the client to server direction', () => {
+      const summary = summarizeNegotiatedAlgorithms({
+        kex: 'ecdh-sha2-nistp256',
+        serverHostKey: 'rsa-sha2-512',
+        cs: { cipher: 'aes128-ctr', mac: 'hmac-sha2-256', compress: 'none', lang: '' },
+        sc: { cipher: 'aes256-ctr', mac: 'hmac-sha2-512', compress: 'zlib', lang: '' },
+      });
+
+      expect(summary).toEqual({
+        kex: 'ecdh-sha2-nistp256',
+        hostKey: 'rsa-sha2-512',
+        cipher: 'aes128-ctr',
+        mac: 'hmac-sha2-256',
+        compression: 'none',
+      });
+    });
+  });
+});
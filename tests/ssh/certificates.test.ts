@@ -0,0 +1,310 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createPublicKey, verify } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { utils } from 'ssh2';
+import {
+  getCertificatePath,
+  loadUserCertificate,
+  findUserCertificate,
+  checkCertificateValidity,
+  createCertificateKey,
+  enableCertificateAuth,
+  isTestedSSH2Version,
+} from '../../src/ssh/certificates.js';
+import { SSHError } from '../../src/ssh/errors.js';
+import { buildCertificate, sshString, uint32, uint64 } from '../helpers/ssh-keys.js';
+
+/**
+ * Generate an ed25519 key pair and a user certificate for it
+ */
+function generateCertifiedKey(options: Parameters<typeof buildCertificate>[0] = {}) {
+  const keys = utils.generateKeyPairSync('ed25519');
+  const publicBlob = Buffer.from(keys.public.split(' ')[1], 'base64');
+  const rawPublicKey = publicBlob.subarray(publicBlob.length - 32);
+  const certificate = buildCertificate({ ...options, publicKey: rawPublicKey });
+  return {
+    privateKey: Buffer.from(keys.private),
+    publicKey: keys.public,
+    certificate,
+    certificateLine: `ssh-ed25519-cert-v01@openssh.com ${certificate.toString('base64')} user@host\n`,
+  };
+}
+
+/**
+ * Generate an ECDSA P-256 key pair and a user certificate for it
+ */
+function generateCertifiedEcdsaKey() {
+  const keys = utils.generateKeyPairSync('ecdsa', { bits: 256 });
+  const publicBlob = Buffer.from(keys.public.split(' ')[1], 'base64');
+  const point = publicBlob.subarray(4 + 19 + 4 + 8 + 4);
+  const certificate = Buffer.concat([
+    sshString('ecdsa-sha2-nistp256-cert-v01@openssh.com'),
+    sshString(Buffer.alloc(32, 1)), // nonce
+    sshString('nistp256'),
+    sshString(point),
+    uint64(1n),
+    uint32(1),
+    sshString('key-id'),
+    sshString(sshString('alice')),
+    uint64(0n),
+    uint64(0xffffffffffffffffn),
+    sshString(''),
+    sshString(''),
+    sshString(''),
+    sshString(publicBlob),
+    sshString('signature'),
+  ]);
+  return {
+    privateKey: Buffer.from(keys.private),
+    certificateLine: `ecdsa-sha2-nistp256-cert-v01@openssh.com ${certificate.toString('base64')} user@host\n`,
+  };
+}
+
+describe('SSH certificates', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'certificates-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('getCertificatePath', () => {
+    it('should append -cert.pub to the private key path', () => {
+      expect(getCertificatePath('/home/me/.ssh/id_ed25519')).toBe('/home/me/.ssh/id_ed25519-cert.pub');
+    });
+  });
+
+  describe('loadUserCertificate', () => {
+    it('should load a user certificate file', async () => {
+      const { certificate, certificateLine } = generateCertifiedKey({ principals: ['deploy'] });
+      const file = path.join(tmpDir, 'id_ed25519-cert.pub');
+      await fs.writeFile(file, certificateLine);
+
+      const loaded = await loadUserCertificate(file);
+
+      expect(loaded.path).toBe(file);
+      expect(loaded.blob.equals(certificate)).toBe(true);
+      expect(loaded.certificate.principals).toEqual(['deploy']);
+    });
+
+    it('should reject host certificates', async () => {
+      const { certificateLine } = generateCertifiedKey({ certType: 2 });
+      const file = path.join(tmpDir, 'host-cert.pub');
+      await fs.writeFile(file, certificateLine);
+
+      await expect(loadUserCertificate(file)).rejects.toThrow('is a host certificate');
+    });
+
+    it('should reject plain public keys', async () => {
+      const { publicKey } = generateCertifiedKey();
+      const file = path.join(tmpDir, 'id_ed25519.pub');
+      await fs.writeFile(file, publicKey);
+
+      await expect(loadUserCertificate(file)).rejects.toThrow('is not an OpenSSH certificate');
+    });
+
+    it('should reject missing files', async () => {
+      await expect(loadUserCertificate(path.join(tmpDir, 'missing-cert.pub')))
+        .rejects.toThrow('Failed to read SSH certificate');
+    });
+  });
+
+  describe('findUserCertificate', () => {
+    it('should find the certificate next to the private key', async () => {
+      const { certificateLine } = generateCertifiedKey();
+      const keyPath = path.join(tmpDir, 'id_ed25519');
+      await fs.writeFile(`${keyPath}-cert.pub`, certificateLine);
+
+      const found = await findUserCertificate(keyPath);
+
+      expect(found?.path).toBe(`${keyPath}-cert.pub`);
+    });
+
+    it('should return undefined when there is no certificate', async () => {
+      await expect(findUserCertificate(path.join(tmpDir, 'id_ed25519'))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('checkCertificateValidity', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    const seconds = BigInt(now.getTime() / 1000);
+
+    it('should accept a certificate inside its validity period', async () => {
+      const { certificateLine } = generateCertifiedKey({ validAfter: seconds - 60n, validBefore: seconds + 60n });
+      const file = path.join(tmpDir, 'cert.pub');
+      await fs.writeFile(file, certificateLine);
+
+      const certificate = await loadUserCertificate(file);
+
+      expect(() => checkCertificateValidity(certificate, now)).not.toThrow();
+    });
+
+    it('should refuse expired certificates with an SSHError', async () => {
+      const { certificateLine } = generateCertifiedKey({ validAfter: seconds - 120n, validBefore: seconds - 60n });
+      const file = path.join(tmpDir, 'cert.pub');
+      await fs.writeFile(file, certificateLine);
+      const certificate = await loadUserCertificate(file);
+
+      expect(() => checkCertificateValidity(certificate, now)).toThrow(SSHError);
+      expect(() => checkCertificateValidity(certificate, now)).toThrow('expired at 2025-12-31T23:59:00.000Z');
+    });
+
+    it('should refuse certificates that are not yet valid', async () => {
+      const { certificateLine } = generateCertifiedKey({ validAfter: seconds + 60n });
+      const file = path.join(tmpDir, 'cert.pub');
+      await fs.writeFile(file, certificateLine);
+      const certificate = await loadUserCertificate(file);
+
+      expect(() => checkCertificateValidity(certificate, now)).toThrow('is not valid until');
+    });
+  });
+
+  describe('createCertificateKey', () => {
+    it('should present the certificate as the public key', async () => {
+      const { privateKey, certificate, certificateLine } = generateCertifiedKey();
+      const file = path.join(tmpDir, 'cert.pub');
+      await fs.writeFile(file, certificateLine);
+
+      const key = createCertificateKey(privateKey, undefined, await loadUserCertificate(file));
+
+      expect(key.type).toBe('ssh-ed25519');
+      expect(key.isPrivateKey()).toBe(true);
+      expect(key.getPublicSSH().equals(certificate)).toBe(true);
+    });
+
+    it('should reject a certificate issued for a different key', async () => {
+      const { certificateLine } = generateCertifiedKey();
+      const other = generateCertifiedKey();
+      const file = path.join(tmpDir, 'cert.pub');
+      await fs.writeFile(file, certificateLine);
+
+      const certificate = await loadUserCertificate(file);
+
+      expect(() => createCertificateKey(other.privateKey, undefined, certificate))
+        .toThrow('does not certify the private key');
+    });
+  });
+
+  describe('enableCertificateAuth', () => {
+    function createFakeClient() {
+      const authPK = vi.fn();
+      const encrypt = vi.fn();
+      const protocol = {
+        authPK,
+        _authsQueue: [] as string[],
+        _cipher: { encrypt },
+        _packetRW: {
+          write: {
+            allocStart: 0,
+            alloc: (length: number) => Buffer.alloc(length),
+            finalize: (packet: Buffer) => packet,
+          },
+        },
+      };
+      const client = { _protocol: protocol, emit: vi.fn(), end: vi.fn() };
+      return { client: client as any, protocol, authPK, encrypt };
+    }
+
+    it('should query with the certificate algorithm and blob', async () => {
+      const { privateKey, certificate, certificateLine } = generateCertifiedKey();
+      const file = path.join(tmpDir, 'cert.pub');
+      await fs.writeFile(file, certificateLine);
+      const key = createCertificateKey(privateKey, undefined, await loadUserCertificate(file));
+      const { client, protocol, authPK } = createFakeClient();
+
+      enableCertificateAuth(client);
+      protocol.authPK('alice', key, undefined);
+
+      expect(authPK).toHaveBeenCalledWith('alice', key, 'ssh-ed25519-cert-v01@openssh.com');
+      expect(key.getPublicSSH().equals(certificate)).toBe(true);
+    });
+
+    it('should sign with the plain key algorithm', async () => {
+      const { privateKey, publicKey, certificateLine } = generateCertifiedKey();
+      const file = path.join(tmpDir, 'cert.pub');
+      await fs.writeFile(file, certificateLine);
+      const key = createCertificateKey(privateKey, undefined, await loadUserCertificate(file));
+      const { client, protocol, authPK, encrypt } = createFakeClient();
+      const sessionId = Buffer.alloc(32, 9);
+      const request = Buffer.from('signed-request');
+      authPK.mockImplementation((_user: string, _key: unknown, _algo: string, cbSign: Function) => {
+        cbSign(Buffer.concat([sshString(sessionId), request]), () => {
+          throw new Error('ssh2 must not send the request itself');
+        });
+      });
+
+      enableCertificateAuth(client);
+      protocol.authPK('alice', key, undefined, (data: Buffer, cb: (signature: Buffer) => void) => {
+        cb(key.sign(data));
+      });
+
+      expect(protocol._authsQueue).toEqual(['publickey']);
+      const packet: Buffer = encrypt.mock.calls[0][0];
+      expect(packet.subarray(0, request.length).equals(request)).toBe(true);
+
+      const signatureBlob = packet.subarray(request.length + 4);
+      const algoLength = signatureBlob.readUInt32BE(0);
+      expect(signatureBlob.subarray(4, 4 + algoLength).toString()).toBe('ssh-ed25519');
+      const signature = signatureBlob.subarray(8 + algoLength);
+      const verifier = createPublicKey(utils.parseKey(publicKey).getPublicPEM() as string);
+      expect(verify(null, Buffer.concat([sshString(sessionId), request]), verifier, signature)).toBe(true);
+    });
+
+    it('should pass other keys through unchanged', () => {
+      const { client, protocol, authPK } = createFakeClient();
+      const plainKey = { type: 'ssh-ed25519' } as any;
+
+      enableCertificateAuth(client);
+      protocol.authPK('alice', plainKey, 'ssh-ed25519');
+
+      expect(authPK).toHaveBeenCalledWith('alice', plainKey, 'ssh-ed25519', undefined);
+    });
+
+    it('should fail the connection instead of throwing when the signature cannot be converted', async () => {
+      const { privateKey, certificateLine } = generateCertifiedEcdsaKey();
+      const file = path.join(tmpDir, 'cert.pub');
+      await fs.writeFile(file, certificateLine);
+      const key = createCertificateKey(privateKey, undefined, await loadUserCertificate(file));
+      const { client, protocol, authPK, encrypt } = createFakeClient();
+      authPK.mockImplementation((_user: string, _key: unknown, _algo: string, cbSign: Function) => {
+        cbSign(Buffer.concat([sshString(Buffer.alloc(32)), Buffer.from('request')]), () => undefined);
+      });
+
+      enableCertificateAuth(client);
+      expect(() => protocol.authPK('alice', key, undefined, (_data: Buffer, cb: (signature: Buffer) => void) => {
+        cb(Buffer.from([0x30, 0x03, 0x02, 0x01]));
+      })).not.toThrow();
+
+      expect(client.emit).toHaveBeenCalledWith('error', expect.any(SSHError));
+      expect(client.emit.mock.calls[0][1].message).toContain('cannot convert the ecdsa-sha2-nistp256 signature');
+      expect(client.end).toHaveBeenCalled();
+      expect(encrypt).not.toHaveBeenCalled();
+      expect(protocol._authsQueue).toEqual([]);
+    });
+
+    it('should throw an SSHError naming the ssh2 versions when the internals have changed', () => {
+      const { client, protocol } = createFakeClient();
+      delete (protocol as any)._packetRW;
+
+      expect(() => enableCertificateAuth(client)).toThrow(SSHError);
+      expect(() => enableCertificateAuth(client)).toThrow(/_packetRW.*installed ssh2 \S+, tested with 1\.17\.x/);
+      expect(() => enableCertificateAuth({} as any)).toThrow('the client has no _protocol');
+    });
+  });
+
+  describe('isTestedSSH2Version', () => {
+    it('should accept releases of the tested line only', () => {
+      expect(isTestedSSH2Version('1.17.0')).toBe(true);
+      expect(isTestedSSH2Version('1.17.3')).toBe(true);
+      expect(isTestedSSH2Version('1.18.0')).toBe(false);
+      expect(isTestedSSH2Version('1.1.7')).toBe(false);
+      expect(isTestedSSH2Version('2.0.0')).toBe(false);
+      expect(isTestedSSH2Version('unknown')).toBe(false);
+    });
+  });
+});
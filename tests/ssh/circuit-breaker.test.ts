@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker } from '../../src/ssh/circuit-breaker.js';
+import { SSHError } from '../../src/ssh/errors.js';
+
+describe('CircuitBreaker', () => {
+  let onStateChange: ReturnType<typeof vi.fn>;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    onStateChange = vi.fn();
+    breaker = new CircuitBreaker('db.internal:22', 3, 60000, onStateChange);
+  });
+
+  afterEach(() => {
+    breaker.dispose();
+    vi.useRealTimers();
+  });
+
+  it('should stay closed below the failure threshold', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(() => breaker.beforeAttempt()).not.toThrow();
+  });
+
+  it('should reset the failure count on success', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should open at the threshold and fail fast with an SSHError', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(onStateChange).toHaveBeenCalledWith('closed', 'open', 3);
+    expect(() => breaker.beforeAttempt()).toThrow(SSHError);
+    expect(() => breaker.beforeAttempt()).toThrow(
+      'Circuit breaker open: db.internal:22 failed 3 times in a row, next attempt allowed after 2026-01-01T00:01:00.000Z'
+    );
+  });
+
+  it('should half-open after the reset timeout and let a single trial through', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure();
+    }
+
+    vi.advanceTimersByTime(60000);
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(onStateChange).toHaveBeenLastCalledWith('open', 'half-open', 3);
+    expect(() => breaker.beforeAttempt()).not.toThrow();
+    expect(() => breaker.beforeAttempt()).toThrow('Circuit breaker open');
+  });
+
+  it('should close after a successful trial', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure();
+    }
+    vi.advanceTimersByTime(60000);
+
+    breaker.beforeAttempt();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(onStateChange).toHaveBeenLastCalledWith('half-open', 'closed', 0);
+  });
+
+  it('should reopen after a failed trial', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure();
+    }
+    vi.advanceTimersByTime(60000);
+
+    breaker.beforeAttempt();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(onStateChange).toHaveBeenLastCalledWith('half-open', 'open', 4);
+  });
+
+  it('should let another caller make the trial after an aborted attempt', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure();
+    }
+    vi.advanceTimersByTime(60000);
+
+    breaker.beforeAttempt();
+    breaker.abortAttempt();
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(() => breaker.beforeAttempt()).not.toThrow();
+  });
+});
@@ -1,10 +1,52 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ConnectionPool } from '../../src/ssh/connection-pool.js';
-import { SSHError } from '../../src/ssh/errors.js';
-import { Client } from 'ssh2';
-
-vi.mock('ssh2');
+import { SSHError, HostKeyVerificationError } from '../../src/ssh/errors.js';
+import { Client, utils } from 'ssh2';
+import { computeFingerprint } from '../../src/ssh/keys.js';
+import { AuditEvent } from '../../src/security/audit.js';
+import { ed25519Key, makeEd25519Key, buildCertificate } from '../helpers/ssh-keys.js';
+import { openProxySocket } from '../../src/ssh/proxy.js';
+import { resolveHostAddress, connectSocket } from '../../src/ssh/diagnostics.js';
+
+vi.mock('ssh2', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('ssh2')>();
+  return { ...actual, Client: vi.fn(), utils: { ...actual.utils, parseKey: vi.fn() } };
+});
 vi.mock('fs/promises');
+vi.mock('../../src/ssh/proxy.js', () => ({
+  openProxySocket: vi.fn(async (_proxy: unknown, host: string, port: number) => ({ proxiedTo: `${host}:${port}`, destroy: vi.fn() })),
+}));
+vi.mock('../../src/ssh/diagnostics.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/ssh/diagnostics.js')>(),
+  resolveHostAddress: vi.fn(async () => '192.0.2.10'),
+  connectSocket: vi.fn(async () => ({ destroy: vi.fn() })),
+}));
+
+/**
+ * Make every new ssh2 client connect straight away, returning the clients created
+ */
+function connectInstantly() {
+  const clients: any[] = [];
+  vi.mocked(Client).mockImplementation(() => {
+    const handlers: Record<string, Function> = {};
+    const client: any = {
+      connect: vi.fn(),
+      end: vi.fn(() => handlers.close?.()),
+      on: vi.fn((event: string, handler: Function) => {
+        handlers[event] = handler;
+        if (event === 'ready') {
+          process.nextTick(() => handler());
+        }
+        return client;
+      }),
+      once: vi.fn(),
+      removeAllListeners: vi.fn(),
+    };
+    clients.push(client);
+    return client;
+  });
+  return clients;
+}
 
 describe('ConnectionPool', () => {
   let pool: ConnectionPool;
@@ -17,6 +59,7 @@ describe('ConnectionPool', () => {
       end: vi.fn(),
       on: vi.fn(),
       once: vi.fn(),
+      removeAllListeners: vi.fn(),
     };
     vi.mocked(Client).mockImplementation(() => mockClient);
   });
@@ -153,6 +196,7 @@ describe('ConnectionPool', () => {
           return mockClient2;
         }),
         once: vi.fn(),
+        removeAllListeners: vi.fn(),
       };
       vi.mocked(Client).mockImplementation(() => mockClient2);
 
@@ -173,6 +217,8 @@ describe('ConnectionPool', () => {
 
       await expect(pool.getConnection('host1', 'user1', '/key1', 22))
         .rejects.toThrow('Connection timeout');
+      expect(mockClient.removeAllListeners).toHaveBeenCalled();
+      expect(mockClient.end).toHaveBeenCalled();
     }, 35000);
 
     it('should handle connection error', async () => {
@@ -222,6 +268,7 @@ describe('ConnectionPool', () => {
           return mockClient2;
         }),
         once: vi.fn(),
+        removeAllListeners: vi.fn(),
       };
       vi.mocked(Client).mockImplementation(() => mockClient2);
 
@@ -254,6 +301,7 @@ describe('ConnectionPool', () => {
           return mockClient2;
         }),
         once: vi.fn(),
+        removeAllListeners: vi.fn(),
       };
       vi.mocked(Client).mockImplementation(() => mockClient2);
 
@@ -369,6 +417,7 @@ describe('ConnectionPool', () => {
           return mockClient2;
         }),
         once: vi.fn(),
+        removeAllListeners: vi.fn(),
       };
       vi.mocked(Client).mockImplementation(() => mockClient2);
 
@@ -378,54 +427,1342 @@ describe('ConnectionPool', () => {
   });
 
   describe('Connection Limits', () => {
-    it('should enforce max connections per host limit', async () => {
+    beforeEach(async () => {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockResolvedValue(Buffer.from('fake-key'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should count the per-host limit per host, not across the pool', async () => {
+      pool = new ConnectionPool({ maxConnectionsPerHost: 2 });
+      connectInstantly();
+
+      await pool.getConnection('host1', 'user1', '/key1', 22);
+      await pool.getConnection('host1', 'user2', '/key1', 22);
+      pool.retainConnection(pool.getConnectionKey('host1', 'user1', 22));
+      pool.retainConnection(pool.getConnectionKey('host1', 'user2', 22));
+      await pool.getConnection('host2', 'user1', '/key1', 22);
+
+      expect(pool.getHostConnectionCount('host1', 22)).toBe(2);
+      expect(pool.getHostConnectionCount('host2', 22)).toBe(1);
+      await expect(pool.getConnection('host1', 'user3', '/key1', 22))
+        .rejects.toThrow('Connection limit reached: all 2 connections to host1:22 are in use');
+      await expect(pool.getConnection('host1', 'user3', '/key1', 22)).rejects.toThrow(SSHError);
+    });
+
+    it('should count connections still being established in the per-host limit', async () => {
+      pool = new ConnectionPool({ maxConnectionsPerHost: 2 });
+      const clients = connectInstantly();
+
+      const results = await Promise.allSettled([
+        pool.getConnection('host1', 'user1', '/key1', 22),
+        pool.getConnection('host1', 'user2', '/key1', 22),
+        pool.getConnection('host1', 'user3', '/key1', 22),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected']);
+      expect((results[2] as PromiseRejectedResult).reason.message)
+        .toBe('Connection limit reached: all 2 connections to host1:22 are in use');
+      expect(clients).toHaveLength(2);
+      expect(pool.getHostConnectionCount('host1', 22)).toBe(2);
+    });
+
+    it('should count connections still being established in the pool limit', async () => {
+      pool = new ConnectionPool({ maxConnections: 2 });
+      connectInstantly();
+
+      const results = await Promise.allSettled([
+        pool.getConnection('host1', 'user1', '/key1', 22),
+        pool.getConnection('host2', 'user1', '/key1', 22),
+        pool.getConnection('host3', 'user1', '/key1', 22),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected']);
+      expect((results[2] as PromiseRejectedResult).reason.message)
+        .toBe('Connection limit reached: all 2 pooled connections are in use');
+      expect(pool.getConnectionCount()).toBe(2);
+    });
+
+    it('should evict the least recently used idle connection when the pool is full', async () => {
+      pool = new ConnectionPool({ maxConnections: 3 });
+      const clients = connectInstantly();
+
+      await pool.getConnection('host1', 'user1', '/key1', 22);
+      await pool.getConnection('host2', 'user1', '/key1', 22);
+      await pool.getConnection('host3', 'user1', '/key1', 22);
+      // Reusing host1 makes host2 the least recently used
+      await pool.getConnection('host1', 'user1', '/key1', 22);
+
+      await pool.getConnection('host4', 'user1', '/key1', 22);
+
+      expect(clients[1].end).toHaveBeenCalled();
+      expect(clients[0].end).not.toHaveBeenCalled();
+      expect(pool.getConnectionInfo('host2', 'user1', 22)).toBeUndefined();
+      expect(pool.getConnectionCount()).toBe(3);
+    });
+
+    it('should never evict retained connections', async () => {
+      pool = new ConnectionPool({ maxConnections: 2 });
+      const clients = connectInstantly();
+
+      await pool.getConnection('host1', 'user1', '/key1', 22);
+      await pool.getConnection('host2', 'user1', '/key1', 22);
+      pool.retainConnection(pool.getConnectionKey('host1', 'user1', 22));
+      pool.retainConnection(pool.getConnectionKey('host2', 'user1', 22));
+
+      await expect(pool.getConnection('host3', 'user1', '/key1', 22))
+        .rejects.toThrow('Connection limit reached: all 2 pooled connections are in use');
+      expect(clients[0].end).not.toHaveBeenCalled();
+      expect(clients[1].end).not.toHaveBeenCalled();
+
+      pool.releaseConnection(pool.getConnectionKey('host2', 'user1', 22));
+      await pool.getConnection('host3', 'user1', '/key1', 22);
+
+      expect(clients[1].end).toHaveBeenCalled();
+      expect(pool.getConnectionInfo('host1', 'user1', 22)?.connected).toBe(true);
+    });
+
+    it('should not evict a jump host while connections are tunnelled through it', async () => {
+      pool = new ConnectionPool({ maxConnections: 3 });
+      const clients = connectInstantly();
+      const implementation = vi.mocked(Client).getMockImplementation()!;
+      vi.mocked(Client).mockImplementation(() => {
+        const client = implementation();
+        client.forwardOut = vi.fn((_srcIP, _srcPort, _dstIP, _dstPort, cb) => cb(undefined, { destroy: vi.fn() }));
+        return client;
+      });
+
+      await pool.getConnection('target', 'deploy', '/key1', 22, {
+        jumpHosts: [{ host: 'bastion', username: 'admin', privateKeyPath: '/key' }],
+      });
+      pool.retainConnection(pool.getConnectionKey('target', 'deploy', 22, [{ host: 'bastion', username: 'admin' }]));
+      await pool.getConnection('host1', 'user1', '/key1', 22);
+      await pool.getConnection('host2', 'user1', '/key1', 22);
+
+      // clients: bastion, target, host1, host2
+      expect(clients[0].end).not.toHaveBeenCalled();
+      expect(clients[2].end).toHaveBeenCalled();
+    });
+
+    it('should close connections that stay idle for the idle timeout', async () => {
+      vi.useFakeTimers();
+      pool = new ConnectionPool({ idleTimeout: 1000 });
+      const clients = connectInstantly();
+
+      const connecting = pool.getConnection('host1', 'user1', '/key1', 22);
+      await vi.advanceTimersByTimeAsync(0);
+      await connecting;
+      await vi.advanceTimersByTimeAsync(999);
+      expect(clients[0].end).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(clients[0].end).toHaveBeenCalled();
+      expect(pool.getConnectionCount()).toBe(0);
+    });
+
+    it('should not close retained connections when idle and restart the timeout on release', async () => {
+      vi.useFakeTimers();
+      pool = new ConnectionPool({ idleTimeout: 1000 });
+      const clients = connectInstantly();
+      const connectionKey = pool.getConnectionKey('host1', 'user1', 22);
+
+      const connecting = pool.getConnection('host1', 'user1', '/key1', 22);
+      await vi.advanceTimersByTimeAsync(0);
+      await connecting;
+      pool.retainConnection(connectionKey);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(clients[0].end).not.toHaveBeenCalled();
+
+      pool.releaseConnection(connectionKey);
+      await vi.advanceTimersByTimeAsync(999);
+      expect(clients[0].end).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1);
+      expect(clients[0].end).toHaveBeenCalled();
+    });
+  });
+
+  describe('Private Key Passphrase', () => {
+    beforeEach(async () => {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockResolvedValue(Buffer.from('fake-key'));
+    });
+
+    it('should pass the passphrase to the SSH client', async () => {
+      mockClient.on.mockImplementation((event: string, handler: Function) => {
+        if (event === 'ready') {
+          process.nextTick(() => handler());
+        }
+        return mockClient;
+      });
+
+      await pool.getConnection('host1', 'user1', '/key1', 22, { passphrase: 'secret' });
+
+      expect(mockClient.connect.mock.calls[0][0].passphrase).toBe('secret');
+    });
+
+    it('should not set a passphrase when none is given', async () => {
+      mockClient.on.mockImplementation((event: string, handler: Function) => {
+        if (event === 'ready') {
+          process.nextTick(() => handler());
+        }
+        return mockClient;
+      });
+
+      await pool.getConnection('host1', 'user1', '/key1', 22);
+
+      expect(mockClient.connect.mock.calls[0][0]).not.toHaveProperty('passphrase');
+    });
+
+    it('should reject with SSHError when the private key cannot be decrypted', async () => {
+      mockClient.connect.mockImplementation(() => {
+        throw new Error('Encrypted private OpenSSH key detected, but no passphrase given');
+      });
+
+      const error = await pool.getConnection('host1', 'user1', '/key1', 22).catch(e => e);
+
+      expect(error).toBeInstanceOf(SSHError);
+      expect(error.message).toContain('Failed to load SSH private key from /key1');
+      expect(error.message).toContain('no passphrase given');
+      expect(pool.getConnectionCount()).toBe(0);
+    });
+  });
+
+  describe('Algorithms', () => {
+    const negotiated = {
+      kex: 'curve25519-sha256',
+      serverHostKey: 'ssh-ed25519',
+      cs: { cipher: 'aes256-gcm@openssh.com', mac: '', compress: 'none', lang: '' },
+      sc: { cipher: 'aes256-gcm@openssh.com', mac: '', compress: 'none', lang: '' },
+    };
+
+    beforeEach(async () => {
       const { readFile } = await import('fs/promises');
       vi.mocked(readFile).mockResolvedValue(Buffer.from('fake-key'));
+    });
+
+    it('should offer the configured algorithms and record the negotiated ones', async () => {
+      const handlers: Record<string, Function> = {};
+      mockClient.on.mockImplementation((event: string, handler: Function) => {
+        handlers[event] = handler;
+        if (event === 'ready') {
+          process.nextTick(() => {
+            handlers.handshake(negotiated);
+            handler();
+          });
+        }
+        return mockClient;
+      });
+      const algorithms = { kex: ['curve25519-sha256'], cipher: ['aes256-gcm@openssh.com'] } as any;
+
+      await pool.getConnection('host1', 'user1', '/key1', 22, { algorithms });
+
+      expect(mockClient.connect.mock.calls[0][0].algorithms).toEqual(algorithms);
+      expect(pool.getConnectionInfo('host1', 'user1', 22)?.algorithms).toEqual({
+        kex: 'curve25519-sha256',
+        hostKey: 'ssh-ed25519',
+        cipher: 'aes256-gcm@openssh.com',
+        mac: '',
+        compression: 'none',
+      });
+
+      // A rekey updates the pooled connection
+      handlers.handshake({ ...negotiated, kex: 'ecdh-sha2-nistp256' });
+      expect(pool.getConnectionInfo('host1', 'user1', 22)?.algorithms?.kex).toBe('ecdh-sha2-nistp256');
+    });
+
+    it('should reject unsupported algorithm names as invalid arguments', async () => {
+      mockClient.connect.mockImplementation(() => {
+        throw new Error('Unsupported algorithm: arcfour512');
+      });
+
+      await expect(pool.getConnection('host1', 'user1', '/key1', 22, { algorithms: { cipher: ['arcfour512'] } as any }))
+        .rejects.toThrow('Invalid arguments: Unsupported algorithm: arcfour512 for host1:22');
+    });
+  });
 
+  describe('Agent Authentication', () => {
+    beforeEach(() => {
       mockClient.on.mockImplementation((event: string, handler: Function) => {
         if (event === 'ready') {
           process.nextTick(() => handler());
         }
         return mockClient;
       });
+    });
+
+    it('should connect with an agent and no private key', async () => {
+      const { readFile } = await import('fs/promises');
+
+      await pool.getConnection('host1', 'user1', undefined, 22, { agent: '/tmp/agent.sock' });
+
+      const config = mockClient.connect.mock.calls[0][0];
+      expect(config.agent).toBe('/tmp/agent.sock');
+      expect(config.agentForward).toBe(false);
+      expect(config).not.toHaveProperty('privateKey');
+      expect(readFile).not.toHaveBeenCalled();
+    });
+
+    it('should enable agent forwarding when requested', async () => {
+      await pool.getConnection('host1', 'user1', undefined, 22, { agent: '/tmp/agent.sock', agentForward: true });
+
+      expect(mockClient.connect.mock.calls[0][0].agentForward).toBe(true);
+    });
+
+    it('should reject agent forwarding without an agent', async () => {
+      await expect(pool.getConnection('host1', 'user1', '/key1', 22, { agentForward: true }))
+        .rejects.toThrow('agent forwarding requires an SSH agent');
+    });
+
+    it('should require a private key when no agent is given', async () => {
+      await expect(pool.getConnection('host1', 'user1', undefined, 22))
+        .rejects.toThrow('Null or undefined arguments');
+    });
+  });
+
+  describe('Password Authentication', () => {
+    let handlers: Record<string, Function>;
+
+    beforeEach(() => {
+      handlers = {};
+      mockClient.on.mockImplementation((event: string, handler: Function) => {
+        handlers[event] = handler;
+        return mockClient;
+      });
+    });
+
+    /**
+     * Drive the configured auth handler the way ssh2 does and return the methods it offers
+     */
+    function runAuthHandler(config: any, methodsLeft: Array<string[] | null>): Array<string | false> {
+      return methodsLeft.map(left => {
+        let chosen: string | false = false;
+        config.authHandler(left, false, (method: string | false) => {
+          chosen = method;
+        });
+        return chosen;
+      });
+    }
+
+    it('should connect with a password and record the method that succeeded', async () => {
+      mockClient.connect.mockImplementation((config: any) => {
+        runAuthHandler(config, [null]);
+        process.nextTick(() => handlers.ready());
+      });
+
+      await pool.getConnection('switch1', 'admin', undefined, 22, { password: 'secret' });
+
+      const config = mockClient.connect.mock.calls[0][0];
+      expect(config.password).toBe('secret');
+      expect(config.tryKeyboard).toBe(false);
+      expect(pool.getConnectionInfo('switch1', 'admin', 22)?.authMethod).toBe('password');
+    });
+
+    it('should try key, agent, password and keyboard-interactive in order', async () => {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockResolvedValue(Buffer.from('fake-key'));
+      let offered: Array<string | false> = [];
+      mockClient.connect.mockImplementation((config: any) => {
+        offered = runAuthHandler(config, [null, ['publickey', 'password', 'keyboard-interactive'],
+          ['password', 'keyboard-interactive'], ['keyboard-interactive'], ['keyboard-interactive']]);
+        process.nextTick(() => handlers.ready());
+      });
+
+      await pool.getConnection('switch1', 'admin', '/key1', 22, {
+        agent: '/tmp/agent.sock',
+        password: 'secret',
+        keyboardInteractive: true,
+      });
+
+      expect(offered).toEqual(['publickey', 'agent', 'password', 'keyboard-interactive', false]);
+      expect(pool.getConnectionInfo('switch1', 'admin', 22)?.authMethod).toBe('keyboard-interactive');
+    });
+
+    it('should skip methods the server does not accept', async () => {
+      let offered: Array<string | false> = [];
+      mockClient.connect.mockImplementation((config: any) => {
+        offered = runAuthHandler(config, [['keyboard-interactive']]);
+        process.nextTick(() => handlers.ready());
+      });
+
+      await pool.getConnection('switch1', 'admin', undefined, 22, { password: 'secret', keyboardInteractive: true });
+
+      expect(offered).toEqual(['keyboard-interactive']);
+    });
+
+    it('should answer keyboard-interactive prompts with the password', async () => {
+      mockClient.connect.mockImplementation(() => {
+        process.nextTick(() => handlers.ready());
+      });
+
+      await pool.getConnection('switch1', 'admin', undefined, 22, { password: 'secret', keyboardInteractive: true });
+
+      const finish = vi.fn();
+      handlers['keyboard-interactive']('', '', '', [{ prompt: 'Password: ', echo: false }], finish);
+      expect(finish).toHaveBeenCalledWith(['secret']);
+    });
+  });
+
+  describe('Certificate Authentication', () => {
+    let handlers: Record<string, Function>;
+    const certifiedKey = makeEd25519Key(2);
+
+    function certificateLine(validBefore: bigint = 0xffffffffffffffffn): string {
+      const certificate = buildCertificate({ principals: ['deploy'], validBefore });
+      return `ssh-ed25519-cert-v01@openssh.com ${certificate.toString('base64')}`;
+    }
+
+    async function mockFiles(files: Record<string, string>) {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockImplementation(async (file: any) => {
+        if (file in files) {
+          return files[file] as any;
+        }
+        if (file === '/key1') {
+          return Buffer.from('fake-key') as any;
+        }
+        throw Object.assign(new Error(`ENOENT: ${file}`), { code: 'ENOENT' });
+      });
+    }
+
+    beforeEach(() => {
+      handlers = {};
+      mockClient.on.mockImplementation((event: string, handler: Function) => {
+        handlers[event] = handler;
+        return mockClient;
+      });
+      vi.mocked(utils.parseKey).mockReturnValue({
+        type: 'ssh-ed25519',
+        getPublicSSH: () => certifiedKey,
+      } as any);
+      mockClient._protocol = {
+        authPK: vi.fn(),
+        _authsQueue: [],
+        _packetRW: { write: { allocStart: 0, alloc: vi.fn(), finalize: vi.fn() } },
+      };
+    });
+
+    it('should offer a certificate found next to the private key first', async () => {
+      await mockFiles({ '/key1-cert.pub': certificateLine() });
+      let offered: any;
+      mockClient.connect.mockImplementation((config: any) => {
+        config.authHandler(null, false, (method: any) => {
+          offered = method;
+        });
+        process.nextTick(() => handlers.ready());
+      });
+
+      await pool.getConnection('host1', 'user1', '/key1', 22);
+
+      expect(offered.type).toBe('publickey');
+      expect(offered.key.getPublicSSH().equals(buildCertificate({ principals: ['deploy'] }))).toBe(true);
+      const info = pool.getConnectionInfo('host1', 'user1', 22);
+      expect(info?.authMethod).toBe('certificate');
+      expect(info?.certificate?.principals).toEqual(['deploy']);
+    });
+
+    it('should use the private key alone when there is no certificate', async () => {
+      await mockFiles({});
+      let offered: any;
+      mockClient.connect.mockImplementation((config: any) => {
+        config.authHandler(null, false, (method: any) => {
+          offered = method;
+        });
+        process.nextTick(() => handlers.ready());
+      });
+
+      await pool.getConnection('host1', 'user1', '/key1', 22);
+
+      expect(offered).toBe('publickey');
+      expect(pool.getConnectionInfo('host1', 'user1', 22)?.certificate).toBeUndefined();
+    });
+
+    it('should refuse an expired configured certificate with an SSHError', async () => {
+      await mockFiles({ '/certs/user-cert.pub': certificateLine(1000n) });
+
+      const error = await pool.getConnection('host1', 'user1', '/key1', 22, { certificatePath: '/certs/user-cert.pub' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(SSHError);
+      expect(error.message).toContain('SSH certificate is not valid: /certs/user-cert.pub expired at 1970-01-01T00:16:40.000Z');
+      expect(mockClient.connect).not.toHaveBeenCalled();
+    });
+
+    it('should skip an expired certificate found next to the key with a warning', async () => {
+      await mockFiles({ '/key1-cert.pub': certificateLine(1000n) });
+      const auditLogger = { logEvent: vi.fn() } as any;
+      pool.setAuditLogger(auditLogger);
+      let offered: any;
+      mockClient.connect.mockImplementation((config: any) => {
+        config.authHandler(null, false, (method: any) => {
+          offered = method;
+        });
+        process.nextTick(() => handlers.ready());
+      });
+
+      await pool.getConnection('host1', 'user1', '/key1', 22);
+
+      expect(offered).toBe('publickey');
+      expect(pool.getConnectionInfo('host1', 'user1', 22)?.certificate).toBeUndefined();
+      expect(auditLogger.logEvent).toHaveBeenCalledWith(AuditEvent.CERTIFICATE_SKIPPED, {
+        target: 'host1:22',
+        username: 'user1',
+        certificatePath: '/key1-cert.pub',
+        error: expect.stringContaining('expired at 1970-01-01T00:16:40.000Z'),
+      });
+    });
+
+    it('should fail with a clear error when the ssh2 internals have changed', async () => {
+      await mockFiles({ '/key1-cert.pub': certificateLine() });
+      delete mockClient._protocol._authsQueue;
+      mockClient.connect.mockImplementation(() => {});
+
+      const error = await pool.getConnection('host1', 'user1', '/key1', 22).catch(e => e);
+
+      expect(error).toBeInstanceOf(SSHError);
+      expect(error.message).toContain('SSH certificate authentication is not supported by this ssh2 version');
+      expect(error.message).toContain('_authsQueue');
+      expect(mockClient.end).toHaveBeenCalled();
+    });
+
+    it('should fail when a configured certificate is missing', async () => {
+      await mockFiles({});
+
+      await expect(pool.getConnection('host1', 'user1', '/key1', 22, { certificatePath: '/certs/user-cert.pub' }))
+        .rejects.toThrow('Failed to read SSH certificate from /certs/user-cert.pub');
+    });
+  });
+
+  describe('Channel Scheduling', () => {
+    beforeEach(async () => {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockResolvedValue(Buffer.from('fake-key'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should queue channels beyond the limit and hand them over in order', async () => {
+      pool = new ConnectionPool({ maxChannelsPerConnection: 2 });
+      const clients = connectInstantly();
+      const first = await pool.acquireChannel('host1', 'user1', '/key1', 22);
+      await pool.acquireChannel('host1', 'user1', '/key1', 22);
+
+      const granted: string[] = [];
+      const third = pool.acquireChannel('host1', 'user1', '/key1', 22).then((lease) => {
+        granted.push('third');
+        return lease;
+      });
+      const fourth = pool.acquireChannel('host1', 'user1', '/key1', 22).then((lease) => {
+        granted.push('fourth');
+        return lease;
+      });
+      await vi.waitFor(() => expect(pool.getChannelQueueLength('host1', 'user1', 22)).toBe(2));
+
+      first.release();
+      first.release();
+      const lease = await third;
+
+      expect(granted).toEqual(['third']);
+      expect(lease.client).toBe(clients[0]);
+      expect(lease.queueWait).toBeGreaterThanOrEqual(0);
+      expect(pool.getChannelQueueLength('host1', 'user1', 22)).toBe(1);
+      expect(pool.getConnectionInfo('host1', 'user1', 22)?.openChannels).toBe(2);
+
+      lease.release();
+      await fourth;
+      expect(granted).toEqual(['third', 'fourth']);
+      expect(clients).toHaveLength(1);
+    });
+
+    it('should count leased channels as uses of the connection', async () => {
+      pool = new ConnectionPool({ maxChannelsPerConnection: 2 });
+      connectInstantly();
+
+      const lease = await pool.acquireChannel('host1', 'user1', '/key1', 22);
+      expect(pool.getConnectionInfo('host1', 'user1', 22)?.refCount).toBe(1);
+
+      lease.release();
+      expect(pool.getConnectionInfo('host1', 'user1', 22)).toMatchObject({ refCount: 0, openChannels: 0 });
+    });
+
+    it('should fail with SSHError when no channel frees up in time', async () => {
+      pool = new ConnectionPool({ maxChannelsPerConnection: 1 });
+      connectInstantly();
+      await pool.acquireChannel('host1', 'user1', '/key1', 22);
+
+      await expect(pool.acquireChannel('host1', 'user1', '/key1', 22, {}, 20))
+        .rejects.toThrow('Timed out waiting for an SSH channel: all 1 channels to host1:22 stayed in use');
+      expect(pool.getChannelQueueLength('host1', 'user1', 22)).toBe(0);
+    });
+
+    it('should spill onto a second connection when enabled', async () => {
+      pool = new ConnectionPool({ maxChannelsPerConnection: 1, channelSpillover: true });
+      const clients = connectInstantly();
 
-      // Create connections up to the limit (10)
-      const promises = [];
-      for (let i = 1; i <= 10; i++) {
-        const client = {
-          connect: vi.fn(),
-          end: vi.fn(),
+      const first = await pool.acquireChannel('host1', 'user1', '/key1', 22);
+      const second = await pool.acquireChannel('host1', 'user1', '/key1', 22);
+
+      expect(first.client).toBe(clients[0]);
+      expect(second.client).toBe(clients[1]);
+      expect(second.connectionKey).toBe('ssh-user1@host1:22#2');
+      expect(second.queueWait).toBe(0);
+      expect(pool.getConnectionInfoByKey(second.connectionKey)?.client).toBe(clients[1]);
+      expect(pool.getHostConnectionCount('host1', 22)).toBe(2);
+    });
+
+    it('should queue instead of spilling over past the per-host connection limit', async () => {
+      pool = new ConnectionPool({ maxChannelsPerConnection: 1, channelSpillover: true, maxConnectionsPerHost: 1 });
+      const clients = connectInstantly();
+      const first = await pool.acquireChannel('host1', 'user1', '/key1', 22);
+
+      const second = pool.acquireChannel('host1', 'user1', '/key1', 22);
+      await vi.waitFor(() => expect(pool.getChannelQueueLength('host1', 'user1', 22)).toBe(1));
+      first.release();
+
+      expect((await second).client).toBe(clients[0]);
+      expect(clients).toHaveLength(1);
+    });
+
+    it('should share one connection between concurrent callers', async () => {
+      const clients = connectInstantly();
+
+      const leases = await Promise.all([
+        pool.acquireChannel('host1', 'user1', '/key1', 22),
+        pool.acquireChannel('host1', 'user1', '/key1', 22),
+        pool.acquireChannel('host1', 'user1', '/key1', 22),
+      ]);
+
+      expect(clients).toHaveLength(1);
+      expect(leases.map((lease) => lease.client)).toEqual([clients[0], clients[0], clients[0]]);
+      expect(pool.getConnectionInfo('host1', 'user1', 22)?.openChannels).toBe(3);
+    });
+  });
+
+  describe('Reconnect', () => {
+    let auditLogger: any;
+    let outcomes: Array<'ready' | Error>;
+    let clients: any[];
+
+    beforeEach(async () => {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockResolvedValue(Buffer.from('fake-key'));
+      vi.useFakeTimers();
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      auditLogger = { logEvent: vi.fn() };
+      outcomes = [];
+      clients = [];
+      // Each new client becomes ready or fails with the next outcome
+      vi.mocked(Client).mockImplementation(() => {
+        const outcome = outcomes.shift() ?? 'ready';
+        const handlers: Record<string, Function> = {};
+        const closeListeners: Function[] = [];
+        const client: any = {
+          handlers,
+          connect: vi.fn(() => process.nextTick(() => {
+            if (outcome === 'ready') {
+              handlers.ready();
+            } else {
+              handlers.error(outcome);
+            }
+          })),
+          end: vi.fn(() => {
+            handlers.close?.();
+            closeListeners.forEach((listener) => listener());
+          }),
           on: vi.fn((event: string, handler: Function) => {
-            if (event === 'ready') {
-              process.nextTick(() => handler());
+            handlers[event] = handler;
+            return client;
+          }),
+          once: vi.fn((event: string, handler: Function) => {
+            if (event === 'close') {
+              closeListeners.push(handler);
             }
             return client;
           }),
-          once: vi.fn(),
         };
-        vi.mocked(Client).mockImplementation(() => client as any);
-        promises.push(pool.getConnection(`host${i}`, 'user1', '/key1', 22));
+        clients.push(client);
+        return client;
+      });
+    });
+
+    afterEach(async () => {
+      await pool.disconnectAll();
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    /**
+     * Run a pool call to completion while advancing fake timers past the backoff delays
+     * but well short of the idle timeout
+     */
+    async function settle<T>(promise: Promise<T>): Promise<T> {
+      const result = promise.then((value) => ({ value }), (error) => ({ error }));
+      await vi.advanceTimersByTimeAsync(10000);
+      const outcome = await result as { value?: T; error?: unknown };
+      if ('error' in outcome) {
+        throw outcome.error;
       }
+      return outcome.value as T;
+    }
+
+    it('should reconnect a dropped connection with exponential backoff', async () => {
+      pool = new ConnectionPool({ reconnectAttempts: 3, reconnectInitialDelay: 1000 });
+      pool.setAuditLogger(auditLogger);
+      await settle(pool.getConnection('host1', 'user1', '/key1', 22));
+      clients[0].handlers.close();
+      outcomes.push(new Error('connect ECONNREFUSED'), new Error('connect ECONNREFUSED'));
+
+      const client = await settle(pool.getConnection('host1', 'user1', '/key1', 22));
+
+      expect(client).toBe(clients[3]);
+      expect(pool.getConnectionInfo('host1', 'user1', 22)?.connected).toBe(true);
+      const attempts = auditLogger.logEvent.mock.calls
+        .filter(([event]: [AuditEvent]) => event === AuditEvent.RECONNECT_ATTEMPT)
+        .map(([, data]: [AuditEvent, any]) => [data.attempt, data.delay]);
+      // Equal jitter with Math.random() = 0 waits half of 1000ms, then half of 2000ms
+      expect(attempts).toEqual([[1, 0], [2, 500], [3, 1000]]);
+    });
 
-      await Promise.all(promises);
-      expect(pool.getConnectionCount()).toBe(10);
+    it('should give up after the last reconnect attempt', async () => {
+      pool = new ConnectionPool({ reconnectAttempts: 2 });
+      await settle(pool.getConnection('host1', 'user1', '/key1', 22));
+      clients[0].handlers.close();
+      outcomes.push(new Error('connect ECONNREFUSED'), new Error('connect ETIMEDOUT'));
 
-      // Attempt to create 11th connection should fail
-      const client11 = {
-        connect: vi.fn(),
+      await expect(settle(pool.getConnection('host1', 'user1', '/key1', 22)))
+        .rejects.toThrow('Connection failed: host1:22: connect ETIMEDOUT');
+      expect(clients).toHaveLength(3);
+    });
+
+    it('should try a new connection only once', async () => {
+      pool = new ConnectionPool({ reconnectAttempts: 3 });
+      outcomes.push(new Error('connect ECONNREFUSED'));
+
+      await expect(settle(pool.getConnection('host1', 'user1', '/key1', 22)))
+        .rejects.toThrow('Connection failed: host1:22: connect ECONNREFUSED');
+      expect(clients).toHaveLength(1);
+    });
+
+    it('should retry a new connection when warming it', async () => {
+      pool = new ConnectionPool({ reconnectAttempts: 3 });
+      outcomes.push(new Error('connect ECONNREFUSED'), new Error('connect ECONNREFUSED'));
+
+      const client = await settle(pool.warmConnection('host1', 'user1', '/key1', 22));
+
+      expect(client).toBe(clients[2]);
+      expect(pool.getConnectionInfo('host1', 'user1', 22)?.connected).toBe(true);
+      // The warmed connection is the one later callers get
+      expect(await settle(pool.getConnection('host1', 'user1', '/key1', 22))).toBe(client);
+    });
+
+    it('should not retry authentication failures', async () => {
+      pool = new ConnectionPool({ reconnectAttempts: 3, circuitFailureThreshold: 1 });
+      await settle(pool.getConnection('host1', 'user1', '/key1', 22));
+      clients[0].handlers.close();
+      outcomes.push(Object.assign(new Error('All configured authentication methods failed'), { level: 'client-authentication' }));
+
+      await expect(settle(pool.getConnection('host1', 'user1', '/key1', 22)))
+        .rejects.toThrow('All configured authentication methods failed');
+      expect(clients).toHaveLength(2);
+      expect(pool.getCircuitState('host1', 22)).toBe('closed');
+    });
+
+    it('should mark a connection dropped when it errors after ready', async () => {
+      pool = new ConnectionPool();
+      pool.setAuditLogger(auditLogger);
+      await settle(pool.getConnection('host1', 'user1', '/key1', 22));
+
+      clients[0].handlers.error(new Error('Keepalive timeout'));
+
+      expect(pool.getConnectionInfo('host1', 'user1', 22)?.connected).toBe(false);
+      expect(auditLogger.logEvent).toHaveBeenCalledWith(AuditEvent.ERROR_OCCURRED, expect.objectContaining({
+        target: 'host1:22',
+        error: 'Keepalive timeout',
+        errorCode: 'CONNECTION_LOST',
+      }));
+    });
+
+    it('should fail fast once the circuit breaker opens and half-open after the reset timeout', async () => {
+      pool = new ConnectionPool({ circuitFailureThreshold: 2, circuitResetTimeout: 60000 });
+      pool.setAuditLogger(auditLogger);
+      outcomes.push(new Error('connect EHOSTUNREACH'), new Error('connect EHOSTUNREACH'));
+
+      await expect(settle(pool.getConnection('host1', 'user1', '/key1', 22))).rejects.toThrow('EHOSTUNREACH');
+      await expect(pool.getConnection('host1', 'user1', '/key1', 22)).rejects.toThrow('EHOSTUNREACH');
+      expect(pool.getCircuitState('host1', 22)).toBe('open');
+
+      await expect(pool.getConnection('host1', 'user2', '/key1', 22))
+        .rejects.toThrow('Circuit breaker open: host1:22 failed 2 times in a row');
+      expect(clients).toHaveLength(2);
+      expect(pool.getCircuitState('host2', 22)).toBe('closed');
+
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(pool.getCircuitState('host1', 22)).toBe('half-open');
+
+      await settle(pool.getConnection('host1', 'user1', '/key1', 22));
+      expect(pool.getCircuitState('host1', 22)).toBe('closed');
+
+      const transitions = auditLogger.logEvent.mock.calls
+        .filter(([event]: [AuditEvent]) => event === AuditEvent.CIRCUIT_STATE_CHANGED)
+        .map(([, data]: [AuditEvent, any]) => `${data.from}>${data.to}`);
+      expect(transitions).toEqual(['closed>open', 'open>half-open', 'half-open>closed']);
+    });
+  });
+
+  describe('Jump Hosts', () => {
+    let clients: any[];
+
+    /**
+     * Create a mock client that becomes ready on connect and can open tunnels
+     */
+    function createTunnelClient() {
+      const handlers: Record<string, Function> = {};
+      const client: any = {
+        handlers,
+        connect: vi.fn(() => process.nextTick(() => handlers.ready())),
         end: vi.fn(),
         on: vi.fn((event: string, handler: Function) => {
-          if (event === 'ready') {
-            process.nextTick(() => handler());
-          }
-          return client11;
+          handlers[event] = handler;
+          return client;
         }),
         once: vi.fn(),
+        removeAllListeners: vi.fn(),
+        forwardOut: vi.fn((_srcIP: string, _srcPort: number, dstIP: string, dstPort: number, cb: Function) => {
+          cb(undefined, { tunnelTo: `${dstIP}:${dstPort}` });
+        }),
       };
-      vi.mocked(Client).mockImplementation(() => client11 as any);
+      clients.push(client);
+      return client;
+    }
+
+    beforeEach(async () => {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockResolvedValue(Buffer.from('fake-key'));
+      clients = [];
+      vi.mocked(Client).mockImplementation(() => createTunnelClient());
+    });
+
+    it('should tunnel through each hop in order', async () => {
+      const client = await pool.getConnection('target', 'deploy', '/key', 22, {
+        jumpHosts: [
+          { host: 'bastion1', username: 'admin', privateKeyPath: '/bastion-key' },
+          { host: 'bastion2', port: 2222, privateKeyPath: '/key' },
+        ],
+      });
+
+      const [bastion1, bastion2, target] = clients;
+      expect(client).toBe(target);
+      expect(bastion1.connect.mock.calls[0][0]).toMatchObject({ host: 'bastion1', port: 22, username: 'admin' });
+      expect(bastion1.connect.mock.calls[0][0].sock).toBeUndefined();
+      expect(bastion1.forwardOut).toHaveBeenCalledWith('127.0.0.1', 0, 'bastion2', 2222, expect.any(Function));
+      expect(bastion2.connect.mock.calls[0][0]).toMatchObject({
+        host: 'bastion2',
+        port: 2222,
+        username: 'deploy',
+        sock: { tunnelTo: 'bastion2:2222' },
+      });
+      expect(bastion2.forwardOut).toHaveBeenCalledWith('127.0.0.1', 0, 'target', 22, expect.any(Function));
+      expect(target.connect.mock.calls[0][0].sock).toEqual({ tunnelTo: 'target:22' });
+      expect(pool.getConnectionCount()).toBe(3);
+    });
+
+    it('should key connections by the full chain', async () => {
+      const jumpHosts = [{ host: 'bastion', username: 'admin', privateKeyPath: '/bastion-key' }];
+      await pool.getConnection('target', 'deploy', '/key', 22, { jumpHosts });
+
+      expect(pool.getConnectionKey('target', 'deploy', 22, jumpHosts)).toBe('ssh-admin@bastion:22>deploy@target:22');
+      expect(pool.getConnectionInfo('target', 'deploy', 22, jumpHosts)?.parentKey).toBe('ssh-admin@bastion:22');
+      expect(pool.getConnectionInfo('target', 'deploy', 22)).toBeUndefined();
+      expect(pool.getConnectionInfo('bastion', 'admin', 22)?.connected).toBe(true);
+    });
+
+    it('should reuse the bastion and the chain', async () => {
+      const jumpHosts = [{ host: 'bastion', privateKeyPath: '/key' }];
+      const first = await pool.getConnection('target1', 'deploy', '/key', 22, { jumpHosts });
+      const again = await pool.getConnection('target1', 'deploy', '/key', 22, { jumpHosts });
+      await pool.getConnection('target2', 'deploy', '/key', 22, { jumpHosts });
+
+      expect(again).toBe(first);
+      expect(clients).toHaveLength(3);
+      expect(clients[0].forwardOut).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use each hop\'s own credentials and host key verification', async () => {
+      await pool.getConnection('target', 'deploy', '/key', 22, {
+        passphrase: 'target-passphrase',
+        jumpHosts: [{
+          host: 'bastion',
+          username: 'admin',
+          options: {
+            agent: '/tmp/agent.sock',
+            hostKeyVerification: { mode: 'fingerprint', fingerprints: [computeFingerprint(ed25519Key)] },
+          },
+        }],
+      });
+
+      const [bastion, target] = clients;
+      const bastionConfig = bastion.connect.mock.calls[0][0];
+      expect(bastionConfig.agent).toBe('/tmp/agent.sock');
+      expect(bastionConfig).not.toHaveProperty('privateKey');
+      expect(bastionConfig).not.toHaveProperty('passphrase');
+      expect(bastionConfig.hostVerifier).toBeDefined();
+      const targetConfig = target.connect.mock.calls[0][0];
+      expect(targetConfig.passphrase).toBe('target-passphrase');
+      expect(targetConfig.hostVerifier).toBeDefined();
+    });
+
+    it('should reject with SSHError when the bastion refuses the tunnel', async () => {
+      vi.mocked(Client).mockImplementation(() => {
+        const client = createTunnelClient();
+        client.forwardOut.mockImplementation((_a: string, _b: number, _c: string, _d: number, cb: Function) => {
+          cb(new Error('administratively prohibited'));
+        });
+        return client;
+      });
+
+      const error = await pool.getConnection('target', 'deploy', '/key', 22, {
+        jumpHosts: [{ host: 'bastion', privateKeyPath: '/key' }],
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(SSHError);
+      expect(error.message).toBe('Connection failed: target:22 via bastion:22: administratively prohibited');
+      expect(pool.getConnectionInfo('target', 'deploy', 22, [{ host: 'bastion' }])).toBeUndefined();
+    });
+
+    it('should require credentials for each hop', async () => {
+      await expect(pool.getConnection('target', 'deploy', '/key', 22, {
+        jumpHosts: [{ host: 'bastion' }],
+      })).rejects.toThrow('Null or undefined arguments');
+    });
+
+    it('should tear down dependent connections when a bastion closes', async () => {
+      const jumpHosts = [
+        { host: 'bastion1', privateKeyPath: '/key' },
+        { host: 'bastion2', privateKeyPath: '/key' },
+      ];
+      await pool.getConnection('target', 'deploy', '/key', 22, { jumpHosts });
+      const [bastion1, bastion2, target] = clients;
+
+      bastion1.handlers.close();
+
+      expect(bastion2.end).toHaveBeenCalled();
+      expect(target.end).toHaveBeenCalled();
+      expect(pool.getConnectionInfo('target', 'deploy', 22, jumpHosts)?.connected).toBe(false);
+      expect(pool.getConnectionInfo('bastion2', 'deploy', 22, jumpHosts.slice(0, 1))?.connected).toBe(false);
+    });
+
+    it('should leave unrelated connections open when a bastion closes', async () => {
+      await pool.getConnection('target', 'deploy', '/key', 22, {
+        jumpHosts: [{ host: 'bastion', privateKeyPath: '/key' }],
+      });
+      await pool.getConnection('other', 'deploy', '/key', 22);
+      const [bastion, , other] = clients;
+
+      bastion.handlers.close();
+
+      expect(other.end).not.toHaveBeenCalled();
+      expect(pool.getConnectionInfo('other', 'deploy', 22)?.connected).toBe(true);
+    });
+
+    it('should close a bastion and the connections tunnelled through it on request', async () => {
+      const jumpHosts = [{ host: 'bastion', privateKeyPath: '/key' }];
+      await pool.getConnection('target', 'deploy', '/key', 22, { jumpHosts });
+      await pool.getConnection('other', 'deploy', '/key', 22);
+      const bastionKey = pool.getConnectionKey('bastion', 'deploy', 22);
+      const targetKey = pool.getConnectionKey('target', 'deploy', 22, jumpHosts);
+
+      expect(pool.getConnectionTree(bastionKey)).toEqual([bastionKey, targetKey]);
+      expect(pool.disconnect(bastionKey)).toEqual([bastionKey, targetKey]);
+
+      expect(clients[0].end).toHaveBeenCalled();
+      expect(clients[1].end).toHaveBeenCalled();
+      expect(clients[2].end).not.toHaveBeenCalled();
+      expect(pool.listConnections().map(connection => connection.connectionKey)).toEqual(['ssh-deploy@other:22']);
+      expect(pool.disconnect(bastionKey)).toEqual([]);
+    });
+
+    it('should reconnect the chain after a bastion closed', async () => {
+      const jumpHosts = [{ host: 'bastion', privateKeyPath: '/key' }];
+      await pool.getConnection('target', 'deploy', '/key', 22, { jumpHosts });
+      clients[0].handlers.close();
+
+      const client = await pool.getConnection('target', 'deploy', '/key', 22, { jumpHosts });
+
+      expect(clients).toHaveLength(4);
+      expect(client).toBe(clients[3]);
+      expect(clients[2].forwardOut).toHaveBeenCalledWith('127.0.0.1', 0, 'target', 22, expect.any(Function));
+    });
+  });
+
+  describe('Proxy', () => {
+    beforeEach(async () => {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockResolvedValue(Buffer.from('fake-key'));
+      mockClient.on.mockImplementation((event: string, handler: Function) => {
+        if (event === 'ready') {
+          process.nextTick(() => handler());
+        }
+        return mockClient;
+      });
+      mockClient.forwardOut = vi.fn((_a: string, _b: number, host: string, port: number, cb: Function) => {
+        cb(undefined, { tunnelTo: `${host}:${port}` });
+      });
+    });
+
+    it('should connect over the proxy socket', async () => {
+      const proxy = { type: 'socks5' as const, host: 'proxy.corp', port: 1080 };
+
+      await pool.getConnection('host1', 'user1', '/key1', 22, { proxy });
+
+      expect(openProxySocket).toHaveBeenCalledWith(proxy, 'host1', 22, 'user1');
+      expect(mockClient.connect.mock.calls[0][0].sock).toMatchObject({ proxiedTo: 'host1:22' });
+    });
+
+    it('should dial directly without a proxy', async () => {
+      await pool.getConnection('host1', 'user1', '/key1', 22);
+
+      expect(openProxySocket).not.toHaveBeenCalled();
+      expect(mockClient.connect.mock.calls[0][0].sock).toBeUndefined();
+    });
+
+    it('should close the proxy socket when the SSH connection cannot be set up', async () => {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockRejectedValue(new Error('ENOENT'));
+
+      await expect(pool.getConnection('host1', 'user1', '/missing', 22, {
+        proxy: { type: 'command', command: 'nc %h %p' },
+      })).rejects.toThrow('Failed to read SSH private key');
+
+      const sock = await vi.mocked(openProxySocket).mock.results[0].value;
+      expect(sock.destroy).toHaveBeenCalled();
+    });
+
+    it('should only send the outermost jump host through the proxy', async () => {
+      const proxy = { type: 'command' as const, command: 'nc %h %p' };
+
+      await pool.getConnection('target', 'deploy', '/key', 22, {
+        jumpHosts: [{ host: 'bastion', privateKeyPath: '/key', options: { proxy } }],
+      });
+
+      expect(openProxySocket).toHaveBeenCalledTimes(1);
+      expect(openProxySocket).toHaveBeenCalledWith(proxy, 'bastion', 22, 'deploy');
+      expect(mockClient.connect.mock.calls[1][0].sock).toEqual({ tunnelTo: 'target:22' });
+    });
+  });
+
+  describe('listConnections', () => {
+    it('should report each pooled connection', async () => {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockResolvedValue(Buffer.from('fake-key'));
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+      mockClient.on.mockImplementation((event: string, handler: Function) => {
+        if (event === 'ready') {
+          process.nextTick(() => handler());
+        }
+        return mockClient;
+      });
+      mockClient.connect.mockImplementation((config: any) => {
+        config.debug("Remote ident: 'SSH-2.0-OpenSSH_9.6p1 Ubuntu-3ubuntu13'");
+        return mockClient;
+      });
+
+      try {
+        const lease = await pool.acquireChannel('host1', 'user1', '/key1', 22);
+        vi.setSystemTime(new Date('2026-03-01T10:05:00Z'));
+        lease.release();
+
+        expect(pool.listConnections()).toEqual([{
+          connectionKey: 'ssh-user1@host1:22',
+          host: 'host1',
+          port: 22,
+          username: 'user1',
+          connected: true,
+          createdAt: new Date('2026-03-01T10:00:00Z'),
+          lastUsed: new Date('2026-03-01T10:05:00Z'),
+          openChannels: 0,
+          refCount: 0,
+          parentKey: undefined,
+          serverVersion: 'OpenSSH_9.6p1',
+          authMethod: undefined,
+          algorithms: undefined,
+        }]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('Connection Test', () => {
+    const negotiated = {
+      kex: 'curve25519-sha256',
+      serverHostKey: 'ssh-ed25519',
+      cs: { cipher: 'aes256-gcm@openssh.com', mac: '', compress: 'none', lang: '' },
+      sc: { cipher: 'aes256-gcm@openssh.com', mac: '', compress: 'none', lang: '' },
+    };
+
+    /**
+     * Make the client run through a handshake the way ssh2 does, reporting to the configured hooks
+     */
+    function mockServer(acceptedMethod?: string) {
+      const handlers: Record<string, Function> = {};
+      mockClient.on.mockImplementation((event: string, handler: Function) => {
+        handlers[event] = handler;
+        return mockClient;
+      });
+      mockClient.connect.mockImplementation((config: any) => {
+        process.nextTick(() => {
+          config.debug("Remote ident: 'SSH-2.0-OpenSSH_9.6'");
+          config.hostVerifier(ed25519Key, (valid: boolean) => {
+            if (!valid) {
+              handlers.error(new Error('Host denied (verification failed)'));
+              return;
+            }
+            handlers.handshake(negotiated);
+            for (;;) {
+              let offered: any;
+              config.authHandler(null, false, (method: any) => {
+                offered = method;
+              });
+              if (offered === false) {
+                handlers.error(Object.assign(
+                  new Error('All configured authentication methods failed'),
+                  { level: 'client-authentication' }
+                ));
+                return;
+              }
+              if ((offered.type ?? offered) === acceptedMethod) {
+                handlers.ready();
+                return;
+              }
+            }
+          });
+        });
+      });
+    }
+
+    beforeEach(async () => {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockImplementation(async (file: any) => {
+        if (String(file).endsWith('known_hosts')) {
+          throw Object.assign(new Error(`ENOENT: ${file}`), { code: 'ENOENT' });
+        }
+        return Buffer.from('fake-key') as any;
+      });
+    });
+
+    it('should report every stage of a successful connection without pooling it', async () => {
+      mockServer('publickey');
+
+      const report = await pool.testConnection('host1', 'user1', '/key1', 22);
+
+      expect(report).toMatchObject({
+        target: 'host1:22',
+        username: 'user1',
+        success: true,
+        serverIdent: 'SSH-2.0-OpenSSH_9.6',
+        hostKeyFingerprint: computeFingerprint(ed25519Key),
+        algorithms: { kex: 'curve25519-sha256', hostKey: 'ssh-ed25519' },
+        authMethod: 'publickey',
+        circuitState: 'closed',
+      });
+      expect(report.failedStage).toBeUndefined();
+      expect(report.stages.map(stage => [stage.stage, stage.status, stage.detail])).toEqual([
+        ['dns', 'ok', '192.0.2.10'],
+        ['tcp', 'ok', '192.0.2.10:22'],
+        ['credentials', 'ok', 'publickey'],
+        ['banner', 'ok', 'SSH-2.0-OpenSSH_9.6'],
+        ['kex', 'ok', undefined],
+        ['host-key', 'ok', 'added'],
+        ['auth', 'ok', undefined],
+      ]);
+      expect(mockClient.connect.mock.calls[0][0].sock).toBeDefined();
+      expect(mockClient.end).toHaveBeenCalled();
+      expect(pool.getConnectionCount()).toBe(0);
+    });
+
+    it('should report each rejected authentication attempt', async () => {
+      mockServer();
+
+      const report = await pool.testConnection('host1', 'user1', '/key1', 22, { password: 'secret' });
+
+      expect(report.success).toBe(false);
+      expect(report.failedStage).toBe('auth');
+      expect(report.error).toContain('All configured authentication methods failed');
+      expect(report.stages.filter(stage => stage.stage === 'auth')).toEqual([
+        expect.objectContaining({ method: 'publickey', status: 'failed', error: 'rejected by the server' }),
+        expect.objectContaining({ method: 'password', status: 'failed' }),
+      ]);
+    });
+
+    it('should stop at the host key check when the key is not trusted', async () => {
+      mockServer('publickey');
+
+      const report = await pool.testConnection('host1', 'user1', '/key1', 22, {
+        hostKeyVerification: { mode: 'fingerprint', fingerprints: [computeFingerprint(makeEd25519Key(9))] },
+      });
+
+      expect(report.success).toBe(false);
+      expect(report.failedStage).toBe('host-key');
+      expect(report.error).toContain('which is not a pinned fingerprint');
+      expect(report.stages.map(stage => stage.stage)).not.toContain('auth');
+    });
+
+    it('should report a TCP failure without starting the SSH client', async () => {
+      vi.mocked(connectSocket).mockRejectedValueOnce(new SSHError('Connection failed: 192.0.2.10:22: connect ECONNREFUSED'));
+
+      const report = await pool.testConnection('host1', 'user1', '/key1', 22);
+
+      expect(report).toMatchObject({ success: false, failedStage: 'tcp', error: expect.stringContaining('ECONNREFUSED') });
+      expect(report.stages.map(stage => [stage.stage, stage.status])).toEqual([['dns', 'ok'], ['tcp', 'failed']]);
+      expect(Client).not.toHaveBeenCalled();
+    });
+
+    it('should report a missing private key as a credentials failure', async () => {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockRejectedValue(new Error('ENOENT'));
+
+      const report = await pool.testConnection('host1', 'user1', '/missing', 22);
+
+      expect(report.failedStage).toBe('credentials');
+      expect(report.error).toContain('Failed to read SSH private key from /missing');
+      const sock = await vi.mocked(connectSocket).mock.results[0].value;
+      expect(sock.destroy).toHaveBeenCalled();
+    });
+
+    it('should connect through the proxy instead of resolving the host', async () => {
+      mockServer('publickey');
+      const proxy = { type: 'socks5' as const, host: 'proxy.corp', port: 1080 };
+
+      const report = await pool.testConnection('host1', 'user1', '/key1', 22, { proxy });
+
+      expect(resolveHostAddress).not.toHaveBeenCalled();
+      expect(report.stages[0]).toMatchObject({ stage: 'proxy', status: 'ok', detail: 'socks5 proxy.corp:1080' });
+      expect(report.success).toBe(true);
+    });
+  });
+
+  describe('Host Key Verification', () => {
+    function mockHandshake(hostKey: Buffer) {
+      const handlers: Record<string, Function> = {};
+      mockClient.on.mockImplementation((event: string, handler: Function) => {
+        handlers[event] = handler;
+        return mockClient;
+      });
+      mockClient.connect.mockImplementation((config: any) => {
+        if (!config.hostVerifier) {
+          process.nextTick(() => handlers.ready());
+          return;
+        }
+        config.hostVerifier(hostKey, (valid: boolean) => {
+          if (valid) {
+            handlers.ready();
+          } else {
+            handlers.error(new Error('Host denied (verification failed)'));
+          }
+        });
+      });
+    }
+
+    beforeEach(async () => {
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockImplementation(async (file: any) => {
+        if (String(file).endsWith('known_hosts')) {
+          throw Object.assign(new Error(`ENOENT: ${file}`), { code: 'ENOENT' });
+        }
+        return Buffer.from('fake-key') as any;
+      });
+    });
+
+    it('should trust and record unknown hosts by default, auditing the accepted key', async () => {
+      const { appendFile } = await import('fs/promises');
+      const auditLogger = { logEvent: vi.fn() } as any;
+      pool.setAuditLogger(auditLogger);
+      mockHandshake(ed25519Key);
+
+      await pool.getConnection('host1', 'user1', '/key1', 22);
+
+      expect(appendFile).toHaveBeenCalledWith(
+        expect.stringContaining('known_hosts'),
+        expect.stringContaining('host1 ssh-ed25519 '),
+        expect.anything()
+      );
+      expect(auditLogger.logEvent).toHaveBeenCalledWith(AuditEvent.HOST_KEY_ACCEPTED, {
+        target: 'host1:22',
+        username: 'user1',
+        mode: 'accept-new',
+        status: 'added',
+        fingerprint: computeFingerprint(ed25519Key),
+      });
+    });
+
+    it('should accept any host key with verification off, auditing the accepted key', async () => {
+      const { appendFile } = await import('fs/promises');
+      const auditLogger = { logEvent: vi.fn() } as any;
+      pool.setAuditLogger(auditLogger);
+      mockHandshake(makeEd25519Key(9));
+
+      const client = await pool.getConnection('host1', 'user1', '/key1', 22, {
+        hostKeyVerification: { mode: 'off' },
+      });
+
+      expect(client).toBe(mockClient);
+      expect(appendFile).not.toHaveBeenCalled();
+      expect(auditLogger.logEvent).toHaveBeenCalledWith(
+        AuditEvent.HOST_KEY_ACCEPTED,
+        expect.objectContaining({ mode: 'off', status: 'unverified' })
+      );
+    });
+
+    it('should connect when the host key matches a pinned fingerprint', async () => {
+      mockHandshake(ed25519Key);
+
+      const client = await pool.getConnection('host1', 'user1', '/key1', 22, {
+        hostKeyVerification: { mode: 'fingerprint', fingerprints: [computeFingerprint(ed25519Key)] },
+      });
+
+      expect(client).toBe(mockClient);
+      expect(pool.getConnectionCount()).toBe(1);
+    });
+
+    it('should fail with HostKeyVerificationError when the host key does not match', async () => {
+      mockHandshake(makeEd25519Key(9));
+
+      const error = await pool.getConnection('host1', 'user1', '/key1', 22, {
+        hostKeyVerification: { mode: 'fingerprint', fingerprints: [computeFingerprint(ed25519Key)] },
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(HostKeyVerificationError);
+      expect(error).toBeInstanceOf(SSHError);
+      expect(error.message).toContain('Host key verification failed');
+      expect(error.reason).toBe('not-pinned');
+      expect(pool.getConnectionCount()).toBe(0);
+    });
 
-      await expect(pool.getConnection('host11', 'user1', '/key1', 22))
-        .rejects.toThrow('Maximum connection limit');
+    it('should audit host key mismatches', async () => {
+      const auditLogger = { logEvent: vi.fn() } as any;
+      pool.setAuditLogger(auditLogger);
+      const presentedKey = makeEd25519Key(9);
+      mockHandshake(presentedKey);
+
+      await expect(pool.getConnection('host1', 'user1', '/key1', 22, {
+        hostKeyVerification: { mode: 'fingerprint', fingerprints: [computeFingerprint(ed25519Key)] },
+      })).rejects.toThrow(HostKeyVerificationError);
+
+      expect(auditLogger.logEvent).toHaveBeenCalledWith(
+        AuditEvent.HOST_KEY_MISMATCH,
+        expect.objectContaining({
+          target: 'host1:22',
+          username: 'user1',
+          mode: 'fingerprint',
+          reason: 'not-pinned',
+          fingerprint: computeFingerprint(presentedKey),
+        })
+      );
     });
   });
 });
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, Server, AddressInfo } from 'net';
+import { ConnectionTestRecorder, connectSocket, resolveHostAddress } from '../../src/ssh/diagnostics.js';
+import { SSHError } from '../../src/ssh/errors.js';
+
+describe('diagnostics', () => {
+  describe('ConnectionTestRecorder', () => {
+    let recorder: ConnectionTestRecorder;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      recorder = new ConnectionTestRecorder('db.internal:22', 'deploy');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should time each stage and follow the SSH handshake', () => {
+      recorder.begin('dns');
+      vi.advanceTimersByTime(5);
+      recorder.succeed('10.0.0.5');
+      recorder.begin('tcp');
+      vi.advanceTimersByTime(20);
+      recorder.succeed('10.0.0.5:22');
+      recorder.begin('credentials');
+      recorder.connecting(['publickey', 'agent']);
+      recorder.debug('Outbound: Sending KEXINIT');
+      vi.advanceTimersByTime(30);
+      recorder.debug("Remote ident: 'SSH-2.0-OpenSSH_9.6'");
+      vi.advanceTimersByTime(40);
+      recorder.hostKeyOffered('SHA256:abc');
+      recorder.hostKeyChecked(undefined, 'known');
+      recorder.authAttempt('publickey');
+      vi.advanceTimersByTime(10);
+      recorder.authAttempt('agent');
+      recorder.succeed();
+
+      const report = recorder.report('closed');
+
+      expect(report).toMatchObject({
+        target: 'db.internal:22',
+        username: 'deploy',
+        success: true,
+        durationMs: 105,
+        serverIdent: 'SSH-2.0-OpenSSH_9.6',
+        hostKeyFingerprint: 'SHA256:abc',
+        authMethod: 'agent',
+      });
+      expect(report.stages).toEqual([
+        { stage: 'dns', status: 'ok', durationMs: 5, detail: '10.0.0.5' },
+        { stage: 'tcp', status: 'ok', durationMs: 20, detail: '10.0.0.5:22' },
+        { stage: 'credentials', status: 'ok', durationMs: 0, detail: 'publickey, agent' },
+        { stage: 'banner', status: 'ok', durationMs: 30, detail: 'SSH-2.0-OpenSSH_9.6' },
+        { stage: 'kex', status: 'ok', durationMs: 40 },
+        { stage: 'host-key', status: 'ok', durationMs: 0, detail: 'known' },
+        { stage: 'auth', status: 'failed', durationMs: 10, method: 'publickey', error: 'rejected by the server' },
+        { stage: 'auth', status: 'ok', durationMs: 0, method: 'agent' },
+      ]);
+    });
+
+    it('should fail the running stage and ignore later failures', () => {
+      recorder.begin('credentials');
+      recorder.connecting(['password']);
+      vi.advanceTimersByTime(10000);
+      recorder.fail(new SSHError('Connection timeout'));
+      recorder.fail(new Error('socket closed'));
+
+      const report = recorder.report('open');
+
+      expect(report).toMatchObject({
+        success: false,
+        failedStage: 'banner',
+        error: 'Connection timeout',
+        circuitState: 'open',
+      });
+      expect(report.stages).toHaveLength(2);
+      expect(report.authMethod).toBeUndefined();
+    });
+
+    it('should keep the host key failure over the error ssh2 reports after it', () => {
+      recorder.begin('banner');
+      recorder.debug("Remote ident: 'SSH-2.0-dropbear'");
+      recorder.hostKeyOffered('SHA256:abc');
+      recorder.hostKeyChecked(new Error('Host key verification failed: changed'));
+      recorder.fail(new Error('Host denied (verification failed)'));
+
+      const report = recorder.report('closed');
+
+      expect(report.failedStage).toBe('host-key');
+      expect(report.error).toBe('Host key verification failed: changed');
+    });
+  });
+
+  describe('connectSocket', () => {
+    let server: Server;
+
+    beforeEach(async () => {
+      server = createServer((socket) => socket.end());
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should connect to a listening port', async () => {
+      const { port } = server.address() as AddressInfo;
+
+      const socket = await connectSocket(await resolveHostAddress('127.0.0.1'), port);
+
+      expect(socket.remotePort).toBe(port);
+      socket.destroy();
+    });
+
+    it('should throw SSHError when the connection is refused', async () => {
+      const { port } = server.address() as AddressInfo;
+      await new Promise((resolve) => server.close(resolve));
+      server = createServer();
+      server.listen(0, '127.0.0.1');
+
+      await expect(connectSocket('127.0.0.1', port)).rejects.toThrow(SSHError);
+      await expect(connectSocket('127.0.0.1', port)).rejects.toThrow(`Connection failed: 127.0.0.1:${port}`);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { parseProxyJump, formatJumpHost } from '../../src/ssh/jump-hosts.js';
+import { SSHError } from '../../src/ssh/errors.js';
+
+describe('jump hosts', () => {
+  describe('parseProxyJump', () => {
+    it('should parse a single host', () => {
+      expect(parseProxyJump('bastion')).toEqual([{ host: 'bastion' }]);
+    });
+
+    it('should parse users, ports and several hops in order', () => {
+      expect(parseProxyJump('admin@bastion1, bastion2:2222')).toEqual([
+        { host: 'bastion1', username: 'admin' },
+        { host: 'bastion2', port: 2222 },
+      ]);
+    });
+
+    it('should accept ssh:// URIs and bracketed IPv6 addresses', () => {
+      expect(parseProxyJump('ssh://admin@[fd00::1]:2200,[fd00::2]')).toEqual([
+        { host: 'fd00::1', port: 2200, username: 'admin' },
+        { host: 'fd00::2' },
+      ]);
+    });
+
+    it('should reject malformed specifications', () => {
+      for (const spec of ['', 'bastion,', 'a@b@c', 'host:port', 'fd00::1', 'bastion:70000', 'bastion:0']) {
+        expect(() => parseProxyJump(spec)).toThrow(SSHError);
+      }
+      expect(() => parseProxyJump('bastion,')).toThrow('Invalid arguments: invalid jump host ""');
+    });
+
+    it('should throw for null or undefined specifications', () => {
+      expect(() => parseProxyJump(null as any)).toThrow('Null or undefined arguments');
+      expect(() => parseProxyJump(undefined as any)).toThrow('Null or undefined arguments');
+    });
+  });
+
+  describe('formatJumpHost', () => {
+    it('should format user@host:port with defaults', () => {
+      expect(formatJumpHost({ host: 'bastion' }, 'deploy')).toBe('deploy@bastion:22');
+      expect(formatJumpHost({ host: 'bastion', port: 2222, username: 'admin' }, 'deploy')).toBe('admin@bastion:2222');
+    });
+  });
+});
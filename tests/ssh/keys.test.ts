@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import {
+  getKeyType,
+  computeFingerprint,
+  computeMd5Fingerprint,
+  isCertificate,
+  parseCertificate,
+} from '../../src/ssh/keys.js';
+import { ed25519Key, makeEd25519Key, buildCertificate, sshString } from '../helpers/ssh-keys.js';
+
+describe('SSH key helpers', () => {
+  describe('getKeyType', () => {
+    it('should read the key type from a blob', () => {
+      expect(getKeyType(ed25519Key)).toBe('ssh-ed25519');
+    });
+
+    it('should throw for a truncated blob', () => {
+      expect(() => getKeyType(Buffer.from([0, 0, 0, 9, 1]))).toThrow('truncated SSH key blob');
+    });
+
+    it('should throw for null blob', () => {
+      expect(() => getKeyType(null as any)).toThrow('Null or undefined arguments');
+    });
+  });
+
+  describe('computeFingerprint', () => {
+    it('should return an unpadded SHA256 fingerprint', () => {
+      const expected = createHash('sha256').update(ed25519Key).digest('base64').replace(/=+$/, '');
+      expect(computeFingerprint(ed25519Key)).toBe(`SHA256:${expected}`);
+    });
+  });
+
+  describe('computeMd5Fingerprint', () => {
+    it('should return a colon separated MD5 fingerprint', () => {
+      const fingerprint = computeMd5Fingerprint(ed25519Key);
+      expect(fingerprint).toMatch(/^MD5:([0-9a-f]{2}:){15}[0-9a-f]{2}$/);
+    });
+  });
+
+  describe('isCertificate', () => {
+    it('should detect certificate blobs', () => {
+      expect(isCertificate(buildCertificate())).toBe(true);
+      expect(isCertificate(ed25519Key)).toBe(false);
+    });
+
+    it('should return false for malformed blobs', () => {
+      expect(isCertificate(Buffer.from([1, 2]))).toBe(false);
+    });
+  });
+
+  describe('parseCertificate', () => {
+    it('should parse user certificate fields', () => {
+      const cert = parseCertificate(buildCertificate({
+        principals: ['alice', 'deploy'],
+        validAfter: 1700000000n,
+        validBefore: 1800000000n,
+      }));
+
+      expect(cert.type).toBe('ssh-ed25519-cert-v01@openssh.com');
+      expect(cert.keyType).toBe('ssh-ed25519');
+      expect(cert.serial).toBe(42n);
+      expect(cert.certType).toBe('user');
+      expect(cert.keyId).toBe('key-id');
+      expect(cert.principals).toEqual(['alice', 'deploy']);
+      expect(cert.validAfter).toEqual(new Date(1700000000 * 1000));
+      expect(cert.validBefore).toEqual(new Date(1800000000 * 1000));
+      expect(cert.signatureKey.equals(ed25519Key)).toBe(true);
+    });
+
+    it('should expose the certified public key as a plain key blob', () => {
+      const cert = parseCertificate(buildCertificate());
+      expect(cert.publicKey.equals(makeEd25519Key(2))).toBe(true);
+    });
+
+    it('should report host certificates and no expiry', () => {
+      const cert = parseCertificate(buildCertificate({ certType: 2 }));
+      expect(cert.certType).toBe('host');
+      expect(cert.validBefore).toBeNull();
+    });
+
+    it('should reject non-certificate keys', () => {
+      expect(() => parseCertificate(ed25519Key)).toThrow('not an OpenSSH certificate');
+    });
+
+    it('should reject unsupported certificate types', () => {
+      const blob = sshString('ssh-foo-cert-v01@openssh.com');
+      expect(() => parseCertificate(blob)).toThrow('unsupported certificate type');
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { encodeKeys } from '../../src/ssh/keystrokes.js';
+import { SSHError } from '../../src/ssh/errors.js';
+
+describe('keystrokes', () => {
+  describe('encodeKeys', () => {
+    it('should send literal text as is, without a newline', () => {
+      expect(encodeKeys('ls -l')).toBe('ls -l');
+      expect(encodeKeys('a < b > c')).toBe('a < b > c');
+    });
+
+    it('should encode named keys case-insensitively', () => {
+      expect(encodeKeys('ihello<Esc>:wq<Enter>')).toBe('ihello\x1b:wq\r');
+      expect(encodeKeys('<up><DOWN><Left><Right>')).toBe('\x1b[A\x1b[B\x1b[D\x1b[C');
+      expect(encodeKeys('<Tab><S-Tab><BS><Del><Space>')).toBe('\t\x1b[Z\x7f\x1b[3~ ');
+      expect(encodeKeys('<PageUp><PageDown><Home><End>')).toBe('\x1b[5~\x1b[6~\x1b[H\x1b[F');
+      expect(encodeKeys('<F1><F5><F12>')).toBe('\x1bOP\x1b[15~\x1b[24~');
+    });
+
+    it('should encode Ctrl and Alt chords', () => {
+      expect(encodeKeys('<C-c><C-D><C-[><C-?>')).toBe('\x03\x04\x1b\x7f');
+      expect(encodeKeys('<M-x><A-b><M-Left>')).toBe('\x1bx\x1bb\x1b\x1b[D');
+    });
+
+    it('should send a literal < for <lt>', () => {
+      expect(encodeKeys('cat <lt>file<lt>b>')).toBe('cat <file<b>');
+    });
+
+    it('should reject unknown keys and empty input', () => {
+      expect(() => encodeKeys('<Escape2>')).toThrow('unknown key <Escape2>');
+      expect(() => encodeKeys('<C-1>')).toThrow(SSHError);
+      expect(() => encodeKeys('')).toThrow('keys are required');
+      expect(() => encodeKeys(null as any)).toThrow('Null or undefined arguments');
+    });
+  });
+});
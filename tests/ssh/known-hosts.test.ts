@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHmac } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseKnownHosts,
+  matchesHost,
+  fingerprintMatches,
+  formatKnownHostsHost,
+  verifyHostKey,
+} from '../../src/ssh/known-hosts.js';
+import { computeFingerprint, computeMd5Fingerprint } from '../../src/ssh/keys.js';
+import { HostKeyVerificationError } from '../../src/ssh/errors.js';
+import { ed25519Key, makeEd25519Key, sshString } from '../helpers/ssh-keys.js';
+
+function hashedHost(host: string, salt: Buffer = Buffer.alloc(20, 3)): string {
+  const hash = createHmac('sha1', salt).update(host).digest('base64');
+  return `|1|${salt.toString('base64')}|${hash}`;
+}
+
+describe('known_hosts', () => {
+  const otherKey = makeEd25519Key(9);
+  const rsaKey = Buffer.concat([sshString('ssh-rsa'), sshString(Buffer.from([1, 0, 1])), sshString(Buffer.alloc(64, 5))]);
+  const keyLine = (hosts: string, key: Buffer = ed25519Key) => `${hosts} ssh-ed25519 ${key.toString('base64')}`;
+  const rsaLine = (hosts: string) => `${hosts} ssh-rsa ${rsaKey.toString('base64')}`;
+
+  describe('formatKnownHostsHost', () => {
+    it('should use the bare host for port 22', () => {
+      expect(formatKnownHostsHost('example.com', 22)).toBe('example.com');
+    });
+
+    it('should bracket the host for other ports', () => {
+      expect(formatKnownHostsHost('example.com', 2222)).toBe('[example.com]:2222');
+    });
+  });
+
+  describe('parseKnownHosts', () => {
+    it('should parse plain entries with comments', () => {
+      const entries = parseKnownHosts(`${keyLine('a.example.com,10.0.0.1')} my comment\n`);
+      expect(entries).toHaveLength(1);
+      expect(entries[0].hostPatterns).toEqual(['a.example.com', '10.0.0.1']);
+      expect(entries[0].keyType).toBe('ssh-ed25519');
+      expect(entries[0].key.equals(ed25519Key)).toBe(true);
+      expect(entries[0].comment).toBe('my comment');
+      expect(entries[0].marker).toBeUndefined();
+      expect(entries[0].line).toBe(1);
+    });
+
+    it('should skip blank lines, comments and malformed lines', () => {
+      const entries = parseKnownHosts(`# comment\n\nbroken-line\n${keyLine('host')}\n`);
+      expect(entries).toHaveLength(1);
+      expect(entries[0].line).toBe(4);
+    });
+
+    it('should parse @cert-authority and @revoked markers', () => {
+      const entries = parseKnownHosts(`@cert-authority ${keyLine('*.example.com')}\n@revoked ${keyLine('*')}`);
+      expect(entries.map(e => e.marker)).toEqual(['cert-authority', 'revoked']);
+    });
+
+    it('should skip unknown markers', () => {
+      expect(parseKnownHosts(`@unknown ${keyLine('host')}`)).toEqual([]);
+    });
+
+    it('should throw for null content', () => {
+      expect(() => parseKnownHosts(null as any)).toThrow('Null or undefined arguments');
+    });
+  });
+
+  describe('matchesHost', () => {
+    it('should match plain and bracketed hosts', () => {
+      const [plain, bracketed] = parseKnownHosts(`${keyLine('example.com')}\n${keyLine('[example.com]:2222')}`);
+      expect(matchesHost(plain, 'example.com', 22)).toBe(true);
+      expect(matchesHost(plain, 'example.com', 2222)).toBe(false);
+      expect(matchesHost(bracketed, 'example.com', 2222)).toBe(true);
+    });
+
+    it('should match wildcard patterns case-insensitively', () => {
+      const [entry] = parseKnownHosts(keyLine('*.Example.com,web?'));
+      expect(matchesHost(entry, 'db.example.com', 22)).toBe(true);
+      expect(matchesHost(entry, 'web1', 22)).toBe(true);
+      expect(matchesHost(entry, 'web12', 22)).toBe(false);
+    });
+
+    it('should honour negated patterns', () => {
+      const [entry] = parseKnownHosts(keyLine('*.example.com,!bad.example.com'));
+      expect(matchesHost(entry, 'good.example.com', 22)).toBe(true);
+      expect(matchesHost(entry, 'bad.example.com', 22)).toBe(false);
+    });
+
+    it('should match hashed entries', () => {
+      const [entry, portEntry] = parseKnownHosts(
+        `${keyLine(hashedHost('secret.example.com'))}\n${keyLine(hashedHost('[secret.example.com]:2200'))}`
+      );
+      expect(matchesHost(entry, 'secret.example.com', 22)).toBe(true);
+      expect(matchesHost(entry, 'other.example.com', 22)).toBe(false);
+      expect(matchesHost(portEntry, 'secret.example.com', 2200)).toBe(true);
+    });
+  });
+
+  describe('fingerprintMatches', () => {
+    it('should accept SHA256 fingerprints with and without prefix', () => {
+      const fingerprint = computeFingerprint(ed25519Key);
+      expect(fingerprintMatches(fingerprint, ed25519Key)).toBe(true);
+      expect(fingerprintMatches(fingerprint.replace('SHA256:', ''), ed25519Key)).toBe(true);
+      expect(fingerprintMatches(fingerprint, otherKey)).toBe(false);
+    });
+
+    it('should accept MD5 fingerprints', () => {
+      const fingerprint = computeMd5Fingerprint(ed25519Key);
+      expect(fingerprintMatches(fingerprint, ed25519Key)).toBe(true);
+      expect(fingerprintMatches(fingerprint.replace('MD5:', '').toUpperCase(), ed25519Key)).toBe(true);
+    });
+  });
+
+  describe('verifyHostKey', () => {
+    let tmpDir: string;
+    let knownHostsPath: string;
+
+    beforeEach(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'known-hosts-test-'));
+      knownHostsPath = path.join(tmpDir, 'known_hosts');
+    });
+
+    afterEach(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should accept a pinned fingerprint', async () => {
+      const result = await verifyHostKey(ed25519Key, 'host', 22, {
+        mode: 'fingerprint',
+        fingerprints: [computeFingerprint(ed25519Key)],
+      });
+      expect(result.status).toBe('pinned');
+    });
+
+    it('should reject a key that is not pinned', async () => {
+      await expect(verifyHostKey(otherKey, 'host', 22, {
+        mode: 'fingerprint',
+        fingerprints: [computeFingerprint(ed25519Key)],
+      })).rejects.toMatchObject({ name: 'HostKeyVerificationError', reason: 'not-pinned' });
+    });
+
+    it('should accept a key present in known_hosts in strict mode', async () => {
+      await fs.writeFile(knownHostsPath, `${keyLine('host')}\n`);
+      const result = await verifyHostKey(ed25519Key, 'host', 22, { mode: 'strict', knownHostsPath });
+      expect(result).toEqual({ status: 'known', fingerprint: computeFingerprint(ed25519Key) });
+    });
+
+    it('should reject unknown hosts in strict mode', async () => {
+      const error = await verifyHostKey(ed25519Key, 'host', 22, { mode: 'strict', knownHostsPath })
+        .catch(e => e);
+      expect(error).toBeInstanceOf(HostKeyVerificationError);
+      expect(error.reason).toBe('unknown');
+      expect(error.message).toContain('Host key verification failed');
+    });
+
+    it('should reject a changed key in strict and accept-new modes', async () => {
+      await fs.writeFile(knownHostsPath, `${keyLine('host')}\n`);
+      for (const mode of ['strict', 'accept-new'] as const) {
+        await expect(verifyHostKey(otherKey, 'host', 22, { mode, knownHostsPath }))
+          .rejects.toMatchObject({ reason: 'mismatch' });
+      }
+    });
+
+    it('should treat a host with only keys of another type as unknown in strict mode', async () => {
+      await fs.writeFile(knownHostsPath, `${rsaLine('host')}\n`);
+      await expect(verifyHostKey(ed25519Key, 'host', 22, { mode: 'strict', knownHostsPath }))
+        .rejects.toMatchObject({ reason: 'unknown' });
+    });
+
+    it('should record a key of a new type in accept-new mode', async () => {
+      await fs.writeFile(knownHostsPath, `${rsaLine('host')}\n`);
+      const result = await verifyHostKey(ed25519Key, 'host', 22, { mode: 'accept-new', knownHostsPath });
+      expect(result.status).toBe('added');
+      expect(await fs.readFile(knownHostsPath, 'utf-8')).toBe(`${rsaLine('host')}\n${keyLine('host')}\n`);
+
+      const rsa = await verifyHostKey(rsaKey, 'host', 22, { mode: 'strict', knownHostsPath });
+      expect(rsa.status).toBe('known');
+    });
+
+    it('should only compare keys of the offered type', async () => {
+      await fs.writeFile(knownHostsPath, `${rsaLine('host')}\n${keyLine('host', otherKey)}\n`);
+      await expect(verifyHostKey(ed25519Key, 'host', 22, { mode: 'accept-new', knownHostsPath }))
+        .rejects.toMatchObject({ reason: 'mismatch', message: expect.stringContaining(`${knownHostsPath}:2`) });
+    });
+
+    it('should reject revoked keys even if otherwise known', async () => {
+      await fs.writeFile(knownHostsPath, `${keyLine('host')}\n@revoked ${keyLine('*')}\n`);
+      await expect(verifyHostKey(ed25519Key, 'host', 22, { mode: 'strict', knownHostsPath }))
+        .rejects.toMatchObject({ reason: 'revoked' });
+    });
+
+    it('should record unknown hosts in accept-new mode', async () => {
+      await fs.writeFile(knownHostsPath, keyLine('other-host'));
+      const result = await verifyHostKey(ed25519Key, 'host', 2222, { mode: 'accept-new', knownHostsPath });
+      expect(result.status).toBe('added');
+
+      const content = await fs.readFile(knownHostsPath, 'utf-8');
+      expect(content).toBe(`${keyLine('other-host')}\n${keyLine('[host]:2222')}\n`);
+
+      const again = await verifyHostKey(ed25519Key, 'host', 2222, { mode: 'strict', knownHostsPath });
+      expect(again.status).toBe('known');
+    });
+
+    it('should create the known_hosts file in accept-new mode', async () => {
+      const nested = path.join(tmpDir, 'ssh', 'known_hosts');
+      await verifyHostKey(ed25519Key, 'host', 22, { mode: 'accept-new', knownHostsPath: nested });
+      expect(await fs.readFile(nested, 'utf-8')).toBe(`${keyLine('host')}\n`);
+    });
+
+    it('should record a new host once when concurrent checks accept it', async () => {
+      const results = await Promise.all([1, 2, 3].map(() =>
+        verifyHostKey(ed25519Key, 'host', 22, { mode: 'accept-new', knownHostsPath })));
+
+      expect(results.map(result => result.status).sort()).toEqual(['added', 'known', 'known']);
+      expect(await fs.readFile(knownHostsPath, 'utf-8')).toBe(`${keyLine('host')}\n`);
+    });
+
+    it('should reject a different key recorded by a concurrent accept-new check', async () => {
+      const results = await Promise.allSettled([
+        verifyHostKey(ed25519Key, 'host', 22, { mode: 'accept-new', knownHostsPath }),
+        verifyHostKey(otherKey, 'host', 22, { mode: 'accept-new', knownHostsPath }),
+      ]);
+
+      expect(results[0]).toMatchObject({ status: 'fulfilled', value: { status: 'added' } });
+      expect(results[1]).toMatchObject({ status: 'rejected', reason: { reason: 'mismatch' } });
+      expect(await fs.readFile(knownHostsPath, 'utf-8')).toBe(`${keyLine('host')}\n`);
+    });
+
+    it('should accept any key without touching known_hosts in off mode', async () => {
+      await fs.writeFile(knownHostsPath, `${keyLine('host')}\n`);
+      const result = await verifyHostKey(otherKey, 'host', 22, { mode: 'off', knownHostsPath });
+      expect(result).toEqual({ status: 'unverified', fingerprint: computeFingerprint(otherKey) });
+      expect(await fs.readFile(knownHostsPath, 'utf-8')).toBe(`${keyLine('host')}\n`);
+    });
+
+    it('should ignore @cert-authority entries', async () => {
+      await fs.writeFile(knownHostsPath, `@cert-authority ${keyLine('*.example.com')}\n`);
+      await expect(verifyHostKey(ed25519Key, 'web.example.com', 22, { mode: 'strict', knownHostsPath }))
+        .rejects.toMatchObject({ reason: 'unknown' });
+    });
+  });
+});
@@ -1,7 +1,27 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
 import { SSHConnectionManager } from '../../src/ssh/manager.js';
 import { createDefaultConfig } from '../../src/config/defaults.js';
 import type { ServerConfig } from '../../src/config/schema.js';
+import { AuditEvent } from '../../src/security/audit.js';
+import { ConnectionPool } from '../../src/ssh/connection-pool.js';
+import { PersistentSession } from '../../src/ssh/session.js';
+import type { ConnectionOptions } from '../../src/ssh/types.js';
+
+/**
+ * Build an acquireChannel implementation that leases channels on a fake client
+ */
+function leaseOf(client: unknown) {
+  return async (host: string, username: string, _privateKeyPath: string | undefined, port: number, options: ConnectionOptions) => ({
+    client,
+    connectionKey: new ConnectionPool().getConnectionKey(host, username, port, options.jumpHosts),
+    queueWait: 0,
+    release: vi.fn(),
+  });
+}
 
 describe('SSHConnectionManager', () => {
   let manager: SSHConnectionManager;
@@ -63,6 +83,38 @@ describe('SSHConnectionManager', () => {
       expect(session).toBeUndefined();
     });
 
+    it('should reject keys for a non-existent session', async () => {
+      await expect(manager.sendKeys('non-existent', 'q')).rejects.toThrow('Session not found: non-existent');
+    });
+
+    it('should throw for the command queue of a non-existent session', () => {
+      expect(() => manager.listQueue('non-existent')).toThrow('Session not found: non-existent');
+      expect(() => manager.cancelCommand('non-existent', 'c1')).toThrow('Session not found: non-existent');
+      expect(() => manager.flushQueue('non-existent')).toThrow('Session not found: non-existent');
+    });
+
+    it('should throw for the jobs of a non-existent session', () => {
+      expect(() => manager.getJob('non-existent', 'job-1')).toThrow('Session not found: non-existent');
+      expect(() => manager.listJobs('non-existent')).toThrow('Session not found: non-existent');
+      expect(manager.listJobs()).toEqual([]);
+    });
+
+    it('should reject waiting on a non-existent session', async () => {
+      await expect(manager.waitFor('non-existent', 'ready')).rejects.toThrow('Session not found: non-existent');
+    });
+
+    it('should throw when asked for the screen of a non-existent session', () => {
+      expect(() => manager.getSessionScreen('non-existent')).toThrow('Session not found: non-existent');
+    });
+
+    it('should throw when asked to resize a non-existent session', () => {
+      expect(() => manager.resizeSession('non-existent', 50, 200)).toThrow('Session not found: non-existent');
+    });
+
+    it('should throw when asked for the info of a non-existent session', () => {
+      expect(() => manager.getSessionInfo('non-existent')).toThrow('Session not found: non-existent');
+    });
+
     it('should handle empty session output requests gracefully', () => {
       expect(() => {
         manager.getSessionOutput('non-existent');
@@ -359,4 +411,1021 @@ describe('SSHConnectionManager', () => {
       ).rejects.toThrow('Maximum session limit');
     });
   });
+
+  describe('Session Profiles', () => {
+    let mgr: SSHConnectionManager;
+    let acquireChannel: any;
+
+    beforeEach(() => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+      });
+      config.profiles = {
+        'python-dev': {
+          cwd: '~/app',
+          env: { APP_ENV: 'dev', DEBUG: '0' },
+          init: ['source venv/bin/activate', 'umask 027'],
+          shellType: 'sh',
+        },
+      };
+      mgr = new SSHConnectionManager(config);
+      acquireChannel = vi.spyOn((mgr as any).pool, 'acquireChannel').mockImplementation(leaseOf({}) as any);
+      vi.spyOn(PersistentSession.prototype, 'initialize').mockResolvedValue();
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should reject an unknown profile before connecting', async () => {
+      await expect(
+        mgr.createSession('s1', 'test.local', 'user', 'interactive', '/key', 22, 'normal', undefined, undefined,
+          { profile: 'missing' })
+      ).rejects.toThrow('Session profile not found: missing');
+      expect(acquireChannel).not.toHaveBeenCalled();
+    });
+
+    it('should prepare the shell from the profile, with explicit env and cwd taking precedence', async () => {
+      const runSetup = vi.spyOn(PersistentSession.prototype, 'runSetup').mockResolvedValue();
+
+      const session = await mgr.createSession('s1', 'test.local', 'user', 'interactive', '/key', 22, 'normal',
+        undefined, undefined, { profile: 'python-dev', env: { DEBUG: '1' }, cwd: '/srv/app' });
+
+      expect(runSetup).toHaveBeenCalledWith(
+        '/srv/app',
+        { APP_ENV: 'dev', DEBUG: '1' },
+        ['source venv/bin/activate', 'umask 027']
+      );
+      expect((session as any).shellFormatter.getShellName()).toBe('sh');
+      expect(acquireChannel.mock.calls[0][4]).not.toHaveProperty('profile');
+      await mgr.closeSession('s1');
+    });
+
+    it('should not return a session whose setup failed', async () => {
+      vi.spyOn(PersistentSession.prototype, 'runSetup').mockRejectedValue(
+        new Error('Session setup failed: `umask 027` exited with code 1')
+      );
+      const close = vi.spyOn(PersistentSession.prototype, 'close');
+
+      await expect(
+        mgr.createSession('s1', 'test.local', 'user', 'interactive', '/key', 22, 'normal', undefined, undefined,
+          { profile: 'python-dev' })
+      ).rejects.toThrow('Session setup failed');
+      expect(close).toHaveBeenCalled();
+      expect(mgr.getSession('s1')).toBeUndefined();
+    });
+
+    it('should release the channel and connection of a session that closes by itself', async () => {
+      vi.spyOn(PersistentSession.prototype, 'runSetup').mockResolvedValue();
+
+      const session = await mgr.createSession('s1', 'test.local', 'user', 'interactive', '/key');
+      const lease = await acquireChannel.mock.results[0].value;
+      expect((mgr as any).sessionConnections.get('s1')).toBe(lease.connectionKey);
+
+      // e.g. the session timed out or its shell exited
+      session.emit('closed');
+
+      expect(lease.release).toHaveBeenCalled();
+      expect((mgr as any).sessionConnections.has('s1')).toBe(false);
+    });
+  });
+
+  describe('Connection Options', () => {
+    it('should pass target host key verification to the pool for the configured target', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        hostKeyVerification: { mode: 'strict', knownHostsPath: '/tmp/known_hosts' },
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      await expect(mgr.executeCommand('test.local', 'user', '/key', 'ls')).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('test.local', 'user', '/key', 22, {
+        hostKeyVerification: { mode: 'strict', knownHostsPath: '/tmp/known_hosts' },
+      });
+    });
+
+    it('should resolve the target passphrase from an environment reference', async () => {
+      process.env.SSH_MANAGER_TEST_PASSPHRASE = 'from-env';
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        passphrase: { env: 'SSH_MANAGER_TEST_PASSPHRASE' },
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      try {
+        await expect(mgr.executeCommand('test.local', 'user', '/key', 'ls')).rejects.toThrow('Connection failed');
+      } finally {
+        delete process.env.SSH_MANAGER_TEST_PASSPHRASE;
+      }
+
+      expect(getConnection).toHaveBeenCalledWith('test.local', 'user', '/key', 22,
+        expect.objectContaining({ passphrase: 'from-env' }));
+    });
+
+    it('should prefer an explicit passphrase over the target passphrase', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        passphrase: 'configured',
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      await expect(
+        mgr.createSession('session-1', 'test.local', 'user', 'interactive', '/key', 22, 'normal',
+          undefined, 'bash', { passphrase: 'explicit' })
+      ).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('test.local', 'user', '/key', 22,
+        expect.objectContaining({ passphrase: 'explicit' }));
+    });
+
+    it('should fail clearly when the target passphrase reference cannot be resolved', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        passphrase: { env: 'SSH_MANAGER_TEST_UNSET_PASSPHRASE' },
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection');
+
+      await expect(mgr.executeCommand('test.local', 'user', '/key', 'ls'))
+        .rejects.toThrow('Failed to resolve passphrase for test.local:22');
+      expect(getConnection).not.toHaveBeenCalled();
+    });
+
+    it('should use the agent at SSH_AUTH_SOCK when the target enables it', async () => {
+      const previous = process.env.SSH_AUTH_SOCK;
+      process.env.SSH_AUTH_SOCK = '/tmp/agent.sock';
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        agent: true,
+        agentForward: true,
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      try {
+        await expect(mgr.executeCommand('test.local', 'user', undefined, 'ls')).rejects.toThrow('Connection failed');
+      } finally {
+        if (previous === undefined) {
+          delete process.env.SSH_AUTH_SOCK;
+        } else {
+          process.env.SSH_AUTH_SOCK = previous;
+        }
+      }
+
+      expect(getConnection).toHaveBeenCalledWith('test.local', 'user', undefined, 22,
+        expect.objectContaining({ agent: '/tmp/agent.sock', agentForward: true }));
+    });
+
+    it('should use a configured agent socket path', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        agent: '/run/agent.sock',
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      await expect(
+        mgr.createSession('session-1', 'test.local', 'user', 'interactive', undefined)
+      ).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('test.local', 'user', undefined, 22,
+        expect.objectContaining({ agent: '/run/agent.sock', agentForward: false }));
+    });
+
+    it('should require privateKeyPath for hosts without an agent or password', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        agent: '/run/agent.sock',
+      });
+      const mgr = new SSHConnectionManager(config);
+
+      await expect(mgr.executeCommand('other.local', 'user', undefined, 'ls'))
+        .rejects.toThrow('privateKeyPath is required unless an SSH agent or password is configured');
+    });
+
+    it('should resolve the target password and audit only the auth method', async () => {
+      process.env.SSH_MANAGER_TEST_PASSWORD = 'switch-secret';
+      const config = createDefaultConfig('test', {
+        host: 'switch.local',
+        port: 22,
+        username: 'admin',
+        password: { env: 'SSH_MANAGER_TEST_PASSWORD' },
+      });
+      const mgr = new SSHConnectionManager(config);
+      const fakeClient = {
+        exec: vi.fn((_cmd: string, cb: Function) => cb(new Error('exec refused'))),
+      };
+      const acquireChannel = vi.spyOn((mgr as any).pool, 'acquireChannel').mockImplementation(leaseOf(fakeClient));
+      vi.spyOn((mgr as any).pool, 'getConnectionInfoByKey').mockReturnValue({
+        client: fakeClient,
+        connected: true,
+        authMethod: 'password',
+      });
+      const logEvent = vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+
+      try {
+        await expect(mgr.executeCommand('switch.local', 'admin', undefined, 'show version')).rejects.toThrow('exec refused');
+      } finally {
+        delete process.env.SSH_MANAGER_TEST_PASSWORD;
+      }
+
+      expect(acquireChannel).toHaveBeenCalledWith('switch.local', 'admin', undefined, 22,
+        expect.objectContaining({ password: 'switch-secret', keyboardInteractive: false }), 30000);
+      expect(logEvent).toHaveBeenCalledWith(AuditEvent.CONNECTION_ESTABLISHED,
+        expect.objectContaining({ authMethod: 'password' }));
+      expect(JSON.stringify(logEvent.mock.calls)).not.toContain('switch-secret');
+    });
+
+    it('should report the certificate principal and expiry in connection audit events', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        certificatePath: '/key-cert.pub',
+      });
+      const mgr = new SSHConnectionManager(config);
+      const fakeClient = {
+        exec: vi.fn((_cmd: string, cb: Function) => cb(new Error('exec refused'))),
+      };
+      const acquireChannel = vi.spyOn((mgr as any).pool, 'acquireChannel').mockImplementation(leaseOf(fakeClient));
+      vi.spyOn((mgr as any).pool, 'getConnectionInfoByKey').mockReturnValue({
+        client: fakeClient,
+        connected: true,
+        authMethod: 'certificate',
+        certificate: {
+          keyId: 'user@corp',
+          principals: ['deploy'],
+          validBefore: new Date('2026-10-18T12:00:00Z'),
+        },
+      });
+      const logEvent = vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+
+      await expect(mgr.executeCommand('test.local', 'user', '/key', 'ls')).rejects.toThrow('exec refused');
+
+      expect(acquireChannel).toHaveBeenCalledWith('test.local', 'user', '/key', 22,
+        expect.objectContaining({ certificatePath: '/key-cert.pub' }), 30000);
+      expect(logEvent).toHaveBeenCalledWith(AuditEvent.CONNECTION_ESTABLISHED, expect.objectContaining({
+        authMethod: 'certificate',
+        certificateKeyId: 'user@corp',
+        certificatePrincipals: ['deploy'],
+        certificateExpiresAt: '2026-10-18T12:00:00.000Z',
+      }));
+    });
+
+    it('should audit the connection the lease is on when it spilled over', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+      });
+      const mgr = new SSHConnectionManager(config);
+      const fakeClient = {
+        exec: vi.fn((_cmd: string, cb: Function) => cb(new Error('exec refused'))),
+      };
+      const mainKey = (mgr as any).pool.getConnectionKey('test.local', 'user', 22);
+      vi.spyOn((mgr as any).pool, 'acquireChannel').mockResolvedValue({
+        client: fakeClient,
+        connectionKey: `${mainKey}#2`,
+        queueWait: 0,
+        release: vi.fn(),
+      });
+      vi.spyOn((mgr as any).pool, 'getConnectionInfoByKey').mockImplementation((connectionKey) => (
+        connectionKey === `${mainKey}#2` ? { client: fakeClient, connected: true, authMethod: 'agent' } : undefined
+      ));
+      const logEvent = vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+
+      await expect(mgr.executeCommand('test.local', 'user', '/key', 'ls')).rejects.toThrow('exec refused');
+
+      expect(logEvent).toHaveBeenCalledWith(AuditEvent.CONNECTION_ESTABLISHED, expect.objectContaining({
+        connectionId: `${mainKey}#2`,
+        authMethod: 'agent',
+      }));
+    });
+
+    it('should offer the target algorithms and audit the negotiated ones', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        algorithms: { preset: 'compat', kex: ['diffie-hellman-group1-sha1'] },
+      });
+      const mgr = new SSHConnectionManager(config);
+      const fakeClient = {
+        exec: vi.fn((_cmd: string, cb: Function) => cb(new Error('exec refused'))),
+      };
+      const acquireChannel = vi.spyOn((mgr as any).pool, 'acquireChannel').mockImplementation(leaseOf(fakeClient));
+      const negotiated = {
+        kex: 'diffie-hellman-group1-sha1',
+        hostKey: 'ssh-rsa',
+        cipher: 'aes128-cbc',
+        mac: 'hmac-sha1',
+        compression: 'none',
+      };
+      vi.spyOn((mgr as any).pool, 'getConnectionInfoByKey').mockReturnValue({
+        client: fakeClient,
+        connected: true,
+        authMethod: 'publickey',
+        algorithms: negotiated,
+      });
+      const logEvent = vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+
+      await expect(mgr.executeCommand('test.local', 'user', '/key', 'ls')).rejects.toThrow('exec refused');
+
+      const options = acquireChannel.mock.calls[0][4] as ConnectionOptions;
+      expect(options.algorithms?.kex).toEqual(['diffie-hellman-group1-sha1']);
+      expect(options.algorithms?.cipher).toContain('3des-cbc');
+      expect(logEvent).toHaveBeenCalledWith(AuditEvent.CONNECTION_ESTABLISHED,
+        expect.objectContaining({ algorithms: negotiated }));
+    });
+
+    it('should not apply target options to other hosts', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        hostKeyVerification: { mode: 'strict' },
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      await expect(mgr.executeCommand('other.local', 'user', '/key', 'ls')).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('other.local', 'user', '/key', 22, {});
+    });
+
+    it('should apply the configured host key verification to every host', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+      });
+      config.hostKeyVerification = { mode: 'strict' };
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      await expect(mgr.executeCommand('other.local', 'user', '/key', 'ls')).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('other.local', 'user', '/key', 22, {
+        hostKeyVerification: { mode: 'strict' },
+      });
+    });
+  });
+
+  describe('Connection Pool', () => {
+    it('should apply the configured connection limits and idle timeout', () => {
+      const config = createDefaultConfig('test', { host: 'test.local', port: 22, username: 'user' });
+      config.security = { ...config.security, maxConnectionsPerHost: 3, maxConnections: 7 };
+      config.timeouts = { ...config.timeouts, idleConnection: 60000 };
+      const pool = (new SSHConnectionManager(config) as any).pool;
+
+      expect(pool.maxConnectionsPerHost).toBe(3);
+      expect(pool.maxConnections).toBe(7);
+      expect(pool.idleTimeout).toBe(60000);
+    });
+
+    it('should apply the configured reconnect and circuit breaker settings', () => {
+      const config = createDefaultConfig('test', { host: 'test.local', port: 22, username: 'user' });
+      config.reconnect = { maxAttempts: 5, initialDelay: 200, maxDelay: 5000 };
+      config.circuitBreaker = { failureThreshold: 2, resetTimeout: 10000 };
+      const pool = (new SSHConnectionManager(config) as any).pool;
+
+      expect(pool.reconnectAttempts).toBe(5);
+      expect(pool.reconnectInitialDelay).toBe(200);
+      expect(pool.reconnectMaxDelay).toBe(5000);
+      expect(pool.circuitFailureThreshold).toBe(2);
+      expect(pool.circuitResetTimeout).toBe(10000);
+    });
+
+    it('should hold a channel while a command runs and report the queue wait', async () => {
+      const mgr = new SSHConnectionManager();
+      vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+      const release = vi.fn();
+      let closeStream: Function = () => {};
+      const acquireChannel = vi.spyOn((mgr as any).pool, 'acquireChannel').mockResolvedValue({
+        client: {
+          exec: vi.fn((_command: string, cb: Function) => {
+            cb(undefined, {
+              on: vi.fn((event: string, handler: Function) => {
+                if (event === 'close') {
+                  closeStream = handler;
+                }
+              }),
+              stderr: { on: vi.fn() },
+            });
+          }),
+        },
+        connectionKey: 'ssh-user@host:22',
+        queueWait: 250,
+        release,
+      });
+
+      const running = mgr.executeCommand('host', 'user', '/key', 'ls', 22, 5000);
+      await vi.waitFor(() => expect(acquireChannel).toHaveBeenCalledWith('host', 'user', '/key', 22, {}, 5000));
+      expect(release).not.toHaveBeenCalled();
+
+      closeStream(0);
+      const result = await running;
+      expect(result.queueWait).toBe(250);
+      expect(release).toHaveBeenCalledTimes(1);
+    });
+
+    it('should kill a timed-out command and hold its channel until the channel closes', async () => {
+      const mgr = new SSHConnectionManager();
+      vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+      const release = vi.fn();
+      let closeStream: Function = () => {};
+      const stream = {
+        on: vi.fn((event: string, handler: Function) => {
+          if (event === 'close') {
+            closeStream = handler;
+          }
+        }),
+        stderr: { on: vi.fn() },
+        signal: vi.fn(),
+        close: vi.fn(),
+      };
+      vi.spyOn((mgr as any).pool, 'acquireChannel').mockResolvedValue({
+        client: { exec: vi.fn((_command: string, cb: Function) => cb(undefined, stream)) },
+        connectionKey: 'ssh-user@host:22',
+        queueWait: 0,
+        release,
+      });
+
+      await expect(mgr.executeCommand('host', 'user', '/key', 'sleep 60', 22, 20))
+        .rejects.toThrow('Command timeout');
+
+      expect(stream.signal).toHaveBeenCalledWith('KILL');
+      expect(stream.close).toHaveBeenCalled();
+      expect(release).not.toHaveBeenCalled();
+
+      closeStream(null, 'KILL');
+      expect(release).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Connection Introspection', () => {
+    let mgr: SSHConnectionManager;
+    let logEvent: any;
+    let session: any;
+
+    beforeEach(() => {
+      mgr = new SSHConnectionManager();
+      logEvent = vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+      session = {
+        getSessionInfo: () => ({ sessionId: 'shell-1', target: 'target', port: 22, username: 'deploy' }),
+        close: vi.fn(async () => {}),
+      };
+      // A session whose shell runs on a connection tunnelled through the bastion
+      (mgr as any).sessions.set('shell-1', session);
+      (mgr as any).sessionConnections.set('shell-1', 'ssh-deploy@bastion:22>deploy@target:22');
+      vi.spyOn((mgr as any).pool, 'getConnectionTree').mockImplementation((key: any) =>
+        key === 'ssh-deploy@bastion:22' ? [key, 'ssh-deploy@bastion:22>deploy@target:22'] : []
+      );
+    });
+
+    it('should list pooled connections with the sessions running on them', () => {
+      vi.spyOn((mgr as any).pool, 'listConnections').mockReturnValue([
+        { connectionKey: 'ssh-deploy@bastion:22', openChannels: 0 },
+        { connectionKey: 'ssh-deploy@bastion:22>deploy@target:22', openChannels: 1 },
+      ]);
+
+      expect(mgr.listConnections()).toEqual([
+        { connectionKey: 'ssh-deploy@bastion:22', openChannels: 0, sessions: [] },
+        { connectionKey: 'ssh-deploy@bastion:22>deploy@target:22', openChannels: 1, sessions: ['shell-1'] },
+      ]);
+    });
+
+    it('should refuse to close a connection sessions depend on without cascade', async () => {
+      const disconnect = vi.spyOn((mgr as any).pool, 'disconnect');
+
+      await expect(mgr.closeConnection('ssh-deploy@bastion:22')).rejects.toThrow(
+        'Connection in use: sessions shell-1 run on ssh-deploy@bastion:22'
+      );
+      expect(disconnect).not.toHaveBeenCalled();
+      expect(session.close).not.toHaveBeenCalled();
+    });
+
+    it('should close the sessions first with cascade and audit the closure', async () => {
+      const disconnect = vi.spyOn((mgr as any).pool, 'disconnect')
+        .mockReturnValue(['ssh-deploy@bastion:22', 'ssh-deploy@bastion:22>deploy@target:22']);
+
+      const result = await mgr.closeConnection('ssh-deploy@bastion:22', true);
+
+      expect(result).toEqual({
+        connections: ['ssh-deploy@bastion:22', 'ssh-deploy@bastion:22>deploy@target:22'],
+        sessions: ['shell-1'],
+      });
+      expect(session.close).toHaveBeenCalled();
+      expect(session.close.mock.invocationCallOrder[0]).toBeLessThan(disconnect.mock.invocationCallOrder[0]);
+      expect(mgr.getSession('shell-1')).toBeUndefined();
+      expect(logEvent).toHaveBeenCalledWith(AuditEvent.SESSION_CLOSED, expect.objectContaining({
+        sessionId: 'shell-1',
+        reason: 'connection_closed',
+      }));
+      expect(logEvent).toHaveBeenCalledWith(AuditEvent.CONNECTION_CLOSED, {
+        connectionId: 'ssh-deploy@bastion:22',
+        connections: ['ssh-deploy@bastion:22', 'ssh-deploy@bastion:22>deploy@target:22'],
+        sessions: ['shell-1'],
+        reason: 'user_requested',
+      });
+    });
+
+    it('should report nothing closed for an unknown connection', async () => {
+      await expect(mgr.closeConnection('ssh-nobody@nowhere:22')).resolves.toEqual({ connections: [], sessions: [] });
+      expect(logEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Jump Hosts', () => {
+    it('should tunnel through the target jump hosts with their own credentials', async () => {
+      process.env.SSH_MANAGER_TEST_BASTION_PASSWORD = 'bastion-secret';
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        jumpHosts: [
+          {
+            host: 'bastion.local',
+            port: 2222,
+            username: 'admin',
+            password: { env: 'SSH_MANAGER_TEST_BASTION_PASSWORD' },
+            hostKeyVerification: { mode: 'strict' },
+          },
+        ],
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      try {
+        await expect(mgr.executeCommand('test.local', 'user', '/key', 'ls')).rejects.toThrow('Connection failed');
+      } finally {
+        delete process.env.SSH_MANAGER_TEST_BASTION_PASSWORD;
+      }
+
+      expect(getConnection).toHaveBeenCalledWith('test.local', 'user', '/key', 22, expect.objectContaining({
+        jumpHosts: [{
+          host: 'bastion.local',
+          port: 2222,
+          username: 'admin',
+          privateKeyPath: undefined,
+          options: {
+            hostKeyVerification: { mode: 'strict' },
+            password: 'bastion-secret',
+            keyboardInteractive: false,
+          },
+        }],
+      }));
+    });
+
+    it('should let jump hosts without credentials use the connection key and agent', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        passphrase: 'key-passphrase',
+        agent: '/run/agent.sock',
+        hostKeyVerification: { mode: 'fingerprint', fingerprints: ['SHA256:target'] },
+        jumpHosts: [{ host: 'bastion.local', port: 22 }],
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      await expect(mgr.executeCommand('test.local', 'user', '/key', 'ls')).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('test.local', 'user', '/key', 22, expect.objectContaining({
+        jumpHosts: [{
+          host: 'bastion.local',
+          port: 22,
+          username: undefined,
+          privateKeyPath: '/key',
+          options: {
+            hostKeyVerification: undefined,
+            passphrase: 'key-passphrase',
+            agent: '/run/agent.sock',
+          },
+        }],
+      }));
+    });
+
+    it('should prefer explicit jump hosts and match them to configured ones', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        hostKeyVerification: { mode: 'strict' },
+        jumpHosts: [
+          { host: 'bastion1.local', port: 22 },
+          { host: 'bastion2.local', port: 22, username: 'admin', privateKeyPath: '/bastion-key' },
+        ],
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      await expect(
+        mgr.createSession('session-1', 'test.local', 'user', 'interactive', '/key', 22, 'normal',
+          undefined, 'bash', { jumpHosts: [{ host: 'bastion2.local' }] })
+      ).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('test.local', 'user', '/key', 22, expect.objectContaining({
+        jumpHosts: [{
+          host: 'bastion2.local',
+          port: 22,
+          username: 'admin',
+          privateKeyPath: '/bastion-key',
+          options: { hostKeyVerification: undefined },
+        }],
+      }));
+    });
+
+    it('should use explicit jump hosts for hosts other than the target', async () => {
+      const mgr = new SSHConnectionManager();
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      await expect(mgr.executeCommand('other.local', 'user', '/key', 'ls', 22, 30000, {
+        jumpHosts: [{ host: 'bastion.local', port: 2222, username: 'admin' }],
+      })).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('other.local', 'user', '/key', 22, {
+        jumpHosts: [{
+          host: 'bastion.local',
+          port: 2222,
+          username: 'admin',
+          privateKeyPath: '/key',
+          options: { hostKeyVerification: undefined, passphrase: undefined, agent: undefined },
+        }],
+      });
+    });
+
+    it('should report the full chain as the connection ID', async () => {
+      const mgr = new SSHConnectionManager();
+      const fakeClient = {
+        exec: vi.fn((_cmd: string, cb: Function) => cb(new Error('exec refused'))),
+      };
+      vi.spyOn((mgr as any).pool, 'acquireChannel').mockImplementation(leaseOf(fakeClient));
+      const logEvent = vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+
+      await expect(mgr.executeCommand('other.local', 'user', '/key', 'ls', 22, 30000, {
+        jumpHosts: [{ host: 'bastion.local', username: 'admin' }],
+      })).rejects.toThrow('exec refused');
+
+      expect(logEvent).toHaveBeenCalledWith(AuditEvent.CONNECTION_ESTABLISHED, expect.objectContaining({
+        connectionId: 'ssh-admin@bastion.local:22>user@other.local:22',
+      }));
+    });
+  });
+
+  describe('Proxy', () => {
+    it('should resolve the target proxy and its password', async () => {
+      process.env.SSH_MANAGER_TEST_PROXY_PASSWORD = 'proxy-secret';
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        proxy: {
+          type: 'http',
+          host: 'proxy.corp',
+          port: 3128,
+          username: 'proxy-user',
+          password: { env: 'SSH_MANAGER_TEST_PROXY_PASSWORD' },
+        },
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      try {
+        await expect(mgr.executeCommand('test.local', 'user', '/key', 'ls')).rejects.toThrow('Connection failed');
+      } finally {
+        delete process.env.SSH_MANAGER_TEST_PROXY_PASSWORD;
+      }
+
+      expect(getConnection).toHaveBeenCalledWith('test.local', 'user', '/key', 22, expect.objectContaining({
+        proxy: { type: 'http', host: 'proxy.corp', port: 3128, username: 'proxy-user', password: 'proxy-secret' },
+      }));
+    });
+
+    it('should send only the outermost jump host through the proxy', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        proxy: { type: 'command', command: 'corkscrew proxy.corp 8080 %h %p' },
+        jumpHosts: [{ host: 'bastion1.local', port: 22 }, { host: 'bastion2.local', port: 22 }],
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      await expect(mgr.executeCommand('test.local', 'user', '/key', 'ls')).rejects.toThrow('Connection failed');
+
+      const options = getConnection.mock.calls[0][4] as any;
+      expect(options.proxy).toBeUndefined();
+      expect(options.jumpHosts[0].options.proxy).toEqual({ type: 'command', command: 'corkscrew proxy.corp 8080 %h %p' });
+      expect(options.jumpHosts[1].options.proxy).toBeUndefined();
+    });
+
+    it('should not send other hosts through the target proxy', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 22,
+        username: 'user',
+        privateKeyPath: '/key',
+        proxy: { type: 'socks5', host: 'proxy.corp', port: 1080 },
+      });
+      const mgr = new SSHConnectionManager(config);
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      await expect(mgr.executeCommand('other.local', 'user', '/key', 'ls')).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('other.local', 'user', '/key', 22, {});
+    });
+  });
+
+  describe('Connection Test', () => {
+    it('should test the resolved target and audit the outcome', async () => {
+      const config = createDefaultConfig('test', {
+        host: 'test.local',
+        port: 2222,
+        username: 'user',
+        privateKeyPath: '/key',
+        hostKeyVerification: { mode: 'strict', knownHostsPath: '/tmp/known_hosts' },
+      });
+      const mgr = new SSHConnectionManager(config);
+      const logEvent = vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+      const report = {
+        target: 'test.local:2222',
+        username: 'user',
+        success: false,
+        durationMs: 42,
+        failedStage: 'host-key' as const,
+        error: 'Host key verification failed',
+        stages: [],
+        circuitState: 'closed' as const,
+      };
+      const testConnection = vi.spyOn((mgr as any).pool, 'testConnection').mockResolvedValue(report);
+
+      await expect(mgr.testConnection('test.local', 'user', '/key', 2222)).resolves.toBe(report);
+
+      expect(testConnection).toHaveBeenCalledWith('test.local', 'user', '/key', 2222, {
+        hostKeyVerification: { mode: 'strict', knownHostsPath: '/tmp/known_hosts' },
+      });
+      expect(logEvent).toHaveBeenCalledWith(AuditEvent.CONNECTION_TESTED, {
+        target: 'test.local:2222',
+        username: 'user',
+        success: false,
+        failedStage: 'host-key',
+        error: 'Host key verification failed',
+        duration: 42,
+      });
+    });
+
+    it('should throw for invalid arguments', async () => {
+      await expect(manager.testConnection('', 'user', '/key')).rejects.toThrow('Invalid arguments');
+      await expect(manager.testConnection('host', 'user', '/key', 70000)).rejects.toThrow('port must be between 1 and 65535');
+    });
+  });
+
+  describe('Target Pre-warming', () => {
+    const config = createDefaultConfig('test', {
+      host: 'test.local',
+      port: 2222,
+      username: 'user',
+      privateKeyPath: '/key',
+    });
+
+    /**
+     * A client whose commands exit with the given code
+     */
+    function exitingClient(code: number) {
+      return {
+        exec: vi.fn((_cmd: string, cb: Function) => {
+          const stream: any = new EventEmitter();
+          stream.stderr = new EventEmitter();
+          cb(undefined, stream);
+          process.nextTick(() => stream.emit('close', code));
+        }),
+      };
+    }
+
+    it('should connect and health-check the configured target', async () => {
+      const mgr = new SSHConnectionManager(config);
+      const client = exitingClient(0);
+      const warmConnection = vi.spyOn((mgr as any).pool, 'warmConnection').mockResolvedValue(client);
+      vi.spyOn((mgr as any).pool, 'acquireChannel').mockImplementation(leaseOf(client));
+      vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+
+      expect(mgr.getReadiness().state).toBe('idle');
+      const readiness = await mgr.prewarm();
+
+      expect(warmConnection).toHaveBeenCalledWith('test.local', 'user', '/key', 2222, expect.any(Object));
+      expect(client.exec).toHaveBeenCalledWith('exit 0', expect.any(Function));
+      expect(readiness).toMatchObject({ state: 'ready', target: 'test.local:2222' });
+      expect(mgr.getReadiness()).toEqual(readiness);
+    });
+
+    it('should report the target failed when it cannot be connected', async () => {
+      const mgr = new SSHConnectionManager(config);
+      vi.spyOn((mgr as any).pool, 'warmConnection').mockRejectedValue(new Error('Connection failed: test.local:2222'));
+      const logEvent = vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+
+      await expect(mgr.prewarm()).rejects.toThrow('Connection failed: test.local:2222');
+
+      expect(mgr.getReadiness()).toMatchObject({
+        state: 'failed',
+        target: 'test.local:2222',
+        error: 'Connection failed: test.local:2222',
+      });
+      expect(logEvent).toHaveBeenCalledWith(AuditEvent.CONNECTION_FAILED, expect.objectContaining({
+        target: 'test.local:2222',
+        reason: 'prewarm',
+      }));
+    });
+
+    it('should fail when the health check command fails', async () => {
+      const mgr = new SSHConnectionManager(config);
+      const client = exitingClient(1);
+      vi.spyOn((mgr as any).pool, 'warmConnection').mockResolvedValue(client);
+      vi.spyOn((mgr as any).pool, 'acquireChannel').mockImplementation(leaseOf(client));
+      vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+
+      await expect(mgr.prewarm()).rejects.toThrow('Health check failed: exit code 1');
+      expect(mgr.getReadiness().state).toBe('failed');
+    });
+
+    it('should throw without a configured target', async () => {
+      await expect(manager.prewarm()).rejects.toThrow('no target is configured');
+      expect(manager.getReadiness().state).toBe('idle');
+    });
+  });
+
+  describe('SSH Config', () => {
+    let tmpDir: string;
+
+    beforeEach(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'manager-ssh-config-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    /**
+     * Create a manager that resolves hosts through the given ssh_config text
+     */
+    async function createManager(content: string, target?: Parameters<typeof createDefaultConfig>[1]) {
+      const configPath = path.join(tmpDir, 'config');
+      await fs.writeFile(configPath, content);
+      const mgr = new SSHConnectionManager({
+        ...createDefaultConfig('test', target ?? { host: 'test.local', port: 22, username: 'user' }),
+        sshConfig: { enabled: true, path: configPath },
+      });
+      vi.spyOn((mgr as any).auditLogger, 'logEvent').mockImplementation(() => {});
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+      return { mgr, getConnection };
+    }
+
+    it('should resolve HostName, User, Port and the first existing IdentityFile of an alias', async () => {
+      const keyPath = path.join(tmpDir, 'id_prod');
+      await fs.writeFile(keyPath, 'key');
+      const { mgr, getConnection } = await createManager([
+        'Host prod',
+        '  HostName prod.example.com',
+        '  User deploy',
+        '  Port 2222',
+        `  IdentityFile ${path.join(tmpDir, 'missing')}`,
+        `  IdentityFile ${keyPath}`,
+      ].join('\n'));
+
+      await expect(mgr.executeCommand('prod', undefined, undefined, 'ls')).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('prod.example.com', 'deploy', keyPath, 2222, {});
+    });
+
+    it('should let explicit arguments override the configuration', async () => {
+      const { mgr, getConnection } = await createManager('Host prod\n  HostName prod.example.com\n  User deploy\n  Port 2222\n');
+
+      await expect(mgr.executeCommand('prod', 'admin', '/key', 'ls', 22)).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('prod.example.com', 'admin', '/key', 22, {});
+    });
+
+    it('should resolve ProxyJump hops through the configuration', async () => {
+      const { mgr, getConnection } = await createManager([
+        'Host prod',
+        '  HostName 10.0.0.5',
+        '  ProxyJump bastion',
+        'Host bastion',
+        '  HostName bastion.example.com',
+        '  User jump',
+        '  Port 2200',
+      ].join('\n'));
+
+      await expect(mgr.executeCommand('prod', 'deploy', '/key', 'ls')).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('10.0.0.5', 'deploy', '/key', 22, {
+        jumpHosts: [{
+          host: 'bastion.example.com',
+          port: 2200,
+          username: 'jump',
+          privateKeyPath: '/key',
+          options: { hostKeyVerification: undefined, passphrase: undefined, agent: undefined },
+        }],
+      });
+    });
+
+    it('should use ProxyCommand as a command proxy', async () => {
+      const { mgr, getConnection } = await createManager('Host prod\n  ProxyCommand nc -X 5 -x socks.corp:1080 %h %p\n');
+
+      await expect(mgr.executeCommand('prod', 'deploy', '/key', 'ls')).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('prod', 'deploy', '/key', 22, {
+        proxy: { type: 'command', command: 'nc -X 5 -x socks.corp:1080 %h %p' },
+      });
+    });
+
+    it('should apply target configuration to the resolved host', async () => {
+      const { mgr, getConnection } = await createManager(
+        'Host prod\n  HostName test.local\n',
+        { host: 'test.local', port: 22, username: 'user', privateKeyPath: '/key', hostKeyVerification: { mode: 'strict' } }
+      );
+
+      await expect(mgr.createSession('s1', 'prod', 'user', 'interactive', '/key', undefined))
+        .rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('test.local', 'user', '/key', 22, expect.objectContaining({
+        hostKeyVerification: { mode: 'strict' },
+      }));
+    });
+
+    it('should require a username when the configuration sets no User', async () => {
+      const { mgr, getConnection } = await createManager('Host prod\n  HostName prod.example.com\n');
+
+      await expect(mgr.executeCommand('prod', undefined, '/key', 'ls'))
+        .rejects.toThrow('Null or undefined arguments: username is required unless ~/.ssh/config sets User for prod');
+      expect(getConnection).not.toHaveBeenCalled();
+    });
+
+    it('should not read the configuration unless sshConfig is enabled', async () => {
+      const configPath = path.join(tmpDir, 'config');
+      await fs.writeFile(configPath, 'Host prod\n  HostName prod.example.com\n');
+      const mgr = new SSHConnectionManager({
+        ...createDefaultConfig('test', { host: 'test.local', port: 22, username: 'user' }),
+        sshConfig: { enabled: false, path: configPath },
+      });
+      const getConnection = vi.spyOn((mgr as any).pool, 'getConnection')
+        .mockRejectedValue(new Error('Connection failed'));
+
+      await expect(mgr.executeCommand('prod', 'deploy', '/key', 'ls')).rejects.toThrow('Connection failed');
+
+      expect(getConnection).toHaveBeenCalledWith('prod', 'deploy', '/key', 22, {});
+    });
+  });
 });
@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, connect, Server, Socket, AddressInfo } from 'net';
+import { Duplex } from 'stream';
+import { openProxySocket, expandProxyCommand } from '../../src/ssh/proxy.js';
+import { SSHError } from '../../src/ssh/errors.js';
+
+const sockets: Socket[] = [];
+
+/**
+ * Start a TCP server on a random local port
+ */
+async function listen(onConnection: (socket: Socket) => void): Promise<{ server: Server; port: number }> {
+  const server = createServer((socket) => {
+    sockets.push(socket);
+    onConnection(socket);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, port: (server.address() as AddressInfo).port };
+}
+
+/**
+ * Read from a stream until it has produced the expected text
+ */
+function readUntil(stream: Duplex, expected: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    stream.on('data', (chunk: Buffer) => {
+      data += chunk.toString();
+      if (data.includes(expected)) {
+        resolve(data);
+      }
+    });
+    stream.on('error', reject);
+    stream.resume();
+  });
+}
+
+/**
+ * Read one chunk from a socket
+ */
+function readChunk(socket: Socket): Promise<Buffer> {
+  return new Promise((resolve) => socket.once('data', resolve));
+}
+
+describe('proxy', () => {
+  let servers: Server[];
+  let sshPort: number;
+
+  beforeEach(async () => {
+    servers = [];
+    // Stands in for an SSH server: sends a banner straight away, then echoes
+    const ssh = await listen((socket) => {
+      socket.write('SSH-2.0-Test\r\n');
+      socket.pipe(socket);
+    });
+    servers.push(ssh.server);
+    sshPort = ssh.port;
+  });
+
+  afterEach(async () => {
+    sockets.splice(0).forEach((socket) => socket.destroy());
+    await Promise.all(servers.map((server) => new Promise((resolve) => server.close(resolve))));
+  });
+
+  /**
+   * Start a minimal SOCKS5 proxy that records the requests it receives
+   */
+  async function startSocks5Proxy(credentials?: { username: string; password: string }) {
+    const requests: Array<{ auth?: string; host: string; port: number }> = [];
+    const { server, port } = await listen(async (client) => {
+      await readChunk(client);
+      let auth: string | undefined;
+      if (credentials) {
+        client.write(Buffer.from([0x05, 0x02]));
+        const login = await readChunk(client);
+        const user = login.subarray(2, 2 + login[1]).toString();
+        const pass = login.subarray(3 + login[1], 3 + login[1] + login[2 + login[1]]).toString();
+        auth = `${user}:${pass}`;
+        const ok = user === credentials.username && pass === credentials.password;
+        client.write(Buffer.from([0x01, ok ? 0x00 : 0x01]));
+        if (!ok) {
+          client.end();
+          return;
+        }
+      } else {
+        client.write(Buffer.from([0x05, 0x00]));
+      }
+
+      const request = await readChunk(client);
+      const host = request[3] === 0x03
+        ? request.subarray(5, 5 + request[4]).toString()
+        : Array.from(request.subarray(4, 8)).join('.');
+      const port = request.readUInt16BE(request.length - 2);
+      requests.push({ auth, host, port });
+
+      if (host !== '127.0.0.1' && host !== 'ssh.internal') {
+        client.end(Buffer.from([0x05, 0x04, 0x00, 0x01, 0, 0, 0, 0, 0, 0]));
+        return;
+      }
+      const upstream = connect(sshPort, '127.0.0.1', () => {
+        client.write(Buffer.from([0x05, 0x00, 0x00, 0x01, 127, 0, 0, 1, 0, 0]));
+        upstream.pipe(client);
+        client.pipe(upstream);
+      });
+    });
+    servers.push(server);
+    return { port, requests };
+  }
+
+  /**
+   * Start a minimal HTTP CONNECT proxy that records the requests it receives
+   */
+  async function startHttpProxy(status = '200 Connection established') {
+    const requests: string[] = [];
+    const { server, port } = await listen(async (client) => {
+      const request = (await readChunk(client)).toString();
+      requests.push(request);
+      if (!status.startsWith('200')) {
+        client.end(`HTTP/1.1 ${status}\r\n\r\n`);
+        return;
+      }
+      const upstream = connect(sshPort, '127.0.0.1', () => {
+        client.write(`HTTP/1.1 ${status}\r\n\r\n`);
+        upstream.pipe(client);
+        client.pipe(upstream);
+      });
+    });
+    servers.push(server);
+    return { port, requests };
+  }
+
+  describe('socks5', () => {
+    it('should connect through the proxy and keep the server banner', async () => {
+      const proxy = await startSocks5Proxy();
+
+      const stream = await openProxySocket(
+        { type: 'socks5', host: '127.0.0.1', port: proxy.port }, 'ssh.internal', sshPort, 'deploy'
+      );
+      const banner = readUntil(stream, 'ping');
+      stream.write('ping');
+
+      expect(await banner).toBe('SSH-2.0-Test\r\nping');
+      expect(proxy.requests).toEqual([{ auth: undefined, host: 'ssh.internal', port: sshPort }]);
+      stream.destroy();
+    });
+
+    it('should authenticate with a username and password', async () => {
+      const proxy = await startSocks5Proxy({ username: 'proxy-user', password: 'proxy-secret' });
+
+      const stream = await openProxySocket(
+        { type: 'socks5', host: '127.0.0.1', port: proxy.port, username: 'proxy-user', password: 'proxy-secret' },
+        '127.0.0.1', sshPort, 'deploy'
+      );
+
+      expect(proxy.requests).toEqual([{ auth: 'proxy-user:proxy-secret', host: '127.0.0.1', port: sshPort }]);
+      stream.destroy();
+    });
+
+    it('should reject with SSHError when the proxy refuses the connection', async () => {
+      const proxy = await startSocks5Proxy();
+
+      const error = await openProxySocket(
+        { type: 'socks5', host: '127.0.0.1', port: proxy.port }, 'elsewhere', 22, 'deploy'
+      ).catch(e => e);
+
+      expect(error).toBeInstanceOf(SSHError);
+      expect(error.message).toBe(`Proxy connection failed: socks5 proxy 127.0.0.1:${proxy.port} to elsewhere:22: host unreachable`);
+    });
+
+    it('should reject with SSHError when the proxy authentication fails', async () => {
+      const proxy = await startSocks5Proxy({ username: 'proxy-user', password: 'proxy-secret' });
+
+      await expect(openProxySocket(
+        { type: 'socks5', host: '127.0.0.1', port: proxy.port, username: 'proxy-user', password: 'wrong' },
+        '127.0.0.1', sshPort, 'deploy'
+      )).rejects.toThrow('proxy authentication failed');
+    });
+  });
+
+  describe('http', () => {
+    it('should open a CONNECT tunnel', async () => {
+      const proxy = await startHttpProxy();
+
+      const stream = await openProxySocket(
+        { type: 'http', host: '127.0.0.1', port: proxy.port, username: 'proxy-user', password: 'proxy-secret' },
+        'ssh.internal', 2222, 'deploy'
+      );
+      const banner = readUntil(stream, 'SSH-2.0-Test');
+
+      expect(await banner).toBe('SSH-2.0-Test\r\n');
+      expect(proxy.requests[0]).toContain('CONNECT ssh.internal:2222 HTTP/1.1\r\n');
+      expect(proxy.requests[0]).toContain(
+        `Proxy-Authorization: Basic ${Buffer.from('proxy-user:proxy-secret').toString('base64')}\r\n`
+      );
+      stream.destroy();
+    });
+
+    it('should reject with SSHError when the proxy answers with an error status', async () => {
+      const proxy = await startHttpProxy('407 Proxy Authentication Required');
+
+      const error = await openProxySocket(
+        { type: 'http', host: '127.0.0.1', port: proxy.port }, 'ssh.internal', 22, 'deploy'
+      ).catch(e => e);
+
+      expect(error).toBeInstanceOf(SSHError);
+      expect(error.message).toContain('HTTP 407 Proxy Authentication Required');
+    });
+  });
+
+  it('should reject with SSHError when the proxy is unreachable', async () => {
+    const { server, port } = await listen(() => {});
+    await new Promise((resolve) => server.close(resolve));
+
+    await expect(openProxySocket({ type: 'http', host: '127.0.0.1', port }, 'ssh.internal', 22, 'deploy'))
+      .rejects.toThrow(`Proxy connection failed: cannot reach proxy 127.0.0.1:${port}`);
+  });
+
+  describe('command', () => {
+    it('should talk to the server over the command stdio', async () => {
+      const stream = await openProxySocket(
+        { type: 'command', command: 'printf "%s\\n" %r@%h:%p; cat' }, 'ssh.internal', 2222, 'deploy'
+      );
+      const output = readUntil(stream, 'ping');
+      stream.write('ping');
+
+      expect(await output).toBe('deploy@ssh.internal:2222\nping');
+      stream.destroy();
+    });
+
+    it('should fail the stream with the command stderr when it exits early', async () => {
+      const stream = await openProxySocket(
+        { type: 'command', command: 'echo "no route to %h" >&2; exit 1' }, 'ssh.internal', 22, 'deploy'
+      );
+
+      const error = await new Promise<Error>((resolve) => {
+        stream.on('error', resolve);
+        stream.resume();
+      });
+
+      expect(error).toBeInstanceOf(SSHError);
+      expect(error.message).toContain('no route to ssh.internal');
+    });
+  });
+
+  describe('expandProxyCommand', () => {
+    it('should expand host, port, username and literal percent tokens', () => {
+      expect(expandProxyCommand('nc -X connect -x proxy:3128 %h %p # %r 100%%', 'ssh.internal', 22, 'deploy'))
+        .toBe('nc -X connect -x proxy:3128 ssh.internal 22 # deploy 100%');
+    });
+
+    it('should shell-quote values with unsafe characters', () => {
+      expect(expandProxyCommand('connect %h', "host; rm -rf ~ 'x'", 22, 'deploy'))
+        .toBe(`connect 'host; rm -rf ~ '\\''x'\\'''`);
+    });
+  });
+});
@@ -1,6 +1,8 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { PersistentSession } from '../../src/ssh/session.js';
 import { ShellType } from '../../src/shells.js';
+import { CommandTimeoutError, CommandCancelledError } from '../../src/ssh/errors.js';
+import { AuditEvent } from '../../src/security/audit.js';
 
 // Test our business logic, not the ssh2 library
 describe('PersistentSession', () => {
@@ -157,7 +159,7 @@ describe('PersistentSession', () => {
 
     it('should track shell type through session lifecycle', () => {
       const mockClient = {
-        shell: vi.fn((callback) => {
+        shell: vi.fn((_window, callback) => {
           // Mock shell stream
           const mockStream = {
             on: vi.fn(),
@@ -192,6 +194,246 @@ describe('PersistentSession', () => {
     });
   });
 
+  describe('Terminal', () => {
+    /**
+     * Build a client whose shell channel records window changes
+     */
+    function createPtyClient() {
+      const stream = {
+        on: vi.fn(),
+        stderr: { on: vi.fn() },
+        write: vi.fn(),
+        end: vi.fn(),
+        setWindow: vi.fn(),
+      };
+      const client = { shell: vi.fn((_window, callback) => callback(null, stream)) } as any;
+      return { client, stream };
+    }
+
+    it('should open the shell with the requested pseudo-terminal', async () => {
+      vi.useFakeTimers();
+      const { client } = createPtyClient();
+      const session = new PersistentSession('id', 'host', 'user', 'interactive', client, 22, 'raw', 60000, 'bash',
+        { term: 'xterm-256color', rows: 50, cols: 200, modes: { ECHO: 0 } });
+
+      const initialized = session.initialize();
+      await vi.advanceTimersByTimeAsync(1000);
+      await initialized;
+      session.close();
+      vi.useRealTimers();
+
+      expect(client.shell).toHaveBeenCalledWith(
+        { term: 'xterm-256color', rows: 50, cols: 200, modes: { ECHO: 0 } },
+        expect.any(Function)
+      );
+      expect(session.getSessionInfo()).toMatchObject({ term: 'xterm-256color', rows: 50, cols: 200 });
+    });
+
+    it('should default to a vt100 terminal of 24 rows and 80 columns', () => {
+      const session = new PersistentSession('id', 'host', 'user', 'interactive', {} as any);
+      expect(session.getSessionInfo()).toMatchObject({ term: 'vt100', rows: 24, cols: 80 });
+    });
+
+    it('should resize the window of the live channel', async () => {
+      vi.useFakeTimers();
+      const { client, stream } = createPtyClient();
+      const session = new PersistentSession('id', 'host', 'user', 'interactive', client);
+      const initialized = session.initialize();
+      await vi.advanceTimersByTimeAsync(1000);
+      await initialized;
+
+      session.resize(50, 200);
+      session.close();
+      vi.useRealTimers();
+
+      expect(stream.setWindow).toHaveBeenCalledWith(50, 200, 0, 0);
+      expect(session.getSessionInfo()).toMatchObject({ rows: 50, cols: 200 });
+    });
+
+    it('should reject invalid terminal sizes', () => {
+      expect(() => new PersistentSession('id', 'host', 'user', 'interactive', {} as any, 22, 'normal', 60000, 'bash',
+        { rows: 0 })).toThrow('rows and cols must be positive integers');
+      const session = new PersistentSession('id', 'host', 'user', 'interactive', {} as any);
+      expect(() => session.resize(24.5, 80)).toThrow('rows and cols must be positive integers');
+      expect(() => session.resize(24, 80)).toThrow('Session not initialized or inactive');
+    });
+  });
+
+  describe('Send Keys', () => {
+    let session: PersistentSession;
+    let written: string[];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      session = new PersistentSession('id', 'host', 'user', 'interactive', {} as any, 22, 'raw');
+      written = [];
+      (session as any).isInitialized = true;
+      (session as any).shell = { write: vi.fn((data: string) => written.push(data)), end: vi.fn() };
+      (session as any).sessionInfo.isActive = true;
+    });
+
+    afterEach(() => {
+      session.close();
+      vi.useRealTimers();
+    });
+
+    it('should write exactly the keystrokes and return the output once it settles', async () => {
+      const result = session.sendKeys(':q<Enter>', 300);
+      expect(written).toEqual([':q\r']);
+
+      (session as any).handleShellOutput('\x1b[2J');
+      await vi.advanceTimersByTimeAsync(200);
+      (session as any).handleShellOutput('$ ');
+      await vi.advanceTimersByTimeAsync(200);
+      (session as any).handleShellOutput('late');
+      await vi.advanceTimersByTimeAsync(300);
+
+      await expect(result).resolves.toBe('\x1b[2J$ late');
+    });
+
+    it('should stop collecting after the maximum wait while output keeps arriving', async () => {
+      const result = session.sendKeys('top<Enter>', 500);
+      for (let elapsed = 0; elapsed < 12000; elapsed += 400) {
+        (session as any).handleShellOutput('.');
+        await vi.advanceTimersByTimeAsync(400);
+      }
+
+      expect((await result).length).toBe(25);
+    });
+
+    it('should only send keys to raw mode sessions', async () => {
+      const normal = new PersistentSession('id', 'host', 'user', 'interactive', {} as any);
+      await expect(normal.sendKeys('q')).rejects.toThrow('keys can only be sent to raw mode sessions');
+    });
+
+    it('should check each typed line with the command filter', async () => {
+      session.setCommandFilter((command) => {
+        if (/rm -rf/.test(command)) {
+          throw new Error('Command not allowed by security policy');
+        }
+      });
+
+      await expect(session.sendKeys('<Esc>:!rm -rf /<Enter>')).rejects.toThrow('Command not allowed');
+      expect(written).toEqual([]);
+    });
+
+    it('should audit the length of the keystrokes but not the keys themselves', async () => {
+      const logEvent = vi.fn();
+      session.setAuditLogger({ logEvent } as any);
+      const result = session.sendKeys('hunter2<Enter>', 100);
+      await vi.advanceTimersByTimeAsync(100);
+      await result;
+
+      expect(logEvent).toHaveBeenCalledWith(AuditEvent.KEYS_SENT, expect.objectContaining({ keysLength: 8 }));
+      expect(JSON.stringify(logEvent.mock.calls)).not.toContain('hunter2');
+    });
+  });
+
+  describe('Screen', () => {
+    it('should render the output of raw mode sessions and follow resizes', () => {
+      const session = new PersistentSession('id', 'host', 'user', 'interactive', {} as any, 22, 'raw', undefined, 'bash', { rows: 3, cols: 20 });
+      (session as any).isInitialized = true;
+      (session as any).shell = { setWindow: vi.fn(), end: vi.fn() };
+      (session as any).sessionInfo.isActive = true;
+
+      (session as any).handleShellOutput('$ top\r\n\x1b[?1049h\x1b[H\x1b[2Jtasks: 3\x1b[2;1Hload: 0.1');
+      const screen = session.getScreen();
+      expect(screen.lines).toEqual(['tasks: 3', 'load: 0.1', '']);
+      expect(screen.cursor).toEqual({ row: 1, col: 9 });
+      expect(screen.alternateScreen).toBe(true);
+      expect(screen.changes).toBeUndefined();
+
+      session.resize(2, 5);
+      expect(session.getScreen()).toMatchObject({ lines: ['tasks', 'load:'], rows: 2, cols: 5 });
+      session.close();
+    });
+
+    it('should return the lines changed since the previous snapshot', () => {
+      const session = new PersistentSession('id', 'host', 'user', 'interactive', {} as any, 22, 'raw');
+
+      (session as any).handleShellOutput('one\r\ntwo');
+      expect(session.getScreen(true).changes).toEqual([
+        { row: 0, line: 'one' },
+        { row: 1, line: 'two' },
+      ]);
+
+      (session as any).handleShellOutput('\x1b[1;1HONE');
+      expect(session.getScreen(true).changes).toEqual([{ row: 0, line: 'ONE' }]);
+      expect(session.getScreen(true).changes).toEqual([]);
+      session.close();
+    });
+
+    it('should only keep a screen for raw mode sessions', () => {
+      const session = new PersistentSession('id', 'host', 'user', 'interactive', {} as any);
+      expect(() => session.getScreen()).toThrow('screens are only kept for raw mode sessions');
+    });
+  });
+
+  describe('Wait For', () => {
+    let session: PersistentSession;
+
+    const createSession = (mode: 'normal' | 'raw') => {
+      session = new PersistentSession('id', 'host', 'user', 'background', {} as any, 22, mode, undefined, 'bash', { rows: 3, cols: 30 });
+      (session as any).isInitialized = true;
+      (session as any).shell = { write: vi.fn(), end: vi.fn() };
+      (session as any).sessionInfo.isActive = true;
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      session.close();
+      vi.useRealTimers();
+    });
+
+    it('should match new output across chunks with escape sequences removed', async () => {
+      createSession('normal');
+      (session as any).handleShellOutput('Server started on port 1\r\n');
+
+      const result = session.waitFor('started on port (\\d+)');
+      (session as any).handleShellOutput('building\r\n\x1b[32mServer\x1b[');
+      (session as any).handleShellOutput('0m started on ');
+      (session as any).handleShellOutput('port 8080\r\nready\r\n');
+
+      await expect(result).resolves.toEqual({
+        match: 'started on port 8080',
+        groups: ['8080'],
+        offset: 16,
+        context: 'building\nServer started on port 8080\nready\n',
+        source: 'output',
+      });
+    });
+
+    it('should search the screen of raw mode sessions, including what is already shown', async () => {
+      createSession('raw');
+      (session as any).handleShellOutput('Installing...\r\nContinue? [y/N] ');
+
+      await expect(session.waitFor('continue\\? \\[y/n\\]', { ignoreCase: true })).resolves.toMatchObject({
+        match: 'Continue? [y/N]',
+        offset: 14,
+        source: 'screen',
+      });
+    });
+
+    it('should fail with the last output once the timeout expires', async () => {
+      createSession('normal');
+      const result = session.waitFor('^Password:', { timeout: 1000 });
+      const assertion = expect(result).rejects.toThrow('Timed out waiting for pattern: /^Password:/ after 1000ms; last output:\nconnecting');
+      (session as any).handleShellOutput('connecting\r\n');
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+    });
+
+    it('should reject invalid patterns and screens of sessions not in raw mode', async () => {
+      createSession('normal');
+      await expect(session.waitFor('port (')).rejects.toThrow('Invalid arguments: invalid pattern');
+      await expect(session.waitFor('ready', { source: 'screen' })).rejects.toThrow('screens are only kept for raw mode sessions');
+      await expect(session.waitFor('ready', { timeout: 0 })).rejects.toThrow('timeout must be positive');
+    });
+  });
+
   describe('Input Validation', () => {
     it('should throw error for null sessionId', () => {
       const mockClient = {} as any;
@@ -418,4 +660,461 @@ describe('PersistentSession', () => {
       await expect(session.executeCommand('echo "Ñoño"')).resolves.toBeDefined();
     });
   });
+
+  describe('Command Timeout', () => {
+    let session: PersistentSession;
+    let written: string[];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      session = new PersistentSession('id', 'host', 'user', 'interactive', {} as any);
+      written = [];
+      (session as any).isInitialized = true;
+      (session as any).shell = { write: vi.fn((data: string) => written.push(data)), end: vi.fn() };
+      (session as any).sessionInfo.isActive = true;
+    });
+
+    afterEach(() => {
+      session.close();
+      vi.useRealTimers();
+    });
+
+    /**
+     * Feed output to the session as the shell would print it
+     */
+    function print(data: string): void {
+      (session as any).handleShellOutput(data);
+    }
+
+    /**
+     * Print the output of the most recent state and sync commands, after their echoed command lines
+     */
+    function printSyncMarker(): void {
+      const [stateCommand, syncCommand] = written[written.length - 1].trim().split('\n');
+      const marker = /echo "(.*)"/.exec(syncCommand)![1];
+      print(`${stateCommand}\r\n${marker}_STATE\r\n/home/user\r\nHOME=/home/user\r\n${syncCommand}\r\n${marker}\r\n$ `);
+    }
+
+    it('should interrupt the command, include its partial output and resync the shell', async () => {
+      const first = session.executeCommand('tail -f log', 1000);
+      const second = session.executeCommand('pwd', 1000);
+      const startDelimiter = /echo "(\S+_START_\S+)"/.exec(written[0])![1];
+      print(`${written[0]}\r\n${startDelimiter}\r\nline 1\r\nline 2\r\n`);
+
+      vi.advanceTimersByTime(1000);
+      const error = await first.catch((err) => err);
+
+      expect(error).toBeInstanceOf(CommandTimeoutError);
+      expect(error.partialOutput).toBe('line 1\r\nline 2');
+      expect(error.message).toContain('Command timeout: tail -f log; partial output:');
+      expect(written[1]).toBe('\x03');
+
+      // The late delimiter of the interrupted command must not leak into the next command
+      vi.advanceTimersByTime(100);
+      print('^C\r\n');
+      expect(written).toHaveLength(3);
+      printSyncMarker();
+
+      expect(written[3]).toContain('pwd');
+      const secondStart = /echo "(\S+_START_\S+)"/.exec(written[3])![1];
+      const secondEnd = secondStart.replace('_START_', '_END_');
+      print(`${secondStart}\n/home/user\n${secondEnd}:0\n`);
+      await expect(second).resolves.toMatchObject({ stdout: '/home/user', code: 0 });
+      expect(session.getSessionInfo().isHealthy).toBe(true);
+    });
+
+    it('should mark the session unhealthy when the shell does not resync', async () => {
+      const first = session.executeCommand('sleep 100', 1000);
+      const second = session.executeCommand('pwd', 1000);
+      const unhealthy = vi.fn();
+      session.on('unhealthy', unhealthy);
+
+      vi.advanceTimersByTime(1000);
+      await expect(first).rejects.toThrow('Command timeout: sleep 100');
+      vi.advanceTimersByTime(100 + 5000);
+
+      await expect(second).rejects.toThrow('Session unhealthy');
+      expect(unhealthy).toHaveBeenCalledTimes(1);
+      expect(session.getSessionInfo().isHealthy).toBe(false);
+      await expect(session.executeCommand('ls')).rejects.toThrow('Session unhealthy');
+    });
+  });
+
+  describe('Stderr Capture', () => {
+    it('should return stdout and stderr separately', async () => {
+      const session = new PersistentSession('id', 'host', 'user', 'interactive', {} as any);
+      const written: string[] = [];
+      (session as any).isInitialized = true;
+      (session as any).shell = { write: vi.fn((data: string) => written.push(data)) };
+      (session as any).sessionInfo.isActive = true;
+
+      const result = session.executeCommand('make', 1000);
+      const [start, stderrDelimiter, state, end] = ['START', 'ERR', 'STATE', 'END']
+        .map((kind) => new RegExp(`echo "(\\S+_${kind}_[^":]+)`).exec(written[0])![1]);
+      // The terminal echoes the command line, delimiters included, before running it
+      (session as any).handleShellOutput(
+        `${written[0].trim()}\r\n${start}\r\nbuilding\r\n${stderrDelimiter}\r\nmake: *** No rule\r\n` +
+        `${state}\r\n/src\r\nHOME=/home/user\r\n${end}:2\r\n`
+      );
+
+      await expect(result).resolves.toEqual({
+        stdout: 'building',
+        stderr: 'make: *** No rule',
+        code: 2,
+        signal: null,
+      });
+    });
+  });
+
+  describe('Background Jobs', () => {
+    let session: PersistentSession;
+    let written: string[];
+
+    const complete = (command: number, output: string, code: number) => {
+      const [start, end] = ['START', 'END'].map((kind) => new RegExp(`echo "(\\S+_${kind}_[^":]+)`).exec(written[command])![1]);
+      (session as any).handleShellOutput(`${written[command].trim()}\r\n${start}\r\n${output}\r\n${end}:${code}\r\n`);
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      session = new PersistentSession('bg', 'host', 'user', 'background', {} as any);
+      written = [];
+      (session as any).isInitialized = true;
+      (session as any).shell = { write: vi.fn((data: string) => written.push(data)), end: vi.fn() };
+      (session as any).sessionInfo.isActive = true;
+    });
+
+    afterEach(() => {
+      session.close();
+      vi.useRealTimers();
+    });
+
+    it('should track each queued command through to its exit code', async () => {
+      const build = await session.executeCommand('make', 60000);
+      const test = await session.executeCommand('make test', 60000);
+      expect(build.jobId).toBe('job-1');
+      expect(test.stdout).toBe(`Command 'make test' queued in background session 'bg' as job-2`);
+      expect(session.listJobs().map((job) => job.state)).toEqual(['running', 'queued']);
+
+      complete(0, 'built', 0);
+      complete(1, 'FAIL: 1 test', 2);
+
+      const [first, second] = session.listJobs();
+      expect(first).toMatchObject({ jobId: 'job-1', sessionId: 'bg', command: 'make', state: 'done', exitCode: 0, outputStart: 0 });
+      expect(first.endedAt).toBeInstanceOf(Date);
+      expect(second).toMatchObject({ jobId: 'job-2', state: 'failed', exitCode: 2, outputStart: first.outputEnd });
+      expect(second.outputEnd).toBeGreaterThan(second.outputStart!);
+      expect(second.error).toBeUndefined();
+    });
+
+    it('should keep jobs without a timeout running until they exit', async () => {
+      await session.executeCommand('make');
+      await session.executeCommand('echo later');
+      await vi.advanceTimersByTimeAsync(300000);
+
+      expect(session.getJob('job-1')).toMatchObject({ state: 'running', exitCode: null });
+      expect(session.getJob('job-2')).toMatchObject({ state: 'queued' });
+      expect(written.join('')).not.toContain('\x03');
+
+      complete(0, 'built', 0);
+      expect(session.getJob('job-1')).toMatchObject({ state: 'done', exitCode: 0 });
+      expect(session.getJob('job-2')).toMatchObject({ state: 'running' });
+    });
+
+    it('should interrupt and fail jobs whose timeout passed', async () => {
+      await session.executeCommand('tail -f log', 1000);
+      await session.executeCommand('echo later');
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(session.getJob('job-1')).toMatchObject({ state: 'failed', exitCode: null, error: expect.stringContaining('Command timeout') });
+      expect(written[written.length - 1]).toBe('\x03');
+      expect(session.getJob('job-2')).toMatchObject({ state: 'queued' });
+    });
+
+    it('should interrupt and fail a running job when its command is cancelled', async () => {
+      await session.executeCommand('tail -f log');
+      await session.executeCommand('echo later');
+      const [running] = session.listQueue();
+
+      session.cancelCommand(running.commandId);
+
+      expect(session.getJob('job-1')).toMatchObject({ state: 'failed', exitCode: null, error: 'Command cancelled: tail -f log' });
+      expect(written[written.length - 1]).toBe('\x03');
+      expect(session.listQueue().map((request) => request.command)).toEqual(['echo later']);
+
+      // Queued commands run once the shell resynced
+      await vi.advanceTimersByTimeAsync(100);
+      const marker = /echo "(.*)"/.exec(written[written.length - 1])![1];
+      (session as any).handleShellOutput(`^C\r\n${marker}\r\n`);
+      expect(session.getJob('job-2')).toMatchObject({ state: 'running' });
+    });
+
+    it('should fail jobs dropped when the session closes', async () => {
+      await session.executeCommand('sleep 100');
+      await session.executeCommand('echo later');
+
+      session.close();
+      expect(session.getJob('job-1')).toMatchObject({ state: 'failed', exitCode: null, error: 'Session closed' });
+      expect(session.getJob('job-2')).toMatchObject({ state: 'failed', error: 'Session closed' });
+    });
+
+    it('should report raw mode commands whose timeout passed as unknown', async () => {
+      (session as any).sessionInfo.mode = 'raw';
+      await session.executeCommand('tail -f log', 500);
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(session.getJob('job-1')).toMatchObject({ state: 'unknown', exitCode: null });
+    });
+
+    it('should throw for unknown jobs', () => {
+      expect(() => session.getJob('job-9')).toThrow('Job not found: job-9');
+    });
+  });
+
+  describe('Command Queue', () => {
+    let session: PersistentSession;
+    let logEvent: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      session = new PersistentSession('id', 'host', 'user', 'interactive', {} as any);
+      logEvent = vi.fn();
+      session.setAuditLogger({ logEvent } as any);
+      (session as any).isInitialized = true;
+      (session as any).shell = { write: vi.fn(), end: vi.fn() };
+      (session as any).sessionInfo.isActive = true;
+    });
+
+    afterEach(() => {
+      session.close();
+    });
+
+    it('should list the running command and those queued behind it', () => {
+      session.executeCommand('make', 60000);
+      session.executeCommand('make test', 1000);
+
+      const queue = session.listQueue();
+      expect(queue.map(({ command, state, position, timeout }) => ({ command, state, position, timeout }))).toEqual([
+        { command: 'make', state: 'running', position: 0, timeout: 60000 },
+        { command: 'make test', state: 'queued', position: 1, timeout: 1000 },
+      ]);
+      expect(queue[0].commandId).not.toBe(queue[1].commandId);
+    });
+
+    it('should reject a cancelled command with a distinct error and audit it', async () => {
+      session.executeCommand('make', 60000);
+      const test = session.executeCommand('make test');
+      const deploy = session.executeCommand('make deploy');
+      const [running, queued] = session.listQueue();
+
+      session.cancelCommand(queued.commandId);
+
+      const error = await test.catch((rejection) => rejection);
+      expect(error).toBeInstanceOf(CommandCancelledError);
+      expect(error.message).toBe('Command cancelled: make test');
+      expect(logEvent).toHaveBeenCalledWith('COMMAND_CANCELLED', expect.objectContaining({
+        sessionId: 'id',
+        command: 'make test',
+        commandId: queued.commandId,
+      }));
+      expect(session.listQueue().map((request) => request.command)).toEqual(['make', 'make deploy']);
+
+      expect(() => session.cancelCommand(queued.commandId)).toThrow(`Command not found: ${queued.commandId}`);
+      expect(session.flushQueue()).toHaveLength(1);
+      await expect(deploy).rejects.toThrow('Command cancelled: make deploy');
+      expect(session.listQueue()).toHaveLength(1);
+      expect(running.state).toBe('running');
+    });
+
+    it('should fail the background jobs of cancelled commands', async () => {
+      const background = new PersistentSession('bg', 'host', 'user', 'background', {} as any);
+      (background as any).isInitialized = true;
+      (background as any).shell = { write: vi.fn(), end: vi.fn() };
+      (background as any).sessionInfo.isActive = true;
+
+      await background.executeCommand('make');
+      await background.executeCommand('make test');
+      expect(background.listQueue()[1].jobId).toBe('job-2');
+      background.flushQueue();
+
+      expect(background.getJob('job-2')).toMatchObject({ state: 'failed', error: 'Command cancelled: make test' });
+      expect(background.getJob('job-1').state).toBe('running');
+      background.close();
+    });
+  });
+
+  describe('Shell State', () => {
+    it('should track the working directory and changed environment variables', async () => {
+      const session = new PersistentSession('id', 'host', 'user', 'interactive', {} as any);
+      const written: string[] = [];
+      (session as any).isInitialized = true;
+      (session as any).shell = { write: vi.fn((data: string) => written.push(data)) };
+      (session as any).sessionInfo.isActive = true;
+
+      // The shell reports its starting state once it is up
+      (session as any).startResync(false);
+      const marker = /echo "(.*)"/.exec(written[0].trim().split('\n')[1])![1];
+      (session as any).handleShellOutput(
+        `${marker}_STATE\r\n/home/user\r\nHOME=/home/user\r\nLANG=C\r\n_=/usr/bin/env\r\n${marker}\r\n`
+      );
+
+      const result = session.executeCommand('cd /srv && export API_TOKEN=abc LANG=C.UTF-8', 1000);
+      const [start, state, end] = ['START', 'STATE', 'END']
+        .map((kind) => new RegExp(`echo "(\\S+_${kind}_[^":]+)`).exec(written[1])![1]);
+      (session as any).handleShellOutput(
+        `${start}\r\n${state}\r\n/srv\r\nHOME=/home/user\r\nLANG=C.UTF-8\r\nAPI_TOKEN=abc\r\n` +
+        `_=/usr/bin/env\r\nOLDPWD=/home/user\r\n${end}:0\r\n`
+      );
+      await result;
+
+      const info = session.getSessionInfo();
+      expect(info.workingDirectory).toBe('/srv');
+      expect(Object.fromEntries(info.environmentVars)).toEqual({ LANG: 'C.UTF-8', API_TOKEN: 'abc' });
+    });
+
+    it('should keep state reports out of the output observers see', async () => {
+      const session = new PersistentSession('id', 'host', 'user', 'interactive', {} as any);
+      const written: string[] = [];
+      const observed: string[] = [];
+      (session as any).isInitialized = true;
+      (session as any).shell = { write: vi.fn((data: string) => written.push(data)) };
+      (session as any).sessionInfo.isActive = true;
+      session.on('output', (chunk: string) => observed.push(chunk));
+
+      (session as any).startResync(false);
+      const marker = /echo "(.*)"/.exec(written[0].trim().split('\n')[1])![1];
+      (session as any).handleShellOutput(`${marker}_STATE\r\n/home/user\r\nAPI_TOKEN=s3cret\r\n${marker}\r\n`);
+
+      const result = session.executeCommand('echo hi', 1000);
+      const [start, state, end] = ['START', 'STATE', 'END']
+        .map((kind) => new RegExp(`echo "(\\S+_${kind}_[^":]+)`).exec(written[1])![1]);
+      const output = `${start}\r\nhi\r\n${state}\r\n/home/user\r\nAPI_TOKEN=s3cret\r\n${end}:0\r\n$ `;
+      // Split the output across chunks, cutting through the delimiters and the secret
+      for (let i = 0; i < output.length; i += 7) {
+        (session as any).handleShellOutput(output.substring(i, i + 7));
+      }
+      await expect(result).resolves.toMatchObject({ stdout: 'hi' });
+
+      const seen = observed.join('');
+      expect(seen).not.toContain('s3cret');
+      expect(seen).toContain('hi\r\n');
+      expect(seen).toContain(`${end}:0\r\n$ `);
+    });
+
+    it('should not track state in raw mode sessions', () => {
+      const session = new PersistentSession('id', 'host', 'user', 'interactive', {} as any, 22, 'raw');
+      const written: string[] = [];
+      (session as any).shell = { write: vi.fn((data: string) => written.push(data)) };
+
+      (session as any).startResync(false);
+
+      expect(written[0].trim().split('\n')).toHaveLength(1);
+      expect(written[0]).not.toContain('env');
+      expect(session.getScreen().lines.join('\n')).not.toContain('_STATE');
+    });
+
+    it('should not track state in background sessions', () => {
+      const session = new PersistentSession('id', 'host', 'user', 'background', {} as any);
+      const written: string[] = [];
+      (session as any).shell = { write: vi.fn((data: string) => written.push(data)) };
+
+      (session as any).startResync(false);
+
+      // Only the sync command, no state command before it
+      expect(written[0].trim().split('\n')).toHaveLength(1);
+    });
+  });
+
+  describe('Setup', () => {
+    let session: PersistentSession;
+    let written: string[];
+
+    beforeEach(() => {
+      session = new PersistentSession('id', 'host', 'user', 'background', {} as any, 22, 'raw');
+      written = [];
+      (session as any).isInitialized = true;
+      (session as any).shell = { write: vi.fn((data: string) => written.push(data)) };
+      (session as any).sessionInfo.isActive = true;
+    });
+
+    /**
+     * Wait for the next wrapped command and answer it as the shell would
+     */
+    async function answer(index: number, code: number, stderr = ''): Promise<void> {
+      await vi.waitFor(() => expect(written).toHaveLength(index + 1));
+      const [start, stderrDelimiter, end] = ['START', 'ERR', 'END']
+        .map((kind) => new RegExp(`echo "(\\S+_${kind}_[^":]+)`).exec(written[index])![1]);
+      (session as any).handleShellOutput(`${start}\n${stderrDelimiter}\n${stderr}\n${end}:${code}\n`);
+    }
+
+    it('should change directory, export variables and run init commands in order, awaiting each', async () => {
+      const setup = session.runSetup('/srv/app', { APP_ENV: "it's" }, ['source venv/bin/activate']);
+      await answer(0, 0);
+      await answer(1, 0);
+      await answer(2, 0);
+      await setup;
+
+      expect(written[0]).toContain("cd '/srv/app'");
+      expect(written[1]).toContain("export APP_ENV='it'\\''s'");
+      expect(written[2]).toContain('source venv/bin/activate');
+    });
+
+    it('should stop at the first step that fails', async () => {
+      const setup = session.runSetup(undefined, {}, ['source missing/bin/activate', 'umask 027']);
+      const failed = expect(setup).rejects.toThrow(
+        'Session setup failed: `source missing/bin/activate` exited with code 1: No such file or directory'
+      );
+      await answer(0, 1, 'No such file or directory');
+      await failed;
+
+      expect(written).toHaveLength(1);
+    });
+
+    it('should redact secret values in the history and audit log but send them to the shell', async () => {
+      const logEvent = vi.fn();
+      session.setAuditLogger({ logEvent } as any);
+      const setup = session.runSetup(undefined, { API_TOKEN: 's3cr3t', APP_ENV: 'dev' }, []);
+      await answer(0, 0);
+      await answer(1, 0);
+      await setup;
+
+      expect(written[0]).toContain("export API_TOKEN='s3cr3t'");
+      expect(session.getSessionInfo().commandHistory).toEqual([
+        "export API_TOKEN='[REDACTED]'",
+        "export APP_ENV='dev'",
+      ]);
+      const logged = logEvent.mock.calls
+        .filter(([event]) => event === AuditEvent.COMMAND_EXECUTED)
+        .map(([, data]) => data.command);
+      expect(logged).toEqual(["export API_TOKEN='[REDACTED]'", "export APP_ENV='dev'"]);
+    });
+
+    it('should keep the echo of setup steps out of the buffered output of background sessions', async () => {
+      (session as any).handleShellOutput('Welcome to host\n');
+      const setup = session.runSetup(undefined, { API_TOKEN: 's3cr3t' }, []);
+      await vi.waitFor(() => expect(written).toHaveLength(1));
+      (session as any).handleShellOutput(written[0]);
+      await answer(0, 0);
+      await setup;
+      (session as any).handleShellOutput('$ ');
+
+      const output = session.getBufferedOutput().join('');
+      expect(output).not.toContain('s3cr3t');
+      expect(output).toBe('Welcome to host\n$ ');
+    });
+
+    it('should keep the echo of setup steps off the screen and out of output events', async () => {
+      const emitted: string[] = [];
+      session.on('output', (data: string) => emitted.push(data));
+      const setup = session.runSetup(undefined, { API_TOKEN: 's3cr3t' }, []);
+      await vi.waitFor(() => expect(written).toHaveLength(1));
+      (session as any).handleShellOutput(written[0]);
+      await answer(0, 0);
+      await setup;
+      (session as any).handleShellOutput('$ ');
+
+      expect(session.getScreen().lines.join('\n')).not.toContain('s3cr3t');
+      expect(session.getScreen().lines[0]).toBe('$');
+      expect(emitted.join('')).toBe('$ ');
+    });
+  });
 });
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { loadSSHConfig, parseSSHConfig, resolveSSHHost } from '../../src/ssh/ssh-config.js';
+import { SSHError } from '../../src/ssh/errors.js';
+
+/**
+ * Parse configuration lines and resolve one host
+ */
+async function resolve(lines: string[], alias: string, overrides?: { user?: string; port?: number }) {
+  return resolveSSHHost(await parseSSHConfig(lines.join('\n')), alias, overrides);
+}
+
+describe('ssh config', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ssh-config-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('resolveSSHHost', () => {
+    it('should resolve the settings of a Host alias', async () => {
+      const host = await resolve([
+        '# Production',
+        'Host prod',
+        '  HostName prod.example.com',
+        '  User deploy',
+        '  Port 2222',
+        '  ProxyJump bastion',
+      ], 'prod');
+
+      expect(host).toEqual({
+        alias: 'prod',
+        hostName: 'prod.example.com',
+        user: 'deploy',
+        port: 2222,
+        identityFiles: [],
+        certificateFiles: [],
+        proxyJump: 'bastion',
+        proxyCommand: undefined,
+      });
+    });
+
+    it('should fall back to the alias when nothing matches', async () => {
+      const host = await resolve(['Host prod', '  HostName prod.example.com'], 'staging.example.com');
+
+      expect(host.hostName).toBe('staging.example.com');
+      expect(host.user).toBeUndefined();
+      expect(host.port).toBeUndefined();
+    });
+
+    it('should keep the first value and accumulate identity files', async () => {
+      const host = await resolve([
+        'Host prod',
+        '  User deploy',
+        '  IdentityFile /keys/prod',
+        'Host *',
+        '  User nobody',
+        '  Port 2200',
+        '  IdentityFile /keys/default',
+      ], 'prod');
+
+      expect(host.user).toBe('deploy');
+      expect(host.port).toBe(2200);
+      expect(host.identityFiles).toEqual(['/keys/prod', '/keys/default']);
+    });
+
+    it('should match wildcards and honour negated patterns', async () => {
+      const lines = ['Host *.internal !db.internal', '  User ops', 'Host web?', '  Port 8022'];
+
+      expect((await resolve(lines, 'app.internal')).user).toBe('ops');
+      expect((await resolve(lines, 'db.internal')).user).toBeUndefined();
+      expect((await resolve(lines, 'web1')).port).toBe(8022);
+      expect((await resolve(lines, 'web10')).port).toBeUndefined();
+    });
+
+    it('should match Match host against the HostName resolved so far', async () => {
+      const lines = [
+        'Host prod',
+        '  HostName 10.1.2.3',
+        'Match host 10.1.*',
+        '  User lab',
+        'Match originalhost prod user admin',
+        '  Port 2022',
+        'Match !host 10.*',
+        '  User other',
+      ];
+
+      expect((await resolve(lines, 'prod')).user).toBe('lab');
+      expect((await resolve(lines, 'prod', { user: 'admin' })).port).toBe(2022);
+      expect((await resolve(lines, 'prod')).port).toBeUndefined();
+      expect((await resolve(lines, 'elsewhere')).user).toBe('other');
+    });
+
+    it('should never match unsupported Match criteria', async () => {
+      const host = await resolve(['Match exec "true"', '  User exec', 'Match all', '  User everyone'], 'prod');
+
+      expect(host.user).toBe('everyone');
+    });
+
+    it('should let explicit values win over the configuration', async () => {
+      const host = await resolve(['Host prod', '  User deploy', '  Port 2222'], 'prod', { user: 'admin', port: 22 });
+
+      expect(host.user).toBe('admin');
+      expect(host.port).toBe(22);
+    });
+
+    it('should accept key=value syntax and quoted arguments', async () => {
+      const host = await resolve(['Host "prod"', 'hostname=prod.example.com', 'IdentityFile "/keys/my key"'], 'prod');
+
+      expect(host.hostName).toBe('prod.example.com');
+      expect(host.identityFiles).toEqual(['/keys/my key']);
+    });
+
+    it('should expand tokens in HostName and IdentityFile', async () => {
+      const host = await resolve([
+        'Host *',
+        '  HostName %h.example.com',
+        '  User deploy',
+        '  IdentityFile ~/.ssh/%n-%r-%p',
+        '  IdentityFile %d/keys/%h',
+      ], 'web');
+
+      expect(host.hostName).toBe('web.example.com');
+      expect(host.identityFiles).toEqual([
+        path.join(os.homedir(), '.ssh/web-deploy-22'),
+        `${os.homedir()}/keys/web.example.com`,
+      ]);
+    });
+
+    it('should keep ProxyCommand as written and prefer the first proxy setting', async () => {
+      const lines = [
+        'Host prod',
+        '  ProxyCommand ssh -W %h:%p "jump host"',
+        'Host *',
+        '  ProxyJump bastion',
+      ];
+
+      const host = await resolve(lines, 'prod');
+
+      expect(host.proxyCommand).toBe('ssh -W %h:%p "jump host"');
+      expect(host.proxyJump).toBeUndefined();
+      expect((await resolve(lines, 'other')).proxyJump).toBe('bastion');
+    });
+
+    it('should treat none as no proxy', async () => {
+      const host = await resolve(['Host prod', '  ProxyJump none', 'Host *', '  ProxyJump bastion'], 'prod');
+
+      expect(host.proxyJump).toBeUndefined();
+    });
+
+    it('should throw SSHError for an invalid Port', async () => {
+      await expect(resolve(['Host prod', '  Port ssh'], 'prod')).rejects.toThrow(SSHError);
+      await expect(resolve(['Host prod', '  Port 70000'], 'prod')).rejects.toThrow('invalid Port "70000" for prod');
+    });
+  });
+
+  describe('parseSSHConfig', () => {
+    it('should throw SSHError for malformed lines', async () => {
+      await expect(parseSSHConfig('Host prod\n  = value')).rejects.toThrow(SSHError);
+      await expect(parseSSHConfig('Match host')).rejects.toThrow('Match host requires an argument');
+    });
+  });
+
+  describe('loadSSHConfig', () => {
+    it('should treat a missing file as an empty configuration', async () => {
+      const config = await loadSSHConfig(path.join(tmpDir, 'missing'));
+
+      expect(config.entries).toEqual([]);
+      expect(resolveSSHHost(config, 'prod').hostName).toBe('prod');
+    });
+
+    it('should follow Include globs relative to the configuration directory in sorted order', async () => {
+      await fs.mkdir(path.join(tmpDir, 'config.d'));
+      await fs.writeFile(path.join(tmpDir, 'config.d', '20-web'), 'Host web\n  User second\n  Port 2020\n');
+      await fs.writeFile(path.join(tmpDir, 'config.d', '10-web'), 'Host web\n  User first\n');
+      await fs.writeFile(path.join(tmpDir, 'config.d', '.hidden'), 'Host web\n  Port 1\n');
+      await fs.writeFile(path.join(tmpDir, 'config'), 'Include config.d/*\nHost web\n  HostName web.example.com\n');
+
+      const host = resolveSSHHost(await loadSSHConfig(path.join(tmpDir, 'config')), 'web');
+
+      expect(host).toMatchObject({ hostName: 'web.example.com', user: 'first', port: 2020 });
+    });
+
+    it('should apply an Include inside a Host block only to that block', async () => {
+      await fs.writeFile(path.join(tmpDir, 'prod.conf'), 'User deploy\nHost *\n  Port 2222\n');
+      await fs.writeFile(path.join(tmpDir, 'config'), `Host prod\n  Include ${path.join(tmpDir, 'prod.conf')}\n`);
+      const config = await loadSSHConfig(path.join(tmpDir, 'config'));
+
+      expect(resolveSSHHost(config, 'prod')).toMatchObject({ user: 'deploy', port: 2222 });
+      expect(resolveSSHHost(config, 'other')).toMatchObject({ user: undefined, port: undefined });
+    });
+
+    it('should throw SSHError for recursive Include', async () => {
+      await fs.writeFile(path.join(tmpDir, 'config'), 'Include config\n');
+
+      await expect(loadSSHConfig(path.join(tmpDir, 'config'))).rejects.toThrow('Include nested too deeply');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { VirtualTerminal, diffScreens } from '../../src/ssh/terminal.js';
+import { SSHError } from '../../src/ssh/errors.js';
+
+describe('terminal', () => {
+  describe('VirtualTerminal', () => {
+    it('should start blank with the cursor home', () => {
+      const terminal = new VirtualTerminal(3, 10);
+
+      expect(terminal.snapshot()).toEqual({
+        lines: ['', '', ''],
+        rows: 3,
+        cols: 10,
+        cursor: { row: 0, col: 0 },
+        cursorVisible: true,
+        alternateScreen: false,
+      });
+    });
+
+    it('should print text with carriage returns, line feeds, backspaces and tabs', () => {
+      const terminal = new VirtualTerminal(3, 20);
+      terminal.write('$ ls\r\nfoo\tbar\r\nabc\bX');
+
+      const snapshot = terminal.snapshot();
+      expect(snapshot.lines).toEqual(['$ ls', 'foo     bar', 'abX']);
+      expect(snapshot.cursor).toEqual({ row: 2, col: 3 });
+    });
+
+    it('should wrap at the right margin and scroll at the bottom', () => {
+      const terminal = new VirtualTerminal(2, 4);
+      terminal.write('abcd');
+      expect(terminal.snapshot().cursor).toEqual({ row: 0, col: 3 });
+
+      terminal.write('efgh\r\nij');
+      expect(terminal.snapshot().lines).toEqual(['efgh', 'ij']);
+    });
+
+    it('should move the cursor and erase', () => {
+      const terminal = new VirtualTerminal(3, 10);
+      terminal.write('111111\r\n222222\r\n333333');
+      terminal.write('\x1b[2;3H\x1b[K');
+      terminal.write('\x1b[1;1H\x1b[2C\x1b[2P');
+      terminal.write('\x1b[3;2H\x1b[1K');
+
+      const snapshot = terminal.snapshot();
+      expect(snapshot.lines).toEqual(['1111', '22', '  3333']);
+      expect(snapshot.cursor).toEqual({ row: 2, col: 1 });
+
+      terminal.write('\x1b[2J');
+      expect(terminal.snapshot().lines).toEqual(['', '', '']);
+    });
+
+    it('should insert and delete lines within the scroll region', () => {
+      const terminal = new VirtualTerminal(4, 10);
+      terminal.write('a\r\nb\r\nc\r\nd');
+      terminal.write('\x1b[2;3r\x1b[2;1H\x1b[L');
+      expect(terminal.snapshot().lines).toEqual(['a', '', 'b', 'd']);
+
+      terminal.write('\x1b[M\x1b[3;1H\n');
+      expect(terminal.snapshot().lines).toEqual(['a', '', '', 'd']);
+    });
+
+    it('should switch to the alternate screen and restore the main screen and cursor', () => {
+      const terminal = new VirtualTerminal(3, 10);
+      terminal.write('$ vim\r\n');
+      terminal.write('\x1b[?1049h\x1b[H\x1b[2J~\r\n~\x1b[?25l');
+
+      let snapshot = terminal.snapshot();
+      expect(snapshot.lines).toEqual(['~', '~', '']);
+      expect(snapshot.alternateScreen).toBe(true);
+      expect(snapshot.cursorVisible).toBe(false);
+
+      terminal.write('\x1b[?1049l\x1b[?25h');
+      snapshot = terminal.snapshot();
+      expect(snapshot.lines).toEqual(['$ vim', '', '']);
+      expect(snapshot.cursor).toEqual({ row: 1, col: 0 });
+      expect(snapshot.alternateScreen).toBe(false);
+    });
+
+    it('should ignore attributes and titles, and handle sequences split across writes', () => {
+      const terminal = new VirtualTerminal(2, 20);
+      terminal.write('\x1b]0;user@host\x07\x1b[1;3');
+      terminal.write('1mred\x1b[0m \x1b(0lqk\x1b(B');
+
+      expect(terminal.snapshot().lines[0]).toBe('red ┌─┐');
+    });
+
+    it('should resize keeping the top left of the screen', () => {
+      const terminal = new VirtualTerminal(3, 10);
+      terminal.write('abcdefgh\r\n12\r\nxyz');
+      terminal.resize(2, 4);
+
+      const snapshot = terminal.snapshot();
+      expect(snapshot.lines).toEqual(['abcd', '12']);
+      expect(snapshot.cursor).toEqual({ row: 1, col: 3 });
+      expect(() => terminal.resize(0, 10)).toThrow(SSHError);
+    });
+  });
+
+  describe('diffScreens', () => {
+    it('should return the changed rows with their new text', () => {
+      expect(diffScreens(['a', 'b', 'c'], ['a', 'B', 'c'])).toEqual([{ row: 1, line: 'B' }]);
+      expect(diffScreens([], ['a', '', 'c'])).toEqual([
+        { row: 0, line: 'a' },
+        { row: 2, line: 'c' },
+      ]);
+    });
+  });
+});